@@ -1,13 +1,15 @@
 "use server";
 
 import { auth } from "@clerk/nextjs/server";
-import { apiKeyService } from "@repo/api-keys";
+import { apiKeyService, type ApiKeyPermissions } from "@repo/api-keys";
 import { revalidatePath } from "next/cache";
 
-export async function createApiKey(data: {
-  name: string;
-  environment: "test" | "production";
-}) {
+export async function createApiKey(
+  data: {
+    name: string;
+    environment: "test" | "production";
+  } & Partial<ApiKeyPermissions>,
+) {
   const { orgId } = await auth();
 
   if (!orgId) {
@@ -22,6 +24,12 @@ export async function createApiKey(data: {
       orgId,
       data.environment,
       data.name,
+      {
+        scopes: data.scopes,
+        allowedModels: data.allowedModels,
+        monthlyActionLimit: data.monthlyActionLimit,
+        allowedIps: data.allowedIps,
+      },
     );
 
     // Revalidate the API keys page to show the new key
@@ -35,7 +43,10 @@ export async function createApiKey(data: {
     console.error("Error creating API key:", error);
     return {
       success: false,
-      error: "Failed to create API key. Please try again.",
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to create API key. Please try again.",
     };
   }
 }
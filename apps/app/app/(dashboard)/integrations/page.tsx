@@ -1,5 +1,6 @@
 import { PageWrapper } from "@/components/page-wrapper";
 import { IntegrationsContent } from "@/features/integrations";
+import { fontService } from "@/features/integrations/font-service";
 import { auth } from "@clerk/nextjs/server";
 import { providerKeyService, storageIntegrationService } from "@repo/api-keys";
 import type { Metadata } from "next";
@@ -26,9 +27,10 @@ export default async function IntegrationsPage() {
     );
   }
 
-  const [keys, storageIntegration] = await Promise.all([
+  const [keys, storageIntegration, fonts] = await Promise.all([
     providerKeyService.listProviderKeys(orgId),
     storageIntegrationService.getStorageIntegration(orgId),
+    fontService.listFonts(orgId),
   ]);
 
   return (
@@ -36,6 +38,7 @@ export default async function IntegrationsPage() {
       <IntegrationsContent
         keys={keys}
         storageIntegration={storageIntegration}
+        fonts={fonts}
       />
     </PageWrapper>
   );
@@ -10,12 +10,15 @@ import {
   CardRootText,
   CardRootTitle,
 } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { InputForm } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { TextareaForm } from "@/components/ui/textarea";
 import { Form, Formik } from "formik";
 import * as Yup from "yup";
 import { createApiKey } from "@/app/(dashboard)/api-keys/actions";
+import type { ApiKeyScope } from "@repo/api-keys";
 import { useState } from "react";
 import { Check, Copy } from "lucide-react";
 
@@ -24,13 +27,66 @@ interface CreateApiKeyDialogProps {
   onOpenChange: (open: boolean) => void;
 }
 
+const SCOPE_OPTIONS: Array<{
+  scope: ApiKeyScope;
+  label: string;
+  description: string;
+}> = [
+  {
+    scope: "admin",
+    label: "Full access",
+    description: "Every permission below",
+  },
+  {
+    scope: "executions:write",
+    label: "Run executions",
+    description: "Create, validate and cancel executions",
+  },
+  {
+    scope: "executions:read",
+    label: "Read executions",
+    description: "Status and events of the organization's executions",
+  },
+  {
+    scope: "models:video",
+    label: "Video models",
+    description: "Generate, lip-sync and remove video backgrounds",
+  },
+  {
+    scope: "models:image",
+    label: "Image models",
+    description: "Generate images and remove image backgrounds",
+  },
+  {
+    scope: "models:audio",
+    label: "Audio models",
+    description: "Generate speech and audio",
+  },
+  {
+    scope: "models:transcript",
+    label: "Transcription models",
+    description: "Transcribe audio, e.g. for captions",
+  },
+];
+
 const validationSchema = Yup.object({
   name: Yup.string().required("Name is required"),
   environment: Yup.string()
     .oneOf(["test", "production"], "Invalid environment")
     .required("Environment is required"),
+  scopes: Yup.array().of(Yup.string()).min(1, "Select at least one permission"),
+  monthlyActionLimit: Yup.number()
+    .transform((value, original) => (original === "" ? undefined : value))
+    .typeError("Enter a number of actions")
+    .integer("Enter a whole number of actions")
+    .positive("Enter a positive number of actions"),
 });
 
+// Models and IPs can be separated by commas, spaces or new lines
+function parseList(value: string): string[] {
+  return value.split(/[\s,]+/).filter(Boolean);
+}
+
 export function CreateApiKeyDialog({
   open,
   onOpenChange,
@@ -61,12 +117,25 @@ export function CreateApiKeyDialog({
           initialValues={{
             name: "",
             environment: "test" as "test" | "production",
+            scopes: ["admin"] as ApiKeyScope[],
+            allowedModels: "",
+            monthlyActionLimit: "",
+            allowedIps: "",
           }}
           validationSchema={validationSchema}
-          onSubmit={async (values, { setSubmitting, resetForm }) => {
+          onSubmit={async (values, { setSubmitting }) => {
             try {
               setError(null);
-              const result = await createApiKey(values);
+              const result = await createApiKey({
+                name: values.name,
+                environment: values.environment,
+                scopes: values.scopes,
+                allowedModels: parseList(values.allowedModels),
+                monthlyActionLimit: values.monthlyActionLimit
+                  ? Number(values.monthlyActionLimit)
+                  : null,
+                allowedIps: parseList(values.allowedIps),
+              });
 
               if (result.success && result.data) {
                 setGeneratedKey(result.data.apiKey);
@@ -81,7 +150,14 @@ export function CreateApiKeyDialog({
             }
           }}
         >
-          {({ isSubmitting, resetForm, handleSubmit }) => (
+          {({
+            isSubmitting,
+            resetForm,
+            handleSubmit,
+            values,
+            errors,
+            setFieldValue,
+          }) => (
             <CardRoot spacing="none" className="p-0">
               <CardRootHeader>
                 <CardRootTitle>
@@ -134,6 +210,114 @@ export function CreateApiKeyDialog({
                             placeholder="My API Key"
                             autoComplete="off"
                           />
+                          {errors.name && (
+                            <p className="text-sm text-destructive mt-1">
+                              {errors.name}
+                            </p>
+                          )}
+                        </div>
+
+                        <div>
+                          <Label>Permissions</Label>
+                          <div className="space-y-2 mt-2">
+                            {SCOPE_OPTIONS.map(
+                              ({ scope, label, description }) => {
+                                const fullAccess =
+                                  values.scopes.includes("admin");
+                                return (
+                                  <label
+                                    key={scope}
+                                    className="flex items-start gap-2 text-sm"
+                                  >
+                                    <Checkbox
+                                      className="mt-0.5"
+                                      checked={
+                                        values.scopes.includes(scope) ||
+                                        (fullAccess && scope !== "admin")
+                                      }
+                                      disabled={fullAccess && scope !== "admin"}
+                                      onCheckedChange={(checked) =>
+                                        setFieldValue(
+                                          "scopes",
+                                          checked
+                                            ? [...values.scopes, scope]
+                                            : values.scopes.filter(
+                                                (s) => s !== scope,
+                                              ),
+                                        )
+                                      }
+                                    />
+                                    <span>
+                                      <span className="font-medium">
+                                        {label}
+                                      </span>
+                                      <span className="block text-secondary">
+                                        {description}
+                                      </span>
+                                    </span>
+                                  </label>
+                                );
+                              },
+                            )}
+                          </div>
+                          {errors.scopes && (
+                            <p className="text-sm text-destructive mt-1">
+                              {String(errors.scopes)}
+                            </p>
+                          )}
+                        </div>
+
+                        <div>
+                          <Label htmlFor="allowedModels">
+                            Allowed models (optional)
+                          </Label>
+                          <TextareaForm
+                            name="allowedModels"
+                            placeholder="bytedance/seedance-1-pro"
+                            rows={2}
+                          />
+                          <p className="text-sm text-secondary mt-1">
+                            Model IDs, one per line. Leave empty to allow every
+                            model the permissions cover.
+                          </p>
+                        </div>
+
+                        <div>
+                          <Label htmlFor="monthlyActionLimit">
+                            Monthly action limit (optional)
+                          </Label>
+                          <InputForm
+                            name="monthlyActionLimit"
+                            type="number"
+                            min={1}
+                            placeholder="No limit"
+                            autoComplete="off"
+                          />
+                          {errors.monthlyActionLimit ? (
+                            <p className="text-sm text-destructive mt-1">
+                              {errors.monthlyActionLimit}
+                            </p>
+                          ) : (
+                            <p className="text-sm text-secondary mt-1">
+                              Actions this key can use per billing period. Your
+                              plan&apos;s limit still applies.
+                            </p>
+                          )}
+                        </div>
+
+                        <div>
+                          <Label htmlFor="allowedIps">
+                            IP allowlist (optional)
+                          </Label>
+                          <TextareaForm
+                            name="allowedIps"
+                            placeholder={"203.0.113.7\n10.0.0.0/8"}
+                            rows={2}
+                          />
+                          <p className="text-sm text-secondary mt-1">
+                            IP addresses or CIDR ranges, one per line. Leave
+                            empty to allow requests from anywhere.
+                          </p>
                         </div>
                       </div>
                     </Form>
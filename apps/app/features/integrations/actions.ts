@@ -3,6 +3,7 @@
 import { auth } from "@clerk/nextjs/server";
 import { providerKeyService, storageIntegrationService } from "@repo/api-keys";
 import { revalidatePath } from "next/cache";
+import { fontService } from "./font-service";
 
 export async function updateProviderKey(params: {
   provider: "replicate" | "fal" | "google-cloud" | "hume" | "elevenlabs";
@@ -60,3 +61,45 @@ export async function deleteStorageIntegration() {
 
   revalidatePath("/integrations");
 }
+
+export async function uploadFont(
+  formData: FormData,
+): Promise<{ error?: string }> {
+  const { orgId } = await auth();
+  if (!orgId) throw new Error("Unauthorized");
+
+  const file = formData.get("font");
+  if (!(file instanceof File)) {
+    return { error: "Choose a font file to upload" };
+  }
+
+  try {
+    await fontService.addFont({
+      organizationId: orgId,
+      fileName: file.name,
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+  } catch (error) {
+    // Validation messages (not a font, duplicate family) are shown in the UI
+    return {
+      error: error instanceof Error ? error.message : "Failed to upload font",
+    };
+  }
+
+  revalidatePath("/integrations");
+  return {};
+}
+
+export async function deleteFont(fontId: string): Promise<{ error?: string }> {
+  const { orgId } = await auth();
+  if (!orgId) throw new Error("Unauthorized");
+
+  try {
+    await fontService.deleteFont(orgId, fontId);
+  } catch {
+    return { error: "Failed to remove font" };
+  }
+
+  revalidatePath("/integrations");
+  return {};
+}
@@ -0,0 +1,5 @@
+import { FontService } from "@repo/api-keys";
+import { storage } from "@repo/storage";
+
+// Font files are kept in the default storage bucket
+export const fontService = new FontService(storage);
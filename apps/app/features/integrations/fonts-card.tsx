@@ -0,0 +1,161 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardRoot } from "@/components/ui/card";
+import {
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableHeadRow,
+  TableRow,
+} from "@/components/ui/table";
+import { Type } from "lucide-react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { deleteFont, uploadFont } from "./actions";
+
+interface OrganizationFontInfo {
+  id: string;
+  family: string;
+  fileName: string;
+  format: "ttf" | "otf";
+  sizeBytes: number;
+  createdAt: Date;
+}
+
+function formatSize(bytes: number) {
+  return bytes < 1024 * 1024
+    ? `${Math.round(bytes / 1024)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function FontsCard({ fonts }: { fonts: OrganizationFontInfo[] }) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("font", file);
+      const result = await uploadFont(formData);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Font uploaded successfully");
+      window.location.reload();
+    } catch {
+      toast.error("Failed to upload font");
+    } finally {
+      setIsUploading(false);
+      if (inputRef.current) {
+        inputRef.current.value = "";
+      }
+    }
+  };
+
+  const handleDelete = async (font: OrganizationFontInfo) => {
+    if (
+      !confirm(
+        `Are you sure you want to remove ${font.family}? Executions that use this font will fail validation.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const result = await deleteFont(font.id);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Font removed successfully");
+      window.location.reload();
+    } catch {
+      toast.error("Failed to remove font");
+    }
+  };
+
+  return (
+    <>
+      <CardRoot>
+        <table className="w-full table-fixed">
+          <TableHeader>
+            <TableHeadRow>
+              <TableHead>Family</TableHead>
+              <TableHead>Font ID</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead className="w-[200px]"></TableHead>
+            </TableHeadRow>
+          </TableHeader>
+          <Card asChild>
+            <TableBody className="bg-transparent">
+              {fonts.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-muted-foreground">
+                    No fonts uploaded. Upload a .ttf or .otf file to use it in
+                    captions and text layers.
+                  </TableCell>
+                </TableRow>
+              )}
+              {fonts.map((font) => (
+                <TableRow key={font.id} className="group/row relative">
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-3">
+                      <Type className="h-5 w-5" />
+                      {font.family}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm text-secondary">
+                    {font.id}
+                  </TableCell>
+                  <TableCell className="text-sm text-secondary">
+                    {font.fileName}{" "}
+                    <span className="text-muted-foreground">
+                      ({formatSize(font.sizeBytes)})
+                    </span>
+                  </TableCell>
+                  <TableCell className="w-[200px] max-w-[200px]">
+                    <div className="flex justify-end gap-2 max-w-[200px] flex-none">
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => handleDelete(font)}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Card>
+        </table>
+      </CardRoot>
+
+      <div className="mt-4">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".ttf,.otf,font/ttf,font/otf"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) handleUpload(file);
+          }}
+        />
+        <Button
+          size="sm"
+          variant="secondary"
+          isLoading={isUploading}
+          disabled={isUploading}
+          onClick={() => inputRef.current?.click()}
+        >
+          Upload Font
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -3,4 +3,5 @@ export { IntegrationsTable } from "./integrations-table";
 export { UpdateProviderKeyDialog } from "./update-provider-key-dialog";
 export { UpdateStorageIntegrationDialog } from "./update-storage-integration-dialog";
 export { StorageIntegrationCard } from "./storage-integration-card";
+export { FontsCard } from "./fonts-card";
 export * from "./actions";
@@ -1,5 +1,6 @@
 "use client";
 
+import { FontsCard } from "./fonts-card";
 import { IntegrationsTable } from "./integrations-table";
 import { StorageIntegrationCard } from "./storage-integration-card";
 
@@ -26,12 +27,23 @@ interface StorageIntegrationInfo {
   updatedAt: Date;
 }
 
+interface OrganizationFontInfo {
+  id: string;
+  family: string;
+  fileName: string;
+  format: "ttf" | "otf";
+  sizeBytes: number;
+  createdAt: Date;
+}
+
 export function IntegrationsContent({
   keys,
   storageIntegration,
+  fonts,
 }: {
   keys: ProviderKey[];
   storageIntegration: StorageIntegrationInfo | null;
+  fonts: OrganizationFontInfo[];
 }) {
   return (
     <>
@@ -57,6 +69,15 @@ export function IntegrationsContent({
           <h2 className="text-lg font-medium text-primary mb-4">Storage</h2>
           <StorageIntegrationCard storageIntegration={storageIntegration} />
         </section>
+
+        <section>
+          <h2 className="text-lg font-medium text-primary mb-2">Fonts</h2>
+          <p className="text-[14px] text-secondary mb-4">
+            Upload fonts to use in captions and text layers. Reference a font by
+            its ID with the <code>fontId</code> style option.
+          </p>
+          <FontsCard fonts={fonts} />
+        </section>
       </div>
     </>
   );
@@ -62,6 +62,26 @@ export function ExecutionJobSheet({
                 <span className="text-sm text-secondary">Current:</span>
                 <StatusBadge status={job.status} />
               </div>
+              {job.provider && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-secondary">Provider:</span>
+                  <span className="text-primary">{job.provider}</span>
+                </div>
+              )}
+              {job.attempt > 1 && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-secondary">Attempt:</span>
+                  <span className="text-primary">{job.attempt}</span>
+                </div>
+              )}
+              {job.cachedFromJobId && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-secondary">Served from cache:</span>
+                  <code className="text-xs bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded">
+                    {job.cachedFromJobId}
+                  </code>
+                </div>
+              )}
               {job.providerJobId && (
                 <>
                   <div className="flex items-center gap-2 text-sm">
@@ -157,6 +177,48 @@ export function ExecutionJobSheet({
             </>
           )}
 
+          {/* Attempts Section */}
+          {job.attemptHistory && job.attemptHistory.length > 0 && (
+            <>
+              <section>
+                <h3 className="text-sm font-medium text-primary mb-3">
+                  Failed Attempts
+                </h3>
+                <div className="space-y-3">
+                  {job.attemptHistory.map((attempt) => (
+                    <div
+                      key={attempt.attempt}
+                      className="border border-gray-200 dark:border-gray-800 p-3 rounded-lg space-y-1 text-sm"
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-primary font-medium">
+                          Attempt {attempt.attempt}
+                        </span>
+                        <code className="text-xs bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded">
+                          {attempt.errorClass}
+                        </code>
+                        {attempt.provider && (
+                          <span className="text-secondary text-xs">
+                            on {attempt.provider}
+                          </span>
+                        )}
+                      </div>
+                      <pre className="text-xs text-red-800 dark:text-red-200 whitespace-pre-wrap">
+                        {attempt.error}
+                      </pre>
+                      <div className="text-secondary text-xs font-mono">
+                        Failed {formatDate(new Date(attempt.failedAt))}
+                        {attempt.retryAt &&
+                          ` · retried ${formatDate(new Date(attempt.retryAt))}`}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+              <Separator />
+            </>
+          )}
+
           {/* Timestamps Section */}
           <section>
             <h3 className="text-sm font-medium text-primary mb-3">
@@ -9,6 +9,7 @@ export type {
   Execution,
   ExecutionJob,
   ExecutionStatus,
+  JobAttempt,
   JobStatus,
 } from "./types";
 
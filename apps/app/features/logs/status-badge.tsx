@@ -19,6 +19,10 @@ const statusConfig = {
     label: "Waiting",
     className: "text-yellow-600 dark:text-yellow-300",
   },
+  throttled: {
+    label: "Throttled",
+    className: "text-yellow-600 dark:text-yellow-300",
+  },
   completed: {
     label: "Completed",
     className: "text-secondary dark:text-secondary",
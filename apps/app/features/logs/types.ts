@@ -12,11 +12,26 @@ export interface ExecutionJob {
   createdAt: Date;
   startedAt: Date | null;
   completedAt: Date | null;
+  provider: string | null;
   providerJobId: string | null;
   providerJobStatus: string | null;
   waitingStrategy: "webhook" | "polling" | null;
   nextPollAt: Date | null;
   pollAttempts: number | null;
+  cachedFromJobId: string | null;
+  attempt: number;
+  attemptHistory: JobAttempt[] | null;
+}
+
+export interface JobAttempt {
+  attempt: number;
+  error: string;
+  errorClass: string;
+  provider?: string | null;
+  providerJobId?: string | null;
+  startedAt?: string | null;
+  failedAt: string;
+  retryAt?: string;
 }
 
 export interface Execution {
@@ -46,6 +61,7 @@ export type JobStatus =
   | "pending"
   | "in_progress"
   | "waiting"
+  | "throttled" // Waiting for a free concurrency slot of the organization
   | "completed"
   | "failed"
   | "cancelled";
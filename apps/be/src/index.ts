@@ -1,11 +1,17 @@
+import { configureLogger, logger } from "@repo/logger";
 import { Hono } from "hono";
+import { requestContextMiddleware } from "./middleware";
 import { adminRouter } from "./routes/admin";
 import { executeRouter } from "./routes/execute";
 import { webhooksRouter } from "./routes/webhooks";
 import { getOrchestrator } from "./services/execution-orchestrator";
 
+configureLogger({ service: "be" });
+
 const app = new Hono();
 
+app.use("*", requestContextMiddleware);
+
 app.get("/", (c) => {
   return c.text("Hello Hono!");
 });
@@ -19,7 +25,7 @@ app.route("/api/admin", adminRouter);
 const isDevelopment = Bun.env.NODE_ENV === "development" || !Bun.env.NODE_ENV;
 
 if (isDevelopment) {
-  console.log("🔧 Development mode: Registering test and debug endpoints");
+  logger.info("🔧 Development mode: Registering test and debug endpoints");
 
   // Debug endpoint to manually trigger dependent jobs check
   app.post("/api/debug/check-dependent-jobs/:executionId/:jobId", async (c) => {
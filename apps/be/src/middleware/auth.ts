@@ -1,10 +1,20 @@
 import { Context, Next } from "hono";
-import { apiKeyService } from "@repo/api-keys";
+import { getConnInfo } from "hono/bun";
+import {
+  apiKeyService,
+  hasScope,
+  isIpAllowed,
+  type ApiKeyScope,
+} from "@repo/api-keys";
+import { logger, runWithLogContext } from "@repo/logger";
 
 export interface AuthContext {
   organizationId: string;
   apiKeyId: string;
   environment: "test" | "production";
+  scopes: ApiKeyScope[];
+  allowedModels: string[] | null;
+  monthlyActionLimit: number | null;
 }
 
 /**
@@ -25,9 +35,10 @@ export async function authMiddleware(c: Context, next: Next) {
   }
 
   const apiKey = authHeader.replace("Bearer ", "");
+  const ip = getClientIp(c);
 
   try {
-    const validatedKey = await apiKeyService.validateApiKey(apiKey);
+    const validatedKey = await apiKeyService.validateApiKey(apiKey, ip);
 
     if (!validatedKey) {
       return c.json(
@@ -39,16 +50,33 @@ export async function authMiddleware(c: Context, next: Next) {
       );
     }
 
+    if (!isIpAllowed(ip, validatedKey.allowedIps)) {
+      return c.json(
+        {
+          error: "Forbidden",
+          message: `Requests from ${ip || "an unknown IP"} are not allowed for this API key`,
+          code: "IP_NOT_ALLOWED",
+        },
+        403,
+      );
+    }
+
     // Attach auth context to request
     c.set("auth", {
       organizationId: validatedKey.organizationId,
       apiKeyId: validatedKey.id,
       environment: validatedKey.environment,
+      scopes: validatedKey.scopes,
+      allowedModels: validatedKey.allowedModels,
+      monthlyActionLimit: validatedKey.monthlyActionLimit,
     } as AuthContext);
 
-    await next();
+    await runWithLogContext(
+      { organizationId: validatedKey.organizationId },
+      next,
+    );
   } catch (error) {
-    console.error("[AuthMiddleware] Error validating API key:", error);
+    logger.error("[AuthMiddleware] Error validating API key:", error);
     return c.json(
       {
         error: "Internal Server Error",
@@ -70,3 +98,45 @@ export function getAuthContext(c: Context): AuthContext {
   }
   return auth;
 }
+
+/**
+ * Middleware to reject requests whose API key lacks a scope.
+ * Must be used after authMiddleware.
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return async (c: Context, next: Next) => {
+    if (!hasScope(getAuthContext(c).scopes, scope)) {
+      return c.json(
+        {
+          error: "Forbidden",
+          message: `This API key is missing the "${scope}" scope`,
+          code: "MISSING_SCOPE",
+        },
+        403,
+      );
+    }
+
+    await next();
+  };
+}
+
+/**
+ * IP address a request comes from. X-Forwarded-For is only trusted when
+ * TRUSTED_PROXY_HOPS says how many proxies (e.g. 1 for the load balancer)
+ * append to it: the client is the entry that many from the end, since
+ * anything before it can be spoofed. Otherwise the socket address is used.
+ */
+function getClientIp(c: Context): string | undefined {
+  const proxyHops = Number(process.env.TRUSTED_PROXY_HOPS || 0);
+  if (proxyHops > 0) {
+    const forwardedFor = c.req.header("X-Forwarded-For")?.split(",") ?? [];
+    return forwardedFor[forwardedFor.length - proxyHops]?.trim() || undefined;
+  }
+
+  try {
+    return getConnInfo(c).remote.address;
+  } catch {
+    // Not served by Bun.serve (e.g. app.request in scripts)
+    return undefined;
+  }
+}
@@ -1,3 +1,4 @@
-export { authMiddleware, getAuthContext } from "./auth";
+export { authMiddleware, getAuthContext, requireScope } from "./auth";
 export type { AuthContext } from "./auth";
 export { isOverage, rateLimitMiddleware } from "./rate-limiter";
+export { requestContextMiddleware } from "./request-context";
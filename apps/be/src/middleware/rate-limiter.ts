@@ -1,6 +1,7 @@
-import { checkUsageAllowed } from "@repo/db";
+import { checkApiKeyUsageAllowed, checkUsageAllowed } from "@repo/db";
 import { Context, Next } from "hono";
 import { getAuthContext } from "./auth";
+import { logger } from "@repo/logger";
 
 /**
  * Middleware to check if organization has remaining usage allowance.
@@ -9,6 +10,7 @@ import { getAuthContext } from "./auth";
  * Blocks requests if:
  * - Free plan has reached monthly limit (hard block)
  * - Pro plan has reached limit and overage is not allowed
+ * - The API key has reached its own monthly action limit
  *
  * Allows through if:
  * - Within monthly limit
@@ -29,22 +31,43 @@ export async function rateLimitMiddleware(c: Context, next: Next) {
             usageCheck.reason || "You have exceeded your monthly action limit",
           code: "RATE_LIMIT_EXCEEDED",
         },
-        429
+        429,
       );
     }
 
+    if (auth.monthlyActionLimit !== null) {
+      const keyUsageCheck = await checkApiKeyUsageAllowed(
+        auth.organizationId,
+        auth.apiKeyId,
+        auth.monthlyActionLimit,
+      );
+
+      if (!keyUsageCheck.allowed) {
+        return c.json(
+          {
+            error: "Rate Limit Exceeded",
+            message:
+              keyUsageCheck.reason ||
+              "This API key has exceeded its monthly action limit",
+            code: "API_KEY_LIMIT_EXCEEDED",
+          },
+          429,
+        );
+      }
+    }
+
     // Attach overage status to context for usage logging
     c.set("isOverage", usageCheck.isOverage);
 
     await next();
   } catch (error) {
-    console.error("[RateLimitMiddleware] Error checking usage:", error);
+    logger.error("[RateLimitMiddleware] Error checking usage:", error);
     return c.json(
       {
         error: "Internal Server Error",
         message: "Failed to check usage limits",
       },
-      500
+      500,
     );
   }
 }
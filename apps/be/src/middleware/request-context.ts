@@ -0,0 +1,14 @@
+import { Context, Next } from "hono";
+import { runWithLogContext } from "@repo/logger";
+
+/**
+ * Middleware to tag every log line written while handling a request with a
+ * request id. Uses the caller's X-Request-Id when there is one, and echoes
+ * the id back so a response can be matched to its logs.
+ */
+export async function requestContextMiddleware(c: Context, next: Next) {
+  const requestId = c.req.header("X-Request-Id") || crypto.randomUUID();
+  c.header("X-Request-Id", requestId);
+
+  await runWithLogContext({ requestId }, next);
+}
@@ -7,6 +7,7 @@ import {
   getUsageHistory,
   getUsageByActionType,
 } from "@repo/db";
+import { logger } from "@repo/logger";
 
 const adminRouter = new Hono();
 
@@ -137,7 +138,7 @@ adminRouter.post("/setup-org", async (c) => {
   }'`,
     });
   } catch (error) {
-    console.error("[AdminRouter] Error setting up organization:", error);
+    logger.error("[AdminRouter] Error setting up organization:", error);
     return c.json(
       {
         error: error instanceof Error ? error.message : "Unknown error",
@@ -228,7 +229,7 @@ adminRouter.get("/usage/:organizationId", async (c) => {
       })),
     });
   } catch (error) {
-    console.error("[AdminRouter] Error fetching usage:", error);
+    logger.error("[AdminRouter] Error fetching usage:", error);
     return c.json(
       {
         error: error instanceof Error ? error.message : "Unknown error",
@@ -263,7 +264,7 @@ adminRouter.get("/list-keys/:organizationId", async (c) => {
       })),
     });
   } catch (error) {
-    console.error("[AdminRouter] Error listing keys:", error);
+    logger.error("[AdminRouter] Error listing keys:", error);
     return c.json(
       {
         error: error instanceof Error ? error.message : "Unknown error",
@@ -299,7 +300,7 @@ adminRouter.post("/revoke-key", async (c) => {
       keyId,
     });
   } catch (error) {
-    console.error("[AdminRouter] Error revoking key:", error);
+    logger.error("[AdminRouter] Error revoking key:", error);
     return c.json(
       {
         error: error instanceof Error ? error.message : "Unknown error",
@@ -1,17 +1,40 @@
 import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
 import { getOrchestrator } from "../services/execution-orchestrator";
-import { db, executions, executionJobs, eq } from "@repo/db";
+import {
+  getQueuePositions,
+  normalizeTestMode,
+  type TestModeOptions,
+} from "@repo/jobs";
+import {
+  db,
+  executions,
+  executionJobs,
+  eq,
+  subscribeToExecutionEvents,
+} from "@repo/db";
 import {
   authMiddleware,
   rateLimitMiddleware,
   getAuthContext,
+  requireScope,
+  type AuthContext,
 } from "../middleware";
 import type {
+  CancelExecutionResponse,
   ExecuteResponse,
+  ExecutionCompletedEvent,
+  ExecutionEvent,
   ExecutionStatusResponse,
   ErrorResponse,
+  JobStatus,
+  ValidatePlanResponse,
 } from "@repo/api-types";
-import { providerKeyService } from "@repo/api-keys";
+import { getAllowedMediaTypes, providerKeyService } from "@repo/api-keys";
+import { logger } from "@repo/logger";
+
+const FINAL_STATUSES = ["completed", "failed", "cancelled"];
+const EVENTS_HEARTBEAT_MS = 15000;
 
 const executeRouter = new Hono();
 
@@ -19,31 +42,77 @@ const executeRouter = new Hono();
 executeRouter.use("/*", authMiddleware);
 executeRouter.use("/*", rateLimitMiddleware);
 
-executeRouter.post("/", async (c) => {
+/**
+ * Models the request's API key may run: those of its models:* scopes,
+ * narrowed to its allowed models when it has a list
+ */
+function getModelAccess(auth: AuthContext) {
+  return {
+    mediaTypes: getAllowedMediaTypes(auth.scopes),
+    modelIds: auth.allowedModels ?? undefined,
+  };
+}
+
+executeRouter.post("/", requireScope("executions:write"), async (c) => {
   try {
     const { executionPlan, options } = await c.req.json();
     const auth = getAuthContext(c);
 
-    // Priority: Client-provided keys > Stored keys > Server env keys
-    let providerApiKeys = options?.providerApiKeys || {};
+    const orchestrator = await getOrchestrator();
 
-    // Fetch stored keys from database
-    const storedKeys = await providerKeyService.getProviderKeysForExecution(
+    // Reject broken plans up front instead of failing jobs minutes later
+    const diagnostics = await orchestrator.validatePlan(
+      executionPlan,
+      options?.baseExecutionId || executionPlan?.baseExecutionId,
       auth.organizationId,
+      getModelAccess(auth),
+      auth.environment === "test",
     );
+    if (diagnostics.length > 0) {
+      return c.json<ErrorResponse>(
+        { error: "Invalid execution plan", diagnostics },
+        400,
+      );
+    }
 
-    // Merge: client keys override stored keys
-    providerApiKeys = {
-      ...storedKeys,
-      ...providerApiKeys, // Client-provided keys take priority
-    };
+    // Test keys run every provider job on the fake provider, so they
+    // need (and keep) no provider keys
+    let testMode: TestModeOptions | undefined;
+    if (auth.environment === "test") {
+      try {
+        testMode = normalizeTestMode(options?.testMode);
+      } catch (error) {
+        return c.json<ErrorResponse>(
+          {
+            error: error instanceof Error ? error.message : "Invalid testMode",
+          },
+          400,
+        );
+      }
+    }
+
+    // Priority: Client-provided keys > Stored keys > Server env keys
+    let providerApiKeys = testMode ? {} : options?.providerApiKeys || {};
+
+    if (!testMode) {
+      // Fetch stored keys from database
+      const storedKeys = await providerKeyService.getProviderKeysForExecution(
+        auth.organizationId,
+      );
+
+      // Merge: client keys override stored keys
+      providerApiKeys = {
+        ...storedKeys,
+        ...providerApiKeys, // Client-provided keys take priority
+      };
+    }
 
-    const orchestrator = await getOrchestrator();
     const executionId = await orchestrator.createExecution(executionPlan, {
       ...options,
       organizationId: auth.organizationId,
       apiKeyId: auth.apiKeyId,
       providerApiKeys, // Merged keys
+      testMode, // Only test keys run in test mode, whatever the options say
     });
 
     // Mark provider keys as used (fire and forget)
@@ -55,7 +124,7 @@ executeRouter.post("/", async (c) => {
             provider: provider as any,
           })
           .catch((err) =>
-            console.error("Failed to mark provider key as used:", err),
+            logger.error("Failed to mark provider key as used:", err),
           );
       }
     }
@@ -69,7 +138,7 @@ executeRouter.post("/", async (c) => {
       202,
     );
   } catch (error) {
-    console.error("[ExecuteRouter] Error creating execution:", error);
+    logger.error("[ExecuteRouter] Error creating execution:", error);
     return c.json<ErrorResponse>(
       {
         error: error instanceof Error ? error.message : "Unknown error",
@@ -80,8 +149,38 @@ executeRouter.post("/", async (c) => {
   }
 });
 
-executeRouter.get("/:id/status", async (c) => {
+executeRouter.post("/validate", requireScope("executions:write"), async (c) => {
+  try {
+    const { executionPlan, options } = await c.req.json();
+    const auth = getAuthContext(c);
+
+    const orchestrator = await getOrchestrator();
+    const diagnostics = await orchestrator.validatePlan(
+      executionPlan,
+      options?.baseExecutionId || executionPlan?.baseExecutionId,
+      auth.organizationId,
+      getModelAccess(auth),
+      auth.environment === "test",
+    );
+
+    return c.json<ValidatePlanResponse>({
+      valid: diagnostics.length === 0,
+      diagnostics,
+    });
+  } catch (error) {
+    logger.error("[ExecuteRouter] Error validating execution plan:", error);
+    return c.json<ErrorResponse>(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      500,
+    );
+  }
+});
+
+executeRouter.get("/:id/status", requireScope("executions:read"), async (c) => {
   const executionId = c.req.param("id");
+  const auth = getAuthContext(c);
 
   const [execution] = await db
     .select()
@@ -89,7 +188,7 @@ executeRouter.get("/:id/status", async (c) => {
     .where(eq(executions.id, executionId))
     .limit(1);
 
-  if (!execution) {
+  if (!execution || execution.organizationId !== auth.organizationId) {
     return c.json<ErrorResponse>({ error: "Execution not found" }, 404);
   }
 
@@ -97,39 +196,213 @@ executeRouter.get("/:id/status", async (c) => {
     .select()
     .from(executionJobs)
     .where(eq(executionJobs.executionId, executionId));
-
-  const jobStatuses = jobs.map((j) => ({
-    id: j.jobId,
-    operation: j.operation,
-    status: j.status,
-    result: j.result,
-    error: j.error,
-  }));
-
-  // If execution error is null but there are failed jobs, construct error from jobs
-  let executionError = execution.error;
-  if (!executionError && execution.status === "failed") {
-    const failedJobs = jobs.filter((j) => j.status === "failed" && j.error);
-    if (failedJobs.length > 0) {
-      executionError = failedJobs
-        .map((j) => `${j.operation}: ${j.error}`)
-        .join("; ");
-    }
-  }
+  const queuePositions = await getQueuePositions(auth.organizationId, jobs);
 
   return c.json<ExecutionStatusResponse>({
     id: execution.id,
-    status: execution.status as
-      | "pending"
-      | "processing"
-      | "completed"
-      | "failed",
-    jobs: jobStatuses,
+    status: execution.status as ExecutionStatusResponse["status"],
+    jobs: jobs.map((job) => toJobStatus(job, queuePositions)),
     result: (execution.result as any) || null,
-    error: executionError,
+    error: getExecutionError(execution, jobs),
     createdAt: execution.createdAt,
     completedAt: execution.completedAt,
   });
 });
 
+/**
+ * Stream job and execution events as Server-Sent Events. The stream starts
+ * with a snapshot of the execution and ends after execution.completed.
+ */
+executeRouter.get("/:id/events", requireScope("executions:read"), async (c) => {
+  const executionId = c.req.param("id");
+  const auth = getAuthContext(c);
+
+  const [execution] = await db
+    .select()
+    .from(executions)
+    .where(eq(executions.id, executionId))
+    .limit(1);
+
+  if (!execution || execution.organizationId !== auth.organizationId) {
+    return c.json<ErrorResponse>({ error: "Execution not found" }, 404);
+  }
+
+  return streamSSE(c, async (stream) => {
+    let finished = false;
+    let markFinished: () => void = () => {};
+    const done = new Promise<void>((resolve) => {
+      markFinished = resolve;
+    });
+
+    // Writes are chained so events go out in the order they were published
+    let writes = Promise.resolve();
+    const send = (event: ExecutionEvent) => {
+      if (finished) {
+        return;
+      }
+      if (event.type === "execution.completed") {
+        finished = true;
+        markFinished();
+      }
+      writes = writes.then(() =>
+        stream.writeSSE({ event: event.type, data: JSON.stringify(event) }),
+      );
+    };
+
+    // Subscribe before reading the snapshot so no event is missed in between
+    const unsubscribe = await subscribeToExecutionEvents(executionId, send);
+    stream.onAbort(() => {
+      finished = true;
+      markFinished();
+    });
+
+    try {
+      let snapshotSent = false;
+
+      while (!finished) {
+        // Re-read the status on every heartbeat as well, in case the
+        // execution.completed notification was missed
+        const [current] = await db
+          .select()
+          .from(executions)
+          .where(eq(executions.id, executionId))
+          .limit(1);
+        const jobs = await db
+          .select()
+          .from(executionJobs)
+          .where(eq(executionJobs.executionId, executionId));
+
+        if (!current) {
+          break;
+        }
+
+        if (!snapshotSent) {
+          const queuePositions = await getQueuePositions(
+            auth.organizationId,
+            jobs,
+          );
+          send({
+            type: "execution.snapshot",
+            executionId,
+            status: current.status as ExecutionStatusResponse["status"],
+            jobs: jobs.map((job) => toJobStatus(job, queuePositions)),
+          });
+          snapshotSent = true;
+        }
+
+        if (FINAL_STATUSES.includes(current.status)) {
+          send({
+            type: "execution.completed",
+            executionId,
+            status: current.status as ExecutionCompletedEvent["status"],
+            result: (current.result as any) || null,
+            error: getExecutionError(current, jobs),
+          });
+          break;
+        }
+
+        await Promise.race([done, stream.sleep(EVENTS_HEARTBEAT_MS)]);
+        if (!finished) {
+          writes = writes.then(async () => {
+            await stream.write(": heartbeat\n\n");
+          });
+        }
+      }
+
+      await writes;
+    } finally {
+      unsubscribe();
+    }
+  });
+});
+
+executeRouter.post(
+  "/:id/cancel",
+  requireScope("executions:write"),
+  async (c) => {
+    const executionId = c.req.param("id");
+    const auth = getAuthContext(c);
+
+    const [execution] = await db
+      .select()
+      .from(executions)
+      .where(eq(executions.id, executionId))
+      .limit(1);
+
+    if (!execution || execution.organizationId !== auth.organizationId) {
+      return c.json<ErrorResponse>({ error: "Execution not found" }, 404);
+    }
+
+    if (
+      execution.status === "completed" ||
+      execution.status === "failed" ||
+      execution.status === "cancelled"
+    ) {
+      return c.json<ErrorResponse>(
+        { error: `Execution is already ${execution.status}` },
+        409,
+      );
+    }
+
+    try {
+      const orchestrator = await getOrchestrator();
+      const cancelledJobs = await orchestrator.cancelExecution(executionId);
+
+      return c.json<CancelExecutionResponse>({
+        executionId,
+        status: "cancelled",
+        cancelledJobs,
+      });
+    } catch (error) {
+      logger.error("[ExecuteRouter] Error cancelling execution:", error);
+      return c.json<ErrorResponse>(
+        {
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        500,
+      );
+    }
+  },
+);
+
+/**
+ * @param queuePositions - Queue positions of the execution's throttled jobs,
+ * by job record ID
+ */
+function toJobStatus(
+  job: typeof executionJobs.$inferSelect,
+  queuePositions: Map<string, number>,
+): JobStatus {
+  return {
+    id: job.jobId,
+    operation: job.operation,
+    status: job.status,
+    result: job.result,
+    error: job.error,
+    cached: job.cachedFromJobId !== null,
+    provider: job.provider,
+    queuePosition: queuePositions.get(job.id) ?? null,
+  };
+}
+
+/**
+ * The execution's error, or one built from its failed jobs when a failed
+ * execution has none
+ */
+function getExecutionError(
+  execution: typeof executions.$inferSelect,
+  jobs: Array<typeof executionJobs.$inferSelect>,
+): string | null {
+  if (execution.error || execution.status !== "failed") {
+    return execution.error;
+  }
+
+  const failedJobs = jobs.filter((j) => j.status === "failed" && j.error);
+  if (failedJobs.length === 0) {
+    return null;
+  }
+
+  return failedJobs.map((j) => `${j.operation}: ${j.error}`).join("; ");
+}
+
 export { executeRouter };
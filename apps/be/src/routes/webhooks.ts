@@ -1,17 +1,43 @@
+import crypto from "crypto";
+import { providerKeyService } from "@repo/api-keys";
 import { Hono } from "hono";
-import { db, executionJobs, eq } from "@repo/db";
-import { parseModelWebhook } from "@repo/model-schemas";
+import { db, executionJobs, executions, eq } from "@repo/db";
+import {
+  getModelInfo,
+  parseModelWebhook,
+  type VideoProvider,
+} from "@repo/model-schemas";
 import { completeAsyncJob, failAsyncJob } from "@repo/jobs";
+import { VideoProviderFactory } from "@repo/providers";
+import { logger, runWithLogContext } from "@repo/logger";
+
+const FINAL_JOB_STATUSES = ["completed", "failed", "cancelled"];
 
 const webhooksRouter = new Hono();
 
+// Provider deliveries are logged against the job they complete
+webhooksRouter.use("/job/:jobRecordId", (c, next) =>
+  runWithLogContext({ jobRecordId: c.req.param("jobRecordId") }, next),
+);
+
 /**
  * Generic webhook handler for all providers
- * Providers should POST to: /api/webhooks/job/:jobRecordId
+ * Providers POST to the URL the job handed them:
+ * /api/webhooks/job/:jobRecordId?token=<webhook token of the attempt>
+ *
+ * Deliveries need the attempt's token and, for providers that sign their
+ * webhooks (Replicate, fal), a valid signature for the job's provider job.
  */
 webhooksRouter.post("/job/:jobRecordId", async (c) => {
   const jobRecordId = c.req.param("jobRecordId");
 
+  const reject = (reason: string, status: 401 | 404 = 401) => {
+    logger.warn(
+      `[Webhook] Rejected delivery for job ${jobRecordId}: ${reason}`,
+    );
+    return c.json({ error: "Webhook rejected" }, status);
+  };
+
   try {
     // 1. Get the job record from database
     const [job] = await db
@@ -21,57 +47,111 @@ webhooksRouter.post("/job/:jobRecordId", async (c) => {
       .limit(1);
 
     if (!job) {
-      console.error(`[Webhook] Job not found: ${jobRecordId}`);
-      return c.json({ error: "Job not found" }, 404);
+      return reject("job not found", 404);
     }
 
-    // 2. Extract modelId from job metadata
+    // 2. Check the webhook token - it changes with every attempt
+    const token = c.req.query("token");
+    if (!token) {
+      return reject("missing token");
+    }
+    if (!job.webhookToken || !tokensMatch(token, job.webhookToken)) {
+      return reject("token does not match the job's current attempt");
+    }
+
+    // 3. Extract modelId from job metadata
     const metadata = job.metadata as Record<string, unknown>;
     const modelId = metadata?.modelId as string | undefined;
 
     if (!modelId) {
-      console.error(`[Webhook] No modelId in job metadata: ${jobRecordId}`);
+      logger.error(`[Webhook] No modelId in job metadata: ${jobRecordId}`);
       return c.json({ error: "No modelId in job metadata" }, 400);
     }
 
-    // 3. Parse webhook payload using model-specific parser
-    const payload = await c.req.json();
-    console.log(
+    // 4. Verify the provider's signature
+    const body = await c.req.text();
+    const provider = (job.provider ?? getModelInfo(modelId)?.provider) as
+      | VideoProvider
+      | undefined;
+
+    if (provider) {
+      const [execution] = await db
+        .select()
+        .from(executions)
+        .where(eq(executions.id, job.executionId))
+        .limit(1);
+
+      let verification;
+      try {
+        const providerApiKeys = execution
+          ? await providerKeyService.getKeysForExecution(execution)
+          : {};
+        // Deliveries for test-mode executions come from the fake provider,
+        // which doesn't sign them - the token alone authorizes them
+        const providerService = VideoProviderFactory.getProvider(
+          provider,
+          providerApiKeys[provider],
+          execution?.testMode ? {} : undefined,
+        );
+        verification = await providerService.verifyWebhook?.(
+          c.req.header(),
+          body,
+          job.providerJobId,
+        );
+      } catch (error) {
+        return reject(
+          `signature could not be verified: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+      if (verification && !verification.valid) {
+        return reject(verification.reason ?? "invalid signature");
+      }
+    }
+
+    // 5. Replays of a delivery for a finished job change nothing
+    if (FINAL_JOB_STATUSES.includes(job.status)) {
+      logger.info(
+        `[Webhook] Job ${jobRecordId} is already ${job.status}, ignoring delivery`,
+      );
+      return c.json({ success: true, status: job.status });
+    }
+
+    // 6. Parse webhook payload using model-specific parser
+    const payload = JSON.parse(body);
+    logger.info(
       `[Webhook] Received webhook for job ${jobRecordId}, model ${modelId}`,
     );
 
     const parseResult = parseModelWebhook(modelId, payload);
 
-    // 4. Handle result based on status
+    // 7. Handle result based on status
     if (parseResult.status === "completed") {
       if (!parseResult.outputs || parseResult.outputs.length === 0) {
-        console.error(`[Webhook] Job ${jobRecordId} completed but no outputs`);
+        logger.error(`[Webhook] Job ${jobRecordId} completed but no outputs`);
         await failAsyncJob(jobRecordId, "No outputs received from provider");
         return c.json({ success: true, status: "failed" });
       }
 
-      console.log(
+      logger.info(
         `[Webhook] Job ${jobRecordId} completed with ${parseResult.outputs.length} outputs`,
       );
       await completeAsyncJob(jobRecordId, parseResult.outputs);
       return c.json({ success: true, status: "completed" });
     } else if (parseResult.status === "failed") {
-      console.error(
-        `[Webhook] Job ${jobRecordId} failed: ${parseResult.error}`,
-      );
+      logger.error(`[Webhook] Job ${jobRecordId} failed: ${parseResult.error}`);
       await failAsyncJob(jobRecordId, parseResult.error || "Unknown error");
       return c.json({ success: true, status: "failed" });
     } else if (parseResult.status === "processing") {
-      console.log(`[Webhook] Job ${jobRecordId} still processing`);
+      logger.info(`[Webhook] Job ${jobRecordId} still processing`);
       return c.json({ success: true, status: "processing" });
     } else {
-      console.warn(
+      logger.warn(
         `[Webhook] Unknown status for job ${jobRecordId}: ${parseResult.status}`,
       );
       return c.json({ success: true, status: "unknown" });
     }
   } catch (error) {
-    console.error(
+    logger.error(
       `[Webhook] Error processing webhook for job ${jobRecordId}:`,
       error,
     );
@@ -83,7 +163,7 @@ webhooksRouter.post("/job/:jobRecordId", async (c) => {
         error instanceof Error ? error.message : "Webhook processing error",
       );
     } catch (failError) {
-      console.error(`[Webhook] Error marking job as failed:`, failError);
+      logger.error(`[Webhook] Error marking job as failed:`, failError);
     }
 
     return c.json(
@@ -95,4 +175,10 @@ webhooksRouter.post("/job/:jobRecordId", async (c) => {
   }
 });
 
+function tokensMatch(token: string, expected: string): boolean {
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
 export { webhooksRouter };
@@ -1,4 +1,12 @@
+import {
+  detectScript,
+  isRtlScript,
+  joinWords,
+  RTL_MARK,
+  wordSeparator,
+} from "../scripts";
 import type { AssStyle, CaptionStyle } from "../types/styles";
+import { logger } from "../../core/logger";
 
 // Duplicate from speech-to-text to avoid build/link issues during generation
 export interface TranscriptWord {
@@ -6,10 +14,11 @@ export interface TranscriptWord {
   start: number;
   end: number;
   probability?: number;
+  speaker?: string; // Speaker label from diarization, e.g. "SPEAKER_00"
 }
 
 // Helper to format time for ASS: h:mm:ss.cc
-function formatAssTime(seconds: number): string {
+export function formatAssTime(seconds: number): string {
   const h = Math.floor(seconds / 3600);
   const m = Math.floor((seconds % 3600) / 60);
   const s = Math.floor(seconds % 60);
@@ -62,11 +71,11 @@ function hexToAssColor(color: string): string {
   }
 
   // Invalid format - return as-is and let ASS handle it
-  console.warn(`Invalid color format: ${color}. Using as-is.`);
+  logger.warn(`Invalid color format: ${color}. Using as-is.`);
   return color;
 }
 
-function generateAssHeader(
+export function generateAssHeader(
   styles: AssStyle[],
   videoWidth: number,
   videoHeight: number,
@@ -95,9 +104,10 @@ Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
 }
 
 /**
- * Group words into caption chunks based on wordsPerCaption setting
+ * Group words into caption chunks based on wordsPerCaption setting.
+ * A caption never mixes words of different speakers.
  */
-function groupWords(
+export function groupWords(
   words: TranscriptWord[],
   wordsPerCaption: number,
   maxDuration: number = 3.0,
@@ -107,8 +117,12 @@ function groupWords(
   let currentGroup: TranscriptWord[] = [];
 
   for (const word of words) {
-    // If we've reached the desired number of words, flush the group
-    if (currentGroup.length >= wordsPerCaption) {
+    // If we've reached the desired number of words or the speaker changes, flush the group
+    if (
+      currentGroup.length >= wordsPerCaption ||
+      (currentGroup.length > 0 &&
+        currentGroup[currentGroup.length - 1]!.speaker !== word.speaker)
+    ) {
       groups.push(currentGroup);
       currentGroup = [];
     }
@@ -117,7 +131,7 @@ function groupWords(
     if (currentGroup.length > 0) {
       const groupStart = currentGroup[0]!.start;
       const groupDuration = word.end - groupStart;
-      const groupChars = currentGroup.map((w) => w.word).join(" ").length;
+      const groupChars = joinWords(currentGroup.map((w) => w.word)).length;
 
       // If adding this word would exceed limits, flush current group
       if (
@@ -145,7 +159,8 @@ function groupWords(
  */
 function generateSimpleCaptions(
   wordGroups: TranscriptWord[][],
-  styleName: string,
+  styleFor: (speaker?: string) => CaptionLineStyle,
+  rtl: boolean,
 ): string {
   let output = "";
 
@@ -154,9 +169,10 @@ function generateSimpleCaptions(
 
     const firstWord = group[0]!;
     const lastWord = group[group.length - 1]!;
-    const text = group.map((w) => w.word.trim()).join(" ");
+    const text = joinWords(group.map((w) => w.word.trim()));
+    const { styleName } = styleFor(firstWord.speaker);
 
-    output += `Dialogue: 0,${formatAssTime(firstWord.start)},${formatAssTime(lastWord.end)},${styleName},,0,0,0,,${text}\n`;
+    output += `Dialogue: 0,${formatAssTime(firstWord.start)},${formatAssTime(lastWord.end)},${styleName},${speakerName(firstWord.speaker)},0,0,0,,${rtl ? RTL_MARK : ""}${text}\n`;
   }
 
   return output;
@@ -172,17 +188,19 @@ function generateSimpleCaptions(
  */
 function generateHighlightedCaptions(
   wordGroups: TranscriptWord[][],
-  baseStyleName: string,
-  activeStyleName: string,
-  activeColor: string,
+  styleFor: (speaker?: string) => CaptionLineStyle,
   activeScale?: number,
   animationStyle?: string,
+  rtl: boolean = false,
 ): string {
   let output = "";
 
   for (const group of wordGroups) {
     if (group.length === 0) continue;
 
+    const speaker = group[0]!.speaker;
+    const { styleName: baseStyleName, activeColor } = styleFor(speaker);
+
     // For each word in the group, create ONE dialogue line showing ALL words
     // with the current word highlighted via color override
     for (let i = 0; i < group.length; i++) {
@@ -192,13 +210,16 @@ function generateHighlightedCaptions(
 
       // Build the complete phrase with color overrides
       // Use baseStyleName which has the inactive color
-      output += `Dialogue: 0,${formatAssTime(wordStart)},${formatAssTime(wordEnd)},${baseStyleName},,0,0,0,,`;
+      output += `Dialogue: 0,${formatAssTime(wordStart)},${formatAssTime(wordEnd)},${baseStyleName},${speakerName(speaker)},0,0,0,,${rtl ? RTL_MARK : ""}`;
 
       for (let j = 0; j < group.length; j++) {
-        if (j > 0) output += " "; // Space between words
-
         const word = group[j]!.word.trim();
 
+        if (j > 0) {
+          // Space between words
+          output += wordSeparator(group[j - 1]!.word.trim(), word);
+        }
+
         if (j === i) {
           // This is the active word - apply styling based on animation type
           let tags = "";
@@ -226,6 +247,17 @@ function generateHighlightedCaptions(
   return output;
 }
 
+// Style and highlight color of a speaker's caption lines
+interface CaptionLineStyle {
+  styleName: string;
+  activeColor?: string;
+}
+
+// Speaker label for the Name field of a Dialogue line (no commas allowed)
+function speakerName(speaker: string | undefined): string {
+  return speaker ? speaker.replace(/,/g, " ") : "";
+}
+
 export function generateAssSubtitles(
   words: TranscriptWord[],
   baseStyle: AssStyle,
@@ -238,6 +270,8 @@ export function generateAssSubtitles(
   const highlightActive = captionConfig.highlightActiveWord ?? false;
   const maxDuration = captionConfig.maxCaptionDuration ?? 3.0;
   const maxChars = captionConfig.maxCaptionChars ?? 50;
+  // Right-to-left lines start with a direction mark so punctuation lands on the correct side
+  const rtl = isRtlScript(detectScript(words.map((w) => w.word).join("")));
 
   // Prepare styles
   const styles: AssStyle[] = [baseStyle];
@@ -262,6 +296,44 @@ export function generateAssSubtitles(
     styles.push(activeStyle);
   }
 
+  // One style per speaker with its own color or position
+  const defaultLineStyle: CaptionLineStyle = {
+    styleName: baseStyle.Name,
+    activeColor: activeStyle?.PrimaryColour,
+  };
+  const speakerLineStyles = new Map<string, CaptionLineStyle>();
+  Object.entries(captionConfig.speakers ?? {}).forEach(
+    ([speaker, speakerStyle], i) => {
+      const style: AssStyle = { ...baseStyle, Name: `Speaker${i + 1}` };
+      if (speakerStyle.color) {
+        style.PrimaryColour = hexToAssColor(speakerStyle.color);
+      }
+      if (speakerStyle.alignment) {
+        style.Alignment = parseInt(speakerStyle.alignment, 10);
+      }
+      if (speakerStyle.marginV !== undefined) {
+        style.MarginV = speakerStyle.marginV;
+      }
+      if (speakerStyle.marginL !== undefined) {
+        style.MarginL = speakerStyle.marginL;
+      }
+      if (speakerStyle.marginR !== undefined) {
+        style.MarginR = speakerStyle.marginR;
+      }
+
+      styles.push(style);
+      speakerLineStyles.set(speaker, {
+        styleName: style.Name,
+        activeColor: speakerStyle.activeWordColor
+          ? hexToAssColor(speakerStyle.activeWordColor)
+          : defaultLineStyle.activeColor,
+      });
+    },
+  );
+  const styleFor = (speaker?: string): CaptionLineStyle =>
+    (speaker !== undefined && speakerLineStyles.get(speaker)) ||
+    defaultLineStyle;
+
   // Generate header with all styles
   let output = generateAssHeader(styles, videoWidth, videoHeight);
 
@@ -272,14 +344,13 @@ export function generateAssSubtitles(
   if (highlightActive && activeStyle) {
     output += generateHighlightedCaptions(
       wordGroups,
-      baseStyle.Name,
-      activeStyle.Name,
-      activeStyle.PrimaryColour,
+      styleFor,
       captionConfig.activeWordScale,
       captionConfig.animationStyle,
+      rtl,
     );
   } else {
-    output += generateSimpleCaptions(wordGroups, baseStyle.Name);
+    output += generateSimpleCaptions(wordGroups, styleFor, rtl);
   }
 
   return output;
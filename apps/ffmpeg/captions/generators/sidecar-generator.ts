@@ -0,0 +1,93 @@
+import { joinWords } from "../scripts";
+import { groupWords, type TranscriptWord } from "./ass-generator";
+
+export type SidecarFormat = "srt" | "vtt" | "json";
+
+export const SIDECAR_FORMATS: SidecarFormat[] = ["srt", "vtt", "json"];
+
+// Players show sidecar cues as whole lines, so group more words than
+// burned-in presets do (up to two lines of ~42 characters)
+const SIDECAR_WORDS_PER_CUE = 12;
+const SIDECAR_MAX_CUE_DURATION = 5;
+const SIDECAR_MAX_CUE_CHARS = 84;
+
+// Helper to format time for SRT (hh:mm:ss,mmm) and WebVTT (hh:mm:ss.mmm)
+function formatCueTime(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.round(seconds * 1000);
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${h.toString().padStart(2, "0")}:${m.toString().padStart(2, "0")}:${s.toString().padStart(2, "0")}${separator}${ms.toString().padStart(3, "0")}`;
+}
+
+/**
+ * Group words into cues of start, end and text
+ */
+function buildCues(
+  words: TranscriptWord[],
+): Array<{ start: number; end: number; text: string; speaker?: string }> {
+  return groupWords(
+    words,
+    SIDECAR_WORDS_PER_CUE,
+    SIDECAR_MAX_CUE_DURATION,
+    SIDECAR_MAX_CUE_CHARS,
+  )
+    .filter((group) => group.length > 0)
+    .map((group) => ({
+      start: group[0]!.start,
+      end: group[group.length - 1]!.end,
+      text: joinWords(group.map((w) => w.word.trim())),
+      speaker: group[0]!.speaker,
+    }));
+}
+
+/**
+ * Generate SubRip (.srt) subtitles from transcript words
+ */
+export function generateSrt(words: TranscriptWord[]): string {
+  return buildCues(words)
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${formatCueTime(cue.start, ",")} --> ${formatCueTime(cue.end, ",")}\n${cue.text}\n`,
+    )
+    .join("\n");
+}
+
+/**
+ * Generate WebVTT (.vtt) subtitles from transcript words.
+ * Cues of a known speaker start with a voice tag (<v SPEAKER_00>).
+ */
+export function generateVtt(words: TranscriptWord[]): string {
+  const cues = buildCues(words).map(
+    (cue) =>
+      // "-->" can't appear in cue text
+      `${formatCueTime(cue.start, ".")} --> ${formatCueTime(cue.end, ".")}\n${cue.speaker ? `<v ${cue.speaker.replace(/[<>]/g, "")}>` : ""}${cue.text.replace(/-->/g, "->")}\n`,
+  );
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+/**
+ * Generate a sidecar subtitle file in the given format.
+ * JSON keeps the word-level timings and speakers of the transcript.
+ */
+export function generateSidecarSubtitles(
+  words: TranscriptWord[],
+  format: SidecarFormat,
+): string {
+  switch (format) {
+    case "srt":
+      return generateSrt(words);
+    case "vtt":
+      return generateVtt(words);
+    case "json":
+      return JSON.stringify(
+        words.map(({ word, start, end, speaker }) => ({
+          word: word.trim(),
+          start,
+          end,
+          speaker,
+        })),
+      );
+  }
+}
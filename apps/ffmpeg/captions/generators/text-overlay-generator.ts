@@ -0,0 +1,126 @@
+import type { TextAlignment, TextOverlay } from "../../core/types";
+import { detectScript, fallbackFont, isRtlScript, RTL_MARK } from "../scripts";
+import { hexToAssColor } from "../styles/presets";
+import type { AssStyle } from "../types/styles";
+import { formatAssTime, generateAssHeader } from "./ass-generator";
+
+// ASS alignment is numpad style (1 = bottom-left, 9 = top-right)
+const ASS_ALIGNMENT: Record<TextAlignment, number> = {
+  "bottom-left": 1,
+  bottom: 2,
+  "bottom-right": 3,
+  left: 4,
+  center: 5,
+  right: 6,
+  "top-left": 7,
+  top: 8,
+  "top-right": 9,
+};
+
+/**
+ * Convert a text overlay to an ASS style.
+ *
+ * With a background, the opaque box (BorderStyle 3) is drawn in the
+ * outline colour and sized by Outline, so the text can't also have a stroke.
+ */
+function textOverlayToAssStyle(
+  overlay: TextOverlay,
+  name: string,
+  videoHeight: number,
+): AssStyle {
+  const margin = overlay.margin ?? Math.round(videoHeight * 0.05);
+  const weight = overlay.fontWeight ?? "bold";
+  const hasBox = !!overlay.backgroundColor;
+
+  return {
+    Name: name,
+    Fontname:
+      overlay.fontFamily || fallbackFont(detectScript(overlay.text)) || "Arial",
+    Fontsize: overlay.fontSize ?? Math.round(videoHeight * 0.06),
+    PrimaryColour: hexToAssColor(overlay.color || "#FFFFFF"),
+    SecondaryColour: "&H00000000",
+    OutlineColour: hexToAssColor(
+      (hasBox ? overlay.backgroundColor : overlay.strokeColor) || "#000000",
+    ),
+    BackColour: "&H00000000",
+    Bold:
+      weight === "bold" || (typeof weight === "number" && weight >= 600)
+        ? -1
+        : 0,
+    Italic: overlay.italic ? -1 : 0,
+    Underline: 0,
+    StrikeOut: 0,
+    ScaleX: 100,
+    ScaleY: 100,
+    Spacing: 0,
+    Angle: 0,
+    BorderStyle: hasBox ? 3 : 1,
+    Outline: hasBox ? (overlay.padding ?? 20) : (overlay.strokeWidth ?? 0),
+    Shadow: 0,
+    Alignment: ASS_ALIGNMENT[overlay.alignment || "center"] ?? 5,
+    MarginL: margin,
+    MarginR: margin,
+    MarginV: margin,
+    Encoding: 1,
+  };
+}
+
+/**
+ * Escape text for an ASS dialogue line
+ */
+function escapeAssText(text: string): string {
+  return (
+    text
+      // ASS has no escape for override blocks, so braces become parentheses
+      .replace(/\{/g, "(")
+      .replace(/\}/g, ")")
+      .replace(/\r?\n/g, "\\N")
+  );
+}
+
+/**
+ * Generate an ASS file drawing each text overlay over a video, in order
+ * (later overlays on top)
+ */
+export function generateTextOverlayAss(
+  overlays: TextOverlay[],
+  videoWidth: number,
+  videoHeight: number,
+  videoDuration: number,
+): string {
+  const styles = overlays.map((overlay, i) =>
+    textOverlayToAssStyle(overlay, `Text${i}`, videoHeight),
+  );
+
+  let output = generateAssHeader(styles, videoWidth, videoHeight);
+
+  overlays.forEach((overlay, i) => {
+    const start = overlay.start ?? 0;
+    const end = overlay.end ?? videoDuration;
+
+    if (end <= start) {
+      throw new Error(
+        `Text overlay ${i} must end after it starts (${start}s-${end}s)`,
+      );
+    }
+
+    let tags = "";
+    if (typeof overlay.fontWeight === "number") {
+      tags += `\\b${overlay.fontWeight}`;
+    }
+    if (overlay.x !== undefined && overlay.y !== undefined) {
+      tags += `\\pos(${overlay.x},${overlay.y})`;
+    }
+    if (overlay.fadeIn || overlay.fadeOut) {
+      const fadeIn = Math.round((overlay.fadeIn ?? 0) * 1000);
+      const fadeOut = Math.round((overlay.fadeOut ?? 0) * 1000);
+      tags += `\\fad(${fadeIn},${fadeOut})`;
+    }
+
+    const rtl = isRtlScript(detectScript(overlay.text));
+
+    output += `Dialogue: ${i},${formatAssTime(start)},${formatAssTime(end)},Text${i},,0,0,0,,${tags ? `{${tags}}` : ""}${rtl ? RTL_MARK : ""}${escapeAssText(overlay.text)}\n`;
+  });
+
+  return output;
+}
@@ -1,8 +1,12 @@
 export * from "./types/styles";
 export * from "./styles/presets";
 export * from "./generators/ass-generator";
+export * from "./generators/text-overlay-generator";
+export * from "./generators/sidecar-generator";
+export * from "./scripts";
 
 import { getStyleForPreset, captionStyleToAssStyle } from "./styles/presets";
+import { detectScript, fallbackFont } from "./scripts";
 import {
   generateAssSubtitles,
   type TranscriptWord,
@@ -29,6 +33,15 @@ export class CaptionService {
     // Convert to ASS style definition (for formatting)
     const assStyle = captionStyleToAssStyle(captionStyle);
 
+    // Preset fonts only cover Latin text - switch to a font for the script
+    // (e.g. translated captions) unless a font was chosen explicitly
+    const font = fallbackFont(
+      detectScript(options.words.map((w) => w.word).join("")),
+    );
+    if (font && !options.overrides?.fontFamily) {
+      assStyle.Fontname = font;
+    }
+
     // Generate subtitles with both ASS formatting and caption behavior config
     return generateAssSubtitles(
       options.words,
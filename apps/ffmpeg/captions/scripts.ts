@@ -0,0 +1,85 @@
+/**
+ * Script detection for captions in other languages: fonts that cover the
+ * script, text direction, and whether words are separated by spaces
+ */
+
+export type CaptionScript =
+  | "latin"
+  | "cjk"
+  | "korean"
+  | "arabic"
+  | "hebrew"
+  | "thai"
+  | "devanagari";
+
+const SCRIPT_PATTERNS: Array<[CaptionScript, RegExp]> = [
+  [
+    "cjk",
+    /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f]/,
+  ],
+  ["korean", /[\u1100-\u11ff\u3130-\u318f\uac00-\ud7af]/],
+  ["arabic", /[\u0600-\u06ff\u0750-\u077f\ufb50-\ufdff\ufe70-\ufeff]/],
+  ["hebrew", /[\u0590-\u05ff\ufb1d-\ufb4f]/],
+  ["thai", /[\u0e00-\u0e7f]/],
+  ["devanagari", /[\u0900-\u097f]/],
+];
+
+// Noto fonts installed in the service image (fonts-noto-core, fonts-noto-cjk)
+const SCRIPT_FONTS: Partial<Record<CaptionScript, string>> = {
+  cjk: "Noto Sans CJK JP",
+  korean: "Noto Sans CJK KR",
+  arabic: "Noto Sans Arabic",
+  hebrew: "Noto Sans Hebrew",
+  thai: "Noto Sans Thai",
+  devanagari: "Noto Sans Devanagari",
+};
+
+const RTL_SCRIPTS: CaptionScript[] = ["arabic", "hebrew"];
+
+// Scripts written without spaces between words
+const UNSPACED =
+  /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f\u0e00-\u0e7f\u3000-\u303f\uff01-\uff0f\uff1a-\uff20]/;
+
+// Right-to-left mark, so punctuation at the ends of a line sits on the right side
+export const RTL_MARK = "\u200f";
+
+/**
+ * Main non-Latin script of a text, or "latin"
+ */
+export function detectScript(text: string): CaptionScript {
+  const counts = SCRIPT_PATTERNS.map(([script, pattern]) => ({
+    script,
+    count: [...text].filter((char) => pattern.test(char)).length,
+  }));
+  const top = counts.reduce((a, b) => (b.count > a.count ? b : a));
+  return top.count > 0 ? top.script : "latin";
+}
+
+/**
+ * Font covering a script, for text the caption font can't draw
+ */
+export function fallbackFont(script: CaptionScript): string | undefined {
+  return SCRIPT_FONTS[script];
+}
+
+export function isRtlScript(script: CaptionScript): boolean {
+  return RTL_SCRIPTS.includes(script);
+}
+
+/**
+ * Space between two caption words, or none between words of scripts that
+ * don't use spaces (Chinese, Japanese, Thai)
+ */
+export function wordSeparator(previous: string, next: string): string {
+  return UNSPACED.test(previous.slice(-1)) && UNSPACED.test(next.charAt(0))
+    ? ""
+    : " ";
+}
+
+export function joinWords(words: string[]): string {
+  return words.reduce(
+    (line, word, i) =>
+      i === 0 ? word : line + wordSeparator(words[i - 1]!, word) + word,
+    "",
+  );
+}
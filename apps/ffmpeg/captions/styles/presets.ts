@@ -1,4 +1,5 @@
 import type { AssStyle, CaptionPreset, CaptionStyle } from "../types/styles";
+import { logger } from "../../core/logger";
 
 /**
  * Convert hex color to ASS color format
@@ -42,7 +43,7 @@ export function hexToAssColor(color: string): string {
   }
 
   // Invalid format - return as-is and let ASS handle it
-  console.warn(`Invalid color format: ${color}. Using as-is.`);
+  logger.warn(`Invalid color format: ${color}. Using as-is.`);
   return color;
 }
 
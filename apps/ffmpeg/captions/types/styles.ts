@@ -5,6 +5,18 @@ export type CaptionPreset =
   | "minimal"
   | "cinematic";
 
+/**
+ * Style of one speaker's captions, over the caption style
+ */
+export interface SpeakerStyle {
+  color?: string; // Text color (hex or ASS)
+  activeWordColor?: string; // Highlighted word color, with highlightActiveWord
+  alignment?: CaptionStyle["alignment"]; // e.g. "7" to put a speaker top-left
+  marginV?: number;
+  marginL?: number;
+  marginR?: number;
+}
+
 export interface CaptionStyle {
   // Font
   fontFamily?: string;
@@ -42,6 +54,9 @@ export interface CaptionStyle {
   inactiveWordColor?: string; // Color for words not yet spoken (&HBBGGRR format)
   activeWordScale?: number; // Scale multiplier for active word (e.g., 1.2 = 20% bigger)
   animationStyle?: "none" | "color" | "scale" | "glow"; // Type of highlight effect
+
+  // Speakers (words with a speaker label, from diarization)
+  speakers?: Record<string, SpeakerStyle>; // Style per speaker label, e.g. "SPEAKER_00"
 }
 
 // Internal ASS Style definition
@@ -4,6 +4,11 @@
 
 import type { FFmpegOptions } from "./types.js";
 
+const VIDEO_BITRATES = { low: "500k", medium: "1000k", high: "2000k" };
+const AUDIO_BITRATES = { low: "64k", medium: "128k", high: "192k" };
+
+export type TranscodeFormat = "mp4" | "webm" | "mov";
+
 export const presets = {
   compressVideo: (
     quality: "low" | "medium" | "high" = "medium",
@@ -11,16 +16,35 @@ export const presets = {
     outputFormat: "mp4",
     videoCodec: "libx264",
     audioCodec: "aac",
-    videoBitrate:
-      quality === "low" ? "500k" : quality === "medium" ? "1000k" : "2000k",
-    audioBitrate:
-      quality === "low" ? "64k" : quality === "medium" ? "128k" : "192k",
+    videoBitrate: VIDEO_BITRATES[quality],
+    audioBitrate: AUDIO_BITRATES[quality],
   }),
 
-  createGif: (fps: number = 10): FFmpegOptions => ({
+  transcode: (
+    format: TranscodeFormat = "mp4",
+    quality: "low" | "medium" | "high" = "medium",
+    size: { width?: number; height?: number; fps?: number } = {},
+  ): FFmpegOptions => ({
+    outputFormat: format,
+    videoCodec: format === "webm" ? "libvpx-vp9" : "libx264",
+    audioCodec: format === "webm" ? "libopus" : "aac",
+    videoBitrate: VIDEO_BITRATES[quality],
+    audioBitrate: AUDIO_BITRATES[quality],
+    ...size,
+  }),
+
+  createGif: (
+    fps: number = 10,
+    options: { width?: number; startTime?: number; duration?: number } = {},
+  ): FFmpegOptions => ({
     outputFormat: "gif",
     fps,
-    filters: ["split[s0][s1];[s0]palettegen[p];[s1][p]paletteuse"],
+    // Scaling happens in the palette graph - a separate -vf can't be combined with it
+    filters: [
+      `${options.width ? `scale=${options.width}:-2:flags=lanczos,` : ""}split[s0][s1];[s0]palettegen[p];[s1][p]paletteuse`,
+    ],
+    startTime: options.startTime?.toString(),
+    duration: options.duration?.toString(),
   }),
 
   extractAudio: (format: "mp3" | "aac" | "wav" = "mp3"): FFmpegOptions => ({
@@ -36,7 +60,7 @@ export const presets = {
   ): FFmpegOptions => ({
     outputFormat: "jpg",
     seek: time,
-    duration: "1",
+    frames: 1,
     ...size,
   }),
 };
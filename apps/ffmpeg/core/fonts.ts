@@ -0,0 +1,54 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { FontFile } from "./types";
+import { logger } from "./logger";
+import { streamToDisk } from "./utils";
+
+/**
+ * Download uploaded fonts to a temporary directory libass can load them from
+ * (the ass filter's fontsdir option). Fonts are matched by the family name
+ * inside the file, so file names don't matter.
+ * Returns undefined when there are no fonts; remove the directory with
+ * removeFontsDir when done.
+ */
+export async function writeFontsDir(
+  fonts: FontFile[] | undefined,
+): Promise<string | undefined> {
+  if (!fonts?.length) {
+    return undefined;
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), "fonts-"));
+  try {
+    await Promise.all(
+      fonts.map((font, i) =>
+        streamToDisk(
+          font.url,
+          join(dir, `font-${i}.${font.format === "otf" ? "otf" : "ttf"}`),
+        ),
+      ),
+    );
+  } catch (error) {
+    await removeFontsDir(dir);
+    throw error;
+  }
+
+  logger.info(`[Fonts] Wrote ${fonts.length} fonts to ${dir}`);
+  return dir;
+}
+
+export async function removeFontsDir(dir: string | undefined): Promise<void> {
+  if (dir) {
+    await rm(dir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * ass filter for a subtitle file, with uploaded fonts when given
+ */
+export function assFilter(subtitlePath: string, fontsDir?: string): string {
+  return fontsDir
+    ? `ass=${subtitlePath}:fontsdir=${fontsDir}`
+    : `ass=${subtitlePath}`;
+}
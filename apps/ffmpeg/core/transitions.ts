@@ -0,0 +1,188 @@
+/**
+ * Transitions between merged clips, rendered with FFmpeg xfade (video)
+ * and acrossfade (audio)
+ */
+
+import type {
+  MergeTransition,
+  MergeTransitionType,
+  TransitionEasing,
+} from "./types.js";
+
+export const DEFAULT_TRANSITION_DURATION = 0.5;
+
+// Transitions shorter than this are treated as hard cuts
+const MIN_TRANSITION_DURATION = 0.04;
+
+/**
+ * Built-in xfade transitions, used for linear easing
+ */
+const XFADE_TRANSITIONS: Record<MergeTransitionType, string> = {
+  crossfade: "fade",
+  "wipe-left": "wipeleft",
+  "wipe-right": "wiperight",
+  "wipe-up": "wipeup",
+  "wipe-down": "wipedown",
+  "slide-left": "slideleft",
+  "slide-right": "slideright",
+  "slide-up": "slideup",
+  "slide-down": "slidedown",
+  "dip-to-black": "fadeblack",
+};
+
+/**
+ * Eased progress (0 to 1) in terms of xfade's P, which runs from 1 to 0
+ */
+const EASED_PROGRESS: Record<Exclude<TransitionEasing, "linear">, string> = {
+  "ease-in": "(1-P)*(1-P)",
+  "ease-out": "(1-P*P)",
+  "ease-in-out": "if(gt(P,0.5),2*(1-P)*(1-P),1-2*P*P)",
+};
+
+/**
+ * acrossfade curves matching each easing
+ */
+const ACROSSFADE_CURVES: Record<TransitionEasing, string> = {
+  linear: "tri",
+  "ease-in": "qua",
+  "ease-out": "qsin",
+  "ease-in-out": "hsin",
+};
+
+export interface PlannedTransition {
+  transition: MergeTransition;
+  /** Seconds, capped so no clip is overlapped by more than its length */
+  duration: number;
+  /** Start of the transition on the merged timeline, in seconds */
+  offset: number;
+}
+
+/**
+ * Lay transitions out on the merged timeline. Each transition overlaps the
+ * end of a clip with the start of the next one, so the merged output is
+ * shorter than the clips combined by the total transition time.
+ *
+ * @param durations - Duration of each clip in seconds
+ * @param transitions - Transition from each clip into the next one
+ * @returns The transition at each boundary (null for a hard cut) and the
+ *   merged duration
+ */
+export function planTransitions(
+  durations: number[],
+  transitions: Array<MergeTransition | undefined>,
+): { boundaries: Array<PlannedTransition | null>; duration: number } {
+  const boundaries: Array<PlannedTransition | null> = [];
+  let timelineEnd = durations[0] ?? 0;
+  let overlapIn = 0; // Start of the current clip taken by the previous transition
+
+  for (let i = 0; i < durations.length - 1; i++) {
+    const transition = transitions[i];
+    const current = durations[i]!;
+    const next = durations[i + 1]!;
+
+    const duration = transition
+      ? Math.min(
+          transition.duration ?? DEFAULT_TRANSITION_DURATION,
+          current - overlapIn,
+          next,
+        )
+      : 0;
+
+    if (!transition || duration < MIN_TRANSITION_DURATION) {
+      boundaries.push(null);
+      timelineEnd += next;
+      overlapIn = 0;
+      continue;
+    }
+
+    boundaries.push({
+      transition,
+      duration: round(duration),
+      offset: round(timelineEnd - duration),
+    });
+    timelineEnd += next - duration;
+    overlapIn = duration;
+  }
+
+  return { boundaries, duration: round(timelineEnd) };
+}
+
+/**
+ * xfade filter for a planned transition
+ */
+export function xfadeFilter({
+  transition,
+  duration,
+  offset,
+}: PlannedTransition): string {
+  const easing = transition.easing ?? "linear";
+  const timing = `duration=${duration}:offset=${offset}`;
+
+  if (easing === "linear") {
+    return `xfade=transition=${XFADE_TRANSITIONS[transition.type]}:${timing}`;
+  }
+
+  const expression = customTransitionExpression(
+    transition.type,
+    `(${EASED_PROGRESS[easing]})`,
+  );
+  return `xfade=transition=custom:${timing}:expr='${expression}'`;
+}
+
+/**
+ * acrossfade filter for a planned transition
+ */
+export function acrossfadeFilter({
+  transition,
+  duration,
+}: PlannedTransition): string {
+  const curve = ACROSSFADE_CURVES[transition.easing ?? "linear"];
+  return `acrossfade=d=${duration}:c1=${curve}:c2=${curve}`;
+}
+
+/**
+ * xfade custom expression for a transition, given its progress `E` (0 to 1).
+ * A and B are the outgoing and incoming clips' pixels; a0-a2/b0-b2 read
+ * their pixels at other positions on the current (yuv420p) plane.
+ */
+function customTransitionExpression(
+  type: MergeTransitionType,
+  E: string,
+): string {
+  const pixelA = (x: string, y: string) => planePixel("a", x, y);
+  const pixelB = (x: string, y: string) => planePixel("b", x, y);
+
+  switch (type) {
+    case "crossfade":
+      return `A*(1-${E})+B*${E}`;
+    case "wipe-left":
+      return `if(gt(X,W*(1-${E})),B,A)`;
+    case "wipe-right":
+      return `if(lt(X,W*${E}),B,A)`;
+    case "wipe-up":
+      return `if(gt(Y,H*(1-${E})),B,A)`;
+    case "wipe-down":
+      return `if(lt(Y,H*${E}),B,A)`;
+    case "slide-left":
+      return `if(lt(X,W*(1-${E})),${pixelA(`X+W*${E}`, "Y")},${pixelB(`X-W*(1-${E})`, "Y")})`;
+    case "slide-right":
+      return `if(lt(X,W*${E}),${pixelB(`X+W*(1-${E})`, "Y")},${pixelA(`X-W*${E}`, "Y")})`;
+    case "slide-up":
+      return `if(lt(Y,H*(1-${E})),${pixelA("X", `Y+H*${E}`)},${pixelB("X", `Y-H*(1-${E})`)})`;
+    case "slide-down":
+      return `if(lt(Y,H*${E}),${pixelB("X", `Y+H*(1-${E})`)},${pixelA("X", `Y-H*${E}`)})`;
+    case "dip-to-black": {
+      // Black is 16 on the luma plane and 128 on the chroma planes
+      const black = "if(eq(PLANE,0),16,128)";
+      return `if(lt(${E},0.5),A*(1-2*${E})+${black}*2*${E},${black}*(2-2*${E})+B*(2*${E}-1))`;
+    }
+  }
+}
+
+function planePixel(input: "a" | "b", x: string, y: string): string {
+  return `if(eq(PLANE,0),${input}0(${x},${y}),if(eq(PLANE,1),${input}1(${x},${y}),${input}2(${x},${y})))`;
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
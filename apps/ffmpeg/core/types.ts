@@ -18,17 +18,143 @@ export interface FFmpegOptions {
   startTime?: string;
   duration?: string;
   seek?: string;
+  /** Number of video frames to write (e.g. 1 for a still image) */
+  frames?: number;
   filters?: string[];
 }
 
+/**
+ * JSON bodies of the utility endpoints, which read the media from a URL
+ * instead of a multipart upload
+ */
+export interface ThumbnailFromUrlOptions {
+  url: string;
+  /** Seconds or "HH:MM:SS" (default: "00:00:01") */
+  time?: number | string;
+  width?: number;
+  height?: number;
+}
+
+export interface CreateGifFromUrlOptions {
+  url: string;
+  /** Default: 10 */
+  fps?: number;
+  /** Height follows the aspect ratio */
+  width?: number;
+  /** Start of the clip in seconds */
+  startTime?: number;
+  /** Length of the clip in seconds (default: whole video) */
+  duration?: number;
+}
+
+export interface ExtractAudioFromUrlOptions {
+  url: string;
+  /** Default: mp3 */
+  format?: "mp3" | "aac" | "wav";
+}
+
+export interface CompressVideoFromUrlOptions {
+  url: string;
+  /** Default: mp4 */
+  format?: "mp4" | "webm" | "mov";
+  /** Default: medium */
+  quality?: "low" | "medium" | "high";
+  width?: number;
+  height?: number;
+  fps?: number;
+}
+
+export type ConvertFromUrlOptions = FFmpegOptions & { url: string };
+
+/**
+ * Retiming operations on a video or audio URL
+ */
+export interface TrimMediaOptions {
+  url: string;
+  /** Seconds (default: 0) */
+  start?: number;
+  /** Seconds (default: end of the media) */
+  end?: number;
+}
+
+export interface SpeedMediaOptions {
+  url: string;
+  /** Playback speed, e.g. 2 for twice as fast (0.25-4) */
+  factor: number;
+  /** Keep the audio pitch when changing speed (default: true) */
+  preservePitch?: boolean;
+}
+
+/** Exactly one of count or duration */
+export interface LoopMediaOptions {
+  url: string;
+  /** Number of times to play the media */
+  count?: number;
+  /** Loop until the output lasts this many seconds */
+  duration?: number;
+}
+
+export interface ReverseMediaOptions {
+  url: string;
+}
+
+export type PlaceholderMediaType = "video" | "image" | "audio";
+
+/**
+ * Solid color frames and a sine tone, served as the output of test-mode
+ * provider jobs
+ */
+export interface PlaceholderMediaOptions {
+  type: PlaceholderMediaType;
+  /** Hex color of the frames, e.g. "3366ff" (default: "808080") */
+  color?: string;
+  /** Tone frequency in Hz (default: 440) */
+  frequency?: number;
+  /** Seconds of video or audio (default: 5) */
+  duration?: number;
+  /** Frame size of video and images (default: 1280x720) */
+  width?: number;
+  height?: number;
+}
+
 export interface MergeVideosOptions {
   videos: { url: string }[];
+  /** Crossfade between every pair of videos */
   transition?: {
     type: "fade";
     duration: number;
   };
 }
 
+export type MergeTransitionType =
+  | "crossfade"
+  | "wipe-left"
+  | "wipe-right"
+  | "wipe-up"
+  | "wipe-down"
+  | "slide-left"
+  | "slide-right"
+  | "slide-up"
+  | "slide-down"
+  | "dip-to-black";
+
+export type TransitionEasing =
+  | "linear"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out";
+
+/**
+ * Transition between a visual item and the next one
+ */
+export interface MergeTransition {
+  type: MergeTransitionType;
+  /** Length in seconds (default: 0.5) - the clips overlap by this much */
+  duration?: number;
+  /** Default: linear */
+  easing?: TransitionEasing;
+}
+
 /**
  * New merge media options supporting videos, images, and audio
  */
@@ -41,18 +167,61 @@ export interface MergeMediaOptions {
     duration?: number;
     /** Volume level from 0 to 1 (default: 1). Affects the video's audio track */
     volume?: number;
+    /** Transition into the next visual item (default: hard cut) */
+    transition?: MergeTransition;
   }>;
 
   /** Audio overlay items - mixed on timeline */
-  audio?: Array<{
-    url: string;
-    /** Start position in seconds (default: 0) */
-    offset?: number;
-    /** Optional: limit audio duration */
-    duration?: number;
-    /** Volume level from 0 to 1 (default: 1) */
-    volume?: number;
-  }>;
+  audio?: AudioOverlay[];
+
+  /** Normalize the loudness of the final mix */
+  loudness?: LoudnessOptions;
+}
+
+/**
+ * Sidechain compression of a track while other audio plays
+ */
+export interface DuckingOptions {
+  /** Level of the other audio (0-1) above which ducking starts (default: 0.05) */
+  threshold?: number;
+  /** Compression ratio, 1-20 (default: 8) */
+  ratio?: number;
+  /** Milliseconds to dip once the other audio starts (default: 20) */
+  attack?: number;
+  /** Milliseconds to recover once it stops (default: 400) */
+  release?: number;
+}
+
+/**
+ * Audio track mixed over a video
+ */
+export interface AudioOverlay {
+  url: string;
+  /** Start position in seconds on the merged timeline, after transitions (default: 0) */
+  offset?: number;
+  /** Optional: limit audio duration */
+  duration?: number;
+  /** Volume level from 0 to 1 (default: 1) */
+  volume?: number;
+  /** Fade-in length in seconds */
+  fadeIn?: number;
+  /** Fade-out length in seconds, ending where the track ends */
+  fadeOut?: number;
+  /**
+   * Dip this track while the other audio plays - overlay tracks that aren't
+   * ducked and the video's own audio (e.g. music under narration)
+   */
+  duck?: boolean | DuckingOptions;
+}
+
+/**
+ * EBU R128 loudness normalization
+ */
+export interface LoudnessOptions {
+  /** Integrated loudness in LUFS (default: -14) */
+  target?: number;
+  /** Maximum true peak in dBTP (default: -1.5) */
+  truePeak?: number;
 }
 
 export interface VideoMetadata {
@@ -62,6 +231,12 @@ export interface VideoMetadata {
   fps: number;
 }
 
+export interface MediaMetadata extends VideoMetadata {
+  isVideo: boolean;
+  isAudio: boolean;
+  hasAudio: boolean;
+}
+
 export interface PlacementConfig {
   x: string; // X position (can use FFmpeg expressions like "(W-w)/2")
   y: string; // Y position
@@ -69,6 +244,75 @@ export interface PlacementConfig {
   height?: string; // Optional height scaling
 }
 
+export type KeyframeEasing = "linear" | "ease-in" | "ease-out" | "ease-in-out";
+
+/**
+ * State of a layer at a point in time. Values not set carry over from the
+ * previous keyframe, starting from the layer's placement.
+ */
+export interface LayerKeyframe {
+  time: number; // Seconds from the start of the output
+  placement?: string; // Preset or Tailwind-style placement at this keyframe
+  x?: string | number; // X position (pixels or expressions like "(W-w)/2")
+  y?: string | number; // Y position
+  width?: string | number; // Width (pixels or expressions like "iw/2")
+  height?: string | number; // Height
+  opacity?: number; // 0 (transparent) to 1 (default: 1)
+  rotation?: number; // Degrees clockwise (default: 0)
+  easing?: KeyframeEasing; // Easing from the previous keyframe (default: "linear")
+}
+
+export type TextAlignment =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+
+/**
+ * Text drawn over a video (title, lower third, call to action).
+ * Colors are hex (#RRGGBB) or ASS (&HAABBGGRR, for transparency).
+ */
+export interface TextOverlay {
+  text: string; // Line breaks start a new line
+  fontFamily?: string; // Default: "Arial"
+  fontWeight?: "normal" | "bold" | number; // Default: "bold"
+  fontSize?: number; // Pixels at the output resolution (default: 6% of the height)
+  italic?: boolean;
+  color?: string; // Default: white
+  strokeColor?: string; // Outline around the letters (default: black)
+  strokeWidth?: number; // Default: 0 (not drawn with a background box)
+  backgroundColor?: string; // Box behind the text
+  padding?: number; // Space between the text and its box (default: 20)
+  alignment?: TextAlignment; // Where on the frame (default: "center")
+  margin?: number; // Distance from the frame edges (default: 5% of the height)
+  x?: number; // With y: exact position of the alignment point, in pixels
+  y?: number;
+  start?: number; // Seconds (default: 0)
+  end?: number; // Seconds (default: end of the video)
+  fadeIn?: number; // Seconds
+  fadeOut?: number; // Seconds
+}
+
+/**
+ * Font file uploaded by an organization, for captions and text overlays.
+ * Text uses it when its fontFamily is the family name inside the file.
+ */
+export interface FontFile {
+  format: "ttf" | "otf";
+  url: string;
+}
+
+export interface OverlayTextOptions {
+  url: string;
+  texts: TextOverlay[];
+  fonts?: FontFile[];
+}
+
 export interface LayerMediaOptions {
   layers: Array<
     | {
@@ -80,6 +324,7 @@ export interface LayerMediaOptions {
         blend?: number;
         isTimeline?: false;
         main?: boolean;
+        keyframes?: LayerKeyframe[];
       }
     | {
         isTimeline: true;
@@ -101,6 +346,14 @@ export interface LayerMediaOptions {
   outputWidth?: number;
   outputHeight?: number;
   mainLayer?: number;
+  /** Audio tracks mixed over the main layer's audio */
+  audio?: AudioOverlay[];
+  /** Normalize the loudness of the final mix */
+  loudness?: LoudnessOptions;
+  /** Text drawn above all media layers */
+  texts?: TextOverlay[];
+  /** Uploaded fonts used by the texts */
+  fonts?: FontFile[];
 }
 
 export interface ReplaceGreenScreenOptions {
@@ -110,3 +363,29 @@ export interface ReplaceGreenScreenOptions {
   similarity?: number; // Default: 0.25 (range: 0.0-1.0, balanced green removal)
   blend?: number; // Default: 0.05 (range: 0.0-1.0, minimal edge blending)
 }
+
+export type ReframeAspectRatio =
+  | "16:9"
+  | "9:16"
+  | "4:3"
+  | "3:4"
+  | "1:1"
+  | "4:5"
+  | "21:9"
+  | "9:21";
+
+/**
+ * How the source frame is fitted into the target aspect ratio
+ * - crop: center crop, no borders
+ * - blur: full frame over a blurred, zoomed copy of itself
+ * - pad: full frame over a solid color
+ * - smart: crop window that follows on-screen motion
+ */
+export type ReframeStrategy = "crop" | "blur" | "pad" | "smart";
+
+export interface ReframeVideoOptions {
+  videoUrl: string;
+  aspectRatio: ReframeAspectRatio;
+  strategy?: ReframeStrategy; // Default: "crop"
+  backgroundColor?: string; // Pad color for "pad" strategy (default: "black")
+}
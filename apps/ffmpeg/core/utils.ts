@@ -16,6 +16,12 @@ export function isVideoFile(filePath: string): boolean {
   return videoExtensions.includes(ext);
 }
 
+export function isAudioFile(filePath: string): boolean {
+  const audioExtensions = [".mp3", ".wav", ".aac", ".m4a", ".ogg", ".flac"];
+  const ext = filePath.toLowerCase().slice(filePath.lastIndexOf("."));
+  return audioExtensions.includes(ext);
+}
+
 /**
  * Stream a fetch response directly to disk to avoid loading entire file into RAM.
  * This significantly reduces memory usage when downloading large media files.
@@ -2,7 +2,13 @@
  * Calculate dimensions and evaluate placement expressions
  */
 
-import type { PlacementConfig } from "../core/types.js";
+import type {
+  KeyframeEasing,
+  LayerKeyframe,
+  PlacementConfig,
+} from "../core/types.js";
+import { getPlacementConfig } from "./placement.js";
+import { logger } from "../core/logger";
 
 /**
  * Ensure a dimension is even (divisible by 2) for FFmpeg compatibility
@@ -125,12 +131,179 @@ export function calculateLayerDimensions(
     scaledHeight,
   );
 
-  console.log(`[DimensionCalc] Background: ${bgWidth}x${bgHeight}`);
-  console.log(
+  logger.info(`[DimensionCalc] Background: ${bgWidth}x${bgHeight}`);
+  logger.info(
     `[DimensionCalc] Overlay original: ${overlayWidth}x${overlayHeight}`,
   );
-  console.log(`[DimensionCalc] Overlay scaled: ${scaledWidth}x${scaledHeight}`);
-  console.log(`[DimensionCalc] Position: (${x}, ${y})`);
+  logger.info(`[DimensionCalc] Overlay scaled: ${scaledWidth}x${scaledHeight}`);
+  logger.info(`[DimensionCalc] Position: (${x}, ${y})`);
 
   return { width: scaledWidth, height: scaledHeight, x, y };
 }
+
+/**
+ * Layer position, size and look at a keyframe, in pixels
+ */
+export interface ResolvedKeyframe {
+  time: number;
+  easing: KeyframeEasing;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  opacity: number;
+  rotation: number;
+}
+
+export type AnimatedProperty = Exclude<
+  keyof ResolvedKeyframe,
+  "time" | "easing"
+>;
+
+/**
+ * Resolve layer keyframes to pixel values. The layer's placement is its
+ * state at time 0 unless a keyframe at 0 overrides it, and each keyframe
+ * starts from the previous one.
+ */
+export function calculateKeyframes(
+  bgWidth: number,
+  bgHeight: number,
+  overlayWidth: number,
+  overlayHeight: number,
+  placementConfig: PlacementConfig,
+  keyframes: LayerKeyframe[],
+): ResolvedKeyframe[] {
+  const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+
+  sorted.forEach((keyframe, i) => {
+    if (!Number.isFinite(keyframe.time) || keyframe.time < 0) {
+      throw new Error(`Invalid keyframe time: ${keyframe.time}`);
+    }
+    if (i > 0 && keyframe.time === sorted[i - 1].time) {
+      throw new Error(`Duplicate keyframe at ${keyframe.time}s`);
+    }
+    if (
+      keyframe.opacity !== undefined &&
+      !(keyframe.opacity >= 0 && keyframe.opacity <= 1)
+    ) {
+      throw new Error(`Keyframe opacity must be from 0 to 1`);
+    }
+  });
+
+  const resolve = (
+    time: number,
+    easing: KeyframeEasing,
+    config: PlacementConfig,
+    opacity: number,
+    rotation: number,
+  ): ResolvedKeyframe => ({
+    time,
+    easing,
+    ...calculateLayerDimensions(
+      bgWidth,
+      bgHeight,
+      overlayWidth,
+      overlayHeight,
+      config,
+    ),
+    opacity,
+    rotation,
+  });
+
+  const resolved: ResolvedKeyframe[] = [];
+  let config = placementConfig;
+  let opacity = 1;
+  let rotation = 0;
+
+  if (sorted[0]?.time !== 0) {
+    resolved.push(resolve(0, "linear", config, opacity, rotation));
+  }
+
+  for (const keyframe of sorted) {
+    config = keyframe.placement
+      ? getPlacementConfig(keyframe.placement)
+      : { ...config };
+
+    if (keyframe.x !== undefined) config.x = String(keyframe.x);
+    if (keyframe.y !== undefined) config.y = String(keyframe.y);
+    // Setting only one of width or height keeps the layer's aspect ratio
+    if (keyframe.width !== undefined || keyframe.height !== undefined) {
+      config.width = keyframe.width?.toString();
+      config.height = keyframe.height?.toString();
+    }
+
+    opacity = keyframe.opacity ?? opacity;
+    rotation = keyframe.rotation ?? rotation;
+
+    resolved.push(
+      resolve(
+        keyframe.time,
+        keyframe.easing ?? "linear",
+        config,
+        opacity,
+        rotation,
+      ),
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Whether a property changes between keyframes
+ */
+export function isAnimated(
+  keyframes: ResolvedKeyframe[],
+  property: AnimatedProperty,
+): boolean {
+  return keyframes.some(
+    (keyframe) => keyframe[property] !== keyframes[0][property],
+  );
+}
+
+/**
+ * Eased progress for a linear progress expression running from 0 to 1
+ */
+const EASINGS: Record<KeyframeEasing, (p: string) => string> = {
+  linear: (p) => p,
+  "ease-in": (p) => `${p}*${p}`,
+  "ease-out": (p) => `${p}*(2-${p})`,
+  "ease-in-out": (p) => `if(lt(${p},0.5),2*${p}*${p},1-2*(1-${p})*(1-${p}))`,
+};
+
+/**
+ * Build a time-varying FFmpeg expression for a property, interpolating
+ * between keyframes (e.g. "if(lt(t,2),0+(300)*clip((t-0)/2,0,1),300)").
+ * Holds the first value before the first keyframe and the last one after.
+ *
+ * @param timeVar - Time variable of the filter the expression is used in
+ *   ("t" for overlay, scale and rotate, "T" for geq)
+ */
+export function keyframeExpression(
+  keyframes: ResolvedKeyframe[],
+  property: AnimatedProperty,
+  timeVar = "t",
+): string {
+  if (!isAnimated(keyframes, property)) {
+    return String(keyframes[0][property]);
+  }
+
+  let expression = String(keyframes[keyframes.length - 1][property]);
+
+  for (let i = keyframes.length - 1; i > 0; i--) {
+    const from = keyframes[i - 1];
+    const to = keyframes[i];
+    const delta = to[property] - from[property];
+
+    const value =
+      delta === 0
+        ? String(from[property])
+        : `${from[property]}+(${delta})*${EASINGS[to.easing](
+            `clip((${timeVar}-${from.time})/${to.time - from.time},0,1)`,
+          )}`;
+
+    expression = `if(lt(${timeVar},${to.time}),${value},${expression})`;
+  }
+
+  return expression;
+}
@@ -1,6 +1,10 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { unlink } from "fs/promises";
-import { processMedia, type FFmpegOptions } from "./operations/process-media";
+import {
+  processMedia,
+  processMediaFromUrl,
+  type FFmpegOptions,
+} from "./operations/process-media";
 import { mergeVideos, mergeMedia } from "./operations/merge-videos";
 import type { MergeVideosOptions, MergeMediaOptions } from "./core/types";
 import { layerMedia } from "./operations/layer-media";
@@ -10,7 +14,43 @@ import {
   burnSubtitles,
   type BurnSubtitlesOptions,
 } from "./operations/burn-subtitles";
-import { CaptionService, type TranscriptWord } from "./captions";
+import {
+  CaptionService,
+  generateSidecarSubtitles,
+  SIDECAR_FORMATS,
+  type SidecarFormat,
+  type TranscriptWord,
+} from "./captions";
+import { isValidPadColor, reframeVideo } from "./operations/reframe-video";
+import {
+  createPlaceholderMedia,
+  validatePlaceholderOptions,
+} from "./operations/placeholder-media";
+import { overlayText } from "./operations/overlay-text";
+import {
+  MAX_SPEED_FACTOR,
+  MIN_SPEED_FACTOR,
+  changeSpeed,
+  loopMedia,
+  reverseMedia,
+  trimMedia,
+  type RetimedMedia,
+} from "./operations/retime-media";
+import type {
+  CompressVideoFromUrlOptions,
+  ConvertFromUrlOptions,
+  CreateGifFromUrlOptions,
+  ExtractAudioFromUrlOptions,
+  LoopMediaOptions,
+  OverlayTextOptions,
+  PlaceholderMediaOptions,
+  ReframeVideoOptions,
+  ReverseMediaOptions,
+  SpeedMediaOptions,
+  ThumbnailFromUrlOptions,
+  TrimMediaOptions,
+} from "./core/types";
+import { configureLogger, logger, runWithLogContext } from "./core/logger";
 
 /**
  * Stream a file response and clean up the file after streaming completes
@@ -41,14 +81,14 @@ async function streamFileResponse(
 
       await writer.close();
     } catch (error) {
-      console.error("[StreamFile] Error streaming file:", error);
+      logger.error("[StreamFile] Error streaming file:", error);
     } finally {
       // Clean up the temp file after streaming
       try {
         await unlink(filePath);
-        console.log(`[StreamFile] Cleaned up temp file: ${filePath}`);
+        logger.info(`[StreamFile] Cleaned up temp file: ${filePath}`);
       } catch (e) {
-        console.error(`[StreamFile] Failed to clean up: ${filePath}`, e);
+        logger.error(`[StreamFile] Failed to clean up: ${filePath}`, e);
       }
     }
   })();
@@ -62,8 +102,17 @@ async function streamFileResponse(
   });
 }
 
+configureLogger({ service: "ffmpeg" });
+
 const app = new Hono();
 
+// Tag the logs of each request, using the caller's X-Request-Id when set
+app.use("*", async (c, next) => {
+  const requestId = c.req.header("X-Request-Id") || crypto.randomUUID();
+  c.header("X-Request-Id", requestId);
+  await runWithLogContext({ requestId }, next);
+});
+
 // Helper to validate and parse FFmpeg options
 const parseFFmpegOptions = (formData: FormData): FFmpegOptions | null => {
   const options: Record<string, string> = {};
@@ -77,9 +126,31 @@ const parseFFmpegOptions = (formData: FormData): FFmpegOptions | null => {
   return options as unknown as FFmpegOptions;
 };
 
+// The utility endpoints take either a multipart upload or a JSON body with a
+// media URL - the JSON variants stream the result instead of buffering it
+const isJsonRequest = (c: Context): boolean =>
+  c.req.header("Content-Type")?.includes("application/json") ?? false;
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : "Unknown error";
+
 // Generic conversion endpoint that accepts FFmpeg options
 app.post("/convert", async (c) => {
   try {
+    if (isJsonRequest(c)) {
+      const { url, ...options } = await c.req.json<ConvertFromUrlOptions>();
+      if (!url) return c.json({ error: "url is required" }, 400);
+      if (!options.outputFormat)
+        return c.json({ error: "Output format is required" }, 400);
+
+      const outputPath = await processMediaFromUrl(url, options);
+      return streamFileResponse(
+        outputPath,
+        "application/octet-stream",
+        `converted-${Date.now()}.${options.outputFormat}`,
+      );
+    }
+
     const formData = await c.req.formData();
     const file = formData.get("file") as File | null;
     const options = parseFFmpegOptions(formData);
@@ -100,14 +171,35 @@ app.post("/convert", async (c) => {
     );
     return c.body(new Uint8Array(outputBuffer));
   } catch (error) {
-    console.error("Error:", error);
-    return c.json({ error: "Failed to process media" }, 500);
+    logger.error("Error:", error);
+    return c.json(
+      { error: `Failed to process media: ${getErrorMessage(error)}` },
+      500,
+    );
   }
 });
 
 // Convenience endpoints for common operations
 app.post("/extract-audio", async (c) => {
   try {
+    if (isJsonRequest(c)) {
+      const body = await c.req.json<ExtractAudioFromUrlOptions>();
+      const format = body.format || "mp3";
+      if (!body.url) return c.json({ error: "url is required" }, 400);
+      if (!["mp3", "aac", "wav"].includes(format))
+        return c.json({ error: "format must be one of: mp3, aac, wav" }, 400);
+
+      const outputPath = await processMediaFromUrl(
+        body.url,
+        presets.extractAudio(format),
+      );
+      return streamFileResponse(
+        outputPath,
+        `audio/${format}`,
+        `audio-${Date.now()}.${format}`,
+      );
+    }
+
     const formData = await c.req.formData();
     const file = formData.get("file") as File | null;
     const format = (formData.get("format") as "mp3" | "aac" | "wav") || "mp3";
@@ -129,13 +221,38 @@ app.post("/extract-audio", async (c) => {
     );
     return c.body(new Uint8Array(outputBuffer));
   } catch (error) {
-    console.error("Error:", error);
-    return c.json({ error: "Failed to extract audio" }, 500);
+    logger.error("Error:", error);
+    return c.json(
+      { error: `Failed to extract audio: ${getErrorMessage(error)}` },
+      500,
+    );
   }
 });
 
 app.post("/compress-video", async (c) => {
   try {
+    if (isJsonRequest(c)) {
+      const body = await c.req.json<CompressVideoFromUrlOptions>();
+      const format = body.format || "mp4";
+      if (!body.url) return c.json({ error: "url is required" }, 400);
+      if (!["mp4", "webm", "mov"].includes(format))
+        return c.json({ error: "format must be one of: mp4, webm, mov" }, 400);
+
+      const outputPath = await processMediaFromUrl(
+        body.url,
+        presets.transcode(format, body.quality, {
+          width: body.width,
+          height: body.height,
+          fps: body.fps,
+        }),
+      );
+      return streamFileResponse(
+        outputPath,
+        format === "mov" ? "video/quicktime" : `video/${format}`,
+        `compressed-${Date.now()}.${format}`,
+      );
+    }
+
     const formData = await c.req.formData();
     const file = formData.get("file") as File | null;
     const quality =
@@ -158,13 +275,35 @@ app.post("/compress-video", async (c) => {
     );
     return c.body(new Uint8Array(outputBuffer));
   } catch (error) {
-    console.error("Error:", error);
-    return c.json({ error: "Failed to compress video" }, 500);
+    logger.error("Error:", error);
+    return c.json(
+      { error: `Failed to compress video: ${getErrorMessage(error)}` },
+      500,
+    );
   }
 });
 
 app.post("/create-gif", async (c) => {
   try {
+    if (isJsonRequest(c)) {
+      const body = await c.req.json<CreateGifFromUrlOptions>();
+      if (!body.url) return c.json({ error: "url is required" }, 400);
+
+      const outputPath = await processMediaFromUrl(
+        body.url,
+        presets.createGif(body.fps || 10, {
+          width: body.width,
+          startTime: body.startTime,
+          duration: body.duration,
+        }),
+      );
+      return streamFileResponse(
+        outputPath,
+        "image/gif",
+        `animation-${Date.now()}.gif`,
+      );
+    }
+
     const formData = await c.req.formData();
     const file = formData.get("file") as File | null;
     const fps = Number(formData.get("fps")) || 10;
@@ -183,13 +322,34 @@ app.post("/create-gif", async (c) => {
     );
     return c.body(new Uint8Array(outputBuffer));
   } catch (error) {
-    console.error("Error:", error);
-    return c.json({ error: "Failed to create GIF" }, 500);
+    logger.error("Error:", error);
+    return c.json(
+      { error: `Failed to create GIF: ${getErrorMessage(error)}` },
+      500,
+    );
   }
 });
 
 app.post("/thumbnail", async (c) => {
   try {
+    if (isJsonRequest(c)) {
+      const body = await c.req.json<ThumbnailFromUrlOptions>();
+      if (!body.url) return c.json({ error: "url is required" }, 400);
+
+      const outputPath = await processMediaFromUrl(
+        body.url,
+        presets.thumbnail(String(body.time ?? "00:00:01"), {
+          width: body.width,
+          height: body.height,
+        }),
+      );
+      return streamFileResponse(
+        outputPath,
+        "image/jpeg",
+        `thumbnail-${Date.now()}.jpg`,
+      );
+    }
+
     const formData = await c.req.formData();
     const file = formData.get("file") as File | null;
     const time = (formData.get("time") as string) || "00:00:01";
@@ -213,8 +373,11 @@ app.post("/thumbnail", async (c) => {
     );
     return c.body(new Uint8Array(outputBuffer));
   } catch (error) {
-    console.error("Error:", error);
-    return c.json({ error: "Failed to create thumbnail" }, 500);
+    logger.error("Error:", error);
+    return c.json(
+      { error: `Failed to create thumbnail: ${getErrorMessage(error)}` },
+      500,
+    );
   }
 });
 
@@ -229,7 +392,7 @@ app.post("/merge", async (c) => {
         return c.json({ error: "At least 1 item required for merging" }, 400);
       }
 
-      console.log("[Merge API] Processing new format request:", {
+      logger.info("[Merge API] Processing new format request:", {
         itemCount: body.items.length,
         audioCount: body.audio?.length || 0,
       });
@@ -248,7 +411,7 @@ app.post("/merge", async (c) => {
         return c.json({ error: "At least 2 videos required for merging" }, 400);
       }
 
-      console.log("[Merge API] Processing legacy format request:", {
+      logger.info("[Merge API] Processing legacy format request:", {
         videoCount: body.videos.length,
       });
 
@@ -267,7 +430,7 @@ app.post("/merge", async (c) => {
       );
     }
   } catch (error) {
-    console.error("Error:", error);
+    logger.error("Error:", error);
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
     return c.json({ error: `Failed to merge media: ${errorMessage}` }, 500);
@@ -282,7 +445,7 @@ app.post("/layer", async (c) => {
       return c.json({ error: "At least 1 layer is required" }, 400);
     }
 
-    console.log("[Layer API] Processing request:", {
+    logger.info("[Layer API] Processing request:", {
       layerCount: body.layers.length,
       outputDuration: body.outputDuration,
       outputWidth: body.outputWidth,
@@ -298,7 +461,7 @@ app.post("/layer", async (c) => {
       `layered-${Date.now()}.mp4`,
     );
   } catch (error) {
-    console.error("Error:", error);
+    logger.error("Error:", error);
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
     return c.json({ error: `Failed to layer media: ${errorMessage}` }, 500);
@@ -325,11 +488,166 @@ app.post("/burn-subtitles", async (c) => {
       `captioned-${Date.now()}.mp4`,
     );
   } catch (error) {
-    console.error("Error:", error);
+    logger.error("Error:", error);
     return c.json({ error: "Failed to burn subtitles" }, 500);
   }
 });
 
+app.post("/overlay-text", async (c) => {
+  try {
+    const body = await c.req.json<OverlayTextOptions>();
+
+    if (!body.url) {
+      return c.json({ error: "url is required" }, 400);
+    }
+    if (!Array.isArray(body.texts) || body.texts.length === 0) {
+      return c.json({ error: "At least 1 text overlay is required" }, 400);
+    }
+    if (body.texts.some((text) => !text?.text)) {
+      return c.json({ error: "Every text overlay needs text" }, 400);
+    }
+
+    // Returns file path - we stream it to avoid loading into RAM
+    const outputPath = await overlayText(body);
+
+    return streamFileResponse(
+      outputPath,
+      "video/mp4",
+      `text-${Date.now()}.mp4`,
+    );
+  } catch (error) {
+    logger.error("Error:", error);
+    return c.json(
+      { error: `Failed to overlay text: ${getErrorMessage(error)}` },
+      500,
+    );
+  }
+});
+
+app.post("/reframe", async (c) => {
+  try {
+    const body = await c.req.json<ReframeVideoOptions>();
+
+    if (!body.videoUrl) {
+      return c.json({ error: "videoUrl is required" }, 400);
+    }
+    if (!body.aspectRatio) {
+      return c.json({ error: "aspectRatio is required" }, 400);
+    }
+    if (
+      body.strategy &&
+      !["crop", "blur", "pad", "smart"].includes(body.strategy)
+    ) {
+      return c.json(
+        { error: "strategy must be one of: crop, blur, pad, smart" },
+        400,
+      );
+    }
+    if (body.backgroundColor && !isValidPadColor(body.backgroundColor)) {
+      return c.json(
+        { error: "backgroundColor must be a hex (#RRGGBB) or named color" },
+        400,
+      );
+    }
+
+    logger.info("[Reframe API] Processing request:", {
+      aspectRatio: body.aspectRatio,
+      strategy: body.strategy || "crop",
+    });
+
+    // Returns file path - we stream it to avoid loading into RAM
+    const outputPath = await reframeVideo(body);
+
+    return streamFileResponse(
+      outputPath,
+      "video/mp4",
+      `reframed-${Date.now()}.mp4`,
+    );
+  } catch (error) {
+    logger.error("Error:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: `Failed to reframe video: ${errorMessage}` }, 500);
+  }
+});
+
+// Retiming endpoints take a video or audio URL and return the same kind of media
+const streamRetimedMedia = (media: RetimedMedia, name: string) =>
+  media.isVideo
+    ? streamFileResponse(media.path, "video/mp4", `${name}-${Date.now()}.mp4`)
+    : streamFileResponse(media.path, "audio/mpeg", `${name}-${Date.now()}.mp3`);
+
+app.post("/trim", async (c) => {
+  try {
+    const body = await c.req.json<TrimMediaOptions>();
+    if (!body.url) return c.json({ error: "url is required" }, 400);
+
+    return streamRetimedMedia(await trimMedia(body), "trimmed");
+  } catch (error) {
+    logger.error("Error:", error);
+    return c.json(
+      { error: `Failed to trim media: ${getErrorMessage(error)}` },
+      500,
+    );
+  }
+});
+
+app.post("/speed", async (c) => {
+  try {
+    const body = await c.req.json<SpeedMediaOptions>();
+    if (!body.url) return c.json({ error: "url is required" }, 400);
+    if (
+      typeof body.factor !== "number" ||
+      body.factor < MIN_SPEED_FACTOR ||
+      body.factor > MAX_SPEED_FACTOR
+    )
+      return c.json(
+        {
+          error: `factor must be a number from ${MIN_SPEED_FACTOR} to ${MAX_SPEED_FACTOR}`,
+        },
+        400,
+      );
+
+    return streamRetimedMedia(await changeSpeed(body), "speed");
+  } catch (error) {
+    logger.error("Error:", error);
+    return c.json(
+      { error: `Failed to change speed: ${getErrorMessage(error)}` },
+      500,
+    );
+  }
+});
+
+app.post("/loop", async (c) => {
+  try {
+    const body = await c.req.json<LoopMediaOptions>();
+    if (!body.url) return c.json({ error: "url is required" }, 400);
+
+    return streamRetimedMedia(await loopMedia(body), "looped");
+  } catch (error) {
+    logger.error("Error:", error);
+    return c.json(
+      { error: `Failed to loop media: ${getErrorMessage(error)}` },
+      500,
+    );
+  }
+});
+
+app.post("/reverse", async (c) => {
+  try {
+    const body = await c.req.json<ReverseMediaOptions>();
+    if (!body.url) return c.json({ error: "url is required" }, 400);
+
+    return streamRetimedMedia(await reverseMedia(body), "reversed");
+  } catch (error) {
+    logger.error("Error:", error);
+    return c.json(
+      { error: `Failed to reverse media: ${getErrorMessage(error)}` },
+      500,
+    );
+  }
+});
+
 app.post("/generate-subtitles", async (c) => {
   try {
     const body = await c.req.json<{
@@ -338,12 +656,28 @@ app.post("/generate-subtitles", async (c) => {
       overrides?: any;
       videoWidth?: number;
       videoHeight?: number;
+      format?: "ass" | SidecarFormat;
     }>();
 
     if (!body.words || !Array.isArray(body.words)) {
       return c.json({ error: "words array is required" }, 400);
     }
 
+    if (body.format && body.format !== "ass") {
+      if (!SIDECAR_FORMATS.includes(body.format)) {
+        return c.json(
+          {
+            error: `format must be one of: ass, ${SIDECAR_FORMATS.join(", ")}`,
+          },
+          400,
+        );
+      }
+
+      return c.json({
+        subtitleContent: generateSidecarSubtitles(body.words, body.format),
+      });
+    }
+
     const captionService = new CaptionService();
     const subtitleContent = captionService.generateSubtitleContent({
       words: body.words,
@@ -355,24 +689,82 @@ app.post("/generate-subtitles", async (c) => {
 
     return c.json({ subtitleContent });
   } catch (error) {
-    console.error("Error:", error);
+    logger.error("Error:", error);
     return c.json({ error: "Failed to generate subtitles" }, 500);
   }
 });
 
+// Placeholder media for test-mode provider jobs. A GET with the options in
+// the query, so the URL itself can stand in for a provider's output URL.
+app.get("/placeholder/:type", async (c) => {
+  const number = (name: string) => {
+    const value = c.req.query(name);
+    return value === undefined ? undefined : Number(value);
+  };
+
+  const options: PlaceholderMediaOptions = {
+    type: c.req.param("type") as PlaceholderMediaOptions["type"],
+    color: c.req.query("color"),
+    frequency: number("frequency"),
+    duration: number("duration"),
+    width: number("width"),
+    height: number("height"),
+  };
+
+  const invalid = validatePlaceholderOptions(options);
+  if (invalid) return c.json({ error: invalid }, 400);
+
+  try {
+    const outputPath = await createPlaceholderMedia(options);
+    const [contentType, ext] =
+      options.type === "video"
+        ? ["video/mp4", "mp4"]
+        : options.type === "image"
+          ? ["image/png", "png"]
+          : ["audio/mpeg", "mp3"];
+
+    return streamFileResponse(
+      outputPath,
+      contentType,
+      `placeholder-${options.color ?? "808080"}.${ext}`,
+    );
+  } catch (error) {
+    logger.error("Error:", error);
+    return c.json(
+      {
+        error: `Failed to create placeholder media: ${getErrorMessage(error)}`,
+      },
+      500,
+    );
+  }
+});
+
 app.get("/", (c) =>
   c.json({
     status: "ok",
     endpoints: {
-      "/convert": "Generic conversion with custom FFmpeg options",
-      "/extract-audio": "Extract audio from video (MP3, AAC, WAV)",
-      "/compress-video": "Compress video with quality presets",
-      "/create-gif": "Convert video to GIF",
-      "/thumbnail": "Generate video thumbnail",
+      "/convert":
+        "Generic conversion with custom FFmpeg options (upload or JSON with url)",
+      "/extract-audio":
+        "Extract audio from video (MP3, AAC, WAV) (upload or JSON with url)",
+      "/compress-video":
+        "Compress or transcode video with quality presets (upload or JSON with url)",
+      "/create-gif": "Convert video to GIF (upload or JSON with url)",
+      "/thumbnail": "Generate video thumbnail (upload or JSON with url)",
       "/merge": "Merge multiple videos into one",
       "/layer": "Layer multiple media with placement and effects",
       "/burn-subtitles": "Burn subtitles into video",
-      "/generate-subtitles": "Generate ASS subtitle content from transcript",
+      "/overlay-text": "Draw titles, lower thirds or other text over a video",
+      "/generate-subtitles":
+        "Generate subtitle content from transcript (ASS, SRT, WebVTT, JSON)",
+      "/reframe":
+        "Convert video to another aspect ratio (crop, blur, pad, smart)",
+      "/trim": "Cut video or audio to a time range",
+      "/speed": "Change playback speed of video or audio",
+      "/loop": "Repeat video or audio a number of times or to a duration",
+      "/reverse": "Play video or audio backwards",
+      "/placeholder/:type":
+        "Solid color video, image or tone audio for test-mode jobs (GET)",
     },
   }),
 );
@@ -20,6 +20,7 @@ import { join } from "path";
 import { tmpdir } from "os";
 import { nanoid } from "nanoid";
 import { ensureEven } from "../dimensions/calculator";
+import { logger } from "../core/logger";
 
 export interface BackgroundSegment {
   mediaPath: string;
@@ -46,16 +47,16 @@ export async function stitchBackgrounds(
   const evenWidth = ensureEven(outputWidth);
   const evenHeight = ensureEven(outputHeight);
 
-  console.log(
+  logger.info(
     `[BackgroundStitcher] Stitching ${segments.length} background segments`,
   );
-  console.log(
+  logger.info(
     `[BackgroundStitcher] Target resolution: ${evenWidth}x${evenHeight}`,
   );
 
   // If only one segment, just process it directly
   if (segments.length === 1) {
-    console.log("[BackgroundStitcher] Single segment - processing directly");
+    logger.info("[BackgroundStitcher] Single segment - processing directly");
     await processSingleBackground(
       segments[0],
       evenWidth,
@@ -73,7 +74,7 @@ export async function stitchBackgrounds(
     const segmentPath = join(tmpdir(), `${nanoid()}_bg_seg_${i}.mp4`);
     tempFiles.push(segmentPath);
 
-    console.log(
+    logger.info(
       `[BackgroundStitcher] Processing segment ${i + 1}/${segments.length}: ${segment.duration}s`,
     );
 
@@ -83,12 +84,12 @@ export async function stitchBackgrounds(
   }
 
   // Concatenate all normalized segments using concat demuxer
-  console.log(
+  logger.info(
     `[BackgroundStitcher] Concatenating ${normalizedSegmentPaths.length} segments`,
   );
   await concatenateNormalizedSegments(normalizedSegmentPaths, outputPath);
 
-  console.log(`[BackgroundStitcher] Stitching complete: ${outputPath}`);
+  logger.info(`[BackgroundStitcher] Stitching complete: ${outputPath}`);
 }
 
 /**
@@ -135,10 +136,10 @@ async function processSingleBackground(
       ])
       .toFormat("mp4")
       .on("start", (commandLine: string) =>
-        console.log(`[BackgroundStitcher] FFmpeg:`, commandLine),
+        logger.info(`[BackgroundStitcher] FFmpeg:`, commandLine),
       )
       .on("error", (err) => {
-        console.error(`[BackgroundStitcher] Error:`, err);
+        logger.error(`[BackgroundStitcher] Error:`, err);
         reject(err);
       })
       .save(outputPath)
@@ -173,15 +174,15 @@ async function concatenateNormalizedSegments(
       .outputOptions(["-pix_fmt", "yuv420p", "-preset", "fast"])
       .toFormat("mp4")
       .on("start", (commandLine: string) =>
-        console.log(`[BackgroundStitcher] Concat FFmpeg:`, commandLine),
+        logger.info(`[BackgroundStitcher] Concat FFmpeg:`, commandLine),
       )
       .on("error", (err) => {
-        console.error(`[BackgroundStitcher] Concat error:`, err);
+        logger.error(`[BackgroundStitcher] Concat error:`, err);
         reject(err);
       })
       .save(outputPath)
       .on("end", () => {
-        console.log(`[BackgroundStitcher] Concat complete`);
+        logger.info(`[BackgroundStitcher] Concat complete`);
         resolve();
       });
   });
@@ -3,6 +3,7 @@
  */
 
 import ffmpeg from "fluent-ffmpeg";
+import { logger } from "../core/logger";
 
 export async function concatenateSegments(
   segmentPaths: string[],
@@ -29,7 +30,7 @@ export async function concatenateSegments(
       .audioCodec("aac")
       .toFormat("mp4")
       .on("start", (commandLine: string) =>
-        console.log("[Concat] FFmpeg command:", commandLine),
+        logger.info("[Concat] FFmpeg command:", commandLine),
       )
       .on("error", reject)
       .save(outputPath)
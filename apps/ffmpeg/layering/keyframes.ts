@@ -0,0 +1,115 @@
+/**
+ * Keyframe animation of overlay layers (position, size, opacity, rotation)
+ */
+
+import type { LayerKeyframe, PlacementConfig } from "../core/types.js";
+import {
+  calculateKeyframes,
+  isAnimated,
+  keyframeExpression,
+} from "../dimensions/calculator.js";
+import { logger } from "../core/logger";
+
+/**
+ * Build the filters that animate an overlay layer and overlay it on the
+ * current output. Image layers must be looped (-loop 1) so every frame of
+ * the animation is rendered.
+ */
+export function keyframedOverlayFilters({
+  input,
+  base,
+  output,
+  index,
+  bgWidth,
+  bgHeight,
+  overlayWidth,
+  overlayHeight,
+  placementConfig,
+  keyframes,
+}: {
+  input: string;
+  base: string;
+  output: string;
+  index: number;
+  bgWidth: number;
+  bgHeight: number;
+  overlayWidth: number;
+  overlayHeight: number;
+  placementConfig: PlacementConfig;
+  keyframes: LayerKeyframe[];
+}): string[] {
+  const frames = calculateKeyframes(
+    bgWidth,
+    bgHeight,
+    overlayWidth,
+    overlayHeight,
+    placementConfig,
+    keyframes,
+  );
+
+  logger.info(`[Keyframes] Layer ${index} keyframes:`, frames);
+
+  // Scale once to the largest size so zooming in doesn't upscale a small frame
+  const maxWidth = Math.max(...frames.map((frame) => frame.width));
+  const maxHeight = Math.max(...frames.map((frame) => frame.height));
+  const rotates = frames.some((frame) => frame.rotation !== 0);
+  const fades = frames.some((frame) => frame.opacity !== 1);
+
+  // Rotated layers are drawn on a square canvas that fits every angle
+  const canvasWidth = rotates
+    ? Math.ceil(Math.hypot(maxWidth, maxHeight) / 2) * 2
+    : maxWidth;
+  const canvasHeight = rotates ? canvasWidth : maxHeight;
+
+  const chain = [`scale=${maxWidth}:${maxHeight}`];
+
+  if (fades || rotates) {
+    chain.push("format=rgba");
+  }
+
+  if (isAnimated(frames, "opacity")) {
+    const opacity = keyframeExpression(frames, "opacity", "T");
+    chain.push(
+      `geq=r='r(X,Y)':g='g(X,Y)':b='b(X,Y)':a='alpha(X,Y)*(${opacity})'`,
+    );
+  } else if (fades) {
+    chain.push(`colorchannelmixer=aa=${frames[0].opacity}`);
+  }
+
+  if (rotates) {
+    const rotation = keyframeExpression(frames, "rotation");
+    chain.push(
+      `rotate=a='(${rotation})*PI/180':c=none:ow=${canvasWidth}:oh=${canvasHeight}`,
+    );
+  }
+
+  const width = keyframeExpression(frames, "width");
+  const height = keyframeExpression(frames, "height");
+
+  if (isAnimated(frames, "width") || isAnimated(frames, "height")) {
+    // Scale the canvas with the layer, keeping dimensions even
+    chain.push(
+      `scale=w='2*trunc(${canvasWidth}*(${width})/${maxWidth}/2)':h='2*trunc(${canvasHeight}*(${height})/${maxHeight}/2)':eval=frame`,
+    );
+  }
+
+  let x = keyframeExpression(frames, "x");
+  let y = keyframeExpression(frames, "y");
+
+  if (rotates) {
+    // Position the layer itself, not the (larger) rotation canvas
+    const marginX = round((canvasWidth / maxWidth - 1) / 2);
+    const marginY = round((canvasHeight / maxHeight - 1) / 2);
+    x = `(${x})-(${width})*${marginX}`;
+    y = `(${y})-(${height})*${marginY}`;
+  }
+
+  return [
+    `${input}${chain.join(",")}[animated${index}]`,
+    `${base}[animated${index}]overlay=x='${x}':y='${y}'${output}`,
+  ];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -14,6 +14,8 @@ import {
 } from "../dimensions/calculator.js";
 import { getPlacementConfig } from "../dimensions/placement.js";
 import { probeDimensions } from "../dimensions/probe.js";
+import { keyframedOverlayFilters } from "./keyframes.js";
+import { logger } from "../core/logger";
 
 /**
  * Process layers and return the output path (caller must handle cleanup)
@@ -34,7 +36,7 @@ export async function processLayers(
     }
 
     for (const mediaUrl of layer.media) {
-      console.log(`[LayerMedia] Processing media ${i}: ${mediaUrl}`);
+      logger.info(`[LayerMedia] Processing media ${i}: ${mediaUrl}`);
 
       // Check if it's a local file path or a URL
       const isLocalPath =
@@ -44,12 +46,12 @@ export async function processLayers(
 
       if (isLocalPath) {
         // It's already a local file path - use it directly
-        console.log(`[LayerMedia] Using local file: ${mediaUrl}`);
+        logger.info(`[LayerMedia] Using local file: ${mediaUrl}`);
         paths.push(mediaUrl);
         // Don't add to tempFiles since it's already managed
       } else {
         // It's a URL - download it with streaming to avoid RAM usage
-        console.log(`[LayerMedia] Downloading from URL: ${mediaUrl}`);
+        logger.info(`[LayerMedia] Downloading from URL: ${mediaUrl}`);
 
         // Detect file type and use appropriate extension
         const isVideo = isVideoFile(mediaUrl);
@@ -80,7 +82,7 @@ export async function processLayers(
     }
   }
 
-  console.log("[LayerMedia] Main layer index (for audio):", mainLayerIndex);
+  logger.info("[LayerMedia] Main layer index (for audio):", mainLayerIndex);
 
   // Probe main layer to get its duration
   let mainLayerDuration: number | undefined = options.outputDuration;
@@ -91,12 +93,12 @@ export async function processLayers(
     );
     if (mainLayerMetadata.duration) {
       mainLayerDuration = mainLayerMetadata.duration;
-      console.log(
+      logger.info(
         `[LayerMedia] Main layer (${mainLayerIndex}) duration: ${mainLayerDuration}s`,
       );
     }
   } else {
-    console.log(
+    logger.info(
       `[LayerMedia] Using explicit output duration: ${mainLayerDuration}s`,
     );
   }
@@ -107,14 +109,27 @@ export async function processLayers(
   const bgWidth = ensureEven(options.outputWidth || bgDimensions.width);
   const bgHeight = ensureEven(options.outputHeight || bgDimensions.height);
 
-  console.log("[LayerMedia] Background dimensions:", `${bgWidth}x${bgHeight}`);
+  logger.info("[LayerMedia] Background dimensions:", `${bgWidth}x${bgHeight}`);
 
   // Build FFmpeg command
   let command = ffmpeg();
 
   // Add all inputs
-  for (const paths of layerPaths) {
-    command = command.input(paths[0]);
+  for (let i = 0; i < layerPaths.length; i++) {
+    const layer = options.layers[i];
+    command = command.input(layerPaths[i][0]);
+
+    if ("keyframes" in layer && layer.keyframes?.length) {
+      if (i === 0) {
+        throw new Error(
+          "Keyframes are not supported on the first (background) layer",
+        );
+      }
+      // Animated images need a frame for every point in time
+      if (!isVideoFile(layerPaths[i][0])) {
+        command = command.inputOptions(["-loop", "1"]);
+      }
+    }
   }
 
   const filterComplex: string[] = [];
@@ -131,7 +146,7 @@ export async function processLayers(
   for (let i = 1; i < layerPaths.length; i++) {
     const dims = await probeDimensions(layerPaths[i][0]);
     overlayDimensions.push(dims);
-    console.log(
+    logger.info(
       `[LayerMedia] Layer ${i} original dimensions: ${dims.width}x${dims.height}`,
     );
   }
@@ -150,7 +165,7 @@ export async function processLayers(
     const placement = layer.placement || "center";
     const placementConfig = getPlacementConfig(placement);
 
-    console.log(`[LayerMedia] Layer ${i} placement:`, placement);
+    logger.info(`[LayerMedia] Layer ${i} placement:`, placement);
 
     // Calculate exact dimensions in TypeScript
     const calculated = calculateLayerDimensions(
@@ -161,7 +176,7 @@ export async function processLayers(
       placementConfig,
     );
 
-    console.log(`[LayerMedia] Layer ${i} calculated:`, calculated);
+    logger.info(`[LayerMedia] Layer ${i} calculated:`, calculated);
 
     // Apply chroma key if requested
     let overlayLabel = `[${overlayIndex}:v]`;
@@ -176,6 +191,25 @@ export async function processLayers(
       overlayLabel = `[chroma${i}]`;
     }
 
+    if (layer.keyframes?.length) {
+      filterComplex.push(
+        ...keyframedOverlayFilters({
+          input: overlayLabel,
+          base: currentOutput,
+          output: `[out${i}]`,
+          index: i,
+          bgWidth,
+          bgHeight,
+          overlayWidth: overlayDims.width,
+          overlayHeight: overlayDims.height,
+          placementConfig,
+          keyframes: layer.keyframes,
+        }),
+      );
+      currentOutput = `[out${i}]`;
+      continue;
+    }
+
     // Scale overlay to exact calculated dimensions
     filterComplex.push(
       `${overlayLabel}scale=${calculated.width}:${calculated.height}[scaled${i}]`,
@@ -188,7 +222,7 @@ export async function processLayers(
     currentOutput = `[out${i}]`;
   }
 
-  console.log("[LayerMedia] Filter complex:", filterComplex.join("; "));
+  logger.info("[LayerMedia] Filter complex:", filterComplex.join("; "));
 
   // Execute FFmpeg command
   await new Promise<void>((resolve, reject) => {
@@ -207,10 +241,10 @@ export async function processLayers(
 
     command
       .on("start", (commandLine: string) =>
-        console.log("[LayerMedia] FFmpeg command:", commandLine),
+        logger.info("[LayerMedia] FFmpeg command:", commandLine),
       )
       .on("progress", (progress: { percent: number }) =>
-        console.log("[LayerMedia] Progress:", progress.percent, "% done"),
+        logger.info("[LayerMedia] Progress:", progress.percent, "% done"),
       )
       .on("error", reject)
       .save(outputPath)
@@ -7,6 +7,7 @@ import { isVideoFile } from "../core/utils";
 import { probeDimensions } from "../dimensions/probe";
 import { calculateLayerDimensions } from "../dimensions/calculator";
 import { getPlacementConfig } from "../dimensions/placement";
+import { logger } from "../core/logger";
 
 /**
  * Process a single timeline segment
@@ -58,7 +59,7 @@ export async function processSegment(
   const bgWidth = outputWidth;
   const bgHeight = outputHeight;
 
-  console.log(`[Segment] Using normalized dimensions: ${bgWidth}x${bgHeight}`);
+  logger.info(`[Segment] Using normalized dimensions: ${bgWidth}x${bgHeight}`);
 
   // Build FFmpeg command for this segment
   let command = ffmpeg();
@@ -146,7 +147,7 @@ export async function processSegment(
     currentOutput = `[out${i}]`;
   }
 
-  console.log(`[Segment] Filter complex:`, filterComplex.join("; "));
+  logger.info(`[Segment] Filter complex:`, filterComplex.join("; "));
 
   // Execute FFmpeg for this segment
   await new Promise<void>((resolve, reject) => {
@@ -158,7 +159,7 @@ export async function processSegment(
       .outputOptions(["-pix_fmt", "yuv420p"])
       .toFormat("mp4")
       .on("start", (commandLine: string) =>
-        console.log(`[Segment] FFmpeg command:`, commandLine),
+        logger.info(`[Segment] FFmpeg command:`, commandLine),
       )
       .on("error", reject)
       .save(segmentPath)
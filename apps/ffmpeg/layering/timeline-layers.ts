@@ -1,7 +1,7 @@
 import { nanoid } from "nanoid";
 import { tmpdir } from "os";
 import { join } from "path";
-import type { LayerMediaOptions } from "../core/types";
+import type { LayerKeyframe, LayerMediaOptions } from "../core/types";
 import { isVideoFile, streamToDisk } from "../core/utils";
 import { ensureEven } from "../dimensions/calculator";
 import { probeDimensions } from "../dimensions/probe";
@@ -10,6 +10,7 @@ import {
   type BackgroundSegment,
 } from "./background-stitcher";
 import { processLayers } from "./layers";
+import { logger } from "../core/logger";
 
 /**
  * Process timeline layers - when backgrounds/overlays change over time
@@ -21,7 +22,7 @@ export async function processTimelineLayers(
   tempFiles: string[],
   outputPath: string,
 ): Promise<string> {
-  console.log(
+  logger.info(
     "[Timeline] Processing timeline layers with background stitching",
   );
 
@@ -51,7 +52,7 @@ export async function processTimelineLayers(
       const metadata = await probeDimensions(path);
       if (metadata.duration) {
         mainLayerDuration = metadata.duration;
-        console.log(
+        logger.info(
           `[Timeline] Main layer (${i}) duration: ${mainLayerDuration}s`,
         );
       }
@@ -77,7 +78,7 @@ export async function processTimelineLayers(
       );
 
       if (itemsWithoutDuration.length > 0) {
-        console.log(
+        logger.info(
           `[Timeline] Auto-calculating durations for ${itemsWithoutDuration.length} items`,
         );
 
@@ -99,7 +100,7 @@ export async function processTimelineLayers(
         // Split remaining duration evenly
         const autoDuration = remainingDuration / itemsWithoutDuration.length;
 
-        console.log(
+        logger.info(
           `[Timeline] Auto-duration: ${autoDuration}s per item (${remainingDuration}s / ${itemsWithoutDuration.length} items)`,
         );
 
@@ -117,7 +118,7 @@ export async function processTimelineLayers(
         0,
       );
 
-      console.log(
+      logger.info(
         `[Timeline] Total timeline duration: ${totalTimelineDuration}s, Main layer: ${mainLayerDuration}s`,
       );
     }
@@ -127,7 +128,7 @@ export async function processTimelineLayers(
   let maxWidth = 0;
   let maxHeight = 0;
 
-  console.log(
+  logger.info(
     "[Timeline] Probing all timeline media to find max dimensions...",
   );
 
@@ -160,7 +161,7 @@ export async function processTimelineLayers(
         tempFiles.push(path);
 
         const dims = await probeDimensions(path);
-        console.log(
+        logger.info(
           `[Timeline] Media dimensions: ${dims.width}x${dims.height}`,
         );
 
@@ -183,7 +184,7 @@ export async function processTimelineLayers(
   const outputWidth = ensureEven(options.outputWidth || maxWidth);
   const outputHeight = ensureEven(options.outputHeight || maxHeight);
 
-  console.log(
+  logger.info(
     `[Timeline] Using output resolution: ${outputWidth}x${outputHeight} (max from all backgrounds)`,
   );
 
@@ -197,6 +198,7 @@ export async function processTimelineLayers(
     similarity?: number;
     blend?: number;
     main?: boolean;
+    keyframes?: LayerKeyframe[];
   }> = [];
 
   for (let layerIdx = 0; layerIdx < options.layers.length; layerIdx++) {
@@ -204,7 +206,7 @@ export async function processTimelineLayers(
 
     if ("isTimeline" in layer && layer.isTimeline) {
       // This is a timeline layer - need to stitch it
-      console.log(
+      logger.info(
         `[Timeline] Stitching timeline layer ${layerIdx} with ${layer.timeline.length} segments`,
       );
 
@@ -239,7 +241,7 @@ export async function processTimelineLayers(
         tempFiles,
       );
 
-      console.log(
+      logger.info(
         `[Timeline] Layer ${layerIdx} stitched successfully: ${stitchedPath}`,
       );
 
@@ -268,7 +270,7 @@ export async function processTimelineLayers(
   }
 
   // Now process all layers together in a single pass!
-  console.log(
+  logger.info(
     "[Timeline] Processing all layers in single pass (no segmentation)",
   );
   return await processLayers(
@@ -6,8 +6,9 @@ import ffmpeg from "fluent-ffmpeg";
 import { nanoid } from "nanoid";
 import { tmpdir } from "os";
 import { join } from "path";
-import type { VideoMetadata } from "../core/types.js";
-import { isVideoFile } from "../core/utils.js";
+import type { MediaMetadata, VideoMetadata } from "../core/types.js";
+import { isAudioFile, isVideoFile } from "../core/utils.js";
+import { logger } from "../core/logger";
 
 /**
  * Get video metadata (duration, dimensions, fps)
@@ -42,15 +43,17 @@ export async function getVideoMetadata(
 }
 
 /**
- * Get metadata for a media file (video or image)
+ * Get metadata for a media file (video, image or audio)
  */
 export async function getMediaMetadata(
   filePath: string,
-): Promise<VideoMetadata & { isVideo: boolean }> {
+): Promise<MediaMetadata> {
   const isVideo = isVideoFile(filePath);
 
   if (!isVideo) {
-    // For images, we just need dimensions (duration is not applicable)
+    const isAudio = isAudioFile(filePath);
+
+    // For images, we just need dimensions; for audio, just the duration
     return new Promise((resolve, reject) => {
       ffmpeg.ffprobe(filePath, (err, metadata) => {
         if (err) {
@@ -58,26 +61,50 @@ export async function getMediaMetadata(
           return;
         }
 
-        const stream = metadata.streams[0];
+        const stream = isAudio
+          ? metadata.streams.find((s) => s.codec_type === "audio")
+          : metadata.streams[0];
         if (!stream) {
-          reject(new Error("No stream found in image"));
+          reject(
+            new Error(`No stream found in ${isAudio ? "audio" : "image"}`),
+          );
           return;
         }
 
         resolve({
-          duration: 0,
+          duration: isAudio ? metadata.format.duration || 0 : 0,
           width: stream.width || 0,
           height: stream.height || 0,
           fps: 0,
           isVideo: false,
+          isAudio,
+          hasAudio: isAudio,
         });
       });
     });
   }
 
   // For videos, get full metadata
-  const metadata = await getVideoMetadata(filePath);
-  return { ...metadata, isVideo: true };
+  const [metadata, hasAudio] = await Promise.all([
+    getVideoMetadata(filePath),
+    hasAudioStream(filePath),
+  ]);
+  return { ...metadata, isVideo: true, isAudio: false, hasAudio };
+}
+
+/**
+ * Check if a media file has an audio stream
+ */
+async function hasAudioStream(filePath: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(metadata.streams.some((s) => s.codec_type === "audio"));
+    });
+  });
 }
 
 /**
@@ -95,7 +122,7 @@ export async function loopVideoToMatchDuration(
 
   if (videoMetadata.duration >= targetDuration) {
     // Background is longer than target, just trim it
-    console.log(
+    logger.info(
       `[LoopVideo] Trimming background from ${videoMetadata.duration}s to ${targetDuration}s`,
     );
     await new Promise<void>((resolve, reject) => {
@@ -107,7 +134,7 @@ export async function loopVideoToMatchDuration(
         .outputOptions(["-pix_fmt", "yuv420p"])
         .toFormat("mp4")
         .on("start", (commandLine: string) =>
-          console.log("Trim FFmpeg command:", commandLine),
+          logger.info("Trim FFmpeg command:", commandLine),
         )
         .on("error", reject)
         .save(loopedPath)
@@ -118,7 +145,7 @@ export async function loopVideoToMatchDuration(
 
   // Calculate how many loops we need
   const loopsNeeded = Math.ceil(targetDuration / videoMetadata.duration);
-  console.log(
+  logger.info(
     `[LoopVideo] Looping background ${loopsNeeded} times (${videoMetadata.duration}s -> ${targetDuration}s)`,
   );
 
@@ -142,7 +169,7 @@ export async function loopVideoToMatchDuration(
       .outputOptions(["-pix_fmt", "yuv420p"])
       .toFormat("mp4")
       .on("start", (commandLine: string) =>
-        console.log("Loop FFmpeg command:", commandLine),
+        logger.info("Loop FFmpeg command:", commandLine),
       )
       .on("error", reject)
       .save(loopedPath)
@@ -3,12 +3,16 @@ import ffmpeg from "fluent-ffmpeg";
 import { tmpdir } from "os";
 import { join } from "path";
 import { unlink } from "fs/promises";
+import { assFilter, removeFontsDir, writeFontsDir } from "../core/fonts";
+import type { FontFile } from "../core/types";
 import { streamToDisk } from "../core/utils";
+import { logger } from "../core/logger";
 
 export interface BurnSubtitlesOptions {
   videoUrl: string;
   subtitleContent: string; // ASS/SRT file content
   subtitleFormat: "ass" | "srt";
+  fonts?: FontFile[]; // Uploaded fonts the captions use
 }
 
 /**
@@ -21,28 +25,31 @@ export async function burnSubtitles(
   const outputPath = join(tmpdir(), `${nanoid()}.mp4`);
   const subtitlePath = join(tmpdir(), `${nanoid()}.${options.subtitleFormat}`);
   const tempFiles: string[] = [subtitlePath];
+  let fontsDir: string | undefined;
 
   try {
     // Write subtitle file
     await Bun.write(subtitlePath, options.subtitleContent);
-    console.log(
+    logger.info(
       `[BurnSubtitles] Wrote subtitle file: ${subtitlePath} (${options.subtitleContent.length} chars)`,
     );
-    console.log(
+    logger.info(
       `[BurnSubtitles] First 300 chars of subtitle:`,
       options.subtitleContent.substring(0, 300),
     );
 
+    fontsDir = await writeFontsDir(options.fonts);
+
     // Download video - stream directly to disk to avoid RAM usage
-    console.log(`[BurnSubtitles] Downloading video from ${options.videoUrl}`);
+    logger.info(`[BurnSubtitles] Downloading video from ${options.videoUrl}`);
     const videoPath = join(tmpdir(), `${nanoid()}.mp4`);
     await streamToDisk(options.videoUrl, videoPath);
     tempFiles.push(videoPath);
 
-    console.log(`[BurnSubtitles] Burning subtitles...`);
-    console.log(`[BurnSubtitles] Video path: ${videoPath}`);
-    console.log(`[BurnSubtitles] Subtitle path: ${subtitlePath}`);
-    console.log(`[BurnSubtitles] Output path: ${outputPath}`);
+    logger.info(`[BurnSubtitles] Burning subtitles...`);
+    logger.info(`[BurnSubtitles] Video path: ${videoPath}`);
+    logger.info(`[BurnSubtitles] Subtitle path: ${subtitlePath}`);
+    logger.info(`[BurnSubtitles] Output path: ${outputPath}`);
 
     await new Promise<void>((resolve, reject) => {
       ffmpeg(videoPath)
@@ -50,24 +57,24 @@ export async function burnSubtitles(
           // Burn subtitles using the subtitle file
           // For ASS, we use the ass filter. For SRT, strictly subtitles filter
           options.subtitleFormat === "ass"
-            ? `-vf ass=${subtitlePath}`
+            ? `-vf ${assFilter(subtitlePath, fontsDir)}`
             : `-vf subtitles=${subtitlePath}`,
         ])
         .videoCodec("libx264")
         .audioCodec("copy") // Try to copy audio stream
         .toFormat("mp4")
         .on("start", (cmd) =>
-          console.log("[BurnSubtitles] FFmpeg command:", cmd),
+          logger.info("[BurnSubtitles] FFmpeg command:", cmd),
         )
         .on("progress", (progress) =>
-          console.log(`[BurnSubtitles] Progress:`, progress),
+          logger.info(`[BurnSubtitles] Progress:`, progress),
         )
         .on("error", (err) => {
-          console.error("[BurnSubtitles] FFmpeg error:", err);
+          logger.error("[BurnSubtitles] FFmpeg error:", err);
           reject(err);
         })
         .on("end", () => {
-          console.log("[BurnSubtitles] FFmpeg completed successfully");
+          logger.info("[BurnSubtitles] FFmpeg completed successfully");
           resolve();
         })
         .save(outputPath);
@@ -79,8 +86,9 @@ export async function burnSubtitles(
     // Cleanup temp files (but NOT outputPath - caller handles that)
     try {
       await Promise.all([...tempFiles.map((f) => unlink(f).catch(() => {}))]);
+      await removeFontsDir(fontsDir);
     } catch (e) {
-      console.error("Cleanup error:", e);
+      logger.error("Cleanup error:", e);
     }
   }
 }
@@ -5,6 +5,7 @@ import { join } from "path";
 import { unlink } from "fs/promises";
 import { getVideoMetadata, getMediaMetadata } from "../metadata/video-metadata";
 import { isVideoFile } from "../core/utils";
+import { logger } from "../core/logger";
 
 export interface ReplaceGreenScreenOptions {
   videoUrl: string;
@@ -34,7 +35,7 @@ async function loopVideoToMatchDuration(
 
   if (videoMetadata.duration >= targetDuration) {
     // Background is longer than target, just trim it
-    console.log(
+    logger.info(
       `[LoopVideo] Trimming background from ${videoMetadata.duration}s to ${targetDuration}s`,
     );
     await new Promise<void>((resolve, reject) => {
@@ -46,7 +47,7 @@ async function loopVideoToMatchDuration(
         .outputOptions(["-pix_fmt", "yuv420p"])
         .toFormat("mp4")
         .on("start", (commandLine: string) =>
-          console.log("Trim FFmpeg command:", commandLine),
+          logger.info("Trim FFmpeg command:", commandLine),
         )
         .on("error", reject)
         .save(loopedPath)
@@ -57,7 +58,7 @@ async function loopVideoToMatchDuration(
 
   // Background is shorter than target, loop it
   const loopCount = Math.ceil(targetDuration / videoMetadata.duration);
-  console.log(
+  logger.info(
     `[LoopVideo] Looping background ${loopCount} times (${videoMetadata.duration}s * ${loopCount} = ${videoMetadata.duration * loopCount}s) to cover ${targetDuration}s`,
   );
 
@@ -70,7 +71,7 @@ async function loopVideoToMatchDuration(
       .outputOptions(["-pix_fmt", "yuv420p"])
       .toFormat("mp4")
       .on("start", (commandLine: string) =>
-        console.log("Loop FFmpeg command:", commandLine),
+        logger.info("Loop FFmpeg command:", commandLine),
       )
       .on("error", reject)
       .save(loopedPath)
@@ -96,7 +97,7 @@ export async function replaceGreenScreen(
 
   try {
     // Download video
-    console.log(
+    logger.info(
       `[ReplaceGreenScreen] Downloading video from ${options.videoUrl}`,
     );
     const videoResponse = await fetch(options.videoUrl);
@@ -110,13 +111,13 @@ export async function replaceGreenScreen(
 
     // Get video metadata
     const metadata = await getVideoMetadata(videoPath);
-    console.log(
+    logger.info(
       `[ReplaceGreenScreen] Video metadata:`,
       `${metadata.width}x${metadata.height}, ${metadata.duration}s, ${metadata.fps}fps`,
     );
 
     // Download all backgrounds
-    console.log(
+    logger.info(
       `[ReplaceGreenScreen] Downloading ${options.backgroundUrls.length} backgrounds`,
     );
     const backgroundPaths: string[] = [];
@@ -141,11 +142,11 @@ export async function replaceGreenScreen(
 
     if (options.backgroundUrls.length === 1) {
       // Single background - simple overlay
-      console.log(`[ReplaceGreenScreen] Processing with single background`);
+      logger.info(`[ReplaceGreenScreen] Processing with single background`);
 
       // Get background metadata
       const bgMetadata = await getMediaMetadata(backgroundPaths[0]);
-      console.log(
+      logger.info(
         `[ReplaceGreenScreen] Background type: ${bgMetadata.isVideo ? "video" : "image"}`,
       );
 
@@ -153,7 +154,7 @@ export async function replaceGreenScreen(
 
       // If background is a video, loop it to match main video duration
       if (bgMetadata.isVideo) {
-        console.log(
+        logger.info(
           `[ReplaceGreenScreen] Background video duration: ${bgMetadata.duration}s, main video: ${metadata.duration}s`,
         );
         finalBackgroundPath = await loopVideoToMatchDuration(
@@ -182,10 +183,10 @@ export async function replaceGreenScreen(
           .outputOptions(["-pix_fmt", "yuv420p"]) // Ensure compatibility
           .toFormat("mp4")
           .on("start", (commandLine: string) =>
-            console.log("Started FFmpeg with command:", commandLine),
+            logger.info("Started FFmpeg with command:", commandLine),
           )
           .on("progress", (progress: { percent: number }) =>
-            console.log("Processing:", progress.percent, "% done"),
+            logger.info("Processing:", progress.percent, "% done"),
           )
           .on("end", resolve)
           .on("error", reject)
@@ -193,11 +194,11 @@ export async function replaceGreenScreen(
       });
     } else {
       // Multiple backgrounds - split video into segments
-      console.log(
+      logger.info(
         `[ReplaceGreenScreen] Processing with ${options.backgroundUrls.length} backgrounds`,
       );
       const segmentDuration = metadata.duration / options.backgroundUrls.length;
-      console.log(
+      logger.info(
         `[ReplaceGreenScreen] Each segment duration: ${segmentDuration}s`,
       );
 
@@ -212,13 +213,13 @@ export async function replaceGreenScreen(
         const startTime = i * segmentDuration;
         const duration = segmentDuration;
 
-        console.log(
+        logger.info(
           `[ReplaceGreenScreen] Processing segment ${i + 1}/${options.backgroundUrls.length}: ${startTime}s - ${startTime + duration}s`,
         );
 
         // Get background metadata
         const bgMetadata = await getMediaMetadata(backgroundPaths[i]);
-        console.log(
+        logger.info(
           `[ReplaceGreenScreen] Segment ${i + 1} background type: ${bgMetadata.isVideo ? "video" : "image"}`,
         );
 
@@ -226,7 +227,7 @@ export async function replaceGreenScreen(
 
         // If background is a video, loop it to match segment duration
         if (bgMetadata.isVideo) {
-          console.log(
+          logger.info(
             `[ReplaceGreenScreen] Segment ${i + 1} background video duration: ${bgMetadata.duration}s, segment: ${duration}s`,
           );
           finalBackgroundPath = await loopVideoToMatchDuration(
@@ -256,7 +257,7 @@ export async function replaceGreenScreen(
             .outputOptions(["-pix_fmt", "yuv420p"])
             .toFormat("mp4")
             .on("start", (commandLine: string) =>
-              console.log(`Segment ${i + 1} FFmpeg command:`, commandLine),
+              logger.info(`Segment ${i + 1} FFmpeg command:`, commandLine),
             )
             .on("error", reject)
             .save(segmentPath)
@@ -265,7 +266,7 @@ export async function replaceGreenScreen(
       }
 
       // Concatenate all segments
-      console.log(
+      logger.info(
         `[ReplaceGreenScreen] Concatenating ${segmentPaths.length} segments`,
       );
       await new Promise<void>((resolve, reject) => {
@@ -285,10 +286,10 @@ export async function replaceGreenScreen(
           .audioCodec("aac")
           .toFormat("mp4")
           .on("start", (commandLine: string) =>
-            console.log("Concatenation FFmpeg command:", commandLine),
+            logger.info("Concatenation FFmpeg command:", commandLine),
           )
           .on("progress", (progress: { percent: number }) =>
-            console.log("Concatenating:", progress.percent, "% done"),
+            logger.info("Concatenating:", progress.percent, "% done"),
           )
           .on("end", resolve)
           .on("error", reject)
@@ -305,7 +306,7 @@ export async function replaceGreenScreen(
         unlink(outputPath).catch(() => {}),
       ]);
     } catch (e) {
-      console.error("Cleanup error:", e);
+      logger.error("Cleanup error:", e);
     }
   }
 }
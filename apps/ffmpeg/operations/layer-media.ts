@@ -8,19 +8,73 @@ import { isVideoFile, streamToDisk } from "../core/utils";
 import { calculateLayerDimensions, ensureEven } from "../dimensions/calculator";
 import { getPlacementConfig } from "../dimensions/placement";
 import { probeDimensions } from "../dimensions/probe";
+import { keyframedOverlayFilters } from "../layering/keyframes";
 import { processTimelineLayers } from "../layering/timeline-layers";
+import { mixAudio } from "./mix-audio";
+import { renderTextOverlays } from "./overlay-text";
+import { logger } from "../core/logger";
 
 /**
- * Layer multiple media files with placement and effects
+ * Layer multiple media files with placement and effects, then draw text
+ * and mix audio overlays over the result
  * Supports both regular layers and timeline layers
  * Returns the path to the output file (caller must handle cleanup)
  */
 export async function layerMedia(options: LayerMediaOptions): Promise<string> {
+  let videoPath = await composeLayers(options);
+  const hasText = !!options.texts?.length;
+  const hasAudio = !!options.audio?.length || !!options.loudness;
+
+  if (!hasText && !hasAudio) {
+    return videoPath;
+  }
+
+  const tempFiles: string[] = [videoPath];
+
+  try {
+    if (hasText) {
+      const textPath = join(tmpdir(), `${nanoid()}.mp4`);
+      tempFiles.push(textPath);
+      await renderTextOverlays(
+        videoPath,
+        options.texts!,
+        textPath,
+        options.fonts,
+      );
+      videoPath = textPath;
+    }
+
+    if (hasAudio) {
+      const outputPath = join(tmpdir(), `${nanoid()}.mp4`);
+      const mixed = await mixAudio(
+        videoPath,
+        outputPath,
+        { audio: options.audio, loudness: options.loudness },
+        tempFiles,
+      );
+
+      if (mixed) {
+        return outputPath;
+      }
+    }
+
+    // Nothing (left) to mix - keep the latest video
+    tempFiles.splice(tempFiles.indexOf(videoPath), 1);
+    return videoPath;
+  } finally {
+    await Promise.all(tempFiles.map((file) => unlink(file).catch(() => {})));
+  }
+}
+
+/**
+ * Composite the layers into a single video
+ */
+async function composeLayers(options: LayerMediaOptions): Promise<string> {
   const tempFiles: string[] = [];
   const outputPath = join(tmpdir(), `${nanoid()}.mp4`);
 
   try {
-    console.log("[LayerMedia] Starting with options:", {
+    logger.info("[LayerMedia] Starting with options:", {
       layerCount: options.layers.length,
       outputDuration: options.outputDuration,
       outputWidth: options.outputWidth,
@@ -33,14 +87,14 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
     );
 
     if (hasTimeline) {
-      console.log(
+      logger.info(
         "[LayerMedia] Timeline layers detected - using timeline processing",
       );
       return await processTimelineLayers(options, tempFiles, outputPath);
     }
 
     // Regular (non-timeline) processing
-    console.log("[LayerMedia] Processing regular layering");
+    logger.info("[LayerMedia] Processing regular layering");
 
     // Download all media files
     const layerPaths: string[][] = [];
@@ -53,7 +107,7 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
       }
 
       for (const mediaUrl of layer.media) {
-        console.log(`[LayerMedia] Downloading media ${i}: ${mediaUrl}`);
+        logger.info(`[LayerMedia] Downloading media ${i}: ${mediaUrl}`);
 
         // Detect file type and use appropriate extension
         const isVideo = isVideoFile(mediaUrl);
@@ -75,7 +129,7 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
     const bgWidth = ensureEven(options.outputWidth || bgDimensions.width);
     const bgHeight = ensureEven(options.outputHeight || bgDimensions.height);
 
-    console.log(
+    logger.info(
       "[LayerMedia] Background dimensions:",
       `${bgWidth}x${bgHeight}`,
     );
@@ -94,7 +148,7 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
       }
     }
 
-    console.log("[LayerMedia] Main layer index (for audio):", mainLayerIndex);
+    logger.info("[LayerMedia] Main layer index (for audio):", mainLayerIndex);
 
     // Probe main layer to get its duration
     let mainLayerDuration: number | undefined = options.outputDuration;
@@ -105,12 +159,12 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
       );
       if (mainLayerMetadata.duration) {
         mainLayerDuration = mainLayerMetadata.duration;
-        console.log(
+        logger.info(
           `[LayerMedia] Main layer (${mainLayerIndex}) duration: ${mainLayerDuration}s`,
         );
       }
     } else {
-      console.log(
+      logger.info(
         `[LayerMedia] Using explicit output duration: ${mainLayerDuration}s`,
       );
     }
@@ -119,8 +173,21 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
     let command = ffmpeg();
 
     // Add all inputs
-    for (const paths of layerPaths) {
-      command = command.input(paths[0]);
+    for (let i = 0; i < layerPaths.length; i++) {
+      const layer = options.layers[i];
+      command = command.input(layerPaths[i][0]);
+
+      if ("keyframes" in layer && layer.keyframes?.length) {
+        if (i === 0) {
+          throw new Error(
+            "Keyframes are not supported on the first (background) layer",
+          );
+        }
+        // Animated images need a frame for every point in time
+        if (!isVideoFile(layerPaths[i][0])) {
+          command = command.inputOptions(["-loop", "1"]);
+        }
+      }
     }
 
     const filterComplex: string[] = [];
@@ -137,7 +204,7 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
     for (let i = 1; i < layerPaths.length; i++) {
       const dims = await probeDimensions(layerPaths[i][0]);
       overlayDimensions.push(dims);
-      console.log(
+      logger.info(
         `[LayerMedia] Layer ${i} original dimensions: ${dims.width}x${dims.height}`,
       );
     }
@@ -156,7 +223,7 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
       const placement = layer.placement || "center";
       const placementConfig = getPlacementConfig(placement);
 
-      console.log(`[LayerMedia] Layer ${i} placement:`, placement);
+      logger.info(`[LayerMedia] Layer ${i} placement:`, placement);
 
       // Calculate exact dimensions in TypeScript
       const calculated = calculateLayerDimensions(
@@ -167,7 +234,7 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
         placementConfig,
       );
 
-      console.log(`[LayerMedia] Layer ${i} calculated:`, calculated);
+      logger.info(`[LayerMedia] Layer ${i} calculated:`, calculated);
 
       // Apply chroma key if requested
       let overlayLabel = `[${overlayIndex}:v]`;
@@ -182,6 +249,25 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
         overlayLabel = `[chroma${i}]`;
       }
 
+      if (layer.keyframes?.length) {
+        filterComplex.push(
+          ...keyframedOverlayFilters({
+            input: overlayLabel,
+            base: currentOutput,
+            output: `[out${i}]`,
+            index: i,
+            bgWidth,
+            bgHeight,
+            overlayWidth: overlayDims.width,
+            overlayHeight: overlayDims.height,
+            placementConfig,
+            keyframes: layer.keyframes,
+          }),
+        );
+        currentOutput = `[out${i}]`;
+        continue;
+      }
+
       // Scale overlay to exact calculated dimensions
       filterComplex.push(
         `${overlayLabel}scale=${calculated.width}:${calculated.height}[scaled${i}]`,
@@ -194,7 +280,7 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
       currentOutput = `[out${i}]`;
     }
 
-    console.log("[LayerMedia] Filter complex:", filterComplex.join("; "));
+    logger.info("[LayerMedia] Filter complex:", filterComplex.join("; "));
 
     // Execute FFmpeg command
     await new Promise<void>((resolve, reject) => {
@@ -213,18 +299,18 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
 
       command
         .on("start", (commandLine: string) =>
-          console.log("[LayerMedia] FFmpeg command:", commandLine),
+          logger.info("[LayerMedia] FFmpeg command:", commandLine),
         )
         .on("progress", (progress: { percent: number }) =>
-          console.log("[LayerMedia] Progress:", progress.percent, "% done"),
+          logger.info("[LayerMedia] Progress:", progress.percent, "% done"),
         )
         .on("error", (err: Error) => {
-          console.error("[LayerMedia] FFmpeg error:", err.message);
-          console.error(
+          logger.error("[LayerMedia] FFmpeg error:", err.message);
+          logger.error(
             "[LayerMedia] Filter complex used:",
             filterComplex.join("; "),
           );
-          console.error("[LayerMedia] Configuration:", {
+          logger.error("[LayerMedia] Configuration:", {
             bgWidth,
             bgHeight,
             mainLayerIndex,
@@ -251,7 +337,7 @@ export async function layerMedia(options: LayerMediaOptions): Promise<string> {
         ...tempFiles.map((file) => unlink(file).catch(() => {})),
       ]);
     } catch (e) {
-      console.error("[LayerMedia] Cleanup error:", e);
+      logger.error("[LayerMedia] Cleanup error:", e);
     }
   }
 }
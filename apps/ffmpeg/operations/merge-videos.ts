@@ -3,8 +3,19 @@ import ffmpeg from "fluent-ffmpeg";
 import { tmpdir } from "os";
 import { join } from "path";
 import { unlink } from "fs/promises";
-import type { MergeMediaOptions, MergeVideosOptions } from "../core/types";
+import {
+  acrossfadeFilter,
+  planTransitions,
+  xfadeFilter,
+} from "../core/transitions";
+import type {
+  MergeMediaOptions,
+  MergeTransition,
+  MergeVideosOptions,
+} from "../core/types";
 import { streamToDisk } from "../core/utils";
+import { mixAudio } from "./mix-audio";
+import { logger } from "../core/logger";
 
 // Timeout for FFmpeg operations (5 minutes)
 const FFMPEG_TIMEOUT_MS = 5 * 60 * 1000;
@@ -40,9 +51,14 @@ export async function mergeVideos(
   options: MergeVideosOptions,
 ): Promise<string> {
   // Convert to new format and call mergeMedia
+  const transition: MergeTransition | undefined = options.transition && {
+    type: "crossfade",
+    duration: options.transition.duration,
+  };
   const items = options.videos.map((v) => ({
     url: v.url,
     type: "video" as const,
+    transition,
   }));
 
   return mergeMedia({ items });
@@ -112,6 +128,123 @@ interface ProcessedVisualItem {
   hasAudio: boolean;
   duration: number;
   volume: number;
+  transition?: MergeTransition;
+}
+
+/**
+ * Join processed visual items with xfade/acrossfade at each boundary that has
+ * a transition and a plain concat at the others
+ */
+async function mergeWithTransitions(
+  items: ProcessedVisualItem[],
+  outputPath: string,
+): Promise<void> {
+  const { boundaries, duration } = planTransitions(
+    items.map((item) => item.duration),
+    items.map((item) => item.transition),
+  );
+  const hasAnyVideoAudio = items.some((item) => item.hasAudio);
+
+  logger.info(
+    `[MergeMedia] Merging ${items.length} visual items with ${boundaries.filter(Boolean).length} transitions (duration: ${duration}s, hasAnyVideoAudio: ${hasAnyVideoAudio})`,
+  );
+
+  const filterParts: string[] = [];
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+
+    // xfade needs matching frame rates, formats and timebases on both inputs
+    filterParts.push(`[${i}:v]settb=AVTB,fps=30,format=yuv420p[v${i}]`);
+
+    if (!hasAnyVideoAudio) continue;
+
+    // Audio must last exactly as long as the video for acrossfade to line up
+    if (item.hasAudio) {
+      filterParts.push(
+        `[${i}:a]aformat=sample_fmts=fltp:sample_rates=44100:channel_layouts=stereo,apad,atrim=0:${item.duration},asetpts=PTS-STARTPTS[a${i}]`,
+      );
+    } else {
+      filterParts.push(
+        `anullsrc=channel_layout=stereo:sample_rate=44100,atrim=0:${item.duration}[a${i}]`,
+      );
+    }
+  }
+
+  let videoLabel = "v0";
+  let audioLabel = "a0";
+
+  for (let i = 0; i < boundaries.length; i++) {
+    const boundary = boundaries[i];
+    const isLast = i === boundaries.length - 1;
+    const nextVideoLabel = isLast ? "outv" : `vx${i}`;
+    const nextAudioLabel = isLast ? "outa" : `ax${i}`;
+
+    filterParts.push(
+      boundary
+        ? `[${videoLabel}][v${i + 1}]${xfadeFilter(boundary)}[${nextVideoLabel}]`
+        : `[${videoLabel}][v${i + 1}]concat=n=2:v=1:a=0[${nextVideoLabel}]`,
+    );
+    if (hasAnyVideoAudio) {
+      filterParts.push(
+        boundary
+          ? `[${audioLabel}][a${i + 1}]${acrossfadeFilter(boundary)}[${nextAudioLabel}]`
+          : `[${audioLabel}][a${i + 1}]concat=n=2:v=0:a=1[${nextAudioLabel}]`,
+      );
+    }
+
+    videoLabel = nextVideoLabel;
+    audioLabel = nextAudioLabel;
+  }
+
+  const startTime = Date.now();
+
+  await withTimeout(
+    new Promise<void>((resolve, reject) => {
+      let cmd = ffmpeg();
+
+      for (const item of items) {
+        cmd = cmd.input(item.path);
+      }
+
+      cmd = cmd
+        .complexFilter(filterParts)
+        .outputOptions(["-map", "[outv]"])
+        .videoCodec("libx264");
+
+      if (hasAnyVideoAudio) {
+        cmd = cmd.outputOptions(["-map", "[outa]"]).audioCodec("aac");
+      }
+
+      cmd
+        .outputOptions(["-pix_fmt", "yuv420p", "-preset", "fast"])
+        .toFormat("mp4")
+        .on("start", (cmdStr: string) =>
+          logger.info("[MergeMedia] Transitions command:", cmdStr),
+        )
+        .on("stderr", (stderrLine: string) => {
+          if (stderrLine.includes("frame=") || stderrLine.includes("time=")) {
+            logger.info(
+              "[MergeMedia] Transitions progress:",
+              stderrLine.trim(),
+            );
+          }
+        })
+        .on("error", (err: Error) => {
+          logger.error("[MergeMedia] Transitions error:", err.message);
+          reject(err);
+        })
+        .on("end", () => {
+          logger.info(
+            `[MergeMedia] Transitions completed in ${Date.now() - startTime}ms`,
+          );
+          resolve();
+        })
+        .save(outputPath);
+    }),
+    FFMPEG_TIMEOUT_MS,
+    "Transitions operation",
+  );
 }
 
 /**
@@ -124,7 +257,7 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
   const outputPath = join(tmpdir(), `${nanoid()}.mp4`);
 
   try {
-    console.log(
+    logger.info(
       `[MergeMedia] Processing ${options.items.length} items, ${options.audio?.length || 0} audio tracks`,
     );
 
@@ -143,7 +276,7 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
 
     for (let i = 0; i < visualItems.length; i++) {
       const item = visualItems[i];
-      console.log(
+      logger.info(
         `[MergeMedia] Downloading visual item ${i + 1}/${visualItems.length}: ${item.url}`,
       );
 
@@ -160,7 +293,7 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
         const dims = await getMediaDimensions(inputPath);
         targetWidth = dims.width;
         targetHeight = dims.height;
-        console.log(
+        logger.info(
           `[MergeMedia] Using target dimensions: ${targetWidth}x${targetHeight}`,
         );
       }
@@ -173,7 +306,7 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
         const videoPath = join(tmpdir(), `${nanoid()}_img2vid.mp4`);
         tempFiles.push(videoPath);
 
-        console.log(
+        logger.info(
           `[MergeMedia] Converting image to ${duration}s video: ${inputPath}`,
         );
 
@@ -196,7 +329,7 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
             .videoCodec("libx264")
             .toFormat("mp4")
             .on("start", (cmd: string) =>
-              console.log("[MergeMedia] Image to video command:", cmd),
+              logger.info("[MergeMedia] Image to video command:", cmd),
             )
             .on("error", reject)
             .save(videoPath)
@@ -208,6 +341,7 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
           hasAudio: false,
           duration,
           volume,
+          transition: item.transition,
         });
       } else {
         // Video item - scale to target dimensions and optionally trim
@@ -219,7 +353,7 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
         const outputDuration = item.duration || inputDuration;
         const videoHasAudio = await hasAudioStream(inputPath);
 
-        console.log(
+        logger.info(
           `[MergeMedia] Processing video: duration ${inputDuration}s -> ${outputDuration}s, hasAudio: ${videoHasAudio}, volume: ${volume}`,
         );
 
@@ -258,7 +392,7 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
               .outputOptions(["-ar", "44100", "-ac", "2"]) // Normalize audio: 44.1kHz stereo
               .toFormat("mp4")
               .on("start", (cmdStr: string) =>
-                console.log("[MergeMedia] Scale video command:", cmdStr),
+                logger.info("[MergeMedia] Scale video command:", cmdStr),
               )
               .on("error", reject)
               .save(scaledPath)
@@ -271,7 +405,7 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
               .videoCodec("libx264")
               .toFormat("mp4")
               .on("start", (cmdStr: string) =>
-                console.log("[MergeMedia] Scale video command:", cmdStr),
+                logger.info("[MergeMedia] Scale video command:", cmdStr),
               )
               .on("error", reject)
               .save(scaledPath)
@@ -279,11 +413,13 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
           }
         });
 
+        // Transitions are placed by duration, so use the exact output length
         processedVisualItems.push({
           path: scaledPath,
           hasAudio: videoHasAudio,
-          duration: outputDuration,
+          duration: await getMediaDuration(scaledPath),
           volume,
+          transition: item.transition,
         });
       }
     }
@@ -293,11 +429,17 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
 
     if (processedVisualItems.length === 1) {
       // Single item - skip concat step entirely, just use the scaled/processed file
-      console.log(`[MergeMedia] Single visual item, skipping concat step`);
+      logger.info(`[MergeMedia] Single visual item, skipping concat step`);
       concatPath = processedVisualItems[0].path;
       // Remove from tempFiles since we're using it as concatPath
       const idx = tempFiles.indexOf(concatPath);
       if (idx > -1) tempFiles.splice(idx, 1);
+    } else if (
+      processedVisualItems.slice(0, -1).some((item) => item.transition)
+    ) {
+      concatPath = join(tmpdir(), `${nanoid()}_transitions.mp4`);
+      tempFiles.push(concatPath);
+      await mergeWithTransitions(processedVisualItems, concatPath);
     } else {
       concatPath = join(tmpdir(), `${nanoid()}_concat.mp4`);
       tempFiles.push(concatPath);
@@ -307,7 +449,7 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
         (item) => item.hasAudio,
       );
 
-      console.log(
+      logger.info(
         `[MergeMedia] Concatenating ${processedVisualItems.length} visual items (hasAnyVideoAudio: ${hasAnyVideoAudio})`,
       );
 
@@ -368,7 +510,7 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
               .outputOptions(["-pix_fmt", "yuv420p", "-preset", "fast"])
               .toFormat("mp4")
               .on("start", (cmdStr: string) =>
-                console.log("[MergeMedia] Concat command:", cmdStr),
+                logger.info("[MergeMedia] Concat command:", cmdStr),
               )
               .on("stderr", (stderrLine: string) => {
                 // Log progress from FFmpeg stderr (contains encoding progress)
@@ -376,18 +518,18 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
                   stderrLine.includes("frame=") ||
                   stderrLine.includes("time=")
                 ) {
-                  console.log(
+                  logger.info(
                     "[MergeMedia] Concat progress:",
                     stderrLine.trim(),
                   );
                 }
               })
               .on("error", (err: Error) => {
-                console.error("[MergeMedia] Concat error:", err.message);
+                logger.error("[MergeMedia] Concat error:", err.message);
                 reject(err);
               })
               .on("end", () => {
-                console.log(
+                logger.info(
                   `[MergeMedia] Concat completed in ${Date.now() - concatStartTime}ms`,
                 );
                 resolve();
@@ -407,25 +549,25 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
               .outputOptions(["-pix_fmt", "yuv420p", "-preset", "fast"])
               .toFormat("mp4")
               .on("start", (cmdStr: string) =>
-                console.log("[MergeMedia] Concat command:", cmdStr),
+                logger.info("[MergeMedia] Concat command:", cmdStr),
               )
               .on("stderr", (stderrLine: string) => {
                 if (
                   stderrLine.includes("frame=") ||
                   stderrLine.includes("time=")
                 ) {
-                  console.log(
+                  logger.info(
                     "[MergeMedia] Concat progress:",
                     stderrLine.trim(),
                   );
                 }
               })
               .on("error", (err: Error) => {
-                console.error("[MergeMedia] Concat error:", err.message);
+                logger.error("[MergeMedia] Concat error:", err.message);
                 reject(err);
               })
               .on("end", () => {
-                console.log(
+                logger.info(
                   `[MergeMedia] Concat completed in ${Date.now() - concatStartTime}ms`,
                 );
                 resolve();
@@ -438,9 +580,16 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
       );
     }
 
-    // Step 3: If no overlay audio items, we're done - return path, not buffer
-    if (audioItems.length === 0) {
-      console.log(
+    // Step 3: Mix overlay audio (ducking, fades) and normalize loudness
+    const mixed = await mixAudio(
+      concatPath,
+      outputPath,
+      { audio: audioItems, loudness: options.loudness },
+      tempFiles,
+    );
+
+    if (!mixed) {
+      logger.info(
         "[MergeMedia] No overlay audio tracks, returning concatenated video",
       );
       // Move concat to output path and clean up other temp files
@@ -449,178 +598,8 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
       // Remove concatPath from tempFiles since we renamed it
       const concatIndex = tempFiles.indexOf(concatPath);
       if (concatIndex > -1) tempFiles.splice(concatIndex, 1);
-      return outputPath;
     }
 
-    // Step 4: Get total video duration for audio trimming
-    const totalVideoDuration = await getMediaDuration(concatPath);
-    console.log(`[MergeMedia] Total video duration: ${totalVideoDuration}s`);
-
-    // Step 5: Download and process audio overlay items
-    const processedAudioPaths: Array<{
-      path: string;
-      offset: number;
-      duration: number;
-      volume: number;
-    }> = [];
-
-    for (let i = 0; i < audioItems.length; i++) {
-      const audioItem = audioItems[i];
-      console.log(
-        `[MergeMedia] Downloading audio ${i + 1}/${audioItems.length}: ${audioItem.url}`,
-      );
-
-      // Detect audio format from URL
-      const urlLower = audioItem.url.toLowerCase();
-      let ext = "mp3";
-      if (urlLower.includes(".wav")) ext = "wav";
-      else if (urlLower.includes(".aac")) ext = "aac";
-      else if (urlLower.includes(".m4a")) ext = "m4a";
-      else if (urlLower.includes(".ogg")) ext = "ogg";
-
-      const audioPath = join(tmpdir(), `${nanoid()}_audio.${ext}`);
-
-      // Stream directly to disk - avoids loading entire file into RAM
-      await streamToDisk(audioItem.url, audioPath);
-      tempFiles.push(audioPath);
-
-      const audioDuration = await getMediaDuration(audioPath);
-      const offset = audioItem.offset || 0;
-      const volume = audioItem.volume ?? 1;
-
-      // Calculate effective duration (limited by video length)
-      let effectiveDuration = audioItem.duration || audioDuration;
-      if (offset + effectiveDuration > totalVideoDuration) {
-        effectiveDuration = totalVideoDuration - offset;
-      }
-
-      if (effectiveDuration <= 0) {
-        console.log(
-          `[MergeMedia] Skipping audio ${i + 1} - offset ${offset}s exceeds video duration`,
-        );
-        continue;
-      }
-
-      console.log(
-        `[MergeMedia] Audio ${i + 1}: offset=${offset}s, duration=${effectiveDuration}s, volume=${volume}`,
-      );
-
-      processedAudioPaths.push({
-        path: audioPath,
-        offset,
-        duration: effectiveDuration,
-        volume,
-      });
-    }
-
-    // Step 6: Mix audio overlays with video (which may already have audio)
-    if (processedAudioPaths.length === 0) {
-      console.log(
-        "[MergeMedia] No valid audio overlay tracks after processing, returning video",
-      );
-      // Move concat to output path and clean up other temp files
-      const fs = await import("fs/promises");
-      await fs.rename(concatPath, outputPath);
-      const concatIndex = tempFiles.indexOf(concatPath);
-      if (concatIndex > -1) tempFiles.splice(concatIndex, 1);
-      return outputPath;
-    }
-
-    console.log(
-      `[MergeMedia] Mixing ${processedAudioPaths.length} audio overlay tracks with video`,
-    );
-
-    // Check if concatenated video has audio
-    const concatHasAudio = await hasAudioStream(concatPath);
-
-    await new Promise<void>((resolve, reject) => {
-      let cmd = ffmpeg().input(concatPath);
-
-      // Add all audio inputs
-      for (const audio of processedAudioPaths) {
-        cmd = cmd.input(audio.path);
-      }
-
-      // Build audio filter complex
-      const audioFilters: string[] = [];
-      const audioOutputs: string[] = [];
-
-      // Start index for audio inputs (after the video input)
-      let audioInputIndex = 1;
-
-      // If the concatenated video has audio, include it in the mix
-      if (concatHasAudio) {
-        audioFilters.push(
-          `[0:a]aformat=sample_fmts=fltp:sample_rates=44100:channel_layouts=stereo[vidaudio]`,
-        );
-        audioOutputs.push("[vidaudio]");
-      }
-
-      for (let i = 0; i < processedAudioPaths.length; i++) {
-        const audio = processedAudioPaths[i];
-        const inputIndex = audioInputIndex + i;
-        const outputLabel = `a${i}`;
-
-        // Build filter chain: volume -> trim -> delay (if needed)
-        let filterChain = `[${inputIndex}:a]`;
-        const filters: string[] = [];
-
-        // Apply volume
-        if (audio.volume !== 1) {
-          filters.push(`volume=${audio.volume}`);
-        }
-
-        // Trim to effective duration
-        filters.push(`atrim=0:${audio.duration}`);
-        filters.push("asetpts=PTS-STARTPTS");
-
-        // Format to consistent sample rate/channels
-        filters.push(
-          "aformat=sample_fmts=fltp:sample_rates=44100:channel_layouts=stereo",
-        );
-
-        // Apply delay for offset
-        if (audio.offset > 0) {
-          const delayMs = Math.round(audio.offset * 1000);
-          filters.push(`adelay=${delayMs}|${delayMs}`);
-        }
-
-        audioFilters.push(`${filterChain}${filters.join(",")}[${outputLabel}]`);
-        audioOutputs.push(`[${outputLabel}]`);
-      }
-
-      // Mix all audio tracks together (or pass through if only one)
-      if (audioOutputs.length === 1) {
-        // Single audio track - just rename it to [outa], no mixing needed
-        // Replace the last filter's output label with [outa]
-        const lastFilterIndex = audioFilters.length - 1;
-        audioFilters[lastFilterIndex] = audioFilters[lastFilterIndex].replace(
-          /\[[^\]]+\]$/,
-          "[outa]",
-        );
-      } else {
-        // Multiple audio tracks - mix them together
-        // Use weights=1 for each input to prevent volume reduction (compatible with FFmpeg 4.x+)
-        // This replaces normalize=0 which is only available in FFmpeg 5.1+
-        const weights = Array(audioOutputs.length).fill("1").join(" ");
-        const mixFilter = `${audioOutputs.join("")}amix=inputs=${audioOutputs.length}:duration=longest:weights=${weights}[outa]`;
-        audioFilters.push(mixFilter);
-      }
-
-      cmd
-        .complexFilter(audioFilters)
-        .outputOptions(["-map", "0:v", "-map", "[outa]"])
-        .videoCodec("copy") // Copy video stream, no re-encode needed
-        .audioCodec("aac")
-        .toFormat("mp4")
-        .on("start", (cmdStr: string) =>
-          console.log("[MergeMedia] Audio mix command:", cmdStr),
-        )
-        .on("error", reject)
-        .save(outputPath)
-        .on("end", resolve);
-    });
-
     // Return path to output file - caller streams it
     return outputPath;
   } finally {
@@ -630,7 +609,7 @@ export async function mergeMedia(options: MergeMediaOptions): Promise<string> {
         ...tempFiles.map((file) => unlink(file).catch(() => {})),
       ]);
     } catch (e) {
-      console.error("[MergeMedia] Cleanup error:", e);
+      logger.error("[MergeMedia] Cleanup error:", e);
     }
   }
 }
@@ -0,0 +1,305 @@
+import { nanoid } from "nanoid";
+import ffmpeg from "fluent-ffmpeg";
+import { tmpdir } from "os";
+import { join } from "path";
+import type {
+  AudioOverlay,
+  DuckingOptions,
+  LoudnessOptions,
+} from "../core/types";
+import { streamToDisk } from "../core/utils";
+import { getMediaMetadata } from "../metadata/video-metadata";
+import { logger } from "../core/logger";
+
+const AUDIO_FORMAT =
+  "aformat=sample_fmts=fltp:sample_rates=44100:channel_layouts=stereo";
+
+const DEFAULT_DUCKING: Required<DuckingOptions> = {
+  threshold: 0.05,
+  ratio: 8,
+  attack: 20,
+  release: 400,
+};
+
+const DEFAULT_LOUDNESS: Required<LoudnessOptions> = {
+  target: -14,
+  truePeak: -1.5,
+};
+
+export interface MixAudioOptions {
+  audio?: AudioOverlay[];
+  loudness?: LoudnessOptions;
+}
+
+/**
+ * Overlay track downloaded and fitted to the video
+ */
+interface PreparedTrack {
+  path: string;
+  offset: number;
+  duration: number;
+  volume: number;
+  fadeIn: number;
+  fadeOut: number;
+  ducking?: Required<DuckingOptions>;
+}
+
+/**
+ * Mix audio overlays over a video's own audio, with ducking and fades, and
+ * normalize the loudness of the result.
+ * Writes to outputPath and returns true, or returns false when there is
+ * nothing to mix (the caller keeps the video as is).
+ */
+export async function mixAudio(
+  videoPath: string,
+  outputPath: string,
+  options: MixAudioOptions,
+  tempFiles: string[],
+): Promise<boolean> {
+  const overlays = options.audio ?? [];
+  const video = await getMediaMetadata(videoPath);
+  const normalize = !!options.loudness && video.hasAudio;
+
+  if (overlays.length === 0 && !normalize) {
+    return false;
+  }
+
+  logger.info(`[MixAudio] Total video duration: ${video.duration}s`);
+
+  const tracks = await prepareTracks(overlays, video.duration, tempFiles);
+
+  if (tracks.length === 0 && !normalize) {
+    logger.info("[MixAudio] No valid audio overlay tracks after processing");
+    return false;
+  }
+
+  logger.info(
+    `[MixAudio] Mixing ${tracks.length} audio overlay tracks with video (videoHasAudio: ${video.hasAudio}, loudness: ${JSON.stringify(options.loudness ?? null)})`,
+  );
+
+  const audioFilters = buildAudioFilters(
+    tracks,
+    video.hasAudio,
+    options.loudness,
+  );
+
+  await new Promise<void>((resolve, reject) => {
+    let cmd = ffmpeg().input(videoPath);
+
+    for (const track of tracks) {
+      cmd = cmd.input(track.path);
+    }
+
+    cmd
+      .complexFilter(audioFilters)
+      .outputOptions(["-map", "0:v", "-map", "[outa]"])
+      .videoCodec("copy") // Copy video stream, no re-encode needed
+      .audioCodec("aac")
+      .toFormat("mp4")
+      .on("start", (cmdStr: string) =>
+        logger.info("[MixAudio] Audio mix command:", cmdStr),
+      )
+      .on("error", reject)
+      .save(outputPath)
+      .on("end", resolve);
+  });
+
+  return true;
+}
+
+/**
+ * Download overlay tracks and fit them to the video's length
+ */
+async function prepareTracks(
+  overlays: AudioOverlay[],
+  videoDuration: number,
+  tempFiles: string[],
+): Promise<PreparedTrack[]> {
+  const tracks: PreparedTrack[] = [];
+
+  for (let i = 0; i < overlays.length; i++) {
+    const overlay = overlays[i];
+    logger.info(
+      `[MixAudio] Downloading audio ${i + 1}/${overlays.length}: ${overlay.url}`,
+    );
+
+    // Detect audio format from URL
+    const urlLower = overlay.url.toLowerCase();
+    let ext = "mp3";
+    if (urlLower.includes(".wav")) ext = "wav";
+    else if (urlLower.includes(".aac")) ext = "aac";
+    else if (urlLower.includes(".m4a")) ext = "m4a";
+    else if (urlLower.includes(".ogg")) ext = "ogg";
+
+    const audioPath = join(tmpdir(), `${nanoid()}_audio.${ext}`);
+
+    // Stream directly to disk - avoids loading entire file into RAM
+    await streamToDisk(overlay.url, audioPath);
+    tempFiles.push(audioPath);
+
+    const { duration: audioDuration } = await getMediaMetadata(audioPath);
+    const offset = overlay.offset || 0;
+
+    // Calculate effective duration (limited by video length)
+    let duration = overlay.duration || audioDuration;
+    if (offset + duration > videoDuration) {
+      duration = videoDuration - offset;
+    }
+
+    if (duration <= 0) {
+      logger.info(
+        `[MixAudio] Skipping audio ${i + 1} - offset ${offset}s exceeds video duration`,
+      );
+      continue;
+    }
+
+    // Fades can't be longer than the track itself
+    const fadeIn = Math.min(overlay.fadeIn ?? 0, duration);
+    const fadeOut = Math.min(overlay.fadeOut ?? 0, duration);
+    const ducking = overlay.duck
+      ? {
+          ...DEFAULT_DUCKING,
+          ...(typeof overlay.duck === "object" ? overlay.duck : {}),
+        }
+      : undefined;
+
+    logger.info(
+      `[MixAudio] Audio ${i + 1}: offset=${offset}s, duration=${duration}s, volume=${overlay.volume ?? 1}, fadeIn=${fadeIn}s, fadeOut=${fadeOut}s, duck=${!!ducking}`,
+    );
+
+    tracks.push({
+      path: audioPath,
+      offset,
+      duration,
+      volume: overlay.volume ?? 1,
+      fadeIn,
+      fadeOut,
+      ducking,
+    });
+  }
+
+  return tracks;
+}
+
+/**
+ * Build the audio filter graph, ending in [outa]:
+ * tracks -> ducked tracks compressed by the rest of the audio -> mix -> loudnorm
+ */
+function buildAudioFilters(
+  tracks: PreparedTrack[],
+  videoHasAudio: boolean,
+  loudness?: LoudnessOptions,
+): string[] {
+  const audioFilters: string[] = [];
+
+  // Audio that plays as is, and tracks that dip while it plays
+  const keyLabels: string[] = [];
+  const duckedTracks: Array<{
+    label: string;
+    ducking: Required<DuckingOptions>;
+  }> = [];
+
+  // If the video has audio, include it in the mix
+  if (videoHasAudio) {
+    audioFilters.push(`[0:a]${AUDIO_FORMAT}[vidaudio]`);
+    keyLabels.push("[vidaudio]");
+  }
+
+  tracks.forEach((track, i) => {
+    // Input 0 is the video
+    const inputIndex = i + 1;
+    const filters: string[] = [];
+
+    if (track.volume !== 1) {
+      filters.push(`volume=${track.volume}`);
+    }
+
+    // Trim to effective duration
+    filters.push(`atrim=0:${track.duration}`);
+    filters.push("asetpts=PTS-STARTPTS");
+    filters.push(AUDIO_FORMAT);
+
+    if (track.fadeIn > 0) {
+      filters.push(`afade=t=in:st=0:d=${track.fadeIn}`);
+    }
+    if (track.fadeOut > 0) {
+      filters.push(
+        `afade=t=out:st=${track.duration - track.fadeOut}:d=${track.fadeOut}`,
+      );
+    }
+
+    // Apply delay for offset
+    if (track.offset > 0) {
+      const delayMs = Math.round(track.offset * 1000);
+      filters.push(`adelay=${delayMs}|${delayMs}`);
+    }
+
+    const label = `[a${i}]`;
+    audioFilters.push(`[${inputIndex}:a]${filters.join(",")}${label}`);
+
+    if (track.ducking) {
+      duckedTracks.push({ label, ducking: track.ducking });
+    } else {
+      keyLabels.push(label);
+    }
+  });
+
+  let mixLabels: string[];
+
+  if (duckedTracks.length > 0 && keyLabels.length > 0) {
+    // One copy of the key audio for the mix, one per ducked track
+    const keyLabel = mixTracks(audioFilters, keyLabels, "keys");
+    const sidechainLabels = duckedTracks.map((_, i) => `[sc${i}]`);
+    audioFilters.push(
+      `${keyLabel}asplit=${duckedTracks.length + 1}[keyout]${sidechainLabels.join("")}`,
+    );
+
+    mixLabels = ["[keyout]"];
+    duckedTracks.forEach(({ label, ducking }, i) => {
+      // Padding the sidechain keeps the ducked track playing after the key audio ends
+      audioFilters.push(`[sc${i}]apad[scpad${i}]`);
+      audioFilters.push(
+        `${label}[scpad${i}]sidechaincompress=threshold=${ducking.threshold}:ratio=${ducking.ratio}:attack=${ducking.attack}:release=${ducking.release}[ducked${i}]`,
+      );
+      mixLabels.push(`[ducked${i}]`);
+    });
+  } else {
+    // Nothing to duck under - ducked tracks play as is
+    mixLabels = [...keyLabels, ...duckedTracks.map(({ label }) => label)];
+  }
+
+  const mixLabel = mixTracks(audioFilters, mixLabels, "mix");
+
+  if (loudness) {
+    const { target, truePeak } = { ...DEFAULT_LOUDNESS, ...loudness };
+    // loudnorm upsamples to 192kHz, so resample back for AAC
+    audioFilters.push(
+      `${mixLabel}loudnorm=I=${target}:TP=${truePeak}:LRA=11,aresample=44100[outa]`,
+    );
+  } else {
+    audioFilters.push(`${mixLabel}anull[outa]`);
+  }
+
+  return audioFilters;
+}
+
+/**
+ * Mix labelled streams into one and return its label
+ */
+function mixTracks(
+  audioFilters: string[],
+  labels: string[],
+  name: string,
+): string {
+  if (labels.length === 1) {
+    return labels[0];
+  }
+
+  // Use weights=1 for each input to prevent volume reduction (compatible with FFmpeg 4.x+)
+  // This replaces normalize=0 which is only available in FFmpeg 5.1+
+  const weights = Array(labels.length).fill("1").join(" ");
+  audioFilters.push(
+    `${labels.join("")}amix=inputs=${labels.length}:duration=longest:weights=${weights}[${name}]`,
+  );
+  return `[${name}]`;
+}
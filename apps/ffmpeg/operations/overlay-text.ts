@@ -0,0 +1,118 @@
+import { nanoid } from "nanoid";
+import ffmpeg from "fluent-ffmpeg";
+import { tmpdir } from "os";
+import { join } from "path";
+import { unlink, writeFile } from "fs/promises";
+import { generateTextOverlayAss } from "../captions";
+import { assFilter, removeFontsDir, writeFontsDir } from "../core/fonts";
+import type { FontFile, OverlayTextOptions, TextOverlay } from "../core/types";
+import { streamToDisk } from "../core/utils";
+import { getVideoMetadata } from "../metadata/video-metadata";
+import { logger } from "../core/logger";
+
+// Timeout for FFmpeg operations (5 minutes)
+const FFMPEG_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Wrap a promise with a timeout
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  operation: string,
+): Promise<T> {
+  let timeoutId: Timer;
+
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      reject(
+        new Error(`[OverlayText] ${operation} timed out after ${timeoutMs}ms`),
+      );
+    }, timeoutMs);
+  });
+
+  return Promise.race([promise, timeoutPromise]).finally(() => {
+    clearTimeout(timeoutId);
+  });
+}
+
+/**
+ * Draw text overlays over a video file, writing the result to outputPath.
+ * Text is rendered as ASS subtitles with libass; audio is copied.
+ */
+export async function renderTextOverlays(
+  videoPath: string,
+  texts: TextOverlay[],
+  outputPath: string,
+  fonts?: FontFile[],
+): Promise<void> {
+  const { width, height, duration } = await getVideoMetadata(videoPath);
+  const assPath = join(tmpdir(), `${nanoid()}.ass`);
+
+  const content = generateTextOverlayAss(texts, width, height, duration);
+  await writeFile(assPath, content, "utf-8");
+  const fontsDir = await writeFontsDir(fonts);
+
+  logger.info(
+    `[OverlayText] Drawing ${texts.length} text overlays on ${width}x${height} video`,
+  );
+
+  const render = new Promise<void>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .videoCodec("libx264")
+      .audioCodec("copy")
+      .outputOptions([
+        "-vf",
+        assFilter(assPath, fontsDir),
+        "-pix_fmt",
+        "yuv420p",
+        "-movflags",
+        "+faststart",
+      ])
+      .toFormat("mp4")
+      .on("start", (cmd: string) =>
+        logger.info("[OverlayText] FFmpeg command:", cmd),
+      )
+      .on("error", (err: Error) => {
+        logger.error("[OverlayText] FFmpeg error:", err.message);
+        reject(err);
+      })
+      .on("end", () => resolve())
+      .save(outputPath);
+  });
+
+  try {
+    await withTimeout(render, FFMPEG_TIMEOUT_MS, "Text overlay");
+  } finally {
+    await unlink(assPath).catch(() => {});
+    await removeFontsDir(fontsDir);
+  }
+}
+
+/**
+ * Draw text overlays over a video from a URL
+ * Returns the path to the output file (caller must handle cleanup)
+ */
+export async function overlayText(
+  options: OverlayTextOptions,
+): Promise<string> {
+  const videoPath = join(tmpdir(), `${nanoid()}_input.mp4`);
+  const outputPath = join(tmpdir(), `${nanoid()}.mp4`);
+
+  try {
+    // Stream directly to disk - avoids loading entire file into RAM
+    await streamToDisk(options.url, videoPath);
+    await renderTextOverlays(
+      videoPath,
+      options.texts,
+      outputPath,
+      options.fonts,
+    );
+    return outputPath;
+  } catch (error) {
+    await unlink(outputPath).catch(() => {});
+    throw error;
+  } finally {
+    await unlink(videoPath).catch(() => {});
+  }
+}
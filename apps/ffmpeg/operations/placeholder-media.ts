@@ -0,0 +1,149 @@
+import { nanoid } from "nanoid";
+import ffmpeg from "fluent-ffmpeg";
+import { tmpdir } from "os";
+import { join } from "path";
+import { unlink } from "fs/promises";
+import type {
+  PlaceholderMediaOptions,
+  PlaceholderMediaType,
+} from "../core/types";
+import { logger } from "../core/logger";
+
+export const PLACEHOLDER_MEDIA_TYPES: PlaceholderMediaType[] = [
+  "video",
+  "image",
+  "audio",
+];
+
+export const MAX_PLACEHOLDER_DURATION = 60;
+export const MAX_PLACEHOLDER_SIZE = 1920;
+export const MIN_PLACEHOLDER_FREQUENCY = 20;
+export const MAX_PLACEHOLDER_FREQUENCY = 20000;
+
+const HEX_COLOR = /^[0-9a-f]{6}$/i;
+
+const PLACEHOLDER_FORMATS: Record<PlaceholderMediaType, string> = {
+  video: "mp4",
+  image: "png",
+  audio: "mp3",
+};
+
+/**
+ * Check placeholder options, returning what is wrong with them
+ */
+export function validatePlaceholderOptions(
+  options: PlaceholderMediaOptions,
+): string | null {
+  if (!PLACEHOLDER_MEDIA_TYPES.includes(options.type)) {
+    return `type must be one of: ${PLACEHOLDER_MEDIA_TYPES.join(", ")}`;
+  }
+  if (options.color !== undefined && !HEX_COLOR.test(options.color)) {
+    return "color must be a 6-digit hex color, e.g. 3366ff";
+  }
+  if (
+    options.frequency !== undefined &&
+    !(
+      options.frequency >= MIN_PLACEHOLDER_FREQUENCY &&
+      options.frequency <= MAX_PLACEHOLDER_FREQUENCY
+    )
+  ) {
+    return `frequency must be from ${MIN_PLACEHOLDER_FREQUENCY} to ${MAX_PLACEHOLDER_FREQUENCY} Hz`;
+  }
+  if (
+    options.duration !== undefined &&
+    !(options.duration > 0 && options.duration <= MAX_PLACEHOLDER_DURATION)
+  ) {
+    return `duration must be more than 0 and at most ${MAX_PLACEHOLDER_DURATION} seconds`;
+  }
+  for (const size of [options.width, options.height]) {
+    if (
+      size !== undefined &&
+      !(Number.isInteger(size) && size >= 2 && size <= MAX_PLACEHOLDER_SIZE)
+    ) {
+      return `width and height must be whole numbers from 2 to ${MAX_PLACEHOLDER_SIZE}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Render placeholder media from FFmpeg's color and sine sources. The same
+ * options always give the same file, so test runs can compare outputs.
+ *
+ * @returns Output file path (caller must handle cleanup)
+ */
+export async function createPlaceholderMedia(
+  options: PlaceholderMediaOptions,
+): Promise<string> {
+  const color = `0x${options.color ?? "808080"}`;
+  const frequency = options.frequency ?? 440;
+  const duration = options.duration ?? 5;
+  // libx264 needs even frame sizes
+  const width = Math.floor((options.width ?? 1280) / 2) * 2;
+  const height = Math.floor((options.height ?? 720) / 2) * 2;
+  const outputPath = join(
+    tmpdir(),
+    `${nanoid()}_placeholder.${PLACEHOLDER_FORMATS[options.type]}`,
+  );
+
+  const colorSource = `color=c=${color}:s=${width}x${height}:r=30:d=${duration}`;
+  const toneSource = `sine=frequency=${frequency}:sample_rate=44100:duration=${duration}`;
+
+  await new Promise<void>((resolve, reject) => {
+    let cmd = ffmpeg();
+
+    if (options.type === "video") {
+      cmd = cmd
+        .input(colorSource)
+        .inputOptions(["-f", "lavfi"])
+        .input(toneSource)
+        .inputOptions(["-f", "lavfi"])
+        .videoCodec("libx264")
+        .audioCodec("aac")
+        .audioChannels(2)
+        .outputOptions([
+          "-pix_fmt",
+          "yuv420p",
+          "-preset",
+          "fast",
+          "-movflags",
+          "+faststart",
+          "-shortest",
+        ])
+        .toFormat("mp4");
+    } else if (options.type === "image") {
+      cmd = cmd
+        .input(`color=c=${color}:s=${width}x${height}`)
+        .inputOptions(["-f", "lavfi"])
+        .outputOptions(["-frames:v", "1"])
+        .toFormat("image2");
+    } else {
+      cmd = cmd
+        .input(toneSource)
+        .inputOptions(["-f", "lavfi"])
+        .audioCodec("libmp3lame")
+        .audioBitrate("128k")
+        .audioChannels(2)
+        .toFormat("mp3");
+    }
+
+    // No encoder versions or timestamps in the file, so it is byte-identical
+    // for the same options
+    cmd
+      .outputOptions(["-map_metadata", "-1", "-fflags", "+bitexact"])
+      .on("start", (cmdStr: string) =>
+        logger.info("[PlaceholderMedia] FFmpeg command:", cmdStr),
+      )
+      .on("error", (err: Error) => {
+        logger.error("[PlaceholderMedia] Error:", err.message);
+        reject(err);
+      })
+      .on("end", () => resolve())
+      .save(outputPath);
+  }).catch(async (error) => {
+    await unlink(outputPath).catch(() => {});
+    throw error;
+  });
+
+  return outputPath;
+}
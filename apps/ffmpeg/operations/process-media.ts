@@ -3,6 +3,8 @@ import ffmpeg from "fluent-ffmpeg";
 import { tmpdir } from "os";
 import { join } from "path";
 import { unlink } from "fs/promises";
+import { streamToDisk } from "../core/utils";
+import { logger } from "../core/logger";
 
 export interface FFmpegOptions {
   inputFormat?: string;
@@ -20,18 +22,92 @@ export interface FFmpegOptions {
   startTime?: string;
   duration?: string;
   seek?: string;
+  /** Number of video frames to write (e.g. 1 for a still image) */
+  frames?: number;
   filters?: string[];
 }
 
-export async function processMedia(
-  inputBuffer: Buffer,
+/**
+ * FFmpeg muxers for output formats that aren't muxer names themselves
+ */
+const OUTPUT_MUXERS: Record<string, string> = {
+  jpg: "image2",
+  jpeg: "image2",
+  png: "image2",
+  aac: "adts",
+};
+
+/**
+ * Run FFmpeg on a file on disk, writing the result to outputPath
+ */
+async function runFFmpeg(
+  inputPath: string,
+  outputPath: string,
   options: FFmpegOptions,
-): Promise<Buffer> {
-  // Security: Validate outputFormat to prevent path traversal
+): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    let command = ffmpeg(inputPath).toFormat(
+      OUTPUT_MUXERS[options.outputFormat] || options.outputFormat,
+    );
+
+    if (options.videoCodec) command = command.videoCodec(options.videoCodec);
+    if (options.audioCodec) command = command.audioCodec(options.audioCodec);
+    if (options.videoBitrate)
+      command = command.videoBitrate(options.videoBitrate);
+    if (options.audioBitrate)
+      command = command.audioBitrate(options.audioBitrate);
+    if (options.fps) command = command.fps(options.fps);
+    if (options.width || options.height) {
+      command = command.size(
+        `${options.width || "?"}x${options.height || "?"}`,
+      );
+    }
+    if (options.aspectRatio) command = command.aspect(options.aspectRatio);
+    if (options.audioChannels)
+      command = command.audioChannels(options.audioChannels);
+    if (options.audioFrequency)
+      command = command.audioFrequency(options.audioFrequency);
+    if (options.startTime) command = command.setStartTime(options.startTime);
+    if (options.duration) command = command.setDuration(options.duration);
+    if (options.seek) command = command.seek(options.seek);
+    if (options.frames)
+      command = command.outputOptions(["-frames:v", options.frames.toString()]);
+
+    if (options.filters && options.filters.length > 0) {
+      options.filters.forEach((filter) => {
+        command = command.complexFilter(filter);
+      });
+    }
+
+    command
+      .on("start", (commandLine: string) =>
+        logger.info("Started FFmpeg with command:", commandLine),
+      )
+      .on("progress", (progress: { percent: number }) =>
+        logger.info("Processing:", progress.percent, "% done"),
+      )
+      .on("end", () => resolve())
+      .on("error", reject)
+      .save(outputPath);
+  });
+}
+
+/**
+ * Validate outputFormat to prevent path traversal
+ */
+function getSafeOutputFormat(options: FFmpegOptions): string {
   const safeOutputFormat = options.outputFormat.replace(/[^a-zA-Z0-9]/g, "");
   if (!safeOutputFormat) {
     throw new Error("Invalid output format");
   }
+  return safeOutputFormat;
+}
+
+export async function processMedia(
+  inputBuffer: Buffer,
+  options: FFmpegOptions,
+): Promise<Buffer> {
+  const safeOutputFormat = getSafeOutputFormat(options);
 
   const inputPath = join(
     tmpdir(),
@@ -41,48 +117,7 @@ export async function processMedia(
 
   try {
     await Bun.write(inputPath, inputBuffer);
-
-    await new Promise<void>((resolve, reject) => {
-      let command = ffmpeg(inputPath).toFormat(options.outputFormat);
-
-      if (options.videoCodec) command = command.videoCodec(options.videoCodec);
-      if (options.audioCodec) command = command.audioCodec(options.audioCodec);
-      if (options.videoBitrate)
-        command = command.videoBitrate(options.videoBitrate);
-      if (options.audioBitrate)
-        command = command.audioBitrate(options.audioBitrate);
-      if (options.fps) command = command.fps(options.fps);
-      if (options.width || options.height) {
-        command = command.size(
-          `${options.width || "?"}x${options.height || "?"}`,
-        );
-      }
-      if (options.aspectRatio) command = command.aspect(options.aspectRatio);
-      if (options.audioChannels)
-        command = command.audioChannels(options.audioChannels);
-      if (options.audioFrequency)
-        command = command.audioFrequency(options.audioFrequency);
-      if (options.startTime) command = command.setStartTime(options.startTime);
-      if (options.duration) command = command.setDuration(options.duration);
-      if (options.seek) command = command.seek(options.seek);
-
-      if (options.filters && options.filters.length > 0) {
-        options.filters.forEach((filter) => {
-          command = command.complexFilter(filter);
-        });
-      }
-
-      command
-        .on("start", (commandLine: string) =>
-          console.log("Started FFmpeg with command:", commandLine),
-        )
-        .on("progress", (progress: { percent: number }) =>
-          console.log("Processing:", progress.percent, "% done"),
-        )
-        .on("end", resolve)
-        .on("error", reject)
-        .save(outputPath);
-    });
+    await runFFmpeg(inputPath, outputPath, options);
 
     return Buffer.from(await Bun.file(outputPath).arrayBuffer());
   } finally {
@@ -93,7 +128,35 @@ export async function processMedia(
         unlink(outputPath).catch(() => {}),
       ]);
     } catch (e) {
-      console.error("Cleanup error:", e);
+      logger.error("Cleanup error:", e);
     }
   }
 }
+
+/**
+ * Process media from a URL without loading it into RAM
+ * Returns the path to the output file (caller must handle cleanup)
+ */
+export async function processMediaFromUrl(
+  url: string,
+  options: FFmpegOptions,
+): Promise<string> {
+  const safeOutputFormat = getSafeOutputFormat(options);
+
+  const inputPath = join(
+    tmpdir(),
+    `${nanoid()}.${options.inputFormat || "mp4"}`,
+  );
+  const outputPath = join(tmpdir(), `${nanoid()}.${safeOutputFormat}`);
+
+  try {
+    await streamToDisk(url, inputPath);
+    await runFFmpeg(inputPath, outputPath, options);
+    return outputPath;
+  } catch (error) {
+    await unlink(outputPath).catch(() => {});
+    throw error;
+  } finally {
+    await unlink(inputPath).catch(() => {});
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { buildKeyframeExpression, isValidPadColor } from "./reframe-video";
+
+describe("buildKeyframeExpression", () => {
+  test("is 0 without keyframes", () => {
+    expect(buildKeyframeExpression([])).toBe("0");
+  });
+
+  test("is the value of a single keyframe", () => {
+    expect(buildKeyframeExpression([{ time: 0, value: 120 }])).toBe("120");
+  });
+
+  test("interpolates linearly between keyframes", () => {
+    expect(
+      buildKeyframeExpression([
+        { time: 0, value: 100 },
+        { time: 2, value: 200 },
+      ]),
+    ).toBe("if(lt(t,2),100+(100)*(t-0)/2,200)");
+  });
+
+  test("holds flat segments and nests later keyframes", () => {
+    expect(
+      buildKeyframeExpression([
+        { time: 0, value: 50 },
+        { time: 1, value: 50 },
+        { time: 3, value: 10 },
+      ]),
+    ).toBe("if(lt(t,1),50,if(lt(t,3),50+(-40)*(t-1)/2,10))");
+  });
+});
+
+describe("isValidPadColor", () => {
+  test("accepts color names and hex colors", () => {
+    for (const color of [
+      "black",
+      "White",
+      "#1E1E1E",
+      "#1e1e1e80",
+      "0xFF0000",
+    ]) {
+      expect(isValidPadColor(color)).toBe(true);
+    }
+  });
+
+  test("rejects anything that could escape the filter graph", () => {
+    for (const color of [
+      "",
+      "#12345",
+      "black,drawtext=text=x",
+      "red[out];[0:v]null",
+      "black:x=0",
+      "white@0.5",
+    ]) {
+      expect(isValidPadColor(color)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,352 @@
+import { nanoid } from "nanoid";
+import ffmpeg from "fluent-ffmpeg";
+import { tmpdir } from "os";
+import { join } from "path";
+import { unlink } from "fs/promises";
+import { streamToDisk } from "../core/utils";
+import type {
+  ReframeAspectRatio,
+  ReframeVideoOptions,
+  VideoMetadata,
+} from "../core/types";
+import { getVideoMetadata } from "../metadata/video-metadata";
+import { ensureEven } from "../dimensions/calculator";
+import { logger } from "../core/logger";
+
+// Smart crop motion analysis settings
+const ANALYSIS_WIDTH = 64; // Frames are downscaled to this width before analysis
+const ANALYSIS_FPS = 2; // Samples per second
+const MAX_KEYFRAMES = 40; // Upper bound on crop path keyframes (keeps the expression small)
+const SMOOTHING_WINDOW = 5; // Moving average window over sampled centers
+const MIN_MOTION_ENERGY = 0.002; // Mean frame difference below which a sample is ignored
+
+// Pad colors are spliced into the filter graph, so only hex ("#RRGGBB",
+// "#RRGGBBAA", "0xRRGGBB") and plain color names ("black") get through
+const PAD_COLOR_PATTERN =
+  /^(?:(?:#|0x)(?:[0-9a-fA-F]{6}|[0-9a-fA-F]{8})|[a-zA-Z]+)$/;
+
+/**
+ * Whether a "pad" background color is safe to use in the filter graph
+ */
+export function isValidPadColor(color: string): boolean {
+  return PAD_COLOR_PATTERN.test(color);
+}
+
+interface Dimensions {
+  width: number;
+  height: number;
+}
+
+function parseAspectRatio(aspectRatio: ReframeAspectRatio): number {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  if (!w || !h) {
+    throw new Error(`Invalid aspect ratio: ${aspectRatio}`);
+  }
+  return w / h;
+}
+
+/**
+ * Largest region of the source frame that matches the target ratio
+ */
+function calculateCropDimensions(
+  source: VideoMetadata,
+  ratio: number,
+): Dimensions {
+  if (source.width / source.height > ratio) {
+    return {
+      width: ensureEven(source.height * ratio),
+      height: ensureEven(source.height),
+    };
+  }
+  return {
+    width: ensureEven(source.width),
+    height: ensureEven(source.width / ratio),
+  };
+}
+
+/**
+ * Output canvas for letterboxed strategies.
+ * The short side of the canvas matches the short side of the source,
+ * so 1920x1080 becomes 1080x1920 for 9:16 and 1080x1080 for 1:1.
+ */
+function calculateCanvasDimensions(
+  source: VideoMetadata,
+  ratio: number,
+): Dimensions {
+  const shortSide = Math.min(source.width, source.height);
+  if (ratio >= 1) {
+    return {
+      width: ensureEven(shortSide * ratio),
+      height: ensureEven(shortSide),
+    };
+  }
+  return {
+    width: ensureEven(shortSide),
+    height: ensureEven(shortSide / ratio),
+  };
+}
+
+/**
+ * Sample frame-to-frame differences and return the normalized center of
+ * motion (0-1 on each axis) for every sample
+ */
+async function analyzeMotionCenters(
+  videoPath: string,
+  source: VideoMetadata,
+  tempFiles: string[],
+): Promise<Array<{ x: number; y: number }>> {
+  const analysisWidth = ANALYSIS_WIDTH;
+  const analysisHeight = Math.max(
+    2,
+    ensureEven((ANALYSIS_WIDTH * source.height) / source.width),
+  );
+  const rawPath = join(tmpdir(), `${nanoid()}.gray`);
+  tempFiles.push(rawPath);
+
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .outputOptions([
+        "-an",
+        "-vf",
+        [
+          `fps=${ANALYSIS_FPS}`,
+          "format=gray",
+          "tblend=all_mode=difference",
+          `scale=${analysisWidth}:${analysisHeight}`,
+        ].join(","),
+        "-f",
+        "rawvideo",
+        "-pix_fmt",
+        "gray",
+      ])
+      .on("start", (cmd) =>
+        logger.info("[ReframeVideo] Motion analysis command:", cmd),
+      )
+      .on("error", (err) => {
+        logger.error("[ReframeVideo] Motion analysis error:", err);
+        reject(err);
+      })
+      .on("end", () => resolve())
+      .save(rawPath);
+  });
+
+  const pixels = new Uint8Array(await Bun.file(rawPath).arrayBuffer());
+  const frameSize = analysisWidth * analysisHeight;
+  const frameCount = Math.floor(pixels.length / frameSize);
+
+  const centers: Array<{ x: number; y: number }> = [];
+  let previous = { x: 0.5, y: 0.5 };
+
+  for (let f = 0; f < frameCount; f++) {
+    let energy = 0;
+    let sumX = 0;
+    let sumY = 0;
+
+    for (let y = 0; y < analysisHeight; y++) {
+      for (let x = 0; x < analysisWidth; x++) {
+        const value = pixels[f * frameSize + y * analysisWidth + x]!;
+        energy += value;
+        sumX += value * x;
+        sumY += value * y;
+      }
+    }
+
+    // Static frames carry no signal - hold the previous center
+    if (energy / (frameSize * 255) >= MIN_MOTION_ENERGY) {
+      previous = {
+        x: sumX / energy / (analysisWidth - 1),
+        y: sumY / energy / (analysisHeight - 1),
+      };
+    }
+    centers.push(previous);
+  }
+
+  // Moving average so the crop window pans instead of jumping
+  const half = Math.floor(SMOOTHING_WINDOW / 2);
+  return centers.map((_, i) => {
+    const window = centers.slice(
+      Math.max(0, i - half),
+      Math.min(centers.length, i + half + 1),
+    );
+    return {
+      x: window.reduce((sum, c) => sum + c.x, 0) / window.length,
+      y: window.reduce((sum, c) => sum + c.y, 0) / window.length,
+    };
+  });
+}
+
+/**
+ * Build a piecewise-linear FFmpeg expression over `t` through the given keyframes
+ */
+export function buildKeyframeExpression(
+  keyframes: Array<{ time: number; value: number }>,
+): string {
+  const last = keyframes[keyframes.length - 1];
+  if (!last) return "0";
+
+  let expression = last.value.toString();
+  for (let i = keyframes.length - 2; i >= 0; i--) {
+    const from = keyframes[i]!;
+    const to = keyframes[i + 1]!;
+    const span = to.time - from.time;
+    const segment =
+      from.value === to.value
+        ? from.value.toString()
+        : `${from.value}+(${to.value - from.value})*(t-${from.time})/${span}`;
+    expression = `if(lt(t,${to.time}),${segment},${expression})`;
+  }
+  return expression;
+}
+
+/**
+ * Crop filter whose window tracks the motion center over time
+ */
+async function buildSmartCropFilter(
+  videoPath: string,
+  source: VideoMetadata,
+  crop: Dimensions,
+  tempFiles: string[],
+): Promise<string> {
+  const centers = await analyzeMotionCenters(videoPath, source, tempFiles);
+
+  if (centers.length === 0) {
+    logger.info(
+      "[ReframeVideo] No motion samples, falling back to center crop",
+    );
+    return `crop=${crop.width}:${crop.height}`;
+  }
+
+  const step = Math.max(1, Math.ceil(centers.length / MAX_KEYFRAMES));
+  const maxX = source.width - crop.width;
+  const maxY = source.height - crop.height;
+
+  const xKeyframes: Array<{ time: number; value: number }> = [];
+  const yKeyframes: Array<{ time: number; value: number }> = [];
+
+  for (let i = 0; i < centers.length; i += step) {
+    const center = centers[i]!;
+    const time = Number((i / ANALYSIS_FPS).toFixed(2));
+    xKeyframes.push({
+      time,
+      value: Math.round(
+        Math.min(maxX, Math.max(0, center.x * source.width - crop.width / 2)),
+      ),
+    });
+    yKeyframes.push({
+      time,
+      value: Math.round(
+        Math.min(maxY, Math.max(0, center.y * source.height - crop.height / 2)),
+      ),
+    });
+  }
+
+  logger.info(
+    `[ReframeVideo] Smart crop path built from ${centers.length} samples (${xKeyframes.length} keyframes)`,
+  );
+
+  const x = maxX > 0 ? buildKeyframeExpression(xKeyframes) : "0";
+  const y = maxY > 0 ? buildKeyframeExpression(yKeyframes) : "0";
+  return `crop=${crop.width}:${crop.height}:'${x}':'${y}'`;
+}
+
+/**
+ * Convert a video to a different aspect ratio
+ * Returns the path to the output file (caller must handle cleanup)
+ */
+export async function reframeVideo(
+  options: ReframeVideoOptions,
+): Promise<string> {
+  const strategy = options.strategy || "crop";
+  const ratio = parseAspectRatio(options.aspectRatio);
+  if (options.backgroundColor && !isValidPadColor(options.backgroundColor)) {
+    throw new Error(`Invalid background color: ${options.backgroundColor}`);
+  }
+  const outputPath = join(tmpdir(), `${nanoid()}.mp4`);
+  const tempFiles: string[] = [];
+
+  try {
+    // Download video - stream directly to disk to avoid RAM usage
+    logger.info(`[ReframeVideo] Downloading video from ${options.videoUrl}`);
+    const videoPath = join(tmpdir(), `${nanoid()}.mp4`);
+    await streamToDisk(options.videoUrl, videoPath);
+    tempFiles.push(videoPath);
+
+    const metadata = await getVideoMetadata(videoPath);
+    logger.info(
+      `[ReframeVideo] Source ${metadata.width}x${metadata.height}, target ${options.aspectRatio} (${strategy})`,
+    );
+
+    let filters: string[];
+
+    switch (strategy) {
+      case "crop": {
+        const crop = calculateCropDimensions(metadata, ratio);
+        filters = [`[0:v]crop=${crop.width}:${crop.height},setsar=1[out]`];
+        break;
+      }
+      case "smart": {
+        const crop = calculateCropDimensions(metadata, ratio);
+        const cropFilter = await buildSmartCropFilter(
+          videoPath,
+          metadata,
+          crop,
+          tempFiles,
+        );
+        filters = [`[0:v]${cropFilter},setsar=1[out]`];
+        break;
+      }
+      case "pad": {
+        const canvas = calculateCanvasDimensions(metadata, ratio);
+        const color = options.backgroundColor || "black";
+        filters = [
+          `[0:v]scale=${canvas.width}:${canvas.height}:force_original_aspect_ratio=decrease,pad=${canvas.width}:${canvas.height}:(ow-iw)/2:(oh-ih)/2:color=${color},setsar=1[out]`,
+        ];
+        break;
+      }
+      case "blur": {
+        const canvas = calculateCanvasDimensions(metadata, ratio);
+        filters = [
+          "[0:v]split=2[bgsrc][fgsrc]",
+          `[bgsrc]scale=${canvas.width}:${canvas.height}:force_original_aspect_ratio=increase,crop=${canvas.width}:${canvas.height},boxblur=20:5[bg]`,
+          `[fgsrc]scale=${canvas.width}:${canvas.height}:force_original_aspect_ratio=decrease[fg]`,
+          "[bg][fg]overlay=(W-w)/2:(H-h)/2,setsar=1[out]",
+        ];
+        break;
+      }
+      default:
+        throw new Error(`Unknown reframe strategy: ${strategy}`);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(videoPath)
+        .complexFilter(filters)
+        .outputOptions(["-map", "[out]", "-map", "0:a?"])
+        .videoCodec("libx264")
+        .audioCodec("aac")
+        .outputOptions(["-pix_fmt", "yuv420p", "-preset", "fast"])
+        .toFormat("mp4")
+        .on("start", (cmd) =>
+          logger.info("[ReframeVideo] FFmpeg command:", cmd),
+        )
+        .on("error", (err) => {
+          logger.error("[ReframeVideo] FFmpeg error:", err);
+          reject(err);
+        })
+        .on("end", () => {
+          logger.info("[ReframeVideo] FFmpeg completed successfully");
+          resolve();
+        })
+        .save(outputPath);
+    });
+
+    // Return path to output file - caller streams it
+    return outputPath;
+  } finally {
+    // Cleanup temp files (but NOT outputPath - caller handles that)
+    try {
+      await Promise.all([...tempFiles.map((f) => unlink(f).catch(() => {}))]);
+    } catch (e) {
+      logger.error("Cleanup error:", e);
+    }
+  }
+}
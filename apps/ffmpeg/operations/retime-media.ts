@@ -0,0 +1,333 @@
+import { nanoid } from "nanoid";
+import ffmpeg from "fluent-ffmpeg";
+import { tmpdir } from "os";
+import { extname, join } from "path";
+import { unlink } from "fs/promises";
+import type {
+  LoopMediaOptions,
+  MediaMetadata,
+  ReverseMediaOptions,
+  SpeedMediaOptions,
+  TrimMediaOptions,
+} from "../core/types";
+import { isAudioFile, isVideoFile, streamToDisk } from "../core/utils";
+import { getMediaMetadata } from "../metadata/video-metadata";
+import { logger } from "../core/logger";
+
+// Timeout for FFmpeg operations (5 minutes)
+const FFMPEG_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const MIN_SPEED_FACTOR = 0.25;
+export const MAX_SPEED_FACTOR = 4;
+
+// reverse/areverse buffer the whole input in memory
+const MAX_REVERSE_DURATION = 60;
+
+// Upper bound on loop output, so a tiny clip can't be looped for hours
+const MAX_LOOP_DURATION = 600;
+
+export interface RetimedMedia {
+  /** Output file (caller must handle cleanup) */
+  path: string;
+  /** false when the input was an audio file and the output is MP3 */
+  isVideo: boolean;
+}
+
+/**
+ * Wrap a promise with a timeout
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  operation: string,
+): Promise<T> {
+  let timeoutId: Timer;
+
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      reject(
+        new Error(`[RetimeMedia] ${operation} timed out after ${timeoutMs}ms`),
+      );
+    }, timeoutMs);
+  });
+
+  return Promise.race([promise, timeoutPromise]).finally(() => {
+    clearTimeout(timeoutId);
+  });
+}
+
+interface DownloadedMedia {
+  path: string;
+  metadata: MediaMetadata;
+}
+
+/**
+ * Download media to disk, keeping the URL's extension so it is probed as
+ * video or audio
+ */
+async function downloadMedia(url: string): Promise<DownloadedMedia> {
+  const urlExt = extname(new URL(url).pathname).toLowerCase();
+  const ext =
+    isVideoFile(urlExt) || isAudioFile(urlExt) ? urlExt.slice(1) : "mp4";
+  const path = join(tmpdir(), `${nanoid()}_input.${ext}`);
+
+  await streamToDisk(url, path);
+
+  try {
+    const metadata = await getMediaMetadata(path);
+    if (!metadata.isVideo && !metadata.isAudio) {
+      throw new Error("Input must be a video or audio file");
+    }
+    return { path, metadata };
+  } catch (error) {
+    await unlink(path).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Re-encode media with the given video and audio filter chains.
+ * Video without an audio track stays silent; audio files become MP3.
+ */
+async function encodeMedia(
+  input: DownloadedMedia,
+  filters: { video: string[]; audio: string[] },
+  operation: string,
+  inputOptions: string[] = [],
+): Promise<RetimedMedia> {
+  const { metadata } = input;
+  const isVideo = metadata.isVideo;
+  const outputPath = join(tmpdir(), `${nanoid()}.${isVideo ? "mp4" : "mp3"}`);
+
+  const filterParts: string[] = [];
+  const outputOptions: string[] = [];
+
+  if (isVideo) {
+    filterParts.push(
+      `[0:v]${[...filters.video, "format=yuv420p"].join(",")}[outv]`,
+    );
+    outputOptions.push("-map", "[outv]");
+  }
+  if (metadata.hasAudio) {
+    filterParts.push(
+      `[0:a]${[...filters.audio, "aformat=sample_rates=44100:channel_layouts=stereo"].join(",")}[outa]`,
+    );
+    outputOptions.push("-map", "[outa]");
+  }
+
+  const encode = new Promise<void>((resolve, reject) => {
+    let cmd = ffmpeg()
+      .input(input.path)
+      .inputOptions(inputOptions)
+      .complexFilter(filterParts)
+      .outputOptions(outputOptions);
+
+    cmd = isVideo
+      ? cmd
+          .videoCodec("libx264")
+          .audioCodec("aac")
+          .outputOptions(["-preset", "fast", "-movflags", "+faststart"])
+          .toFormat("mp4")
+      : cmd.audioCodec("libmp3lame").audioBitrate("192k").toFormat("mp3");
+
+    cmd
+      .on("start", (cmdStr: string) =>
+        logger.info(`[RetimeMedia] ${operation} command:`, cmdStr),
+      )
+      .on("error", (err: Error) => {
+        logger.error(`[RetimeMedia] ${operation} error:`, err.message);
+        reject(err);
+      })
+      .on("end", () => resolve())
+      .save(outputPath);
+  });
+
+  try {
+    await withTimeout(encode, FFMPEG_TIMEOUT_MS, operation);
+    return { path: outputPath, isVideo };
+  } catch (error) {
+    await unlink(outputPath).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Run an operation on downloaded media, cleaning up the input afterwards
+ */
+async function withDownloadedMedia(
+  url: string,
+  run: (input: DownloadedMedia) => Promise<RetimedMedia>,
+): Promise<RetimedMedia> {
+  const input = await downloadMedia(url);
+  try {
+    return await run(input);
+  } finally {
+    await unlink(input.path).catch(() => {});
+  }
+}
+
+/**
+ * Cut video or audio to the range [start, end) in seconds
+ */
+export async function trimMedia(
+  options: TrimMediaOptions,
+): Promise<RetimedMedia> {
+  return withDownloadedMedia(options.url, (input) => {
+    const start = options.start ?? 0;
+    const end = Math.min(
+      options.end ?? input.metadata.duration,
+      input.metadata.duration,
+    );
+
+    if (start < 0 || start >= end) {
+      throw new Error(
+        `Invalid trim range ${start}s-${end}s for media of ${input.metadata.duration}s`,
+      );
+    }
+
+    logger.info(`[RetimeMedia] Trimming to ${start}s-${end}s`);
+
+    return encodeMedia(
+      input,
+      {
+        video: [`trim=start=${start}:end=${end}`, "setpts=PTS-STARTPTS"],
+        audio: [`atrim=start=${start}:end=${end}`, "asetpts=PTS-STARTPTS"],
+      },
+      "Trim",
+    );
+  });
+}
+
+/**
+ * atempo filters for a speed factor. A single atempo only reaches 0.5x-2x
+ * on older FFmpeg builds, so larger changes are chained.
+ */
+function atempoFilters(factor: number): string[] {
+  const filters: string[] = [];
+  let remaining = factor;
+
+  while (remaining > 2) {
+    filters.push("atempo=2");
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    filters.push("atempo=0.5");
+    remaining /= 0.5;
+  }
+  filters.push(`atempo=${remaining}`);
+
+  return filters;
+}
+
+/**
+ * Change playback speed. Audio keeps its pitch unless preservePitch is
+ * false, in which case it is resampled like a tape played faster or slower.
+ */
+export async function changeSpeed(
+  options: SpeedMediaOptions,
+): Promise<RetimedMedia> {
+  const { factor, preservePitch = true } = options;
+
+  if (
+    !Number.isFinite(factor) ||
+    factor < MIN_SPEED_FACTOR ||
+    factor > MAX_SPEED_FACTOR
+  ) {
+    throw new Error(
+      `Speed factor must be between ${MIN_SPEED_FACTOR} and ${MAX_SPEED_FACTOR}`,
+    );
+  }
+
+  return withDownloadedMedia(options.url, (input) => {
+    logger.info(
+      `[RetimeMedia] Changing speed by ${factor}x (preservePitch: ${preservePitch})`,
+    );
+
+    return encodeMedia(
+      input,
+      {
+        video: [`setpts=PTS/${factor}`],
+        audio: preservePitch
+          ? atempoFilters(factor)
+          : [
+              "aformat=sample_rates=44100",
+              `asetrate=${Math.round(44100 * factor)}`,
+              "aresample=44100",
+            ],
+      },
+      "Speed",
+    );
+  });
+}
+
+/**
+ * Repeat video or audio `count` times, or until it lasts `duration` seconds
+ */
+export async function loopMedia(
+  options: LoopMediaOptions,
+): Promise<RetimedMedia> {
+  const { count, duration } = options;
+
+  if ((count === undefined) === (duration === undefined)) {
+    throw new Error("Provide exactly one of count or duration");
+  }
+  if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+    throw new Error("count must be a positive integer");
+  }
+  if (duration !== undefined && !(duration > 0)) {
+    throw new Error("duration must be a positive number");
+  }
+
+  return withDownloadedMedia(options.url, (input) => {
+    const mediaDuration = input.metadata.duration;
+    if (!mediaDuration) {
+      throw new Error("Could not determine the media duration");
+    }
+
+    const outputDuration = duration ?? mediaDuration * count!;
+    if (outputDuration > MAX_LOOP_DURATION) {
+      throw new Error(
+        `Looped media can't be longer than ${MAX_LOOP_DURATION}s (requested ${outputDuration}s)`,
+      );
+    }
+
+    const loops = Math.ceil(outputDuration / mediaDuration);
+    logger.info(
+      `[RetimeMedia] Looping ${loops} times (${mediaDuration}s -> ${outputDuration}s)`,
+    );
+
+    // Trimming both streams to the same length keeps audio and video in step
+    return encodeMedia(
+      input,
+      {
+        video: [`trim=end=${outputDuration}`, "setpts=PTS-STARTPTS"],
+        audio: [`atrim=end=${outputDuration}`, "asetpts=PTS-STARTPTS"],
+      },
+      "Loop",
+      ["-stream_loop", String(loops - 1)],
+    );
+  });
+}
+
+/**
+ * Play video or audio backwards
+ */
+export async function reverseMedia(
+  options: ReverseMediaOptions,
+): Promise<RetimedMedia> {
+  return withDownloadedMedia(options.url, (input) => {
+    if (input.metadata.duration > MAX_REVERSE_DURATION) {
+      throw new Error(
+        `Media longer than ${MAX_REVERSE_DURATION}s can't be reversed (got ${input.metadata.duration}s)`,
+      );
+    }
+
+    logger.info(`[RetimeMedia] Reversing ${input.metadata.duration}s media`);
+
+    return encodeMedia(
+      input,
+      { video: ["reverse"], audio: ["areverse"] },
+      "Reverse",
+    );
+  });
+}
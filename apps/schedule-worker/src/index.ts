@@ -3,31 +3,57 @@ import {
   GenerateAudioJob,
   GenerateImageJob,
   GenerateVideoJob,
+  getOrchestrator,
   JobManager,
   LayerJob,
+  LipSyncJob,
   MergeVideosJob,
+  ReframeJob,
   RemoveBackgroundJob,
   RemoveImageBackgroundJob,
   WebhookDeliveryJob,
   JobWebhookDeliveryJob,
   AddSubtitlesJob,
   TranscribeJob,
+  ThumbnailJob,
+  ToGifJob,
+  ExtractAudioJob,
+  TranscodeJob,
+  TrimJob,
+  SpeedJob,
+  LoopJob,
+  ReverseJob,
+  OverlayTextJob,
 } from "@repo/jobs";
 
 import { Scheduler } from "@repo/scheduler";
 import "dotenv/config";
 import { PollingWorker } from "./polling-worker";
+import { configureLogger, logger } from "@repo/logger";
+
+configureLogger({ service: "schedule-worker" });
 
 const jobManager = new JobManager();
 jobManager.register(GenerateVideoJob);
 jobManager.register(GenerateImageJob);
 jobManager.register(GenerateAudioJob);
 jobManager.register(MergeVideosJob);
+jobManager.register(ReframeJob);
+jobManager.register(LipSyncJob);
 jobManager.register(RemoveBackgroundJob);
 jobManager.register(RemoveImageBackgroundJob);
 jobManager.register(LayerJob);
 jobManager.register(AddSubtitlesJob);
 jobManager.register(TranscribeJob);
+jobManager.register(ThumbnailJob);
+jobManager.register(ToGifJob);
+jobManager.register(ExtractAudioJob);
+jobManager.register(TranscodeJob);
+jobManager.register(TrimJob);
+jobManager.register(SpeedJob);
+jobManager.register(LoopJob);
+jobManager.register(ReverseJob);
+jobManager.register(OverlayTextJob);
 jobManager.register(WebhookDeliveryJob);
 jobManager.register(JobWebhookDeliveryJob);
 
@@ -46,39 +72,53 @@ scheduler.register({
   cronExpression: "0 0 * * *", // Run at midnight UTC every day
   enabled: true,
   handler: async () => {
-    console.log("[Scheduler] Checking for expired billing periods...");
+    logger.info("[Scheduler] Checking for expired billing periods...");
     const result = await resetMonthlyUsage();
-    console.log(
+    logger.info(
       `[Scheduler] Usage reset completed: ${result.resetCount} organizations reset, ${result.errors.length} errors`,
     );
     if (result.errors.length > 0) {
-      console.error("[Scheduler] Errors during reset:", result.errors);
+      logger.error("[Scheduler] Errors during reset:", result.errors);
     }
   },
 });
 
+// Release throttled jobs whose slot freed up without a job finishing
+// (e.g. a plan upgrade), and serve every organization's queue in turn
+scheduler.register({
+  id: "throttled-jobs-release",
+  name: "Throttled Jobs Release",
+  cronExpression: "* * * * *", // Every minute
+  enabled: true,
+  handler: async () => {
+    const orchestrator = await getOrchestrator();
+    await orchestrator.releaseThrottledJobs();
+  },
+});
+
 async function start() {
   try {
     await jobManager.start();
-    console.log("✅ PGBoss job system started");
+    logger.info("✅ PGBoss job system started");
 
     await pollingWorker.start();
-    console.log("✅ Polling worker started");
+    logger.info("✅ Polling worker started");
 
-    console.log("✅ Daily usage reset scheduler registered");
+    logger.info("✅ Daily usage reset scheduler registered");
+    logger.info("✅ Throttled jobs release scheduler registered");
   } catch (error) {
-    console.error("❌ Failed to start workers:", error);
+    logger.error("❌ Failed to start workers:", error);
     process.exit(1);
   }
 }
 
-console.log("📅 Starting Schedule Worker...");
-console.log("✅ Schedule Worker is running");
+logger.info("📅 Starting Schedule Worker...");
+logger.info("✅ Schedule Worker is running");
 
 start();
 
 process.on("SIGINT", async () => {
-  console.log("\n🛑 Received SIGINT, shutting down gracefully...");
+  logger.info("\n🛑 Received SIGINT, shutting down gracefully...");
   scheduler.stopAll();
   await pollingWorker.stop();
   await jobManager.stop();
@@ -86,7 +126,7 @@ process.on("SIGINT", async () => {
 });
 
 process.on("SIGTERM", async () => {
-  console.log("\n🛑 Received SIGTERM, shutting down gracefully...");
+  logger.info("\n🛑 Received SIGTERM, shutting down gracefully...");
   scheduler.stopAll();
   await pollingWorker.stop();
   await jobManager.stop();
@@ -1,3 +1,4 @@
+import { providerKeyService } from "@repo/api-keys";
 import { and, db, eq, executionJobs, executions, sql } from "@repo/db";
 import { completeAsyncJob, failAsyncJob } from "@repo/jobs";
 import {
@@ -6,6 +7,7 @@ import {
   parseModelPolling,
 } from "@repo/model-schemas";
 import { VideoProviderFactory } from "@repo/providers";
+import { logger, runWithLogContext } from "@repo/logger";
 
 interface PollingWorkerOptions {
   intervalMs?: number; // How often to check for jobs to poll
@@ -31,24 +33,24 @@ export class PollingWorker {
 
   async start(): Promise<void> {
     if (this.isRunning) {
-      console.log("[PollingWorker] Already running");
+      logger.info("[PollingWorker] Already running");
       return;
     }
 
     this.isRunning = true;
-    console.log(
+    logger.info(
       `[PollingWorker] Starting (check interval: ${this.intervalMs}ms)`
     );
 
     // Run immediately on start (with error handling to not crash the worker)
     this.pollPendingJobs().catch((error) => {
-      console.error("[PollingWorker] Error in initial polling cycle:", error);
+      logger.error("[PollingWorker] Error in initial polling cycle:", error);
     });
 
     // Then run on interval
     this.intervalHandle = setInterval(() => {
       this.pollPendingJobs().catch((error) => {
-        console.error("[PollingWorker] Error in polling cycle:", error);
+        logger.error("[PollingWorker] Error in polling cycle:", error);
       });
     }, this.intervalMs);
   }
@@ -58,7 +60,7 @@ export class PollingWorker {
       return;
     }
 
-    console.log("[PollingWorker] Stopping");
+    logger.info("[PollingWorker] Stopping");
     this.isRunning = false;
 
     if (this.intervalHandle) {
@@ -89,16 +91,23 @@ export class PollingWorker {
         return;
       }
 
-      console.log(`[PollingWorker] Found ${jobsToPoll.length} jobs to poll`);
+      logger.info(`[PollingWorker] Found ${jobsToPoll.length} jobs to poll`);
 
       // Poll each job
       for (const job of jobsToPoll) {
-        await this.pollJob(job).catch((error) => {
-          console.error(`[PollingWorker] Error polling job ${job.id}:`, error);
+        await runWithLogContext(
+          {
+            executionId: job.executionId,
+            jobId: job.jobId,
+            jobRecordId: job.id,
+          },
+          () => this.pollJob(job)
+        ).catch((error) => {
+          logger.error(`[PollingWorker] Error polling job ${job.id}:`, error);
         });
       }
     } catch (error) {
-      console.error("[PollingWorker] Error fetching jobs to poll:", error);
+      logger.error("[PollingWorker] Error fetching jobs to poll:", error);
     }
   }
 
@@ -107,30 +116,27 @@ export class PollingWorker {
     const providerJobId = job.providerJobId;
     const pollAttempts = job.pollAttempts || 0;
 
-    console.log(
+    logger.info(
       `[PollingWorker] Polling job ${jobRecordId} (attempt ${pollAttempts + 1})`
     );
 
     // Check if max attempts exceeded
     if (pollAttempts >= this.maxPollAttempts) {
-      console.error(
+      logger.error(
         `[PollingWorker] Job ${jobRecordId} exceeded max poll attempts`
       );
 
-      await db
-        .update(executionJobs)
-        .set({
-          status: "failed",
-          error: `Exceeded maximum polling attempts (${this.maxPollAttempts})`,
-          completedAt: new Date(),
-        })
-        .where(eq(executionJobs.id, jobRecordId));
+      // Counts as a timeout, so the job's retry policy can start it again
+      await failAsyncJob(
+        jobRecordId,
+        `Timed out after ${this.maxPollAttempts} polling attempts`
+      );
 
       return;
     }
 
     if (!providerJobId) {
-      console.error(`[PollingWorker] Job ${jobRecordId} has no providerJobId`);
+      logger.error(`[PollingWorker] Job ${jobRecordId} has no providerJobId`);
       return;
     }
 
@@ -158,7 +164,15 @@ export class PollingWorker {
         throw new Error(`Execution ${job.executionId} not found`);
       }
 
-      console.log(
+      // Cancelled executions keep no in-flight work - stop polling
+      if (execution.status === "cancelled") {
+        logger.info(
+          `[PollingWorker] Execution ${job.executionId} was cancelled, skipping job ${jobRecordId}`
+        );
+        return;
+      }
+
+      logger.info(
         `[PollingWorker] Retrieved provider keys for execution ${job.executionId}`
       );
 
@@ -169,18 +183,21 @@ export class PollingWorker {
       }
 
       // Get API key for this provider from execution's provider keys
+      const providerApiKeys =
+        await providerKeyService.getKeysForExecution(execution);
       const providerApiKey =
-        execution.providerApiKeys?.[
-          modelInfo.provider as keyof typeof execution.providerApiKeys
-        ];
+        providerApiKeys[modelInfo.provider as keyof typeof providerApiKeys];
 
-      console.log(
+      logger.info(
         `[PollingWorker] Provider: ${modelInfo.provider}, API key present: ${!!providerApiKey}`
       );
 
+      // Jobs of test-mode executions run on the fake provider, whose job
+      // ids carry their own delay and outcome
       const provider = VideoProviderFactory.getProvider(
         modelInfo.provider,
-        providerApiKey as string | undefined
+        providerApiKey as string | undefined,
+        execution.testMode ? {} : undefined
       );
 
       // Poll for job status
@@ -189,7 +206,7 @@ export class PollingWorker {
       // Parse response using model-specific parser
       const parseResult = parseModelPolling(modelId, statusResponse);
 
-      console.log(
+      logger.info(
         `[PollingWorker] Job ${jobRecordId} status: ${parseResult.status}`
       );
 
@@ -212,7 +229,7 @@ export class PollingWorker {
           Math.pow(this.backoffMultiplier, pollAttempts);
         const nextPollAt = new Date(Date.now() + nextBackoffMs);
 
-        console.log(
+        logger.info(
           `[PollingWorker] Job ${jobRecordId} still processing, next poll at ${nextPollAt.toISOString()}`
         );
 
@@ -228,7 +245,7 @@ export class PollingWorker {
           .where(eq(executionJobs.id, jobRecordId));
       }
     } catch (error) {
-      console.error(`[PollingWorker] Error polling job ${jobRecordId}:`, error);
+      logger.error(`[PollingWorker] Error polling job ${jobRecordId}:`, error);
 
       // Increment poll attempts and schedule retry
       const nextBackoffMs =
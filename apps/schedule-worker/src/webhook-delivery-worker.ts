@@ -1,4 +1,5 @@
 import { processWebhookDeliveries } from "@repo/db";
+import { logger } from "@repo/logger";
 
 interface WebhookDeliveryWorkerConfig {
   intervalMs?: number; // How often to check for pending webhooks (default: 30 seconds)
@@ -15,12 +16,12 @@ export class WebhookDeliveryWorker {
 
   async start() {
     if (this.isRunning) {
-      console.log("[WebhookDeliveryWorker] Already running");
+      logger.info("[WebhookDeliveryWorker] Already running");
       return;
     }
 
     this.isRunning = true;
-    console.log(
+    logger.info(
       `[WebhookDeliveryWorker] Starting... (checking every ${this.intervalMs / 1000}s)`,
     );
 
@@ -45,7 +46,7 @@ export class WebhookDeliveryWorker {
       this.intervalHandle = null;
     }
 
-    console.log("[WebhookDeliveryWorker] Stopped");
+    logger.info("[WebhookDeliveryWorker] Stopped");
   }
 
   private async checkAndDeliverWebhooks() {
@@ -57,22 +58,19 @@ export class WebhookDeliveryWorker {
       const result = await processWebhookDeliveries();
 
       if (result.delivered > 0 || result.failed > 0) {
-        console.log(
+        logger.info(
           `[WebhookDeliveryWorker] Delivered: ${result.delivered}, Failed: ${result.failed}`,
         );
 
         if (result.errors.length > 0) {
-          console.error(
+          logger.error(
             "[WebhookDeliveryWorker] Errors:",
             result.errors.slice(0, 5),
           ); // Show first 5 errors
         }
       }
     } catch (error) {
-      console.error(
-        "[WebhookDeliveryWorker] Error processing webhooks:",
-        error,
-      );
+      logger.error("[WebhookDeliveryWorker] Error processing webhooks:", error);
     }
   }
 }
@@ -99,6 +99,8 @@ Merge multiple media items (videos, images, audio) into a single video.
 }
 \`\`\`
 
+Audio items accept \`fadeIn\`/\`fadeOut\` (seconds) and \`duck: true\` to dip background music under narration or the videos' own audio. Set \`params.loudness: { "target": -14 }\` to normalize the final mix to a LUFS target. \`layer\` accepts the same \`audio\` tracks and \`loudness\` in its params.
+
 ### layer
 Composite multiple media layers together.
 
@@ -116,6 +118,105 @@ Composite multiple media layers together.
 }
 \`\`\`
 
+Overlay layers (not the first one) can be animated with \`keyframes\`: \`[{ "time": 0, "x": "-w" }, { "time": 1, "x": "W-w-20", "easing": "ease-out" }]\`. Keyframes set \`x\`, \`y\`, \`width\`, \`height\` (pixels or expressions like placements), \`opacity\` (0-1) or \`rotation\` (degrees), and start from the layer's \`placement\`.
+
+### reframe
+Convert a video to another aspect ratio (e.g. publish a 16:9 clip as 9:16 and 1:1).
+
+Strategies: \`crop\` (center crop, default), \`blur\` (full frame over a blurred copy), \`pad\` (full frame over \`backgroundColor\`), \`smart\` (crop that follows motion).
+
+\`\`\`json
+{
+  "id": "vertical",
+  "type": "reframe",
+  "params": {
+    "videoUrl": "$ref:vid1",
+    "aspectRatio": "9:16",
+    "strategy": "blur"
+  },
+  "dependsOn": ["vid1"],
+  "output": "$vertical"
+}
+\`\`\`
+
+### lipSync
+Re-time the mouth movements in a video to match a speech track. The audio can be a URL or the output of a \`generateAudio\` job.
+
+\`\`\`json
+{
+  "id": "synced",
+  "type": "lipSync",
+  "params": {
+    "provider": "replicate",
+    "modelId": "sync/lipsync-2",
+    "videoUrl": "$ref:vid1",
+    "audio": "$ref:voice"
+  },
+  "dependsOn": ["vid1", "voice"],
+  "output": "$synced"
+}
+\`\`\`
+
+### thumbnail, toGif, extractAudio, transcode
+Utility operations on a video (\`videoUrl\`, usually the output of another job):
+- \`thumbnail\`: JPEG of one frame. Params: \`time\` (seconds, default 1), \`width\`, \`height\`
+- \`toGif\`: Animated GIF preview. Params: \`fps\` (default 10), \`width\`, \`startTime\`, \`duration\` (seconds)
+- \`extractAudio\`: Audio track. Params: \`format\` ("mp3", "aac" or "wav")
+- \`transcode\`: Re-encode/compress. Params: \`format\` ("mp4", "webm" or "mov"), \`quality\` ("low", "medium", "high"), \`width\`, \`height\`, \`fps\`
+
+\`\`\`json
+{
+  "id": "poster",
+  "type": "thumbnail",
+  "params": {
+    "videoUrl": "$ref:vid1",
+    "time": 2,
+    "width": 1280
+  },
+  "dependsOn": ["vid1"],
+  "output": "$poster"
+}
+\`\`\`
+
+### trim, speed, loop, reverse
+Retime a video or audio (\`videoUrl\`, also used for audio URLs). Video stays MP4, audio becomes MP3:
+- \`trim\`: Params: \`start\`, \`end\` (seconds)
+- \`speed\`: Params: \`factor\` (0.25-4, e.g. 0.5 for slow motion), \`preservePitch\` (default true)
+- \`loop\`: Params: either \`count\` (times played) or \`duration\` (seconds, max 600)
+- \`reverse\`: No params; media up to 60 seconds
+
+\`\`\`json
+{
+  "id": "clip",
+  "type": "trim",
+  "params": {
+    "videoUrl": "$ref:vid1",
+    "start": 2,
+    "end": 6
+  },
+  "dependsOn": ["vid1"],
+  "output": "$clip"
+}
+\`\`\`
+
+### overlayText
+Draw titles, lower thirds or captions-style text over a video (\`videoUrl\`). Params: \`texts\`, each with \`text\` and optional \`fontFamily\`, \`fontWeight\`, \`fontSize\` (pixels), \`color\`, \`strokeColor\`/\`strokeWidth\`, \`backgroundColor\`/\`padding\`, \`alignment\` ("top-left" ... "bottom-right", default "center"), \`start\`/\`end\` (seconds) and \`fadeIn\`/\`fadeOut\`. \`layer\` accepts the same \`texts\` in its params, drawn above all layers.
+
+\`\`\`json
+{
+  "id": "titled",
+  "type": "overlayText",
+  "params": {
+    "videoUrl": "$ref:vid1",
+    "texts": [
+      { "text": "Summer Sale", "alignment": "top", "fontSize": 96, "end": 3, "fadeOut": 0.5 }
+    ]
+  },
+  "dependsOn": ["vid1"],
+  "output": "$titled"
+}
+\`\`\`
+
 ### transcribe
 Transcribe audio from a video using speech-to-text.
 
@@ -126,13 +227,15 @@ Transcribe audio from a video using speech-to-text.
   "params": {
     "provider": "replicate",
     "modelId": "vaibhavs10/incredibly-fast-whisper:3ab86df6c8f54c11309d4d1f930ac292bad43ace52d10c80d87eb258b3c9f79c",
-    "videoUrl": "_videoJobDependency:final-video"
+    "videoUrl": "$ref:final-video"
   },
   "dependsOn": ["final-video"],
   "output": "$transcribe"
 }
 \`\`\`
 
+When the video has several speakers (interviews, podcasts), add \`"diarize": true\` to label each word with its speaker. Only incredibly-fast-whisper supports this.
+
 ### addSubtitles
 Add subtitles/captions to a video. This requires a two-step process: first transcribe the audio, then burn the subtitles.
 
@@ -160,7 +263,7 @@ Add subtitles/captions to a video. This requires a two-step process: first trans
   "params": {
     "provider": "replicate",
     "modelId": "vaibhavs10/incredibly-fast-whisper:3ab86df6c8f54c11309d4d1f930ac292bad43ace52d10c80d87eb258b3c9f79c",
-    "videoUrl": "_videoJobDependency:final-video"
+    "videoUrl": "$ref:final-video"
   },
   "dependsOn": ["final-video"],
   "output": "$transcribe"
@@ -173,14 +276,22 @@ Add subtitles/captions to a video. This requires a two-step process: first trans
   "id": "subtitled",
   "type": "addSubtitles",
   "params": {
-    "transcript": "_transcriptJobDependency:transcribe",
-    "videoUrl": "_videoJobDependency:final-video"
+    "transcript": "$ref:transcribe",
+    "videoUrl": "$ref:final-video"
   },
   "dependsOn": ["transcribe", "final-video"],
   "output": "$subtitled"
 }
 \`\`\`
 
+When the user wants subtitle files (for a player, accessibility or translation), add \`"formats": ["vtt"]\` (any of \`srt\`, \`vtt\`, \`json\`) to the params; they are returned as extra outputs next to the video. Add \`"burn": false\` to only produce the files.
+
+To caption in other languages, add \`"translate": ["es", "de", "ja"]\` (language codes); each language gets its own captioned video and subtitle files.
+
+Only use \`style.fontId\` (a font uploaded on the dashboard) or \`style.fontUrl\` (a .ttf or .otf URL) when the user gives one; otherwise pick a \`preset\` or \`fontFamily\`. Texts accept the same \`fontId\`/\`fontUrl\`.
+
+With a diarized transcript, \`style.speakers\` styles each speaker, keyed by label: \`{ "SPEAKER_00": { "color": "#FFD700" }, "SPEAKER_01": { "color": "#00BFFF", "alignment": "8" } }\`. A caption never mixes two speakers.
+
 **Complete example workflow with subtitles:**
 \`\`\`json
 {
@@ -224,7 +335,7 @@ Add subtitles/captions to a video. This requires a two-step process: first trans
       "params": {
         "provider": "replicate",
         "modelId": "vaibhavs10/incredibly-fast-whisper:3ab86df6c8f54c11309d4d1f930ac292bad43ace52d10c80d87eb258b3c9f79c",
-        "videoUrl": "_videoJobDependency:merged"
+        "videoUrl": "$ref:merged"
       },
       "dependsOn": ["merged"],
       "output": "$transcribe"
@@ -233,8 +344,8 @@ Add subtitles/captions to a video. This requires a two-step process: first trans
       "id": "final-with-subtitles",
       "type": "addSubtitles",
       "params": {
-        "transcript": "_transcriptJobDependency:transcribe",
-        "videoUrl": "_videoJobDependency:merged"
+        "transcript": "$ref:transcribe",
+        "videoUrl": "$ref:merged"
       },
       "dependsOn": ["transcribe", "merged"],
       "output": "$final-with-subtitles"
@@ -244,8 +355,8 @@ Add subtitles/captions to a video. This requires a two-step process: first trans
 \`\`\`
 
 Notice how:
-- \`transcribe\` depends on \`merged\` (the final video) and uses \`_videoJobDependency:merged\`
-- \`addSubtitles\` depends on both \`transcribe\` and \`merged\`, using \`_transcriptJobDependency\` for the transcript and \`_videoJobDependency\` for the video
+- \`transcribe\` depends on \`merged\` (the final video) and uses \`$ref:merged\`
+- \`addSubtitles\` depends on both \`transcribe\` and \`merged\`, using \`$ref:transcribe\` for the transcript and \`$ref:merged\` for the video
 
 ## Available Models
 
@@ -281,11 +392,9 @@ Notice how:
 1. Add the job ID to \`dependsOn\` array
 2. Use the correct dependency reference format (NEVER use \`$jobId\` directly)
 
-**Dependency reference formats:**
-- \`_jobDependency:jobId\` - Reference output URL from a completed job (general purpose)
-- \`_imageJobDependency:jobId\` - Reference image output specifically (use for \`image\` param in generate)
-- \`_videoJobDependency:jobId\` - Reference video output specifically (use for video URLs in merge/layer)
-- \`_transcriptJobDependency:jobId\` - Reference transcript output from a transcribe job
+**Dependency reference format:**
+- \`$ref:jobId\` - Replaced with the output URL of the referenced job (image, video, audio or transcript). Works in any param, including merge item URLs and layer media.
+- One job's output can be referenced by any number of jobs; generate it once and reference it everywhere.
 
 **WRONG - Never do this:**
 \`\`\`json
@@ -298,8 +407,8 @@ Notice how:
 **CORRECT - Always use dependency references:**
 \`\`\`json
 {
-  "image": "_imageJobDependency:img1",
-  "url": "_videoJobDependency:video1"
+  "image": "$ref:img1",
+  "url": "$ref:video1"
 }
 \`\`\`
 
@@ -324,7 +433,7 @@ Notice how:
         "provider": "replicate",
         "modelId": "minimax/video-01",
         "prompt": "Camera flying through the city",
-        "image": "_imageJobDependency:bg-image"
+        "image": "$ref:bg-image"
       },
       "dependsOn": ["bg-image"],
       "output": "$video"
@@ -364,7 +473,7 @@ Notice how:
         "provider": "replicate",
         "modelId": "bytedance/seedance-1-pro",
         "prompt": "Camera slowly flying forward",
-        "image": "_imageJobDependency:image1"
+        "image": "$ref:image1"
       },
       "dependsOn": ["image1"],
       "output": "$animation1"
@@ -376,7 +485,7 @@ Notice how:
         "provider": "replicate",
         "modelId": "bytedance/seedance-1-pro",
         "prompt": "Camera slowly flying forward",
-        "image": "_imageJobDependency:image2"
+        "image": "$ref:image2"
       },
       "dependsOn": ["image2"],
       "output": "$animation2"
@@ -386,8 +495,8 @@ Notice how:
       "type": "merge",
       "params": {
         "items": [
-          { "type": "video", "url": "_videoJobDependency:animation1" },
-          { "type": "video", "url": "_videoJobDependency:animation2" }
+          { "type": "video", "url": "$ref:animation1" },
+          { "type": "video", "url": "$ref:animation2" }
         ]
       },
       "dependsOn": ["animation1", "animation2"],
@@ -435,12 +544,12 @@ The signature header uses the execution's webhookSecret if provided.
 
 1. Every job must have a unique \`id\`
 2. Every job must have an \`output\` field (format: \`$jobId\`)
-3. **NEVER use \`$jobId\` to reference outputs from other jobs** - always use \`_jobDependency:jobId\`, \`_imageJobDependency:jobId\`, \`_videoJobDependency:jobId\`, or \`_transcriptJobDependency:jobId\`
+3. **NEVER use \`$jobId\` to reference outputs from other jobs** - always use \`$ref:jobId\`
 4. **ALWAYS add \`dependsOn\`** when a job references another job's output
 5. Always specify \`provider\` and \`modelId\` for generation operations
 6. Use valid model names from the available models list
-7. For videos from images, use \`_imageJobDependency:jobId\` for the \`image\` parameter
-8. For merge operations, use \`_videoJobDependency:jobId\` for video URLs and include ALL referenced jobs in \`dependsOn\`
+7. For videos from images, use \`$ref:jobId\` for the \`image\` parameter
+8. For merge operations, use \`$ref:jobId\` for video URLs and include ALL referenced jobs in \`dependsOn\`
 
 ## Response Format
 
@@ -15,6 +15,15 @@ export const operationTypeSchema = z.enum([
   "removeBackground",
   "removeImageBackground",
   "layer",
+  "thumbnail",
+  "toGif",
+  "extractAudio",
+  "transcode",
+  "trim",
+  "speed",
+  "loop",
+  "reverse",
+  "overlayText",
 ]);
 
 export type OperationType = z.infer<typeof operationTypeSchema>;
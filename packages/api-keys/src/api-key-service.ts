@@ -1,9 +1,12 @@
 import crypto from "crypto";
 import { db, apiKeys, eq, and } from "@repo/db";
 import { generateId } from "@repo/tools";
+import { isIpAllowed, normalizePermissions } from "./scopes";
 import type {
   ApiKeyGenerationResult,
   ApiKeyInfo,
+  ApiKeyPermissions,
+  ApiKeyScope,
   ValidatedApiKey,
 } from "./types";
 
@@ -77,14 +80,20 @@ export class ApiKeyService {
   /**
    * Generate a new API key with Synthome format
    * Format: sy_live_<64-hex-chars> or sy_test_<64-hex-chars>
+   * Keys get full access unless permissions restrict them.
    */
   async generateApiKey(
     organizationId: string, // Clerk organization ID
     environment: "test" | "production",
     name?: string,
+    permissions: Partial<ApiKeyPermissions> = {},
   ): Promise<ApiKeyGenerationResult> {
     // Note: organizationId is a Clerk org ID - no need to verify it exists in DB
 
+    // Throws on unknown scopes, invalid limits and invalid IP ranges
+    const { scopes, allowedModels, monthlyActionLimit, allowedIps } =
+      normalizePermissions(permissions);
+
     // Generate key with sy_ prefix for Synthome
     const prefix = environment === "test" ? "sy_test_" : "sy_live_";
     const randomBytes = crypto.randomBytes(32).toString("hex"); // 64 chars
@@ -108,6 +117,10 @@ export class ApiKeyService {
         name: name || null,
         environment: environment,
         isActive: true,
+        scopes,
+        allowedModels,
+        monthlyActionLimit,
+        allowedIps,
         createdAt: new Date(),
       })
       .returning();
@@ -127,11 +140,15 @@ export class ApiKeyService {
   }
 
   /**
-   * Validate an API key and return organization info
+   * Validate an API key and return organization info and permissions
    * Note: This only validates the key exists and is active.
    * Organization details should be fetched from Clerk separately.
+   * The caller enforces the permissions (scopes, IP allowlist, limits).
    */
-  async validateApiKey(apiKey: string): Promise<ValidatedApiKey | null> {
+  async validateApiKey(
+    apiKey: string,
+    ip?: string,
+  ): Promise<ValidatedApiKey | null> {
     // Hash the provided key
     const keyHash = crypto.createHash("sha256").update(apiKey).digest("hex");
 
@@ -147,12 +164,17 @@ export class ApiKeyService {
       return null;
     }
 
-    // Update last used timestamp (async, don't block)
-    db.update(apiKeys)
-      .set({ lastUsedAt: new Date() })
-      .where(eq(apiKeys.id, key.id))
-      .execute()
-      .catch((err) => console.error("Failed to update last_used_at:", err));
+    const permissions = toPermissions(key);
+
+    // Update last used timestamp and IP (async, don't block), but only for
+    // requests the IP allowlist lets through
+    if (isIpAllowed(ip, permissions.allowedIps)) {
+      db.update(apiKeys)
+        .set({ lastUsedAt: new Date(), ...(ip && { lastUsedIp: ip }) })
+        .where(eq(apiKeys.id, key.id))
+        .execute()
+        .catch((err) => console.error("Failed to update last_used_at:", err));
+    }
 
     return {
       id: key.id,
@@ -160,6 +182,7 @@ export class ApiKeyService {
       environment: key.environment,
       name: key.name,
       keyPrefix: key.keyPrefix,
+      ...permissions,
     };
   }
 
@@ -184,6 +207,7 @@ export class ApiKeyService {
       createdAt: key.createdAt,
       revokedAt: key.revokedAt,
       expiresAt: key.expiresAt,
+      ...toPermissions(key),
       decryptedKey: this.decrypt(key.keyEncrypted),
     }));
   }
@@ -193,7 +217,7 @@ export class ApiKeyService {
    * Uses Drizzle's column selection for type-safe field exclusion
    */
   async listApiKeys(organizationId: string): Promise<ApiKeyInfo[]> {
-    return await db.query.apiKeys.findMany({
+    const keys = await db.query.apiKeys.findMany({
       where: eq(apiKeys.organizationId, organizationId),
       columns: {
         id: true,
@@ -205,10 +229,16 @@ export class ApiKeyService {
         createdAt: true,
         revokedAt: true,
         expiresAt: true,
+        scopes: true,
+        allowedModels: true,
+        monthlyActionLimit: true,
+        allowedIps: true,
         // Excluded fields (not selected): keyHash, keyEncrypted, organizationId, lastUsedIp
       },
       orderBy: (apiKeys, { desc }) => [desc(apiKeys.createdAt)],
     });
+
+    return keys.map((key) => ({ ...key, ...toPermissions(key) }));
   }
 
   /**
@@ -262,6 +292,7 @@ export class ApiKeyService {
       oldKey.organizationId,
       oldKey.environment,
       oldKey.name ? `${oldKey.name} (rotated)` : undefined,
+      toPermissions(oldKey),
     );
 
     return {
@@ -271,5 +302,22 @@ export class ApiKeyService {
   }
 }
 
+/**
+ * Permissions of a stored key
+ */
+function toPermissions(key: {
+  scopes: string[];
+  allowedModels: string[] | null;
+  monthlyActionLimit: number | null;
+  allowedIps: string[] | null;
+}): ApiKeyPermissions {
+  return {
+    scopes: key.scopes as ApiKeyScope[],
+    allowedModels: key.allowedModels,
+    monthlyActionLimit: key.monthlyActionLimit,
+    allowedIps: key.allowedIps,
+  };
+}
+
 // Export singleton instance
 export const apiKeyService = new ApiKeyService();
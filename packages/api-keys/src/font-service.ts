@@ -0,0 +1,157 @@
+import { and, db, eq, organizationFonts } from "@repo/db";
+import { generateId, readFontInfo } from "@repo/tools";
+import type {
+  FontFileStorage,
+  OrganizationFont,
+  OrganizationFontInfo,
+} from "./types";
+
+/** Largest font file accepted, uploaded or downloaded from a URL */
+export const MAX_FONT_BYTES = 5 * 1024 * 1024;
+
+const FONT_CONTENT_TYPES = { ttf: "font/ttf", otf: "font/otf" } as const;
+
+export class FontService {
+  /**
+   * @param files Storage for the font files (@repo/storage, which can't be
+   * imported here since it depends on this package)
+   */
+  constructor(private readonly files: FontFileStorage) {}
+
+  /**
+   * Upload a TrueType or OpenType font for an organization.
+   * The family name is read from the font file itself, so captions can refer
+   * to the font by the name renderers match it with.
+   */
+  async addFont(params: {
+    organizationId: string;
+    fileName: string;
+    data: Buffer;
+  }): Promise<OrganizationFontInfo> {
+    const { organizationId, fileName, data } = params;
+
+    if (data.length === 0) {
+      throw new Error("Font file is empty");
+    }
+    if (data.length > MAX_FONT_BYTES) {
+      throw new Error("Font file must be 5 MB or smaller");
+    }
+
+    const info = readFontInfo(data);
+    if (!info) {
+      throw new Error(
+        "File is not a valid TrueType (.ttf) or OpenType (.otf) font",
+      );
+    }
+
+    const existing = await db.query.organizationFonts.findFirst({
+      where: and(
+        eq(organizationFonts.organizationId, organizationId),
+        eq(organizationFonts.family, info.family),
+      ),
+      columns: { id: true },
+    });
+    if (existing) {
+      throw new Error(`A font named "${info.family}" is already uploaded`);
+    }
+
+    const id = generateId();
+    const font = {
+      id,
+      organizationId,
+      family: info.family,
+      fileName,
+      format: info.format,
+      storageKey: `fonts/${organizationId}/${id}.${info.format}`,
+      sizeBytes: data.length,
+      createdAt: new Date(),
+    };
+
+    // Insert the row first so a failed insert can't leave an orphaned file
+    await db.insert(organizationFonts).values(font);
+
+    const result = await this.files.upload(font.storageKey, data, {
+      contentType: FONT_CONTENT_TYPES[info.format],
+    });
+    if ("error" in result) {
+      await db.delete(organizationFonts).where(eq(organizationFonts.id, id));
+      throw new Error(`Failed to store font file: ${result.error.message}`);
+    }
+
+    return {
+      id: font.id,
+      family: font.family,
+      fileName: font.fileName,
+      format: font.format,
+      sizeBytes: font.sizeBytes,
+      createdAt: font.createdAt,
+    };
+  }
+
+  /**
+   * List fonts for an organization (without file data)
+   */
+  async listFonts(organizationId: string): Promise<OrganizationFontInfo[]> {
+    return await db.query.organizationFonts.findMany({
+      where: eq(organizationFonts.organizationId, organizationId),
+      columns: {
+        id: true,
+        family: true,
+        fileName: true,
+        format: true,
+        sizeBytes: true,
+        createdAt: true,
+      },
+      orderBy: (fonts, { asc }) => [asc(fonts.family)],
+    });
+  }
+
+  /**
+   * Get a font with the URL of its file, for rendering
+   * Returns null if the organization has no font with this id
+   */
+  async getFont(
+    organizationId: string,
+    fontId: string,
+  ): Promise<OrganizationFont | null> {
+    const font = await db.query.organizationFonts.findFirst({
+      where: and(
+        eq(organizationFonts.organizationId, organizationId),
+        eq(organizationFonts.id, fontId),
+      ),
+    });
+
+    if (!font) {
+      return null;
+    }
+
+    return {
+      id: font.id,
+      family: font.family,
+      fileName: font.fileName,
+      format: font.format,
+      sizeBytes: font.sizeBytes,
+      createdAt: font.createdAt,
+      url: await this.files.getFileUrl(font.storageKey),
+    };
+  }
+
+  /**
+   * Delete a font and its file
+   */
+  async deleteFont(organizationId: string, fontId: string): Promise<void> {
+    const [font] = await db
+      .delete(organizationFonts)
+      .where(
+        and(
+          eq(organizationFonts.organizationId, organizationId),
+          eq(organizationFonts.id, fontId),
+        ),
+      )
+      .returning({ storageKey: organizationFonts.storageKey });
+
+    if (font) {
+      await this.files.delete(font.storageKey);
+    }
+  }
+}
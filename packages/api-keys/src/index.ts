@@ -5,13 +5,26 @@ export {
   StorageIntegrationService,
   storageIntegrationService,
 } from "./storage-integration-service";
+export { FontService, MAX_FONT_BYTES } from "./font-service";
+export {
+  API_KEY_SCOPES,
+  getAllowedMediaTypes,
+  hasScope,
+  isIpAllowed,
+} from "./scopes";
 
 // Export types
 export type {
   ApiKeyGenerationResult,
   ApiKeyInfo,
+  ApiKeyPermissions,
+  ApiKeyScope,
   ValidatedApiKey,
   ProviderKeyInfo,
+  ExecutionProviderKeys,
   StorageConfig,
   StorageIntegrationInfo,
+  FontFileStorage,
+  OrganizationFont,
+  OrganizationFontInfo,
 } from "./types";
@@ -1,6 +1,7 @@
 import * as crypto from "crypto";
 import { db, providerApiKeys, eq, and } from "@repo/db";
 import { generateId } from "@repo/tools";
+import type { ExecutionProviderKeys } from "./types";
 
 export class ProviderKeyService {
   private readonly ENCRYPTION_KEY: Buffer;
@@ -213,19 +214,6 @@ export class ProviderKeyService {
       if (key.keyEncrypted && key.isActive) {
         const decrypted = this.decrypt(key.keyEncrypted);
 
-        // Debug logging for ElevenLabs key
-        if (key.provider === "elevenlabs") {
-          console.log(
-            `[ProviderKeyService] Decrypted ElevenLabs key length: ${decrypted.length}`,
-          );
-          console.log(
-            `[ProviderKeyService] Decrypted ElevenLabs key prefix: ${decrypted.substring(0, 10)}`,
-          );
-          console.log(
-            `[ProviderKeyService] Decrypted ElevenLabs key suffix: ${decrypted.substring(decrypted.length - 10)}`,
-          );
-        }
-
         if (key.provider === "replicate") {
           result.replicate = decrypted;
         } else if (key.provider === "fal") {
@@ -243,6 +231,37 @@ export class ProviderKeyService {
     return result;
   }
 
+  /**
+   * Encrypt the provider keys an execution runs with, for the execution row
+   * Returns null when there are no keys to store
+   */
+  encryptExecutionKeys(keys: ExecutionProviderKeys | undefined): string | null {
+    if (!keys || Object.keys(keys).length === 0) {
+      return null;
+    }
+    return this.encrypt(JSON.stringify(keys));
+  }
+
+  /**
+   * Decrypt the provider keys of an execution
+   * Executions without stored keys (scrubbed, or purged once finished) fall
+   * back to the organization's stored keys
+   */
+  async getKeysForExecution(execution: {
+    organizationId: string | null;
+    providerApiKeysEncrypted: string | null;
+  }): Promise<ExecutionProviderKeys> {
+    if (execution.providerApiKeysEncrypted) {
+      return JSON.parse(
+        this.decrypt(execution.providerApiKeysEncrypted),
+      ) as ExecutionProviderKeys;
+    }
+
+    return execution.organizationId
+      ? await this.getProviderKeysForExecution(execution.organizationId)
+      : {};
+  }
+
   /**
    * Delete a provider key (set keyEncrypted to null)
    */
@@ -0,0 +1,188 @@
+import { isIP } from "net";
+import type { ApiKeyPermissions, ApiKeyScope } from "./types";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  "admin",
+  "executions:write",
+  "executions:read",
+  "models:video",
+  "models:image",
+  "models:audio",
+  "models:transcript",
+];
+
+const MODEL_SCOPE_PREFIX = "models:";
+
+/**
+ * Check if a key's scopes grant a scope. "admin" grants every scope.
+ */
+export function hasScope(scopes: readonly string[], scope: ApiKeyScope) {
+  return scopes.includes("admin") || scopes.includes(scope);
+}
+
+/**
+ * Media types of the models a key may run, from its models:* scopes.
+ * Returns undefined when any model is allowed (admin keys).
+ */
+export function getAllowedMediaTypes(
+  scopes: readonly string[],
+): string[] | undefined {
+  if (scopes.includes("admin")) {
+    return undefined;
+  }
+
+  return scopes
+    .filter((scope) => scope.startsWith(MODEL_SCOPE_PREFIX))
+    .map((scope) => scope.slice(MODEL_SCOPE_PREFIX.length));
+}
+
+/**
+ * Check a request IP against a key's allowlist of IPs and CIDR ranges
+ * (e.g. "203.0.113.7", "10.0.0.0/8", "2001:db8::/32").
+ * Keys without an allowlist accept any IP.
+ */
+export function isIpAllowed(
+  ip: string | undefined,
+  allowedIps: readonly string[] | null,
+): boolean {
+  if (!allowedIps) {
+    return true;
+  }
+
+  const address = ip ? parseIp(ip) : null;
+  if (!address) {
+    return false;
+  }
+
+  return allowedIps.some((rule) => {
+    const range = parseIpRange(rule);
+    if (!range || range.version !== address.version) {
+      return false;
+    }
+
+    const shift = BigInt(bitLength(range.version) - range.prefix);
+    return range.value >> shift === address.value >> shift;
+  });
+}
+
+/**
+ * Validate permissions for a new key, filling in defaults: full access,
+ * any model, no key limit and any IP
+ */
+export function normalizePermissions(
+  permissions: Partial<ApiKeyPermissions>,
+): ApiKeyPermissions {
+  const scopes = permissions.scopes?.length ? permissions.scopes : ["admin"];
+  const unknownScope = scopes.find(
+    (scope) => !API_KEY_SCOPES.includes(scope as ApiKeyScope),
+  );
+  if (unknownScope) {
+    throw new Error(`Unknown API key scope: ${unknownScope}`);
+  }
+
+  const limit = permissions.monthlyActionLimit ?? null;
+  if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+    throw new Error("Monthly action limit must be a positive whole number");
+  }
+
+  const allowedModels = permissions.allowedModels?.length
+    ? [...new Set(permissions.allowedModels.map((model) => model.trim()))]
+    : null;
+
+  const allowedIps = permissions.allowedIps?.length
+    ? [...new Set(permissions.allowedIps.map((rule) => rule.trim()))]
+    : null;
+  const invalidRule = allowedIps?.find((rule) => !parseIpRange(rule));
+  if (invalidRule) {
+    throw new Error(`Invalid IP address or CIDR range: ${invalidRule}`);
+  }
+
+  return {
+    scopes: [...new Set(scopes)] as ApiKeyScope[],
+    allowedModels,
+    monthlyActionLimit: limit,
+    allowedIps,
+  };
+}
+
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+function bitLength(version: 4 | 6): number {
+  return version === 4 ? 32 : 128;
+}
+
+function parseIpRange(rule: string): (ParsedIp & { prefix: number }) | null {
+  const [address, prefixText, ...rest] = rule.trim().split("/");
+  const parsed = address ? parseIp(address) : null;
+  if (!parsed || rest.length > 0) {
+    return null;
+  }
+
+  const bits = bitLength(parsed.version);
+  if (prefixText !== undefined && !/^\d+$/.test(prefixText)) {
+    return null;
+  }
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (prefix > bits) {
+    return null;
+  }
+
+  return { ...parsed, prefix };
+}
+
+function parseIp(ip: string): ParsedIp | null {
+  // IPv4 clients of a dual-stack server show up as ::ffff:a.b.c.d
+  const address = ip
+    .trim()
+    .toLowerCase()
+    .replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, "")
+    .replace(/%.*$/, "");
+
+  const version = isIP(address);
+  if (version === 4) {
+    return { version, value: BigInt(ipv4Value(address)) };
+  }
+  if (version !== 6) {
+    return null;
+  }
+
+  // 16-bit groups, with an embedded IPv4 address (::ffff:1.2.3.4) as two
+  const toGroups = (part: string) =>
+    part
+      ? part.split(":").flatMap((group) => {
+          if (!group.includes(".")) {
+            return [parseInt(group, 16)];
+          }
+          const ipv4 = ipv4Value(group);
+          return [Math.floor(ipv4 / 0x10000), ipv4 % 0x10000];
+        })
+      : [];
+
+  const [head = "", tail] = address.split("::");
+  const headGroups = toGroups(head);
+  const tailGroups = tail === undefined ? [] : toGroups(tail);
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [
+          ...headGroups,
+          ...Array<number>(8 - headGroups.length - tailGroups.length).fill(0),
+          ...tailGroups,
+        ];
+
+  return {
+    version,
+    value: BigInt(
+      `0x${groups.map((group) => group.toString(16).padStart(4, "0")).join("")}`,
+    ),
+  };
+}
+
+function ipv4Value(address: string): number {
+  return address
+    .split(".")
+    .reduce((value, part) => value * 256 + Number(part), 0);
+}
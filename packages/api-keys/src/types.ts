@@ -5,7 +5,27 @@ export interface ApiKeyGenerationResult {
   environment: "test" | "production";
 }
 
-export interface ApiKeyInfo {
+/**
+ * What an API key may do. "admin" grants every other scope, and
+ * models:<media type> scopes allow running models of that media type.
+ */
+export type ApiKeyScope =
+  | "admin"
+  | "executions:write"
+  | "executions:read"
+  | "models:video"
+  | "models:image"
+  | "models:audio"
+  | "models:transcript";
+
+export interface ApiKeyPermissions {
+  scopes: ApiKeyScope[];
+  allowedModels: string[] | null; // null: any model the scopes allow
+  monthlyActionLimit: number | null; // null: only the organization's limit
+  allowedIps: string[] | null; // IPs or CIDR ranges, null: any IP
+}
+
+export interface ApiKeyInfo extends ApiKeyPermissions {
   id: string;
   name: string | null;
   keyPrefix: string; // 'sy_live_' or 'sy_test_'
@@ -17,7 +37,7 @@ export interface ApiKeyInfo {
   expiresAt: Date | null;
 }
 
-export interface ValidatedApiKey {
+export interface ValidatedApiKey extends ApiKeyPermissions {
   id: string;
   organizationId: string; // Clerk organization ID
   environment: "test" | "production";
@@ -35,6 +55,17 @@ export interface ProviderKeyInfo {
   updatedAt: Date;
 }
 
+/**
+ * Decrypted provider keys an execution runs with
+ */
+export type ExecutionProviderKeys = {
+  replicate?: string;
+  fal?: string;
+  "google-cloud"?: string;
+  hume?: string;
+  elevenlabs?: string;
+};
+
 export interface StorageConfig {
   accessKeyId: string;
   secretAccessKey: string;
@@ -56,3 +87,29 @@ export interface StorageIntegrationInfo {
   createdAt: Date;
   updatedAt: Date;
 }
+
+export interface OrganizationFontInfo {
+  id: string;
+  family: string;
+  fileName: string;
+  format: "ttf" | "otf";
+  sizeBytes: number;
+  createdAt: Date;
+}
+
+export interface OrganizationFont extends OrganizationFontInfo {
+  url: string; // Font file in storage
+}
+
+/**
+ * The parts of @repo/storage's client the font service uses
+ */
+export interface FontFileStorage {
+  upload(
+    path: string,
+    file: Buffer,
+    options: { contentType: string },
+  ): Promise<{ success: true; url: string } | { error: Error }>;
+  delete(path: string): Promise<void>;
+  getFileUrl(path: string): Promise<string>;
+}
@@ -1,7 +1,18 @@
 export type {
   ExecuteResponse,
   ExecutionStatusResponse,
+  CancelExecutionResponse,
+  PlanDiagnostic,
+  ValidatePlanResponse,
   JobStatus,
   ErrorResponse,
   MediaResult,
+  ExecutionEvent,
+  ExecutionSnapshotEvent,
+  JobQueuedEvent,
+  JobStartedEvent,
+  JobProgressEvent,
+  JobCompletedEvent,
+  JobFailedEvent,
+  ExecutionCompletedEvent,
 } from "./api-types.js";
@@ -0,0 +1,9 @@
+-- Provider API keys on executions are stored encrypted (AES-256-GCM, same
+-- format as provider_api_keys.key_encrypted) and cleared once an execution
+-- finishes. Existing plaintext keys can't be encrypted in SQL, so they are
+-- scrubbed: executions still running at deploy time fall back to their
+-- organization's stored keys.
+ALTER TABLE "executions" ADD COLUMN "provider_api_keys_encrypted" text;--> statement-breakpoint
+-- DROP COLUMN leaves values on disk until rows are rewritten, so null them first
+UPDATE "executions" SET "provider_api_keys" = NULL;--> statement-breakpoint
+ALTER TABLE "executions" DROP COLUMN "provider_api_keys";
@@ -0,0 +1,6 @@
+-- Per-key permissions. Existing keys keep full access through the "admin"
+-- scope; null lists and limits mean no restriction beyond the scopes.
+ALTER TABLE "api_keys" ADD COLUMN "scopes" jsonb DEFAULT '["admin"]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "allowed_models" jsonb;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "monthly_action_limit" integer;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "allowed_ips" jsonb;
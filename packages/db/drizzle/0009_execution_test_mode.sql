@@ -0,0 +1,3 @@
+-- Test-mode settings of executions started with test API keys; null for
+-- live executions
+ALTER TABLE "executions" ADD COLUMN "test_mode" jsonb;
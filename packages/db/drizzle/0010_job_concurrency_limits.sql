@@ -0,0 +1,3 @@
+-- Provider jobs wait in the "throttled" status while their organization is
+-- at its concurrency limit; this is when they started waiting
+ALTER TABLE "execution_jobs" ADD COLUMN "throttled_at" timestamp;
@@ -0,0 +1,6 @@
+-- Result caching: content hash of a job's inputs, and the job record whose
+-- output was reused when the job was served from cache. Every emitted job
+-- looks up completed jobs of its organization by fingerprint.
+ALTER TABLE "execution_jobs" ADD COLUMN "fingerprint" text;--> statement-breakpoint
+ALTER TABLE "execution_jobs" ADD COLUMN "cached_from_job_id" text;--> statement-breakpoint
+CREATE INDEX "execution_jobs_organization_fingerprint_idx" ON "execution_jobs" USING btree ("organization_id","fingerprint");
@@ -0,0 +1,3 @@
+-- Retries: the current attempt of a job and its earlier failed attempts
+ALTER TABLE "execution_jobs" ADD COLUMN "attempt" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "execution_jobs" ADD COLUMN "attempt_history" jsonb;
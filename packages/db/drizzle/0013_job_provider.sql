@@ -0,0 +1,2 @@
+-- Provider serving a job, after any fallback to another provider
+ALTER TABLE "execution_jobs" ADD COLUMN "provider" text;
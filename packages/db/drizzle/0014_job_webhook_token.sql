@@ -0,0 +1,2 @@
+-- Secret in the provider webhook URL of a job's current attempt
+ALTER TABLE "execution_jobs" ADD COLUMN "webhook_token" text;
@@ -0,0 +1,12 @@
+-- Font files organizations upload for captions and text overlays. The files
+-- are kept in storage; rows hold their object key and metadata.
+CREATE TABLE "organization_fonts" (
+	"id" text PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"family" text NOT NULL,
+	"file_name" text NOT NULL,
+	"format" text NOT NULL,
+	"storage_key" text NOT NULL,
+	"size_bytes" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -2,6 +2,7 @@ import { relations } from "drizzle-orm";
 import {
   boolean,
   decimal,
+  index,
   integer,
   jsonb,
   pgTable,
@@ -23,6 +24,12 @@ export const apiKeys = pgTable("api_keys", {
   isActive: boolean("is_active").notNull().default(true),
   environment: text("environment").notNull().$type<"test" | "production">(),
 
+  // Permissions - null lists and limits mean no restriction beyond the scopes
+  scopes: jsonb("scopes").$type<string[]>().notNull().default(["admin"]), // e.g. 'executions:write', 'models:video'
+  allowedModels: jsonb("allowed_models").$type<string[]>(), // Model IDs the key may run
+  monthlyActionLimit: integer("monthly_action_limit"), // Cap on the key's actions per billing period
+  allowedIps: jsonb("allowed_ips").$type<string[]>(), // IPs or CIDR ranges requests may come from
+
   // Security tracking
   lastUsedAt: timestamp("last_used_at"),
   lastUsedIp: text("last_used_ip"),
@@ -130,6 +137,20 @@ export const storageIntegrations = pgTable("storage_integrations", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Organization Fonts table - font files uploaded for captions and text overlays
+export const organizationFonts = pgTable("organization_fonts", {
+  id: text("id").primaryKey(),
+  organizationId: text("organization_id").notNull(), // Clerk org ID
+
+  family: text("family").notNull(), // Family name read from the font file
+  fileName: text("file_name").notNull(), // Original upload name, for display
+  format: text("format").notNull().$type<"ttf" | "otf">(),
+  storageKey: text("storage_key").notNull(), // Object key of the font file in storage
+  sizeBytes: integer("size_bytes").notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Action Logs table - detailed usage tracking
 export const actionLogs = pgTable("action_logs", {
   id: text("id").primaryKey(),
@@ -168,20 +189,24 @@ export const executions = pgTable("executions", {
   result: jsonb("result"),
   error: text("error"),
 
-  // Provider API keys - client-provided keys for Replicate, FAL, etc.
-  providerApiKeys: jsonb("provider_api_keys").$type<{
-    replicate?: string;
-    fal?: string;
-    "google-cloud"?: string;
-    hume?: string;
-    elevenlabs?: string;
-  }>(),
+  // Provider API keys (client-provided merged with stored keys), AES-256-GCM
+  // encrypted and cleared once the execution finishes
+  providerApiKeysEncrypted: text("provider_api_keys_encrypted"),
 
   // Billing integration - Clerk org ID
   organizationId: text("organization_id"),
   apiKeyId: text("api_key_id").references(() => apiKeys.id),
   actionsCounted: integer("actions_counted").default(0),
 
+  // Set for executions of test API keys (sy_test_): their jobs run on the
+  // fake provider with these settings and are not billed
+  testMode: jsonb("test_mode").$type<{
+    delayMs?: number;
+    failJobs?: string[];
+    failAttempts?: number;
+    failureError?: string;
+  }>(),
+
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
@@ -192,36 +217,75 @@ export const executions = pgTable("executions", {
   webhookDeliveryError: text("webhook_delivery_error"),
 });
 
-export const executionJobs = pgTable("execution_jobs", {
-  id: text("id").primaryKey(),
-  executionId: text("execution_id")
-    .notNull()
-    .references(() => executions.id),
-  jobId: text("job_id").notNull(),
-  pgBossJobId: text("pgboss_job_id"),
-  status: text("status").notNull(),
-  operation: text("operation").notNull(),
-  dependencies: jsonb("dependencies").$type<string[]>(),
-  progress: jsonb("progress").$type<{ stage?: string; percentage?: number }>(),
-  metadata: jsonb("metadata").$type<Record<string, any>>(),
-  result: jsonb("result"),
-  error: text("error"),
-
-  // Async provider job tracking
-  providerJobId: text("provider_job_id"),
-  providerJobStatus: text("provider_job_status"),
-  waitingStrategy: text("waiting_strategy").$type<"webhook" | "polling">(),
-  nextPollAt: timestamp("next_poll_at"),
-  pollAttempts: integer("poll_attempts").default(0),
-
-  // Billing integration - Clerk org ID
-  organizationId: text("organization_id"),
-  actionLogged: boolean("action_logged").default(false),
-
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  startedAt: timestamp("started_at"),
-  completedAt: timestamp("completed_at"),
-});
+export const executionJobs = pgTable(
+  "execution_jobs",
+  {
+    id: text("id").primaryKey(),
+    executionId: text("execution_id")
+      .notNull()
+      .references(() => executions.id),
+    jobId: text("job_id").notNull(),
+    pgBossJobId: text("pgboss_job_id"),
+    status: text("status").notNull(),
+    operation: text("operation").notNull(),
+    dependencies: jsonb("dependencies").$type<string[]>(),
+    progress: jsonb("progress").$type<{
+      stage?: string;
+      percentage?: number;
+    }>(),
+    metadata: jsonb("metadata").$type<Record<string, any>>(),
+    result: jsonb("result"),
+    error: text("error"),
+
+    // Async provider job tracking
+    provider: text("provider"), // Provider serving the job, after any fallback
+    providerJobId: text("provider_job_id"),
+    providerJobStatus: text("provider_job_status"),
+    webhookToken: text("webhook_token"), // Secret in the current attempt's provider webhook URL
+    waitingStrategy: text("waiting_strategy").$type<"webhook" | "polling">(),
+    nextPollAt: timestamp("next_poll_at"),
+    pollAttempts: integer("poll_attempts").default(0),
+
+    // Result caching - content hash of the job's inputs, and the job record
+    // whose output was reused when served from cache (not billed)
+    fingerprint: text("fingerprint"),
+    cachedFromJobId: text("cached_from_job_id"),
+
+    // Retries - the current attempt number and every earlier failed attempt
+    attempt: integer("attempt").default(1).notNull(),
+    attemptHistory: jsonb("attempt_history").$type<
+      Array<{
+        attempt: number;
+        error: string;
+        errorClass: string;
+        provider?: string | null;
+        providerJobId?: string | null;
+        startedAt?: string | null;
+        failedAt: string;
+        retryAt?: string;
+      }>
+    >(),
+
+    // Concurrency limits - when the job started waiting for a free slot of
+    // its organization (status "throttled"); kept when it is throttled again
+    throttledAt: timestamp("throttled_at"),
+
+    // Billing integration - Clerk org ID
+    organizationId: text("organization_id"),
+    actionLogged: boolean("action_logged").default(false),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [
+    // Cache lookups of completed jobs with the same fingerprint
+    index("execution_jobs_organization_fingerprint_idx").on(
+      table.organizationId,
+      table.fingerprint,
+    ),
+  ],
+);
 
 // ===== Relations =====
 
@@ -2,12 +2,15 @@ export * from "./db";
 export * from "./db/models";
 export * from "./db/schema";
 
-export { and, desc, eq, or, sql } from "drizzle-orm";
+export { and, desc, eq, inArray, or, sql } from "drizzle-orm";
 
 // Usage services
 export * from "./services/usage-queries";
 export * from "./services/usage-reset";
 export * from "./services/usage-tracker";
 
+// Execution event stream
+export * from "./services/execution-events";
+
 // Webhook services
 export * from "./services/webhook-service";
@@ -0,0 +1,105 @@
+import type { ExecutionEvent } from "@repo/api-types";
+import { logger } from "@repo/logger";
+import { sql } from "drizzle-orm";
+import { Client } from "pg";
+import { db } from "../db";
+
+const EXECUTION_EVENTS_CHANNEL = "execution_events";
+
+type ExecutionEventListener = (event: ExecutionEvent) => void;
+
+// Listeners by execution ID, all served by one LISTEN connection per process
+const listeners = new Map<string, Set<ExecutionEventListener>>();
+let listenerClient: Promise<Client> | null = null;
+
+/**
+ * Publish a job or execution event to every process streaming the
+ * execution's events (via Postgres NOTIFY).
+ * Never throws - progress reporting must not fail the job.
+ */
+export async function publishExecutionEvent(
+  event: ExecutionEvent,
+): Promise<void> {
+  try {
+    await db.execute(
+      sql`select pg_notify(${EXECUTION_EVENTS_CHANNEL}, ${JSON.stringify(event)})`,
+    );
+  } catch (error) {
+    logger.error(
+      `[ExecutionEvents] Failed to publish ${event.type} for execution ${event.executionId}:`,
+      error,
+    );
+  }
+}
+
+/**
+ * Call `listener` with every event published for an execution.
+ * Returns a function that removes the listener.
+ */
+export async function subscribeToExecutionEvents(
+  executionId: string,
+  listener: ExecutionEventListener,
+): Promise<() => void> {
+  await getListenerClient();
+
+  const executionListeners = listeners.get(executionId) ?? new Set();
+  executionListeners.add(listener);
+  listeners.set(executionId, executionListeners);
+
+  return () => {
+    executionListeners.delete(listener);
+    if (executionListeners.size === 0) {
+      listeners.delete(executionId);
+    }
+  };
+}
+
+/**
+ * Connect the shared LISTEN client, reconnecting after a connection error
+ */
+function getListenerClient(): Promise<Client> {
+  if (listenerClient) {
+    return listenerClient;
+  }
+
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  client.on("notification", (message) => {
+    if (message.channel !== EXECUTION_EVENTS_CHANNEL || !message.payload) {
+      return;
+    }
+
+    let event: ExecutionEvent;
+    try {
+      event = JSON.parse(message.payload);
+    } catch {
+      return;
+    }
+
+    listeners.get(event.executionId)?.forEach((listener) => listener(event));
+  });
+
+  client.on("error", (error) => {
+    logger.error("[ExecutionEvents] Listener connection error:", error);
+    listenerClient = null;
+    client.end().catch(() => {});
+
+    // Streams that are still open get their events again once reconnected
+    if (listeners.size > 0) {
+      getListenerClient().catch(() => {});
+    }
+  });
+
+  listenerClient = client
+    .connect()
+    .then(() => client.query(`LISTEN ${EXECUTION_EVENTS_CHANNEL}`))
+    .then(() => client);
+
+  listenerClient.catch(() => {
+    listenerClient = null;
+  });
+
+  return listenerClient;
+}
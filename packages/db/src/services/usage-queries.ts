@@ -205,6 +205,50 @@ export async function checkUsageAllowed(organizationId: string): Promise<{
   };
 }
 
+/**
+ * Check if an API key can perform an action under its own monthly cap.
+ * The key's actions are counted from the start of the organization's
+ * current billing period.
+ */
+export async function checkApiKeyUsageAllowed(
+  organizationId: string,
+  apiKeyId: string,
+  monthlyActionLimit: number
+): Promise<{
+  allowed: boolean;
+  reason?: string;
+}> {
+  const limits = await getCurrentUsage(organizationId);
+
+  if (!limits) {
+    return {
+      allowed: false,
+      reason: "Organization not found or usage limits not initialized",
+    };
+  }
+
+  const [usage] = await db
+    .select({
+      totalActions: sql<number>`coalesce(sum(${actionLogs.actionCount}), 0)`,
+    })
+    .from(actionLogs)
+    .where(
+      and(
+        eq(actionLogs.apiKeyId, apiKeyId),
+        gte(actionLogs.createdAt, limits.currentPeriodStart)
+      )
+    );
+
+  if (Number(usage?.totalActions ?? 0) < monthlyActionLimit) {
+    return { allowed: true };
+  }
+
+  return {
+    allowed: false,
+    reason: `This API key's monthly limit of ${monthlyActionLimit} actions is reached. Resets on ${limits.currentPeriodEnd.toISOString()}`,
+  };
+}
+
 /**
  * Get total usage stats for the current period.
  */
@@ -5,7 +5,7 @@ import { executions } from "../db/schema";
 
 interface WebhookPayload {
   executionId: string;
-  status: "completed" | "failed";
+  status: "completed" | "failed" | "cancelled";
   result: any | null;
   error: string | null;
   completedAt: string;
@@ -46,7 +46,20 @@ export async function findPendingWebhooks() {
       ),
     );
 
-  return [...pendingExecutions, ...failedExecutions];
+  // And cancelled executions
+  const cancelledExecutions = await db
+    .select()
+    .from(executions)
+    .where(
+      and(
+        eq(executions.status, "cancelled"),
+        sql`${executions.webhook} IS NOT NULL`,
+        sql`${executions.webhookDeliveredAt} IS NULL`,
+        lt(executions.webhookDeliveryAttempts, MAX_RETRY_ATTEMPTS),
+      ),
+    );
+
+  return [...pendingExecutions, ...failedExecutions, ...cancelledExecutions];
 }
 
 /**
@@ -77,7 +90,7 @@ export async function deliverWebhook(execution: {
 
   const payload: WebhookPayload = {
     executionId: execution.id,
-    status: execution.status as "completed" | "failed",
+    status: execution.status as "completed" | "failed" | "cancelled",
     result: execution.result,
     error: execution.error,
     completedAt:
@@ -107,6 +107,19 @@ export class JobClient {
     return await Promise.all(jobIds.map((id) => this.boss.getJobById(id)));
   }
 
+  /**
+   * Cancel queued or active jobs by ID
+   */
+  async cancel(jobIds: string[]): Promise<void> {
+    if (!this.started) {
+      throw new Error("JobClient must be started before cancelling jobs");
+    }
+    if (jobIds.length === 0) {
+      return;
+    }
+    await this.boss.cancel(jobIds);
+  }
+
   /**
    * Emit a generic job
    */
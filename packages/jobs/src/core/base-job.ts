@@ -1,5 +1,6 @@
 import type PgBoss from "pg-boss";
 import type { Job, JobOptions } from "./types";
+import { logger, runWithLogContext } from "@repo/logger";
 
 export abstract class BaseJob<T extends object> implements Job<T> {
   protected boss: PgBoss;
@@ -19,7 +20,22 @@ export abstract class BaseJob<T extends object> implements Job<T> {
     await this.boss.work(
       this.type,
       { teamSize: 5, teamConcurrency: 5 },
-      this.work.bind(this),
+      (job: PgBoss.Job<T>) => this.withLogContext(job, () => this.work(job)),
+    );
+  }
+
+  /**
+   * Run a job handler with the job's ids on every log line it writes
+   */
+  protected withLogContext<R>(job: PgBoss.Job<T>, fn: () => R): R {
+    const { executionId, jobId, jobRecordId } = job.data as {
+      executionId?: string;
+      jobId?: string;
+      jobRecordId?: string;
+    };
+    return runWithLogContext(
+      { queue: this.type, queueJobId: job.id, executionId, jobId, jobRecordId },
+      fn,
     );
   }
 
@@ -53,7 +69,7 @@ export abstract class BaseJob<T extends object> implements Job<T> {
         const { originalData, dependencyIds } = job.data;
 
         // Wait for all dependencies to complete
-        console.log(
+        logger.info(
           `[Jobs] Waiting for dependencies: ${dependencyIds.join(", ")}`,
         );
 
@@ -85,7 +101,7 @@ export abstract class BaseJob<T extends object> implements Job<T> {
           }
         }
 
-        console.log(`[Jobs] All dependencies completed, running ${this.type}`);
+        logger.info(`[Jobs] All dependencies completed, running ${this.type}`);
 
         // Now run the actual job
         await this.work({ ...job, data: originalData });
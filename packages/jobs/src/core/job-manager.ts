@@ -1,6 +1,7 @@
 import PgBoss from "pg-boss";
 import type { Job, JobOptions } from "./types";
 import { BaseJob } from "./base-job";
+import { logger } from "@repo/logger";
 
 export class JobManager {
   private readonly boss: PgBoss;
@@ -13,7 +14,7 @@ export class JobManager {
       throw new Error("DATABASE_URL environment variable is not set");
     }
 
-    console.log("[JobManager] Initializing with database connection");
+    logger.info("[JobManager] Initializing with database connection");
 
     this.boss = new PgBoss({
       connectionString: connString,
@@ -30,11 +31,11 @@ export class JobManager {
     });
 
     this.boss.on("error", (error: Error) => {
-      console.error("[JobManager] PgBoss error:", error);
+      logger.error("[JobManager] PgBoss error:", error);
     });
 
     // this.boss.on("monitor-states", (states: any) => {
-    //   console.log("[JobManager] Monitor states:", states);
+    //   logger.info("[JobManager] Monitor states:", states);
     // });
   }
 
@@ -44,7 +45,7 @@ export class JobManager {
   register<T extends Job<any>>(JobClass: new (boss: PgBoss) => T): this {
     const job = new JobClass(this.boss);
     this.jobs.set(job.type, job);
-    console.log(`[JobManager] Registered job: ${job.type}`);
+    logger.info(`[JobManager] Registered job: ${job.type}`);
     return this;
   }
 
@@ -53,16 +54,16 @@ export class JobManager {
    */
   async start(): Promise<void> {
     if (this.started) {
-      console.log("[JobManager] Already started");
+      logger.info("[JobManager] Already started");
       return;
     }
 
     try {
-      console.log("[JobManager] Connecting to database...");
+      logger.info("[JobManager] Connecting to database...");
       await this.boss.start();
-      console.log("[JobManager] PgBoss started successfully");
+      logger.info("[JobManager] PgBoss started successfully");
     } catch (error) {
-      console.error("[JobManager] Failed to start PgBoss:", error);
+      logger.error("[JobManager] Failed to start PgBoss:", error);
       throw new Error(
         `Failed to connect to database: ${error instanceof Error ? error.message : String(error)}`,
       );
@@ -71,11 +72,11 @@ export class JobManager {
     // Start all registered jobs
     for (const job of this.jobs.values()) {
       await job.start();
-      console.log(`[JobManager] Started job: ${job.type}`);
+      logger.info(`[JobManager] Started job: ${job.type}`);
     }
 
     this.started = true;
-    console.log("[JobManager] All jobs started successfully");
+    logger.info("[JobManager] All jobs started successfully");
   }
 
   /**
@@ -88,7 +89,7 @@ export class JobManager {
 
     await this.boss.stop();
     this.started = false;
-    console.log("[JobManager] Stopped successfully");
+    logger.info("[JobManager] Stopped successfully");
   }
 
   /**
@@ -131,7 +132,7 @@ export class JobManager {
     }
 
     // Fallback to regular emit with warning
-    console.warn(
+    logger.warn(
       `[JobManager] Job ${jobName} doesn't support dependencies, using regular emit`,
     );
     return await job.emit(data, options);
@@ -4,15 +4,26 @@ export { JobManager } from "./core/job-manager";
 export * from "./core/types";
 export * from "./jobs/pipeline/add-subtitles";
 export * from "./jobs/pipeline/base-pipeline-job";
+export * from "./jobs/pipeline/extract-audio";
+export * from "./jobs/pipeline/ffmpeg-utility-job";
 export * from "./jobs/pipeline/generate-audio";
 export * from "./jobs/pipeline/generate-image";
 export * from "./jobs/pipeline/generate-video";
 export * from "./jobs/pipeline/layer";
+export * from "./jobs/pipeline/lip-sync";
 export * from "./jobs/pipeline/merge-videos";
+export * from "./jobs/pipeline/overlay-text";
+export * from "./jobs/pipeline/reframe";
 export * from "./jobs/pipeline/remove-background";
 export * from "./jobs/pipeline/remove-image-background";
+export * from "./jobs/pipeline/retime-job";
+export * from "./jobs/pipeline/thumbnail";
+export * from "./jobs/pipeline/to-gif";
+export * from "./jobs/pipeline/transcode";
 export * from "./jobs/pipeline/transcribe";
 export * from "./jobs/webhook-delivery-job";
 export * from "./jobs/job-webhook-delivery-job";
 export * from "./orchestrator/execution-orchestrator";
 export * from "./utils/async-job-completion";
+export * from "./utils/concurrency-limits";
+export * from "./utils/test-mode";
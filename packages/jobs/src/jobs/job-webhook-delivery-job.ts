@@ -1,6 +1,7 @@
 import type PgBoss from "pg-boss";
 import { BaseJob } from "../core/base-job";
 import { deliverJobWebhook } from "@repo/db";
+import { logger } from "@repo/logger";
 
 interface JobWebhookDeliveryJobData {
   executionId: string;
@@ -40,7 +41,7 @@ export class JobWebhookDeliveryJob extends BaseJob<JobWebhookDeliveryJobData> {
       webhookSecret,
     } = job.data;
 
-    console.log(
+    logger.info(
       `[JobWebhookDeliveryJob] Delivering webhook for job ${jobId} to ${webhook}`,
     );
 
@@ -61,11 +62,11 @@ export class JobWebhookDeliveryJob extends BaseJob<JobWebhookDeliveryJobData> {
         throw new Error(deliveryResult.error || "Job webhook delivery failed");
       }
 
-      console.log(
+      logger.info(
         `[JobWebhookDeliveryJob] ✅ Webhook delivered successfully for job ${jobId}`,
       );
     } catch (err) {
-      console.error(
+      logger.error(
         `[JobWebhookDeliveryJob] Failed to deliver webhook for job ${jobId}:`,
         err,
       );
@@ -1,12 +1,39 @@
+import {
+  StubTranslationService,
+  TranslationServiceFactory,
+} from "@repo/providers";
 import { storage } from "@repo/storage";
 import { generateId } from "@repo/tools";
 import type PgBoss from "pg-boss";
+import { resolveFonts, type FontFile } from "../../utils/fonts";
+import { translateTranscript } from "../../utils/translate-transcript";
 import { BasePipelineJob, PipelineJobData } from "./base-pipeline-job";
+import { logger } from "@repo/logger";
+
+type SidecarFormat = "srt" | "vtt" | "json";
+
+const SIDECAR_CONTENT_TYPES: Record<SidecarFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+  json: "application/json",
+};
 
 interface AddSubtitlesParams {
   videoUrl: string;
   transcript?: any[] | string; // Can be array of words OR URL string
-  style?: any; // CaptionStyle
+  style?: any; // CaptionStyle, with fontId or fontUrl for uploaded fonts
+  formats?: SidecarFormat[]; // Sidecar files to export alongside the video
+  burn?: boolean; // false to only export sidecar files (default: true)
+  translate?: string[]; // Languages to also produce captions in
+  language?: string; // Language of the transcript, when known
+}
+
+interface SubtitlesOutput {
+  type: "video" | "subtitles";
+  url: string;
+  format?: SidecarFormat;
+  language?: string;
+  mimeType: string;
 }
 
 export class AddSubtitlesJob extends BasePipelineJob {
@@ -15,9 +42,15 @@ export class AddSubtitlesJob extends BasePipelineJob {
   async work(job: PgBoss.Job<PipelineJobData>): Promise<void> {
     const { jobRecordId, params } = job.data;
     const typedParams = params as unknown as AddSubtitlesParams;
-    const { videoUrl, style } = typedParams;
+    const {
+      videoUrl,
+      formats = [],
+      burn = true,
+      translate = [],
+      language,
+    } = typedParams;
 
-    console.log(`[AddSubtitlesJob] Processing job ${jobRecordId}`);
+    logger.info(`[AddSubtitlesJob] Processing job ${jobRecordId}`);
 
     await this.updateJobProgress(jobRecordId, "processing", 10);
 
@@ -31,7 +64,7 @@ export class AddSubtitlesJob extends BasePipelineJob {
 
       // If transcript is a URL string, fetch it
       if (transcript && typeof transcript === "string") {
-        console.log(`[AddSubtitlesJob] Fetching transcript from ${transcript}`);
+        logger.info(`[AddSubtitlesJob] Fetching transcript from ${transcript}`);
         await this.updateJobProgress(jobRecordId, "fetching_transcript", 20);
 
         const response = await fetch(transcript);
@@ -41,7 +74,7 @@ export class AddSubtitlesJob extends BasePipelineJob {
           );
         }
         transcript = await response.json();
-        console.log(
+        logger.info(
           `[AddSubtitlesJob] Fetched transcript with ${transcript.length} words`,
         );
       }
@@ -53,116 +86,290 @@ export class AddSubtitlesJob extends BasePipelineJob {
         );
       }
 
-      await this.updateJobProgress(jobRecordId, "rendering_subtitles", 50);
-
-      // 2. Generate Subtitle File Content (ASS format) via FFmpeg service
-      const ffmpegUrl = process.env.FFMPEG_API_URL;
-      console.log(
-        `[AddSubtitlesJob] Calling FFmpeg service at ${ffmpegUrl}/generate-subtitles`,
-      );
-
-      const generateSubtitlesResponse = await fetch(
-        `${ffmpegUrl}/generate-subtitles`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            words: transcript,
-            preset: style?.preset,
-            overrides: style,
-            videoWidth: 1080, // Default
-            videoHeight: 1920, // Default
-          }),
-        },
-      );
-
-      if (!generateSubtitlesResponse.ok) {
-        const errorText = await generateSubtitlesResponse.text();
+      if (!burn && formats.length === 0) {
         throw new Error(
-          `Failed to generate subtitles: ${generateSubtitlesResponse.status} ${generateSubtitlesResponse.statusText} - ${errorText}`,
+          "Nothing to produce: set 'formats' to export subtitle files when 'burn' is false",
         );
       }
 
-      const { subtitleContent } = (await generateSubtitlesResponse.json()) as {
-        subtitleContent: string;
-      };
+      // Uploaded fonts (style.fontId / fontUrl) replace the style's fontFamily
+      const {
+        items: [style],
+        fonts,
+      } = await resolveFonts([typedParams.style ?? {}], organizationId);
 
-      console.log(
-        `[AddSubtitlesJob] Generated ${subtitleContent.length} chars of ASS subtitle content`,
-      );
-      console.log(
-        `[AddSubtitlesJob] First 500 chars:`,
-        subtitleContent.substring(0, 500),
+      const outputs = await this.captionOutputs(
+        jobRecordId,
+        { videoUrl, transcript, style, fonts, formats, burn, organizationId },
+        language,
       );
 
-      // 3. Burn Subtitles using FFmpeg Service
-      await this.updateJobProgress(jobRecordId, "burning_captions", 70);
+      // One captioned video and set of sidecar files per translation
+      if (translate.length > 0) {
+        // Test executions run offline, like their fake provider jobs
+        const translator = execution.fakeProvider
+          ? new StubTranslationService()
+          : TranslationServiceFactory.getService();
 
-      console.log(
-        `[AddSubtitlesJob] Calling FFmpeg service at ${ffmpegUrl}/burn-subtitles`,
-      );
+        for (const target of translate) {
+          await this.updateJobProgress(
+            jobRecordId,
+            `translating_${target}`,
+            20,
+          );
 
-      const requestBody = {
-        videoUrl,
-        subtitleContent,
-        subtitleFormat: "ass",
-      };
+          const translated = await translateTranscript(
+            transcript,
+            target,
+            translator,
+            language,
+          );
 
-      console.log(`[AddSubtitlesJob] Request details:`, {
-        videoUrl,
-        subtitleContentLength: subtitleContent.length,
-        subtitleFormat: "ass",
-      });
+          logger.info(
+            `[AddSubtitlesJob] Translated ${transcript.length} words to ${translated.length} ${target} words`,
+          );
 
-      const response = await fetch(`${ffmpegUrl}/burn-subtitles`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
+          outputs.push(
+            ...(await this.captionOutputs(
+              jobRecordId,
+              {
+                videoUrl,
+                transcript: translated,
+                style,
+                fonts,
+                formats,
+                burn,
+                organizationId,
+              },
+              target,
+            )),
+          );
+        }
+      }
+
+      const outputUrl = outputs[0]!.url;
+
+      logger.info(`[AddSubtitlesJob] Job completed. Result: ${outputUrl}`);
+
+      // Complete Job
+      await this.completeJob(jobRecordId, {
+        url: outputUrl,
+        outputs,
+        status: "completed",
+        metadata: {
+          transcriptLength: transcript.length,
+        },
       });
+    } catch (error) {
+      logger.error(`[AddSubtitlesJob] Failed:`, error);
+      await this.failJob(jobRecordId, error);
+    }
+  }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `FFmpeg service failed: ${response.status} ${response.statusText} - ${errorText}`,
-        );
-      }
+  /**
+   * Burn captions and export sidecar files for one language
+   */
+  private async captionOutputs(
+    jobRecordId: string,
+    options: {
+      videoUrl: string;
+      transcript: any[];
+      style: any;
+      fonts: FontFile[];
+      formats: SidecarFormat[];
+      burn: boolean;
+      organizationId: string | undefined;
+    },
+    language: string | undefined,
+  ): Promise<SubtitlesOutput[]> {
+    const {
+      videoUrl,
+      transcript,
+      style,
+      fonts,
+      formats,
+      burn,
+      organizationId,
+    } = options;
+    const outputs: SubtitlesOutput[] = [];
 
-      const videoBuffer = await response.arrayBuffer();
+    if (burn) {
+      const video = await this.burnSubtitles(
+        jobRecordId,
+        videoUrl,
+        transcript,
+        style,
+        fonts,
+        organizationId,
+      );
+      outputs.push({ ...video, language });
+    }
+
+    // Sidecar files for players (accessibility, translation)
+    if (formats.length > 0) {
+      await this.updateJobProgress(jobRecordId, "exporting_subtitles", 95);
+    }
 
-      // 4. Upload Result
-      await this.updateJobProgress(jobRecordId, "uploading", 90);
+    for (const format of formats) {
+      const content = await this.generateSubtitleContent(
+        transcript,
+        format,
+        style,
+      );
 
-      const fileName = `captions/${generateId()}.mp4`;
       const uploadResult = await storage.upload(
-        fileName,
-        Buffer.from(videoBuffer),
-        { contentType: "video/mp4", organizationId },
+        `captions/${generateId()}.${format}`,
+        Buffer.from(content, "utf-8"),
+        { contentType: SIDECAR_CONTENT_TYPES[format], organizationId },
       );
 
       if ("error" in uploadResult) {
         throw new Error(
-          `Failed to upload result: ${uploadResult.error?.message || "Unknown error"}`,
+          `Failed to upload ${format} subtitles: ${uploadResult.error?.message || "Unknown error"}`,
         );
       }
 
-      const outputUrl = uploadResult.url;
+      outputs.push({
+        type: "subtitles",
+        url: uploadResult.url,
+        format,
+        language,
+        mimeType: SIDECAR_CONTENT_TYPES[format],
+      });
+    }
 
-      console.log(`[AddSubtitlesJob] Job completed. Result: ${outputUrl}`);
+    return outputs;
+  }
 
-      // 5. Complete Job
-      await this.completeJob(jobRecordId, {
-        url: outputUrl,
-        status: "completed",
-        metadata: {
-          transcriptLength: transcript.length,
-        },
-      });
-    } catch (error) {
-      console.error(`[AddSubtitlesJob] Failed:`, error);
-      await this.failJob(
-        jobRecordId,
-        error instanceof Error ? error.message : "Unknown error",
+  /**
+   * Generate subtitle file content (ASS for burning, or a sidecar format)
+   * via the FFmpeg service
+   */
+  private async generateSubtitleContent(
+    transcript: any[],
+    format: "ass" | SidecarFormat,
+    style: any,
+  ): Promise<string> {
+    const ffmpegUrl = process.env.FFMPEG_API_URL;
+    logger.info(
+      `[AddSubtitlesJob] Calling FFmpeg service at ${ffmpegUrl}/generate-subtitles (${format})`,
+    );
+
+    const generateSubtitlesResponse = await fetch(
+      `${ffmpegUrl}/generate-subtitles`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          words: transcript,
+          preset: style?.preset,
+          overrides: style,
+          videoWidth: 1080, // Default
+          videoHeight: 1920, // Default
+          format,
+        }),
+      },
+    );
+
+    if (!generateSubtitlesResponse.ok) {
+      const errorText = await generateSubtitlesResponse.text();
+      throw new Error(
+        `Failed to generate subtitles: ${generateSubtitlesResponse.status} ${generateSubtitlesResponse.statusText} - ${errorText}`,
       );
     }
+
+    const { subtitleContent } = (await generateSubtitlesResponse.json()) as {
+      subtitleContent: string;
+    };
+
+    return subtitleContent;
+  }
+
+  /**
+   * Burn ASS captions into the video and upload the result
+   */
+  private async burnSubtitles(
+    jobRecordId: string,
+    videoUrl: string,
+    transcript: any[],
+    style: any,
+    fonts: FontFile[],
+    organizationId: string | undefined,
+  ): Promise<SubtitlesOutput> {
+    await this.updateJobProgress(jobRecordId, "rendering_subtitles", 50);
+
+    // 2. Generate Subtitle File Content (ASS format) via FFmpeg service
+    const ffmpegUrl = process.env.FFMPEG_API_URL;
+    const subtitleContent = await this.generateSubtitleContent(
+      transcript,
+      "ass",
+      style,
+    );
+
+    logger.info(
+      `[AddSubtitlesJob] Generated ${subtitleContent.length} chars of ASS subtitle content`,
+    );
+    logger.info(
+      `[AddSubtitlesJob] First 500 chars:`,
+      subtitleContent.substring(0, 500),
+    );
+
+    // 3. Burn Subtitles using FFmpeg Service
+    await this.updateJobProgress(jobRecordId, "burning_captions", 70);
+
+    logger.info(
+      `[AddSubtitlesJob] Calling FFmpeg service at ${ffmpegUrl}/burn-subtitles`,
+    );
+
+    const requestBody = {
+      videoUrl,
+      subtitleContent,
+      subtitleFormat: "ass",
+      fonts,
+    };
+
+    logger.info(`[AddSubtitlesJob] Request details:`, {
+      videoUrl,
+      subtitleContentLength: subtitleContent.length,
+      subtitleFormat: "ass",
+      fonts: fonts.length,
+    });
+
+    const response = await fetch(`${ffmpegUrl}/burn-subtitles`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `FFmpeg service failed: ${response.status} ${response.statusText} - ${errorText}`,
+      );
+    }
+
+    const videoBuffer = await response.arrayBuffer();
+
+    // 4. Upload Result
+    await this.updateJobProgress(jobRecordId, "uploading", 90);
+
+    const fileName = `captions/${generateId()}.mp4`;
+    const uploadResult = await storage.upload(
+      fileName,
+      Buffer.from(videoBuffer),
+      { contentType: "video/mp4", organizationId },
+    );
+
+    if ("error" in uploadResult) {
+      throw new Error(
+        `Failed to upload result: ${uploadResult.error?.message || "Unknown error"}`,
+      );
+    }
+
+    return {
+      type: "video",
+      url: uploadResult.url,
+      mimeType: "video/mp4",
+    };
   }
 }
@@ -1,7 +1,20 @@
+import crypto from "crypto";
+import { providerKeyService } from "@repo/api-keys";
+import type { FakeProviderOptions } from "@repo/providers";
 import type PgBoss from "pg-boss";
 import { BaseJob } from "../../core/base-job";
-import { db, executionJobs, executions, eq, logAction } from "@repo/db";
+import {
+  db,
+  executionJobs,
+  executions,
+  eq,
+  logAction,
+  publishExecutionEvent,
+} from "@repo/db";
 import { JobClient } from "../../client/job-client";
+import { getJobOutputUrl } from "../../utils/job-output";
+import { getFakeProviderOptions } from "../../utils/test-mode";
+import { logger } from "@repo/logger";
 
 export interface PipelineJobData {
   executionId: string;
@@ -15,9 +28,29 @@ export interface PipelineJobData {
 export abstract class BasePipelineJob extends BaseJob<PipelineJobData> {
   abstract work(job: PgBoss.Job<PipelineJobData>): Promise<void>;
 
+  async start(): Promise<void> {
+    await this.boss.work(
+      this.type,
+      { teamSize: 5, teamConcurrency: 5 },
+      (job: PgBoss.Job<PipelineJobData>) =>
+        this.withLogContext(job, async () => {
+          await publishExecutionEvent({
+            type: "job.started",
+            executionId: job.data.executionId,
+            jobId: job.data.jobId,
+            operation: job.data.operation,
+          });
+          await this.work(job);
+        }),
+    );
+  }
+
   /**
    * Fetches the execution record and provider API keys for a job
    * This is a reusable function used by all pipeline jobs to get access to client-provided provider API keys
+   * Keys are stored encrypted on the execution and decrypted here, on demand.
+   * For test-mode executions it returns the fake provider settings of this
+   * attempt instead, to pass on to VideoProviderFactory.getProvider.
    *
    * @param jobRecordId The ID of the job record
    * @returns The execution record with provider API keys
@@ -34,6 +67,7 @@ export abstract class BasePipelineJob extends BaseJob<PipelineJobData> {
     };
     organizationId?: string;
     apiKeyId?: string;
+    fakeProvider?: FakeProviderOptions;
   }> {
     // Fetch job record
     const jobRecord = await db.query.executionJobs.findFirst({
@@ -55,9 +89,16 @@ export abstract class BasePipelineJob extends BaseJob<PipelineJobData> {
 
     return {
       executionId: execution.id,
-      providerApiKeys: execution.providerApiKeys as any,
+      providerApiKeys: await providerKeyService.getKeysForExecution(execution),
       organizationId: execution.organizationId ?? undefined,
       apiKeyId: execution.apiKeyId ?? undefined,
+      fakeProvider: execution.testMode
+        ? getFakeProviderOptions(
+            execution.testMode,
+            jobRecord.jobId,
+            jobRecord.attempt,
+          )
+        : undefined,
     };
   }
 
@@ -66,12 +107,44 @@ export abstract class BasePipelineJob extends BaseJob<PipelineJobData> {
     stage: string,
     percentage: number,
   ): Promise<void> {
-    await db
+    const [job] = await db
       .update(executionJobs)
       .set({
         progress: { stage, percentage },
       })
+      .where(eq(executionJobs.id, jobRecordId))
+      .returning({
+        executionId: executionJobs.executionId,
+        jobId: executionJobs.jobId,
+      });
+
+    if (job) {
+      await publishExecutionEvent({
+        type: "job.progress",
+        executionId: job.executionId,
+        jobId: job.jobId,
+        stage,
+        percentage,
+      });
+    }
+  }
+
+  /**
+   * Webhook URL for the provider to report this attempt's result to. It
+   * carries a new unguessable token, so a delivery for any other job or an
+   * earlier attempt is rejected.
+   */
+  protected async createProviderWebhookUrl(
+    jobRecordId: string,
+  ): Promise<string> {
+    const token = crypto.randomBytes(32).toString("hex");
+
+    await db
+      .update(executionJobs)
+      .set({ webhookToken: token })
       .where(eq(executionJobs.id, jobRecordId));
+
+    return `${process.env.API_BASE_URL || "http://localhost:3000"}/api/webhooks/job/${jobRecordId}?token=${token}`;
   }
 
   protected async updateJobMetadata(
@@ -107,6 +180,14 @@ export abstract class BasePipelineJob extends BaseJob<PipelineJobData> {
       throw new Error(`Job ${jobRecordId} not found`);
     }
 
+    // The execution was cancelled while this job was running - drop the result
+    if (job.status === "cancelled") {
+      logger.info(
+        `[BasePipelineJob] Job ${job.jobId} was cancelled, discarding result`,
+      );
+      return;
+    }
+
     // Get execution details for usage logging
     const execution = await db.query.executions.findFirst({
       where: eq(executions.id, job.executionId),
@@ -122,8 +203,19 @@ export abstract class BasePipelineJob extends BaseJob<PipelineJobData> {
       })
       .where(eq(executionJobs.id, jobRecordId));
 
-    // Log usage if organization and API key are set, and action hasn't been logged yet
+    await publishExecutionEvent({
+      type: "job.completed",
+      executionId: job.executionId,
+      jobId: job.jobId,
+      operation: job.operation,
+      url: getJobOutputUrl(result),
+      cached: false,
+    });
+
+    // Log usage if organization and API key are set, and action hasn't been logged yet.
+    // Test-mode executions are not billed.
     if (
+      !execution?.testMode &&
       execution?.organizationId &&
       execution?.apiKeyId &&
       job.organizationId &&
@@ -160,11 +252,11 @@ export abstract class BasePipelineJob extends BaseJob<PipelineJobData> {
           .set({ actionLogged: true })
           .where(eq(executionJobs.id, jobRecordId));
 
-        console.log(
+        logger.info(
           `[BasePipelineJob] Logged action for job ${job.jobId} (${job.operation})`,
         );
       } catch (error) {
-        console.error(
+        logger.error(
           `[BasePipelineJob] Error logging action for job ${job.jobId}:`,
           error,
         );
@@ -196,12 +288,12 @@ export abstract class BasePipelineJob extends BaseJob<PipelineJobData> {
           webhookSecret: execution.webhookSecret,
         });
         await jobClient.stop();
-        console.log(
+        logger.info(
           `[BasePipelineJob] Emitted job webhook delivery for ${job.jobId}`,
         );
       } catch (webhookError) {
         // Don't fail the job if webhook emission fails
-        console.error(
+        logger.error(
           `[BasePipelineJob] Failed to emit job webhook for ${job.jobId}:`,
           webhookError,
         );
@@ -209,30 +301,16 @@ export abstract class BasePipelineJob extends BaseJob<PipelineJobData> {
     }
   }
 
-  protected async failJob(jobRecordId: string, error: string): Promise<void> {
-    // Get job record to get executionId and jobId
-    const job = await db.query.executionJobs.findFirst({
-      where: eq(executionJobs.id, jobRecordId),
-    });
-
-    if (!job) {
-      throw new Error(`Job ${jobRecordId} not found`);
-    }
-
-    // Update job as failed
-    await db
-      .update(executionJobs)
-      .set({
-        status: "failed",
-        error,
-        completedAt: new Date(),
-      })
-      .where(eq(executionJobs.id, jobRecordId));
-
-    // Trigger orchestrator to check execution completion
+  /**
+   * Report a failed attempt - the orchestrator retries it if the job's
+   * retry policy covers the error, and fails it (and its dependents) otherwise.
+   * Pass the caught error itself so the HTTP status providers attach to it
+   * is used to classify the failure.
+   */
+  protected async failJob(jobRecordId: string, error: unknown): Promise<void> {
     const { getOrchestrator } =
       await import("../../orchestrator/execution-orchestrator");
     const orchestrator = await getOrchestrator();
-    await orchestrator.checkAndEmitDependentJobs(job.executionId, job.jobId);
+    await orchestrator.failJob(jobRecordId, error);
   }
 }
@@ -0,0 +1,30 @@
+import {
+  FFmpegUtilityJob,
+  type FFmpegUtilityOutput,
+} from "./ffmpeg-utility-job.js";
+
+type AudioFormat = "mp3" | "aac" | "wav";
+
+const AUDIO_MIME_TYPES: Record<AudioFormat, string> = {
+  mp3: "audio/mpeg",
+  aac: "audio/aac",
+  wav: "audio/wav",
+};
+
+export class ExtractAudioJob extends FFmpegUtilityJob {
+  readonly type: string = "extractAudio";
+  protected readonly route = "/extract-audio";
+
+  protected buildRequest(params: Record<string, unknown>) {
+    return { format: (params.format as AudioFormat | undefined) || "mp3" };
+  }
+
+  protected getOutput(params: Record<string, unknown>): FFmpegUtilityOutput {
+    const format = (params.format as AudioFormat | undefined) || "mp3";
+    return {
+      type: "audio",
+      mimeType: AUDIO_MIME_TYPES[format],
+      extension: format,
+    };
+  }
+}
@@ -0,0 +1,156 @@
+import { storage } from "@repo/storage";
+import type PgBoss from "pg-boss";
+import { getJobOutputUrl } from "../../utils/job-output.js";
+import { BasePipelineJob, type PipelineJobData } from "./base-pipeline-job.js";
+import { logger } from "@repo/logger";
+
+export interface FFmpegUtilityOutput {
+  type: "video" | "image" | "audio";
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * Base for jobs that run one of the FFmpeg service's utility endpoints
+ * (thumbnail, GIF, extract audio, transcode, trim, ...) on a media URL and
+ * store the result
+ */
+export abstract class FFmpegUtilityJob extends BasePipelineJob {
+  /** FFmpeg API route, e.g. "/thumbnail" */
+  protected abstract readonly route: string;
+
+  /** JSON body for the route, apart from the video URL */
+  protected abstract buildRequest(
+    params: Record<string, unknown>,
+  ): Record<string, unknown>;
+
+  /**
+   * Final JSON body, with anything loaded at run time (e.g. uploaded font
+   * files). Only the request from buildRequest is kept in the job metadata.
+   */
+  protected async prepareRequest(
+    request: Record<string, unknown>,
+    _organizationId: string | undefined,
+  ): Promise<Record<string, unknown>> {
+    return request;
+  }
+
+  /**
+   * Output kind, from the params or the Content-Type of the FFmpeg response
+   */
+  protected abstract getOutput(
+    params: Record<string, unknown>,
+    contentType: string | null,
+  ): FFmpegUtilityOutput;
+
+  async work(job: PgBoss.Job<PipelineJobData>): Promise<void> {
+    const { jobRecordId, executionId, jobId, params, dependencies } = job.data;
+    const logPrefix = `[${this.constructor.name}]`;
+
+    try {
+      await this.updateJobProgress(jobRecordId, "starting", 0);
+
+      // Get organizationId for storage
+      const execution = await this.getExecutionWithProviderKeys(jobRecordId);
+      const organizationId = execution.organizationId;
+
+      // Explicit input wins, otherwise use the output of the previous job
+      const videoUrl =
+        (params.videoUrl as string | undefined) ||
+        (params.video as string | undefined) ||
+        this.resolveVideoFromDependencies(dependencies);
+
+      const request = this.buildRequest(params);
+      const body = await this.prepareRequest(request, organizationId);
+
+      logger.info(
+        `${logPrefix} Calling ${this.route} for ${videoUrl}:`,
+        request,
+      );
+
+      await this.updateJobProgress(jobRecordId, "calling FFmpeg API", 20);
+
+      const ffmpegApiUrl =
+        process.env.FFMPEG_API_URL || "http://localhost:3200";
+      const response = await fetch(`${ffmpegApiUrl}${this.route}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...body, url: videoUrl }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `FFmpeg ${this.type} failed: ${response.statusText} - ${errorText}`,
+        );
+      }
+
+      const output = this.getOutput(
+        params,
+        response.headers.get("Content-Type"),
+      );
+
+      await this.updateJobProgress(jobRecordId, "downloading output", 70);
+
+      const outputBuffer = await response.arrayBuffer();
+
+      await this.updateJobProgress(jobRecordId, "uploading to S3", 85);
+
+      const s3Key = `executions/${executionId}/${jobId}/output.${output.extension}`;
+      const uploadResult = await storage.upload(
+        s3Key,
+        Buffer.from(outputBuffer),
+        {
+          contentType: output.mimeType,
+          organizationId,
+        },
+      );
+
+      if ("error" in uploadResult) {
+        throw uploadResult.error;
+      }
+
+      await this.updateJobProgress(jobRecordId, "completed", 100);
+      await this.completeJob(jobRecordId, {
+        status: "completed",
+        outputs: [
+          {
+            type: output.type,
+            url: uploadResult.url,
+            mimeType: output.mimeType,
+          },
+        ],
+        metadata: request,
+      });
+
+      logger.info(`${logPrefix} Completed successfully`);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error(`${logPrefix} Failed:`, errorMessage);
+      await this.failJob(jobRecordId, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Use the output of the upstream job when no video is passed explicitly
+   * (e.g. compose(generateVideo(...), thumbnail()))
+   */
+  private resolveVideoFromDependencies(
+    dependencies: Record<string, unknown>,
+  ): string {
+    for (const result of Object.values(dependencies)) {
+      const url = getJobOutputUrl(result);
+      if (url) {
+        return url;
+      }
+    }
+
+    throw new Error(
+      `No input for ${this.type}. Provide a URL or chain ${this.type} after another operation.`,
+    );
+  }
+}
@@ -7,6 +7,7 @@ import { VideoProviderFactory } from "@repo/providers";
 import type PgBoss from "pg-boss";
 import { isBase64String, uploadBase64Audio } from "../../utils/upload-audio.js";
 import { BasePipelineJob, type PipelineJobData } from "./base-pipeline-job.js";
+import { logger } from "@repo/logger";
 
 export class GenerateAudioJob extends BasePipelineJob {
   readonly type: string = "generateAudio";
@@ -17,14 +18,14 @@ export class GenerateAudioJob extends BasePipelineJob {
     try {
       await this.updateJobProgress(jobRecordId, "starting", 0);
 
-      console.log(`[GenerateAudioJob] Generating audio with params:`, params);
+      logger.info(`[GenerateAudioJob] Generating audio with params:`, params);
 
       // Fetch execution to get provider API keys
       const execution = await this.getExecutionWithProviderKeys(jobRecordId);
 
-      console.log(
-        `[GenerateAudioJob] Execution provider keys:`,
-        JSON.stringify(execution.providerApiKeys, null, 2),
+      logger.info(
+        `[GenerateAudioJob] Execution has keys for providers:`,
+        Object.keys(execution.providerApiKeys ?? {}),
       );
 
       const {
@@ -49,7 +50,7 @@ export class GenerateAudioJob extends BasePipelineJob {
       let validatedParams: Record<string, unknown>;
       try {
         validatedParams = parseModelOptions(modelId, providerParams);
-        console.log(
+        logger.info(
           `[GenerateAudioJob] Validated params for ${modelId}:`,
           validatedParams,
         );
@@ -61,7 +62,7 @@ export class GenerateAudioJob extends BasePipelineJob {
         );
       }
 
-      console.log(
+      logger.info(
         `[GenerateAudioJob] Using synchronous polling for model ${modelId}`,
       );
 
@@ -74,26 +75,27 @@ export class GenerateAudioJob extends BasePipelineJob {
           modelInfo.provider as keyof typeof execution.providerApiKeys
         ];
 
-      console.log(`[GenerateAudioJob] Provider: ${modelInfo.provider}`);
-      console.log(
+      logger.info(`[GenerateAudioJob] Provider: ${modelInfo.provider}`);
+      logger.info(
         `[GenerateAudioJob] Model-level API key present: ${!!modelApiKey}`,
       );
-      console.log(
+      logger.info(
         `[GenerateAudioJob] Execution-level API key for ${modelInfo.provider}: ${!!execution.providerApiKeys?.[modelInfo.provider as keyof typeof execution.providerApiKeys]}`,
       );
-      console.log(
+      logger.info(
         `[GenerateAudioJob] Final providerApiKey present: ${!!providerApiKey}`,
       );
-      console.log(
+      logger.info(
         `[GenerateAudioJob] Using ${modelApiKey ? "model-level" : "execution-level"} API key for provider ${modelInfo.provider}`,
       );
 
       const provider = VideoProviderFactory.getProvider(
         modelInfo.provider,
         providerApiKey,
+        execution.fakeProvider,
       );
 
-      console.log(
+      logger.info(
         `[GenerateAudioJob] Calling provider.startGeneration with modelId: ${modelId}, params:`,
         validatedParams,
       );
@@ -104,12 +106,12 @@ export class GenerateAudioJob extends BasePipelineJob {
         validatedParams,
       );
 
-      console.log(
+      logger.info(
         `[GenerateAudioJob] Provider returned:`,
         JSON.stringify(generationStart, null, 2),
       );
 
-      console.log(
+      logger.info(
         `[GenerateAudioJob] Started provider job: ${generationStart.providerJobId}`,
       );
 
@@ -156,7 +158,7 @@ export class GenerateAudioJob extends BasePipelineJob {
           // Parse the raw response using the model's polling parser
           const parsedResult = parseModelPolling(modelId, rawResponse);
 
-          console.log(`[GenerateAudioJob] Audio generated successfully`);
+          logger.info(`[GenerateAudioJob] Audio generated successfully`);
 
           // Check if result contains base64 audio string and upload to CDN
           // New format: { status, outputs: [{ type, url, mimeType }] }
@@ -175,7 +177,7 @@ export class GenerateAudioJob extends BasePipelineJob {
               typeof firstOutput.url === "string" &&
               isBase64String(firstOutput.url)
             ) {
-              console.log(
+              logger.info(
                 `[GenerateAudioJob] Detected base64 audio string, uploading to CDN...`,
               );
 
@@ -191,7 +193,7 @@ export class GenerateAudioJob extends BasePipelineJob {
                 organizationId: execution.organizationId,
               });
 
-              console.log(
+              logger.info(
                 `[GenerateAudioJob] Successfully uploaded audio to CDN: ${cdnUrl}`,
               );
 
@@ -217,10 +219,10 @@ export class GenerateAudioJob extends BasePipelineJob {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       const errorStack = error instanceof Error ? error.stack : undefined;
-      console.error(`[GenerateAudioJob] Failed:`, errorMessage);
-      console.error(`[GenerateAudioJob] Error stack:`, errorStack);
-      console.error(`[GenerateAudioJob] Full error object:`, error);
-      await this.failJob(jobRecordId, errorMessage);
+      logger.error(`[GenerateAudioJob] Failed:`, errorMessage);
+      logger.error(`[GenerateAudioJob] Error stack:`, errorStack);
+      logger.error(`[GenerateAudioJob] Full error object:`, error);
+      await this.failJob(jobRecordId, error);
       throw error;
     }
   }
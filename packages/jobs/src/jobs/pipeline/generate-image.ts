@@ -8,6 +8,7 @@ import {
   replicateMappings,
   falMappings,
 } from "@repo/model-schemas";
+import { logger } from "@repo/logger";
 
 export class GenerateImageJob extends BasePipelineJob {
   readonly type: string = "generateImage";
@@ -18,7 +19,7 @@ export class GenerateImageJob extends BasePipelineJob {
     try {
       await this.updateJobProgress(jobRecordId, "starting", 0);
 
-      console.log(`[GenerateImageJob] Generating image with params:`, params);
+      logger.info(`[GenerateImageJob] Generating image with params:`, params);
 
       // Fetch execution to get provider API keys
       const execution = await this.getExecutionWithProviderKeys(jobRecordId);
@@ -52,21 +53,21 @@ export class GenerateImageJob extends BasePipelineJob {
           providerParams.outputFormat ||
           providerParams.seed)
       ) {
-        console.log(
+        logger.info(
           `[GenerateImageJob] Converting unified params to provider-specific format`,
         );
         const convertedParams = (mapping as any).toProviderOptions(
           providerParams,
         );
         finalParams = convertedParams;
-        console.log(`[GenerateImageJob] Converted params:`, finalParams);
+        logger.info(`[GenerateImageJob] Converted params:`, finalParams);
       }
 
       // Validate and parse provider parameters against model schema
       let validatedParams: Record<string, unknown>;
       try {
         validatedParams = parseModelOptions(modelId, finalParams);
-        console.log(
+        logger.info(
           `[GenerateImageJob] Validated params for ${modelId}:`,
           validatedParams,
         );
@@ -78,7 +79,7 @@ export class GenerateImageJob extends BasePipelineJob {
         );
       }
 
-      console.log(
+      logger.info(
         `[GenerateImageJob] Using synchronous polling for model ${modelId}`,
       );
 
@@ -93,6 +94,7 @@ export class GenerateImageJob extends BasePipelineJob {
       const provider = VideoProviderFactory.getProvider(
         modelInfo.provider,
         providerApiKey,
+        execution.fakeProvider,
       );
 
       // Start image generation (no webhook needed - we'll poll synchronously)
@@ -101,7 +103,7 @@ export class GenerateImageJob extends BasePipelineJob {
         validatedParams,
       );
 
-      console.log(
+      logger.info(
         `[GenerateImageJob] Started provider job: ${generationStart.providerJobId}`,
       );
 
@@ -148,7 +150,7 @@ export class GenerateImageJob extends BasePipelineJob {
           // Parse the raw response using the model's polling parser
           const parsedResult = parseModelPolling(modelId, rawResponse);
 
-          console.log(`[GenerateImageJob] Image generated successfully`);
+          logger.info(`[GenerateImageJob] Image generated successfully`);
 
           await this.updateJobProgress(jobRecordId, "completed", 100);
           await this.completeJob(jobRecordId, parsedResult);
@@ -164,8 +166,8 @@ export class GenerateImageJob extends BasePipelineJob {
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
-      console.error(`[GenerateImageJob] Failed:`, errorMessage);
-      await this.failJob(jobRecordId, errorMessage);
+      logger.error(`[GenerateImageJob] Failed:`, errorMessage);
+      await this.failJob(jobRecordId, error);
       throw error;
     }
   }
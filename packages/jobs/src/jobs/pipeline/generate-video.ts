@@ -7,6 +7,7 @@ import {
   parseModelOptions,
 } from "@repo/model-schemas";
 import { db, executionJobs, eq } from "@repo/db";
+import { logger } from "@repo/logger";
 
 export class GenerateVideoJob extends BasePipelineJob {
   readonly type: string = "generate";
@@ -17,7 +18,7 @@ export class GenerateVideoJob extends BasePipelineJob {
     try {
       await this.updateJobProgress(jobRecordId, "starting", 0);
 
-      console.log(`[GenerateVideoJob] Generating video with params:`, params);
+      logger.info(`[GenerateVideoJob] Generating video with params:`, params);
 
       // Fetch execution to get provider API keys
       const execution = await this.getExecutionWithProviderKeys(jobRecordId);
@@ -39,7 +40,7 @@ export class GenerateVideoJob extends BasePipelineJob {
       let validatedParams: Record<string, unknown>;
       try {
         validatedParams = parseModelOptions(modelId, providerParams);
-        console.log(
+        logger.info(
           `[GenerateVideoJob] Validated params for ${modelId}:`,
           validatedParams,
         );
@@ -60,7 +61,7 @@ export class GenerateVideoJob extends BasePipelineJob {
           image_url: (validatedParams.image_url as string) || (image as string),
           audio_url: (validatedParams.audio_url as string) || (audio as string),
         };
-        console.log(
+        logger.info(
           `[GenerateVideoJob] Mapped params for Fabric:`,
           providerApiParams,
         );
@@ -70,7 +71,7 @@ export class GenerateVideoJob extends BasePipelineJob {
       const capabilities = getModelCapabilities(modelId);
       const waitingStrategy = capabilities.defaultStrategy;
 
-      console.log(
+      logger.info(
         `[GenerateVideoJob] Using ${waitingStrategy} strategy for model ${modelId}`,
       );
 
@@ -85,15 +86,16 @@ export class GenerateVideoJob extends BasePipelineJob {
       const provider = VideoProviderFactory.getProvider(
         modelInfo.provider,
         providerApiKey,
+        execution.fakeProvider,
       );
 
       // Build webhook URL if provider supports webhooks
       const webhook = capabilities.supportsWebhooks
-        ? `${process.env.API_BASE_URL || "http://localhost:3000"}/api/webhooks/job/${jobRecordId}`
+        ? await this.createProviderWebhookUrl(jobRecordId)
         : undefined;
 
-      console.log(
-        `[GenerateVideoJob] Webhook URL: ${webhook} (API_BASE_URL: ${process.env.API_BASE_URL})`,
+      logger.info(
+        `[GenerateVideoJob] Webhook ${webhook ? "enabled" : "disabled"} (API_BASE_URL: ${process.env.API_BASE_URL})`,
       );
 
       // Start generation (non-blocking)
@@ -103,7 +105,7 @@ export class GenerateVideoJob extends BasePipelineJob {
         webhook,
       );
 
-      console.log(
+      logger.info(
         `[GenerateVideoJob] Started provider job: ${generationStart.providerJobId}`,
       );
 
@@ -120,14 +122,16 @@ export class GenerateVideoJob extends BasePipelineJob {
           providerJobId: generationStart.providerJobId,
           waitingStrategy,
           nextPollAt,
-          metadata: {
-            ...params,
-            modelId, // Store modelId in metadata for webhook/polling parsing
-            providerJobId: generationStart.providerJobId,
-          },
         })
         .where(eq(executionJobs.id, jobRecordId));
 
+      // Merged so the plan params and retry policy survive for retries
+      await this.updateJobMetadata(jobRecordId, {
+        ...params,
+        modelId, // Store modelId in metadata for webhook/polling parsing
+        providerJobId: generationStart.providerJobId,
+      });
+
       await this.updateJobProgress(
         jobRecordId,
         waitingStrategy === "webhook"
@@ -136,7 +140,7 @@ export class GenerateVideoJob extends BasePipelineJob {
         20,
       );
 
-      console.log(
+      logger.info(
         `[GenerateVideoJob] Job ${jobRecordId} now waiting via ${waitingStrategy}. ` +
           `Provider job ID: ${generationStart.providerJobId}`,
       );
@@ -146,8 +150,8 @@ export class GenerateVideoJob extends BasePipelineJob {
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
-      console.error(`[GenerateVideoJob] Failed:`, errorMessage);
-      await this.failJob(jobRecordId, errorMessage);
+      logger.error(`[GenerateVideoJob] Failed:`, errorMessage);
+      await this.failJob(jobRecordId, error);
       throw error;
     }
   }
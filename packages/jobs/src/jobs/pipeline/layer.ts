@@ -1,6 +1,20 @@
 import { storage } from "@repo/storage";
 import type PgBoss from "pg-boss";
+import { resolveFonts, type FontReference } from "../../utils/fonts.js";
 import { BasePipelineJob, type PipelineJobData } from "./base-pipeline-job.js";
+import { logger } from "@repo/logger";
+
+interface LayerKeyframe {
+  time: number;
+  placement?: string;
+  x?: string | number;
+  y?: string | number;
+  width?: string | number;
+  height?: string | number;
+  opacity?: number;
+  rotation?: number;
+  easing?: string;
+}
 
 export class LayerJob extends BasePipelineJob {
   readonly type: string = "layer";
@@ -61,7 +75,7 @@ export class LayerJob extends BasePipelineJob {
     if (depResult && typeof depResult === "object" && "outputs" in depResult) {
       const outputs = (depResult as any).outputs;
       if (Array.isArray(outputs) && outputs.length > 0 && outputs[0].url) {
-        console.log(
+        logger.info(
           `[LayerJob] Resolved ${mediaType} dependency ${jobId} to URL: ${outputs[0].url}`,
         );
         return outputs[0].url;
@@ -70,7 +84,7 @@ export class LayerJob extends BasePipelineJob {
 
     // Try simple format: { url }
     if (depResult && typeof depResult === "object" && "url" in depResult) {
-      console.log(
+      logger.info(
         `[LayerJob] Resolved ${mediaType} dependency ${jobId} to URL: ${(depResult as any).url}`,
       );
       return (depResult as any).url;
@@ -91,12 +105,41 @@ export class LayerJob extends BasePipelineJob {
       const execution = await this.getExecutionWithProviderKeys(jobRecordId);
       const organizationId = execution.organizationId;
 
-      console.log(`[LayerJob] Processing with params:`, params);
-
-      const { layers, outputDuration, outputWidth, outputHeight, mainLayer } =
-        params as {
-          layers?: Array<
-            | {
+      logger.info(`[LayerJob] Processing with params:`, params);
+
+      const {
+        layers,
+        outputDuration,
+        outputWidth,
+        outputHeight,
+        mainLayer,
+        audio,
+        loudness,
+        texts,
+      } = params as {
+        layers?: Array<
+          | {
+              media?: string | string[];
+              placement?:
+                | string
+                | {
+                    width?: string;
+                    height?: string;
+                    position?: { x?: string; y?: string };
+                    padding?: number;
+                    aspectRatio?: string;
+                  };
+              chromaKey?: boolean;
+              chromaKeyColor?: string;
+              similarity?: number;
+              blend?: number;
+              isTimeline?: false;
+              main?: boolean; // NEW: Flag to mark as main duration reference
+              keyframes?: LayerKeyframe[];
+            }
+          | {
+              isTimeline: true;
+              timeline: Array<{
                 media?: string | string[];
                 placement?:
                   | string
@@ -111,38 +154,36 @@ export class LayerJob extends BasePipelineJob {
                 chromaKeyColor?: string;
                 similarity?: number;
                 blend?: number;
-                isTimeline?: false;
-                main?: boolean; // NEW: Flag to mark as main duration reference
-              }
+                duration?: number; // UPDATED: Optional for auto-fill
+              }>;
+              totalDuration?: number; // UPDATED: Optional if needs auto-calculation
+              needsAutoDuration?: boolean;
+              explicitDuration?: number;
+            }
+        >;
+        outputDuration?: number;
+        outputWidth?: number;
+        outputHeight?: number;
+        mainLayer?: number; // NEW: Index of main layer
+        audio?: Array<{
+          url: string;
+          offset?: number;
+          duration?: number;
+          volume?: number;
+          fadeIn?: number;
+          fadeOut?: number;
+          duck?:
+            | boolean
             | {
-                isTimeline: true;
-                timeline: Array<{
-                  media?: string | string[];
-                  placement?:
-                    | string
-                    | {
-                        width?: string;
-                        height?: string;
-                        position?: { x?: string; y?: string };
-                        padding?: number;
-                        aspectRatio?: string;
-                      };
-                  chromaKey?: boolean;
-                  chromaKeyColor?: string;
-                  similarity?: number;
-                  blend?: number;
-                  duration?: number; // UPDATED: Optional for auto-fill
-                }>;
-                totalDuration?: number; // UPDATED: Optional if needs auto-calculation
-                needsAutoDuration?: boolean;
-                explicitDuration?: number;
-              }
-          >;
-          outputDuration?: number;
-          outputWidth?: number;
-          outputHeight?: number;
-          mainLayer?: number; // NEW: Index of main layer
-        };
+                threshold?: number;
+                ratio?: number;
+                attack?: number;
+                release?: number;
+              };
+        }>;
+        loudness?: { target?: number; truePeak?: number };
+        texts?: FontReference[];
+      };
 
       if (!layers || layers.length === 0) {
         throw new Error("At least one layer is required in params");
@@ -159,6 +200,7 @@ export class LayerJob extends BasePipelineJob {
             blend?: number;
             isTimeline?: false;
             main?: boolean; // NEW: Pass through main flag
+            keyframes?: LayerKeyframe[];
           }
         | {
             isTimeline: true;
@@ -245,7 +287,7 @@ export class LayerJob extends BasePipelineJob {
           const durationInfo = layer.totalDuration
             ? `total duration: ${layer.totalDuration}s`
             : `needs auto-duration (explicit: ${layer.explicitDuration || 0}s)`;
-          console.log(
+          logger.info(
             `[LayerJob] Resolved timeline layer with ${resolvedTimeline.length} items (${durationInfo})`,
           );
         } else {
@@ -289,22 +331,35 @@ export class LayerJob extends BasePipelineJob {
             similarity: layer.similarity,
             blend: layer.blend,
             main: layer.main, // Pass through main flag
+            keyframes: layer.keyframes,
           });
         }
       }
 
-      console.log(
+      logger.info(
         `[LayerJob] Resolved ${resolvedLayers.length} layers:`,
         resolvedLayers,
       );
 
+      // Resolve audio overlay URLs the same way as layer media
+      const resolvedAudio = audio?.map((track) => ({
+        ...track,
+        url: this.resolveMediaDependency(track.url, dependencies) ?? track.url,
+      }));
+
+      // Texts with fontId / fontUrl are drawn with the uploaded font
+      const { items: resolvedTexts, fonts } = await resolveFonts(
+        texts ?? [],
+        organizationId,
+      );
+
       await this.updateJobProgress(jobRecordId, "processing layers", 20);
 
       // Call FFmpeg service
       const ffmpegApiUrl =
         process.env.FFMPEG_API_URL || "http://localhost:3200";
 
-      console.log(`[LayerJob] Calling FFmpeg service at: ${ffmpegApiUrl}`);
+      logger.info(`[LayerJob] Calling FFmpeg service at: ${ffmpegApiUrl}`);
 
       const response = await fetch(`${ffmpegApiUrl}/layer`, {
         method: "POST",
@@ -317,6 +372,10 @@ export class LayerJob extends BasePipelineJob {
           outputWidth,
           outputHeight,
           mainLayer, // NEW: Pass through mainLayer option
+          audio: resolvedAudio,
+          loudness,
+          texts: texts ? resolvedTexts : undefined,
+          fonts,
         }),
       });
 
@@ -332,7 +391,7 @@ export class LayerJob extends BasePipelineJob {
       // Get the video buffer from response
       const videoBuffer = Buffer.from(await response.arrayBuffer());
 
-      console.log(
+      logger.info(
         `[LayerJob] Received processed video (${videoBuffer.length} bytes)`,
       );
 
@@ -347,7 +406,7 @@ export class LayerJob extends BasePipelineJob {
         throw uploadResult.error;
       }
 
-      console.log(`[LayerJob] Uploaded to storage: ${uploadResult.url}`);
+      logger.info(`[LayerJob] Uploaded to storage: ${uploadResult.url}`);
 
       const result = {
         status: "completed",
@@ -369,12 +428,12 @@ export class LayerJob extends BasePipelineJob {
       // Complete the job with result
       await this.completeJob(jobRecordId, result);
 
-      console.log(`[LayerJob] Job completed successfully`);
+      logger.info(`[LayerJob] Job completed successfully`);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
-      console.error(`[LayerJob] Failed:`, errorMessage);
-      await this.failJob(jobRecordId, errorMessage);
+      logger.error(`[LayerJob] Failed:`, errorMessage);
+      await this.failJob(jobRecordId, error);
       throw error;
     }
   }
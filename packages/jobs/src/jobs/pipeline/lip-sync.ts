@@ -0,0 +1,229 @@
+import type PgBoss from "pg-boss";
+import { BasePipelineJob, type PipelineJobData } from "./base-pipeline-job.js";
+import { VideoProviderFactory } from "@repo/providers";
+import {
+  getDefaultLipSyncModel,
+  getModelInfo,
+  getModelCapabilities,
+  isLipSyncModel,
+  parseModelOptions,
+  replicateMappings,
+  unifiedLipSyncOptionsSchema,
+  type UnifiedLipSyncOptions,
+} from "@repo/model-schemas";
+import { db, executionJobs, eq } from "@repo/db";
+import { logger } from "@repo/logger";
+
+export class LipSyncJob extends BasePipelineJob {
+  readonly type: string = "lipSync";
+
+  async work(job: PgBoss.Job<PipelineJobData>): Promise<void> {
+    const { jobRecordId, params, dependencies } = job.data;
+
+    try {
+      await this.updateJobProgress(jobRecordId, "starting", 0);
+
+      logger.info(`[LipSyncJob] Syncing lips with params:`, params);
+
+      // Fetch execution to get provider API keys
+      const execution = await this.getExecutionWithProviderKeys(jobRecordId);
+
+      const {
+        modelId: requestedModelId,
+        video,
+        videoUrl: videoUrlParam,
+        audio,
+        audioUrl,
+        ...otherParams
+      } = params as {
+        modelId?: string;
+        video?: string;
+        videoUrl?: string;
+        audio?: string;
+        audioUrl?: string;
+        [key: string]: any;
+      };
+
+      const modelId = requestedModelId || getDefaultLipSyncModel();
+      if (!modelId) {
+        throw new Error("No lip-sync model is configured");
+      }
+      if (!isLipSyncModel(modelId)) {
+        throw new Error(`Model ${modelId} does not support lipSync`);
+      }
+
+      // Nested generateVideo ops and videoInput jobs are resolved into
+      // params by the orchestrator; otherwise use the previous job's output
+      let videoUrl = video || videoUrlParam;
+      if (!videoUrl && dependencies && Object.keys(dependencies).length > 0) {
+        logger.info(`[LipSyncJob] Extracting video URL from dependencies`);
+        videoUrl = this.findVideoUrl(dependencies);
+      }
+
+      if (!videoUrl) {
+        throw new Error(
+          "video is required either in params or from dependencies",
+        );
+      }
+
+      const audioTrackUrl = audio || audioUrl;
+      if (!audioTrackUrl) {
+        throw new Error("audio is required for lipSync");
+      }
+
+      logger.info(
+        `[LipSyncJob] Using video URL: ${videoUrl}, audio URL: ${audioTrackUrl}`,
+      );
+
+      const modelInfo = getModelInfo(modelId);
+      if (!modelInfo) {
+        throw new Error(`Unknown model: ${modelId}`);
+      }
+
+      // Build and validate unified params
+      const unifiedParams: UnifiedLipSyncOptions = {
+        video: videoUrl,
+        audio: audioTrackUrl,
+      };
+      const validatedUnified = unifiedLipSyncOptionsSchema.parse(unifiedParams);
+
+      // Get mapping for this model
+      const mapping =
+        replicateMappings[modelId as keyof typeof replicateMappings];
+
+      if (!mapping) {
+        throw new Error(`No parameter mapping found for model: ${modelId}`);
+      }
+
+      // Convert unified params to provider-specific params
+      const providerParams = (mapping as any).toProviderOptions(
+        validatedUnified,
+      );
+
+      logger.info(`[LipSyncJob] Converted to provider params:`, providerParams);
+
+      // Validate provider parameters against model schema
+      let validatedParams: Record<string, unknown>;
+      try {
+        validatedParams = parseModelOptions(modelId, {
+          ...providerParams,
+          ...otherParams,
+        });
+      } catch (error) {
+        const validationError =
+          error instanceof Error ? error.message : "Unknown validation error";
+        throw new Error(
+          `Parameter validation failed for model ${modelId}: ${validationError}`,
+        );
+      }
+
+      // Get model capabilities to determine waiting strategy
+      const capabilities = getModelCapabilities(modelId);
+      const waitingStrategy = capabilities.defaultStrategy;
+
+      logger.info(
+        `[LipSyncJob] Using ${waitingStrategy} strategy for model ${modelId}`,
+      );
+
+      await this.updateJobProgress(jobRecordId, "calling provider API", 10);
+
+      // Get client's API key for this provider (if provided)
+      const providerApiKey =
+        execution.providerApiKeys?.[
+          modelInfo.provider as keyof typeof execution.providerApiKeys
+        ];
+
+      const provider = VideoProviderFactory.getProvider(
+        modelInfo.provider,
+        providerApiKey,
+        execution.fakeProvider,
+      );
+
+      // Build webhook URL if provider supports webhooks
+      const webhook = capabilities.supportsWebhooks
+        ? await this.createProviderWebhookUrl(jobRecordId)
+        : undefined;
+
+      // Start lip sync (non-blocking)
+      const generationStart = await provider.startGeneration(
+        modelId,
+        validatedParams,
+        webhook,
+      );
+
+      logger.info(
+        `[LipSyncJob] Started provider job: ${generationStart.providerJobId}`,
+      );
+
+      // Calculate next poll time for polling strategy
+      const nextPollAt =
+        waitingStrategy === "polling"
+          ? new Date(Date.now() + 5000) // Poll after 5 seconds
+          : undefined;
+
+      // Update job record with provider job info
+      await db
+        .update(executionJobs)
+        .set({
+          providerJobId: generationStart.providerJobId,
+          waitingStrategy,
+          nextPollAt,
+        })
+        .where(eq(executionJobs.id, jobRecordId));
+
+      // Merged so the plan params and retry policy survive for retries
+      await this.updateJobMetadata(jobRecordId, {
+        ...params,
+        modelId, // Store modelId in metadata for webhook/polling parsing
+        providerJobId: generationStart.providerJobId,
+      });
+
+      await this.updateJobProgress(
+        jobRecordId,
+        waitingStrategy === "webhook"
+          ? "waiting for webhook"
+          : "waiting for polling",
+        20,
+      );
+
+      logger.info(
+        `[LipSyncJob] Job ${jobRecordId} now waiting via ${waitingStrategy}. ` +
+          `Provider job ID: ${generationStart.providerJobId}`,
+      );
+
+      // Job stays in "processing" state
+      // Completion will be handled by webhook or polling worker
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error(`[LipSyncJob] Failed:`, errorMessage);
+      await this.failJob(jobRecordId, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the first video output among upstream job results
+   */
+  private findVideoUrl(
+    dependencies: Record<string, unknown>,
+  ): string | undefined {
+    for (const depResult of Object.values(dependencies)) {
+      if (!depResult || typeof depResult !== "object") continue;
+
+      if ("outputs" in depResult) {
+        const outputs = (depResult as any).outputs;
+        if (!Array.isArray(outputs)) continue;
+        const output = outputs.find(
+          (o: { type?: string; url?: string }) =>
+            o.url && (!o.type || o.type === "video"),
+        );
+        if (output) return output.url;
+      } else if ("url" in depResult && typeof depResult.url === "string") {
+        return depResult.url;
+      }
+    }
+
+    return undefined;
+  }
+}
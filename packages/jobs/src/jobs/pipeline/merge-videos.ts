@@ -2,6 +2,7 @@ import { storage } from "@repo/storage";
 import type PgBoss from "pg-boss";
 import { getOrchestrator } from "../../orchestrator/execution-orchestrator.js";
 import { BasePipelineJob, type PipelineJobData } from "./base-pipeline-job.js";
+import { logger } from "@repo/logger";
 
 interface MergeItem {
   url?: string;
@@ -9,6 +10,26 @@ interface MergeItem {
   duration?: number;
   offset?: number;
   volume?: number;
+  transition?: {
+    type: string;
+    duration?: number;
+    easing?: string;
+  };
+  fadeIn?: number;
+  fadeOut?: number;
+  duck?: boolean | DuckingOptions;
+}
+
+interface DuckingOptions {
+  threshold?: number;
+  ratio?: number;
+  attack?: number;
+  release?: number;
+}
+
+interface LoudnessOptions {
+  target?: number;
+  truePeak?: number;
 }
 
 export class MergeVideosJob extends BasePipelineJob {
@@ -24,11 +45,14 @@ export class MergeVideosJob extends BasePipelineJob {
       const execution = await this.getExecutionWithProviderKeys(jobRecordId);
       const organizationId = execution.organizationId;
 
-      console.log(`[MergeVideosJob] Merging media with params:`, params);
-      console.log(`[MergeVideosJob] Dependencies:`, dependencies);
+      logger.info(`[MergeVideosJob] Merging media with params:`, params);
+      logger.info(`[MergeVideosJob] Dependencies:`, dependencies);
 
       // Extract items from params
-      const { items } = params as { items?: MergeItem[] };
+      const { items, loudness } = params as {
+        items?: MergeItem[];
+        loudness?: LoudnessOptions;
+      };
 
       if (!items || items.length === 0) {
         throw new Error("At least 1 item required for merging");
@@ -43,6 +67,9 @@ export class MergeVideosJob extends BasePipelineJob {
         offset?: number;
         duration?: number;
         volume?: number;
+        fadeIn?: number;
+        fadeOut?: number;
+        duck?: boolean | DuckingOptions;
       }> = [];
 
       for (const item of items) {
@@ -61,6 +88,9 @@ export class MergeVideosJob extends BasePipelineJob {
               offset: item.offset,
               duration: item.duration,
               volume: item.volume,
+              fadeIn: item.fadeIn,
+              fadeOut: item.fadeOut,
+              duck: item.duck,
             });
           }
         } else {
@@ -74,7 +104,7 @@ export class MergeVideosJob extends BasePipelineJob {
         );
       }
 
-      console.log(
+      logger.info(
         `[MergeVideosJob] Resolved ${resolvedItems.length} visual items, ${audioItems.length} audio items`,
       );
 
@@ -94,8 +124,10 @@ export class MergeVideosJob extends BasePipelineJob {
             type: item.type,
             duration: item.duration,
             volume: item.volume,
+            transition: item.transition,
           })),
           audio: audioItems.length > 0 ? audioItems : undefined,
+          loudness,
         }),
       });
 
@@ -138,12 +170,12 @@ export class MergeVideosJob extends BasePipelineJob {
       const orchestrator = await getOrchestrator();
       await orchestrator.checkAndEmitDependentJobs(executionId, jobId);
 
-      console.log(`[MergeVideosJob] Media merged successfully`);
+      logger.info(`[MergeVideosJob] Media merged successfully`);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
-      console.error(`[MergeVideosJob] Failed:`, errorMessage);
-      await this.failJob(jobRecordId, errorMessage);
+      logger.error(`[MergeVideosJob] Failed:`, errorMessage);
+      await this.failJob(jobRecordId, error);
       throw error;
     }
   }
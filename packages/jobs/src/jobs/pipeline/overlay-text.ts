@@ -0,0 +1,36 @@
+import { resolveFonts, type FontReference } from "../../utils/fonts.js";
+import {
+  FFmpegUtilityJob,
+  type FFmpegUtilityOutput,
+} from "./ffmpeg-utility-job.js";
+
+export class OverlayTextJob extends FFmpegUtilityJob {
+  readonly type: string = "overlayText";
+  protected readonly route = "/overlay-text";
+
+  protected buildRequest(params: Record<string, unknown>) {
+    const { texts } = params as { texts?: Record<string, unknown>[] };
+
+    if (!texts || texts.length === 0) {
+      throw new Error("At least one text overlay is required");
+    }
+
+    return { texts };
+  }
+
+  protected async prepareRequest(
+    request: Record<string, unknown>,
+    organizationId: string | undefined,
+  ) {
+    // Texts with fontId / fontUrl are drawn with the uploaded font
+    const { items, fonts } = await resolveFonts(
+      request.texts as FontReference[],
+      organizationId,
+    );
+    return { texts: items, fonts };
+  }
+
+  protected getOutput(): FFmpegUtilityOutput {
+    return { type: "video", mimeType: "video/mp4", extension: "mp4" };
+  }
+}
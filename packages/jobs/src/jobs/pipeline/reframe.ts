@@ -0,0 +1,143 @@
+import { storage } from "@repo/storage";
+import type PgBoss from "pg-boss";
+import { BasePipelineJob, type PipelineJobData } from "./base-pipeline-job.js";
+import { logger } from "@repo/logger";
+
+interface ReframeParams {
+  videoUrl?: string;
+  video?: string;
+  aspectRatio: string;
+  strategy?: "crop" | "blur" | "pad" | "smart";
+  backgroundColor?: string;
+}
+
+export class ReframeJob extends BasePipelineJob {
+  readonly type: string = "reframe";
+
+  async work(job: PgBoss.Job<PipelineJobData>): Promise<void> {
+    const { jobRecordId, executionId, jobId, params, dependencies } = job.data;
+    const typedParams = params as unknown as ReframeParams;
+
+    try {
+      await this.updateJobProgress(jobRecordId, "starting", 0);
+
+      // Get organizationId for storage
+      const execution = await this.getExecutionWithProviderKeys(jobRecordId);
+      const organizationId = execution.organizationId;
+
+      if (!typedParams.aspectRatio) {
+        throw new Error("aspectRatio is required for reframe");
+      }
+
+      // Explicit input wins, otherwise reframe the output of the previous job
+      const videoUrl =
+        typedParams.videoUrl ||
+        typedParams.video ||
+        this.resolveVideoFromDependencies(dependencies);
+
+      logger.info(
+        `[ReframeJob] Reframing ${videoUrl} to ${typedParams.aspectRatio} (${typedParams.strategy || "crop"})`,
+      );
+
+      await this.updateJobProgress(jobRecordId, "calling FFmpeg API", 20);
+
+      const ffmpegApiUrl =
+        process.env.FFMPEG_API_URL || "http://localhost:3200";
+      const response = await fetch(`${ffmpegApiUrl}/reframe`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          videoUrl,
+          aspectRatio: typedParams.aspectRatio,
+          strategy: typedParams.strategy,
+          backgroundColor: typedParams.backgroundColor,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `FFmpeg reframe failed: ${response.statusText} - ${errorText}`,
+        );
+      }
+
+      await this.updateJobProgress(
+        jobRecordId,
+        "downloading reframed video",
+        70,
+      );
+
+      const videoBuffer = await response.arrayBuffer();
+
+      await this.updateJobProgress(jobRecordId, "uploading to S3", 85);
+
+      const s3Key = `executions/${executionId}/${jobId}/output.mp4`;
+      const uploadResult = await storage.upload(
+        s3Key,
+        Buffer.from(videoBuffer),
+        {
+          contentType: "video/mp4",
+          organizationId,
+        },
+      );
+
+      if ("error" in uploadResult) {
+        throw uploadResult.error;
+      }
+
+      await this.updateJobProgress(jobRecordId, "completed", 100);
+      await this.completeJob(jobRecordId, {
+        status: "completed",
+        outputs: [
+          { type: "video", url: uploadResult.url, mimeType: "video/mp4" },
+        ],
+        metadata: {
+          aspectRatio: typedParams.aspectRatio,
+          strategy: typedParams.strategy || "crop",
+        },
+      });
+
+      logger.info(`[ReframeJob] Video reframed successfully`);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error(`[ReframeJob] Failed:`, errorMessage);
+      await this.failJob(jobRecordId, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Use the output of the upstream job when no video is passed explicitly
+   * (e.g. compose(generateVideo(...), reframe(...)))
+   */
+  private resolveVideoFromDependencies(
+    dependencies: Record<string, unknown>,
+  ): string {
+    for (const [depJobId, result] of Object.entries(dependencies)) {
+      if (!result || typeof result !== "object") continue;
+
+      if ("outputs" in result) {
+        const outputs = (result as { outputs: Array<{ url?: string }> })
+          .outputs;
+        if (Array.isArray(outputs) && outputs.length > 0 && outputs[0]?.url) {
+          return outputs[0].url;
+        }
+      }
+
+      if ("url" in result && typeof result.url === "string") {
+        return result.url;
+      }
+
+      logger.warn(
+        `[ReframeJob] Dependency ${depJobId} has no usable video URL`,
+      );
+    }
+
+    throw new Error(
+      "No video to reframe. Provide a video or chain reframe after a video operation.",
+    );
+  }
+}
@@ -10,6 +10,7 @@ import {
   type UnifiedBackgroundRemovalOptions,
 } from "@repo/model-schemas";
 import { db, executionJobs, eq } from "@repo/db";
+import { logger } from "@repo/logger";
 
 export class RemoveBackgroundJob extends BasePipelineJob {
   readonly type: string = "removeBackground";
@@ -20,7 +21,7 @@ export class RemoveBackgroundJob extends BasePipelineJob {
     try {
       await this.updateJobProgress(jobRecordId, "starting", 0);
 
-      console.log(
+      logger.info(
         `[RemoveBackgroundJob] Removing background with params:`,
         params,
       );
@@ -42,7 +43,7 @@ export class RemoveBackgroundJob extends BasePipelineJob {
       // Get video URL from dependencies if not provided directly
       let videoUrl = video;
       if (!videoUrl && dependencies && Object.keys(dependencies).length > 0) {
-        console.log(
+        logger.info(
           `[RemoveBackgroundJob] Extracting video URL from dependencies`,
         );
         const dependencyResults = Object.values(dependencies);
@@ -72,7 +73,7 @@ export class RemoveBackgroundJob extends BasePipelineJob {
         );
       }
 
-      console.log(`[RemoveBackgroundJob] Using video URL: ${videoUrl}`);
+      logger.info(`[RemoveBackgroundJob] Using video URL: ${videoUrl}`);
 
       const modelInfo = getModelInfo(modelId);
       if (!modelInfo) {
@@ -89,7 +90,7 @@ export class RemoveBackgroundJob extends BasePipelineJob {
       const validatedUnified =
         unifiedBackgroundRemovalOptionsSchema.parse(unifiedParams);
 
-      console.log(
+      logger.info(
         `[RemoveBackgroundJob] Validated unified params:`,
         validatedUnified,
       );
@@ -107,7 +108,7 @@ export class RemoveBackgroundJob extends BasePipelineJob {
         validatedUnified,
       );
 
-      console.log(
+      logger.info(
         `[RemoveBackgroundJob] Converted to provider params:`,
         providerParams,
       );
@@ -119,7 +120,7 @@ export class RemoveBackgroundJob extends BasePipelineJob {
           ...providerParams,
           ...otherParams,
         });
-        console.log(
+        logger.info(
           `[RemoveBackgroundJob] Validated params for ${modelId}:`,
           validatedParams,
         );
@@ -135,7 +136,7 @@ export class RemoveBackgroundJob extends BasePipelineJob {
       const capabilities = getModelCapabilities(modelId);
       const waitingStrategy = capabilities.defaultStrategy;
 
-      console.log(
+      logger.info(
         `[RemoveBackgroundJob] Using ${waitingStrategy} strategy for model ${modelId}`,
       );
 
@@ -150,15 +151,16 @@ export class RemoveBackgroundJob extends BasePipelineJob {
       const provider = VideoProviderFactory.getProvider(
         modelInfo.provider,
         providerApiKey,
+        execution.fakeProvider,
       );
 
       // Build webhook URL if provider supports webhooks
       const webhook = capabilities.supportsWebhooks
-        ? `${process.env.API_BASE_URL || "http://localhost:3000"}/api/webhooks/job/${jobRecordId}`
+        ? await this.createProviderWebhookUrl(jobRecordId)
         : undefined;
 
-      console.log(
-        `[RemoveBackgroundJob] Webhook URL: ${webhook} (API_BASE_URL: ${process.env.API_BASE_URL})`,
+      logger.info(
+        `[RemoveBackgroundJob] Webhook ${webhook ? "enabled" : "disabled"} (API_BASE_URL: ${process.env.API_BASE_URL})`,
       );
 
       // Start background removal (non-blocking)
@@ -168,7 +170,7 @@ export class RemoveBackgroundJob extends BasePipelineJob {
         webhook,
       );
 
-      console.log(
+      logger.info(
         `[RemoveBackgroundJob] Started provider job: ${generationStart.providerJobId}`,
       );
 
@@ -185,14 +187,16 @@ export class RemoveBackgroundJob extends BasePipelineJob {
           providerJobId: generationStart.providerJobId,
           waitingStrategy,
           nextPollAt,
-          metadata: {
-            ...params,
-            modelId, // Store modelId in metadata for webhook/polling parsing
-            providerJobId: generationStart.providerJobId,
-          },
         })
         .where(eq(executionJobs.id, jobRecordId));
 
+      // Merged so the plan params and retry policy survive for retries
+      await this.updateJobMetadata(jobRecordId, {
+        ...params,
+        modelId, // Store modelId in metadata for webhook/polling parsing
+        providerJobId: generationStart.providerJobId,
+      });
+
       await this.updateJobProgress(
         jobRecordId,
         waitingStrategy === "webhook"
@@ -201,7 +205,7 @@ export class RemoveBackgroundJob extends BasePipelineJob {
         20,
       );
 
-      console.log(
+      logger.info(
         `[RemoveBackgroundJob] Job ${jobRecordId} now waiting via ${waitingStrategy}. ` +
           `Provider job ID: ${generationStart.providerJobId}`,
       );
@@ -211,8 +215,8 @@ export class RemoveBackgroundJob extends BasePipelineJob {
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
-      console.error(`[RemoveBackgroundJob] Failed:`, errorMessage);
-      await this.failJob(jobRecordId, errorMessage);
+      logger.error(`[RemoveBackgroundJob] Failed:`, errorMessage);
+      await this.failJob(jobRecordId, error);
       throw error;
     }
   }
@@ -6,6 +6,7 @@ import {
   parseModelPolling,
   parseModelOptions,
 } from "@repo/model-schemas";
+import { logger } from "@repo/logger";
 
 export class RemoveImageBackgroundJob extends BasePipelineJob {
   readonly type: string = "removeImageBackground";
@@ -16,7 +17,7 @@ export class RemoveImageBackgroundJob extends BasePipelineJob {
     try {
       await this.updateJobProgress(jobRecordId, "starting", 0);
 
-      console.log(
+      logger.info(
         `[RemoveImageBackgroundJob] Removing background with params:`,
         params,
       );
@@ -45,7 +46,7 @@ export class RemoveImageBackgroundJob extends BasePipelineJob {
       // Resolve image URL from direct URL or job dependency
       let imageUrl: string;
       if (_imageJobDependency) {
-        console.log(
+        logger.info(
           `[RemoveImageBackgroundJob] Resolving image dependency: ${_imageJobDependency}`,
         );
 
@@ -75,7 +76,7 @@ export class RemoveImageBackgroundJob extends BasePipelineJob {
           );
         }
 
-        console.log(
+        logger.info(
           `[RemoveImageBackgroundJob] Resolved image URL: ${imageUrl}`,
         );
       } else if (image) {
@@ -96,7 +97,7 @@ export class RemoveImageBackgroundJob extends BasePipelineJob {
       let validatedParams: Record<string, unknown>;
       try {
         validatedParams = parseModelOptions(modelId, fullParams);
-        console.log(
+        logger.info(
           `[RemoveImageBackgroundJob] Validated params for ${modelId}:`,
           validatedParams,
         );
@@ -108,7 +109,7 @@ export class RemoveImageBackgroundJob extends BasePipelineJob {
         );
       }
 
-      console.log(
+      logger.info(
         `[RemoveImageBackgroundJob] Using synchronous polling for model ${modelId}`,
       );
 
@@ -123,6 +124,7 @@ export class RemoveImageBackgroundJob extends BasePipelineJob {
       const provider = VideoProviderFactory.getProvider(
         modelInfo.provider,
         providerApiKey,
+        execution.fakeProvider,
       );
 
       // Start background removal (no webhook needed - we'll poll synchronously)
@@ -131,7 +133,7 @@ export class RemoveImageBackgroundJob extends BasePipelineJob {
         validatedParams,
       );
 
-      console.log(
+      logger.info(
         `[RemoveImageBackgroundJob] Started provider job: ${generationStart.providerJobId}`,
       );
 
@@ -178,7 +180,7 @@ export class RemoveImageBackgroundJob extends BasePipelineJob {
           // Parse the raw response using the model's polling parser
           const parsedResult = parseModelPolling(modelId, rawResponse);
 
-          console.log(
+          logger.info(
             `[RemoveImageBackgroundJob] Background removed successfully`,
           );
 
@@ -196,8 +198,8 @@ export class RemoveImageBackgroundJob extends BasePipelineJob {
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
-      console.error(`[RemoveImageBackgroundJob] Failed:`, errorMessage);
-      await this.failJob(jobRecordId, errorMessage);
+      logger.error(`[RemoveImageBackgroundJob] Failed:`, errorMessage);
+      await this.failJob(jobRecordId, error);
       throw error;
     }
   }
@@ -0,0 +1,55 @@
+import {
+  FFmpegUtilityJob,
+  type FFmpegUtilityOutput,
+} from "./ffmpeg-utility-job.js";
+
+/**
+ * Base for jobs that retime video or audio (trim, speed, loop, reverse).
+ * The FFmpeg service returns MP4 for video input and MP3 for audio input.
+ */
+export abstract class RetimeJob extends FFmpegUtilityJob {
+  protected getOutput(
+    _params: Record<string, unknown>,
+    contentType: string | null,
+  ): FFmpegUtilityOutput {
+    return contentType?.startsWith("audio/")
+      ? { type: "audio", mimeType: "audio/mpeg", extension: "mp3" }
+      : { type: "video", mimeType: "video/mp4", extension: "mp4" };
+  }
+}
+
+export class TrimJob extends RetimeJob {
+  readonly type: string = "trim";
+  protected readonly route = "/trim";
+
+  protected buildRequest(params: Record<string, unknown>) {
+    return { start: params.start, end: params.end };
+  }
+}
+
+export class SpeedJob extends RetimeJob {
+  readonly type: string = "speed";
+  protected readonly route = "/speed";
+
+  protected buildRequest(params: Record<string, unknown>) {
+    return { factor: params.factor, preservePitch: params.preservePitch };
+  }
+}
+
+export class LoopJob extends RetimeJob {
+  readonly type: string = "loop";
+  protected readonly route = "/loop";
+
+  protected buildRequest(params: Record<string, unknown>) {
+    return { count: params.count, duration: params.duration };
+  }
+}
+
+export class ReverseJob extends RetimeJob {
+  readonly type: string = "reverse";
+  protected readonly route = "/reverse";
+
+  protected buildRequest() {
+    return {};
+  }
+}
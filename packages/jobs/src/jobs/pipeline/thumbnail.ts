@@ -0,0 +1,25 @@
+import {
+  FFmpegUtilityJob,
+  type FFmpegUtilityOutput,
+} from "./ffmpeg-utility-job.js";
+
+interface ThumbnailParams {
+  /** Seconds into the video, or "HH:MM:SS" */
+  time?: number | string;
+  width?: number;
+  height?: number;
+}
+
+export class ThumbnailJob extends FFmpegUtilityJob {
+  readonly type: string = "thumbnail";
+  protected readonly route = "/thumbnail";
+
+  protected buildRequest(params: Record<string, unknown>) {
+    const { time, width, height } = params as ThumbnailParams;
+    return { time, width, height };
+  }
+
+  protected getOutput(): FFmpegUtilityOutput {
+    return { type: "image", mimeType: "image/jpeg", extension: "jpg" };
+  }
+}
@@ -0,0 +1,25 @@
+import {
+  FFmpegUtilityJob,
+  type FFmpegUtilityOutput,
+} from "./ffmpeg-utility-job.js";
+
+interface ToGifParams {
+  fps?: number;
+  width?: number;
+  startTime?: number;
+  duration?: number;
+}
+
+export class ToGifJob extends FFmpegUtilityJob {
+  readonly type: string = "toGif";
+  protected readonly route = "/create-gif";
+
+  protected buildRequest(params: Record<string, unknown>) {
+    const { fps, width, startTime, duration } = params as ToGifParams;
+    return { fps, width, startTime, duration };
+  }
+
+  protected getOutput(): FFmpegUtilityOutput {
+    return { type: "image", mimeType: "image/gif", extension: "gif" };
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  FFmpegUtilityJob,
+  type FFmpegUtilityOutput,
+} from "./ffmpeg-utility-job.js";
+
+type VideoFormat = "mp4" | "webm" | "mov";
+
+interface TranscodeParams {
+  format?: VideoFormat;
+  quality?: "low" | "medium" | "high";
+  width?: number;
+  height?: number;
+  fps?: number;
+}
+
+const VIDEO_MIME_TYPES: Record<VideoFormat, string> = {
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+};
+
+export class TranscodeJob extends FFmpegUtilityJob {
+  readonly type: string = "transcode";
+  protected readonly route = "/compress-video";
+
+  protected buildRequest(params: Record<string, unknown>) {
+    const { format, quality, width, height, fps } = params as TranscodeParams;
+    return { format: format || "mp4", quality, width, height, fps };
+  }
+
+  protected getOutput(params: Record<string, unknown>): FFmpegUtilityOutput {
+    const format = (params.format as VideoFormat | undefined) || "mp4";
+    return {
+      type: "video",
+      mimeType: VIDEO_MIME_TYPES[format],
+      extension: format,
+    };
+  }
+}
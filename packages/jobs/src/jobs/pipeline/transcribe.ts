@@ -8,6 +8,20 @@ import {
   parseModelOptions,
   parseModelPolling,
 } from "@repo/model-schemas";
+import { logger } from "@repo/logger";
+
+const INCREDIBLY_FAST_WHISPER =
+  "vaibhavs10/incredibly-fast-whisper:3ab86df6c8f54c11309d4d1f930ac292bad43ace52d10c80d87eb258b3c9f79c";
+
+// Models that can label speakers (diarization)
+const DIARIZATION_MODELS = [INCREDIBLY_FAST_WHISPER];
+
+interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+  speaker?: string;
+}
 
 export class TranscribeJob extends BasePipelineJob {
   readonly type = "transcribe";
@@ -18,19 +32,21 @@ export class TranscribeJob extends BasePipelineJob {
     try {
       await this.updateJobProgress(jobRecordId, "starting", 0);
 
-      console.log(`[TranscribeJob] Processing job ${jobRecordId}`);
-      console.log(`[TranscribeJob] Params:`, params);
+      logger.info(`[TranscribeJob] Processing job ${jobRecordId}`);
+      logger.info(`[TranscribeJob] Params:`, params);
 
       // Extract params
       const {
         modelId,
         apiKey: modelApiKey,
         videoUrl,
+        diarize,
         ...otherParams
       } = params as {
         modelId?: string;
         apiKey?: string;
         videoUrl?: string;
+        diarize?: boolean; // Label words with their speaker, when the model supports it
         [key: string]: any;
       };
 
@@ -48,7 +64,7 @@ export class TranscribeJob extends BasePipelineJob {
         throw new Error(`Unknown model: ${modelId}`);
       }
 
-      console.log(
+      logger.info(
         `[TranscribeJob] Model: ${modelId}, Provider: ${modelInfo.provider}`,
       );
 
@@ -61,21 +77,22 @@ export class TranscribeJob extends BasePipelineJob {
           modelInfo.provider as keyof typeof execution.providerApiKeys
         ];
 
-      if (!providerKey) {
+      // Test-mode executions run on the fake provider, which needs no key
+      if (!providerKey && !execution.fakeProvider) {
         throw new Error(
           `No API key found for provider: ${modelInfo.provider}. Please provide API key.`,
         );
       }
 
       // Step 1: Extract audio from video using FFmpeg service
-      console.log(`[TranscribeJob] Extracting audio from video: ${videoUrl}`);
+      logger.info(`[TranscribeJob] Extracting audio from video: ${videoUrl}`);
       await this.updateJobProgress(jobRecordId, "extracting_audio", 20);
 
       const audioUrl = await this.extractAudioFromVideo(
         videoUrl,
         organizationId,
       );
-      console.log(`[TranscribeJob] Audio extracted: ${audioUrl}`);
+      logger.info(`[TranscribeJob] Audio extracted: ${audioUrl}`);
 
       await this.updateJobProgress(jobRecordId, "validating_params", 30);
 
@@ -83,18 +100,37 @@ export class TranscribeJob extends BasePipelineJob {
       // Different models have different parameter formats
       let transcribeParams: Record<string, any>;
 
-      if (
-        modelId ===
-        "vaibhavs10/incredibly-fast-whisper:3ab86df6c8f54c11309d4d1f930ac292bad43ace52d10c80d87eb258b3c9f79c"
-      ) {
+      const diarization = !!diarize && DIARIZATION_MODELS.includes(modelId);
+      if (diarize && !diarization) {
+        logger.warn(
+          `[TranscribeJob] ${modelId} can't label speakers, transcribing without speakers`,
+        );
+      }
+
+      if (modelId === INCREDIBLY_FAST_WHISPER) {
         // incredibly-fast-whisper parameters
         transcribeParams = {
           audio: audioUrl,
           task: "transcribe",
           language: "None", // Auto-detect
           timestamp: "word", // Word-level timestamps
+          ...(diarization && {
+            // pyannote diarization needs a HuggingFace token
+            diarization: true,
+            hf_token: otherParams.hf_token || process.env.HF_TOKEN,
+          }),
           ...otherParams,
         };
+
+        if (
+          diarization &&
+          !transcribeParams.hf_token &&
+          !execution.fakeProvider
+        ) {
+          throw new Error(
+            "Speaker labels need a HuggingFace token. Please export HF_TOKEN in your environment.",
+          );
+        }
       } else {
         // openai/whisper parameters
         transcribeParams = {
@@ -109,7 +145,7 @@ export class TranscribeJob extends BasePipelineJob {
       let validatedParams: Record<string, unknown>;
       try {
         validatedParams = parseModelOptions(modelId, transcribeParams);
-        console.log(
+        logger.info(
           `[TranscribeJob] Validated params for ${modelId}:`,
           validatedParams,
         );
@@ -127,9 +163,10 @@ export class TranscribeJob extends BasePipelineJob {
       const providerInstance = VideoProviderFactory.getProvider(
         modelInfo.provider,
         providerKey,
+        execution.fakeProvider,
       );
 
-      console.log(
+      logger.info(
         `[TranscribeJob] Calling provider ${modelInfo.provider} with validated params`,
         transcribeParams,
       );
@@ -140,7 +177,7 @@ export class TranscribeJob extends BasePipelineJob {
         validatedParams,
       );
 
-      console.log(
+      logger.info(
         `[TranscribeJob] Started transcription job: ${generationStart.providerJobId}`,
       );
 
@@ -187,7 +224,7 @@ export class TranscribeJob extends BasePipelineJob {
           // Parse using model's polling parser
           const parsedResult = parseModelPolling(modelId, rawResponse);
 
-          console.log(
+          logger.info(
             `[TranscribeJob] Transcription completed:`,
             JSON.stringify(parsedResult).substring(0, 200),
           );
@@ -200,7 +237,7 @@ export class TranscribeJob extends BasePipelineJob {
 
           // Normalize transcript from parsed result
           // The parser wraps the response in { status, outputs: [{ type, data }] }
-          let transcript: any[];
+          let transcript: TranscriptWord[];
 
           // Extract the actual transcript data from the wrapper
           let transcriptData: any;
@@ -221,7 +258,7 @@ export class TranscribeJob extends BasePipelineJob {
             transcriptData = parsedResult;
           }
 
-          console.log(
+          logger.info(
             `[TranscribeJob] Extracted transcript data:`,
             JSON.stringify(transcriptData).substring(0, 300),
           );
@@ -234,6 +271,14 @@ export class TranscribeJob extends BasePipelineJob {
               start: chunk.timestamp[0],
               end: chunk.timestamp[1],
             }));
+
+            // With diarization: { speakers: [{ speaker, text, timestamp: [start, end] }] }
+            if (Array.isArray(transcriptData.speakers)) {
+              transcript = this.assignSpeakers(
+                transcript,
+                transcriptData.speakers,
+              );
+            }
           } else if (transcriptData.segments) {
             // openai/whisper format with segments (may have words array)
             transcript = transcriptData.segments.flatMap((s: any) =>
@@ -242,6 +287,9 @@ export class TranscribeJob extends BasePipelineJob {
                     word: w.word,
                     start: w.start,
                     end: w.end,
+                    ...((w.speaker ?? s.speaker) !== undefined && {
+                      speaker: String(w.speaker ?? s.speaker),
+                    }),
                   }))
                 : [],
             );
@@ -249,7 +297,7 @@ export class TranscribeJob extends BasePipelineJob {
             // Direct words array
             transcript = transcriptData.words;
           } else {
-            console.error(
+            logger.error(
               "[TranscribeJob] Unexpected transcript format:",
               JSON.stringify(transcriptData).substring(0, 200),
             );
@@ -262,8 +310,11 @@ export class TranscribeJob extends BasePipelineJob {
             throw new Error("Transcription completed but returned no words");
           }
 
-          console.log(
-            `[TranscribeJob] Transcription completed with ${transcript.length} words`,
+          const speakers = new Set(
+            transcript.flatMap((w) => (w.speaker ? [w.speaker] : [])),
+          );
+          logger.info(
+            `[TranscribeJob] Transcription completed with ${transcript.length} words${speakers.size > 0 ? ` from ${speakers.size} speakers` : ""}`,
           );
 
           await this.updateJobProgress(jobRecordId, "uploading", 90);
@@ -289,7 +340,7 @@ export class TranscribeJob extends BasePipelineJob {
 
           const transcriptUrl = uploadResult.url;
 
-          console.log(`[TranscribeJob] Transcript uploaded: ${transcriptUrl}`);
+          logger.info(`[TranscribeJob] Transcript uploaded: ${transcriptUrl}`);
 
           await this.updateJobProgress(jobRecordId, "completed", 100);
 
@@ -297,7 +348,10 @@ export class TranscribeJob extends BasePipelineJob {
           await this.completeJob(jobRecordId, {
             url: transcriptUrl,
             status: "completed",
-            metadata: { wordCount: transcript.length },
+            metadata: {
+              wordCount: transcript.length,
+              ...(speakers.size > 0 && { speakers: [...speakers] }),
+            },
           });
           return;
         }
@@ -310,13 +364,42 @@ export class TranscribeJob extends BasePipelineJob {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       const errorStack = error instanceof Error ? error.stack : undefined;
-      console.error(`[TranscribeJob] Failed:`, errorMessage);
-      console.error(`[TranscribeJob] Error stack:`, errorStack);
-      await this.failJob(jobRecordId, errorMessage);
+      logger.error(`[TranscribeJob] Failed:`, errorMessage);
+      logger.error(`[TranscribeJob] Error stack:`, errorStack);
+      await this.failJob(jobRecordId, error);
       throw error;
     }
   }
 
+  /**
+   * Label each word with the speaker of the diarized segment it falls in,
+   * or the nearest segment for words between segments
+   */
+  private assignSpeakers(
+    words: TranscriptWord[],
+    segments: Array<{ speaker?: string; timestamp?: [number, number | null] }>,
+  ): TranscriptWord[] {
+    const labeled = segments.filter(
+      (segment) => segment.speaker && Array.isArray(segment.timestamp),
+    );
+    if (labeled.length === 0) {
+      return words;
+    }
+
+    return words.map((word) => {
+      const middle = (word.start + word.end) / 2;
+      const distance = (segment: (typeof labeled)[number]) => {
+        const start = segment.timestamp![0];
+        const end = segment.timestamp![1] ?? start;
+        return middle < start ? start - middle : Math.max(0, middle - end);
+      };
+      const segment = labeled.reduce((a, b) =>
+        distance(b) < distance(a) ? b : a,
+      );
+      return { ...word, speaker: segment.speaker };
+    });
+  }
+
   /**
    * Extract audio from video and upload to storage
    */
@@ -374,7 +457,7 @@ export class TranscribeJob extends BasePipelineJob {
 
       return uploadResult.url;
     } catch (error) {
-      console.error("[TranscribeJob] Audio extraction failed:", error);
+      logger.error("[TranscribeJob] Audio extraction failed:", error);
       throw new Error(
         `Failed to extract audio: ${error instanceof Error ? error.message : "Unknown error"}`,
       );
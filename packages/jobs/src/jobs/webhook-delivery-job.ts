@@ -2,6 +2,7 @@ import type PgBoss from "pg-boss";
 import { BaseJob } from "../core/base-job";
 import { deliverWebhook } from "@repo/db";
 import { db, executions, eq } from "@repo/db";
+import { logger } from "@repo/logger";
 
 interface WebhookDeliveryJobData {
   executionId: string;
@@ -19,7 +20,7 @@ export class WebhookDeliveryJob extends BaseJob<WebhookDeliveryJobData> {
   async work(job: PgBoss.Job<WebhookDeliveryJobData>): Promise<void> {
     const { executionId } = job.data;
 
-    console.log(
+    logger.info(
       `[WebhookDeliveryJob] Delivering webhook for execution: ${executionId}`,
     );
 
@@ -31,7 +32,7 @@ export class WebhookDeliveryJob extends BaseJob<WebhookDeliveryJobData> {
         .where(eq(executions.id, executionId));
 
       if (!execution) {
-        console.error(
+        logger.error(
           `[WebhookDeliveryJob] Execution not found: ${executionId}`,
         );
         throw new Error(`Execution not found: ${executionId}`);
@@ -39,7 +40,7 @@ export class WebhookDeliveryJob extends BaseJob<WebhookDeliveryJobData> {
 
       // Check if webhook already delivered
       if (execution.webhookDeliveredAt) {
-        console.log(
+        logger.info(
           `[WebhookDeliveryJob] Webhook already delivered for ${executionId}`,
         );
         return;
@@ -47,7 +48,7 @@ export class WebhookDeliveryJob extends BaseJob<WebhookDeliveryJobData> {
 
       // Check if execution has a webhook URL
       if (!execution.webhook) {
-        console.log(
+        logger.info(
           `[WebhookDeliveryJob] No webhook URL for execution ${executionId}`,
         );
         return;
@@ -60,11 +61,11 @@ export class WebhookDeliveryJob extends BaseJob<WebhookDeliveryJobData> {
         throw new Error(result.error || "Webhook delivery failed");
       }
 
-      console.log(
+      logger.info(
         `[WebhookDeliveryJob] ✅ Webhook delivered successfully for ${executionId}`,
       );
     } catch (error) {
-      console.error(
+      logger.error(
         `[WebhookDeliveryJob] Failed to deliver webhook for ${executionId}:`,
         error,
       );
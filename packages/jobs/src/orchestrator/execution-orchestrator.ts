@@ -1,6 +1,53 @@
-import { db, eq, executionJobs, executions } from "@repo/db";
+import { providerKeyService } from "@repo/api-keys";
+import {
+  and,
+  db,
+  desc,
+  eq,
+  executionJobs,
+  executions,
+  inArray,
+  organizationFonts,
+  publishExecutionEvent,
+  sql,
+} from "@repo/db";
 import { generateId } from "@repo/tools";
+import { getModelInfo } from "@repo/model-schemas";
+import {
+  validateExecutionPlan,
+  type ModelAccess,
+  type PlanDiagnostic,
+} from "@repo/plan-validator";
+import {
+  classifyProviderError,
+  TranslationServiceFactory,
+  VideoProviderFactory,
+} from "@repo/providers";
 import { JobClient } from "../client/job-client";
+import {
+  getConcurrencyLimits,
+  getInFlightJobs,
+  hasFreeSlot,
+} from "../utils/concurrency-limits";
+import {
+  computeJobFingerprint,
+  JOB_CACHE_TTL_MS,
+} from "../utils/job-fingerprint";
+import { getJobOutputUrl } from "../utils/job-output";
+import { getFallbackProvider, useProvider } from "../utils/provider-fallback";
+import {
+  getRetryDelayMs,
+  resolveRetryPolicy,
+  type RetryPolicy,
+} from "../utils/retry-policy";
+import type { TestModeOptions } from "../utils/test-mode";
+import { logger } from "@repo/logger";
+
+/**
+ * Params of the form `$ref:<jobId>` are replaced with that job's output URL
+ * (at any depth) before the job is emitted
+ */
+const JOB_REFERENCE_PREFIX = "$ref:";
 
 interface ExecutionPlan {
   jobs: JobNode[];
@@ -15,6 +62,8 @@ interface JobNode {
   dependsOn?: string[]; // For backward compatibility
   dependencies?: string[]; // New field
   output?: string; // Make optional
+  cache?: boolean; // false to always run, even if a cached result exists
+  retry?: RetryPolicy; // Retry failed attempts (not retried by default)
 }
 
 interface CreateExecutionOptions {
@@ -23,6 +72,9 @@ interface CreateExecutionOptions {
   baseExecutionId?: string;
   organizationId?: string;
   apiKeyId?: string;
+  cache?: boolean; // false to disable result caching for every job
+  retry?: RetryPolicy; // Default retry policy for jobs without their own
+  testMode?: TestModeOptions; // Set for test API keys: jobs run on the fake provider
   providerApiKeys?: {
     replicate?: string;
     fal?: string;
@@ -51,6 +103,20 @@ export class ExecutionOrchestrator {
     executionPlan: ExecutionPlan,
     options: CreateExecutionOptions = {},
   ): Promise<string> {
+    // Reject plans that could never complete before anything is persisted
+    const diagnostics = await this.validatePlan(
+      executionPlan,
+      options.baseExecutionId || executionPlan.baseExecutionId,
+      options.organizationId,
+      undefined,
+      !!options.testMode,
+    );
+    if (diagnostics.length > 0) {
+      throw new Error(
+        `Invalid execution plan: ${diagnostics.map((d) => d.message).join("; ")}`,
+      );
+    }
+
     const executionId = generateId();
 
     const jobRecords = executionPlan.jobs.map((job) => ({
@@ -60,13 +126,20 @@ export class ExecutionOrchestrator {
       pgBossJobId: null,
       status: "pending",
       operation: job.operation || job.type || "",
-      dependencies: job.dependencies || job.dependsOn || [],
+      // A job can't start before the jobs its params reference
+      dependencies: [
+        ...new Set([
+          ...(job.dependencies || job.dependsOn || []),
+          ...this.collectJobReferences(job.params),
+        ]),
+      ],
       organizationId: options.organizationId,
       actionLogged: false,
       metadata: {
         params: job.params,
         output: job.output,
-        attempts: 0,
+        retry: job.retry ?? options.retry,
+        cache: job.cache !== false && options.cache !== false,
       },
     }));
 
@@ -80,8 +153,11 @@ export class ExecutionOrchestrator {
       webhookSecret: options.webhookSecret,
       organizationId: options.organizationId,
       apiKeyId: options.apiKeyId,
-      providerApiKeys: options.providerApiKeys,
+      providerApiKeysEncrypted: providerKeyService.encryptExecutionKeys(
+        options.providerApiKeys,
+      ),
       actionsCounted: 0,
+      testMode: options.testMode,
     });
 
     // Then insert jobs
@@ -93,6 +169,119 @@ export class ExecutionOrchestrator {
     return executionId;
   }
 
+  /**
+   * Check a plan with the shared validator. Plans that build on a base
+   * execution may depend on and reference that execution's jobs, plans of
+   * an organization may only use the fonts it has uploaded, and plans sent
+   * with a restricted API key may only use the models the key allows.
+   * Translations need a configured translation provider, except in test
+   * mode where they are stubbed.
+   */
+  async validatePlan(
+    executionPlan: unknown,
+    baseExecutionId?: string,
+    organizationId?: string,
+    modelAccess?: ModelAccess,
+    testMode = false,
+  ): Promise<PlanDiagnostic[]> {
+    const baseExecutionJobs = baseExecutionId
+      ? await db.query.executionJobs.findMany({
+          where: eq(executionJobs.executionId, baseExecutionId),
+        })
+      : [];
+    const fonts = organizationId
+      ? await db.query.organizationFonts.findMany({
+          where: eq(organizationFonts.organizationId, organizationId),
+          columns: { id: true },
+        })
+      : undefined;
+
+    return validateExecutionPlan(executionPlan, {
+      externalJobIds: baseExecutionJobs.map((job) => job.jobId),
+      fontIds: fonts?.map((font) => font.id),
+      modelAccess,
+      translationAvailable:
+        testMode || TranslationServiceFactory.isConfigured(),
+    });
+  }
+
+  /**
+   * Collect the job IDs referenced anywhere in a job's params
+   */
+  private collectJobReferences(value: unknown, refs = new Set<string>()) {
+    if (typeof value === "string") {
+      if (value.startsWith(JOB_REFERENCE_PREFIX)) {
+        refs.add(value.slice(JOB_REFERENCE_PREFIX.length));
+      }
+    } else if (Array.isArray(value)) {
+      for (const item of value) this.collectJobReferences(item, refs);
+    } else if (value && typeof value === "object") {
+      for (const item of Object.values(value)) {
+        this.collectJobReferences(item, refs);
+      }
+    }
+    return refs;
+  }
+
+  /**
+   * Replace every `$ref:<jobId>` in params with the referenced job's output URL
+   */
+  private resolveJobReferences(
+    value: unknown,
+    allJobs: any[],
+    baseExecutionJobs: any[],
+  ): unknown {
+    if (typeof value === "string") {
+      if (!value.startsWith(JOB_REFERENCE_PREFIX)) {
+        return value;
+      }
+
+      const refJobId = value.slice(JOB_REFERENCE_PREFIX.length);
+      const refJob =
+        allJobs.find((j) => j.jobId === refJobId) ||
+        baseExecutionJobs.find((j) => j.jobId === refJobId);
+
+      if (!refJob?.result) {
+        logger.error(
+          `[Orchestrator] Referenced job ${refJobId} not found or has no result`,
+        );
+        throw new Error(`Job reference ${refJobId} not found`);
+      }
+
+      const url = getJobOutputUrl(refJob.result);
+
+      if (!url) {
+        logger.error(
+          `[Orchestrator] Referenced job ${refJobId} has invalid result format:`,
+          refJob.result,
+        );
+        throw new Error(`Referenced job ${refJobId} output has no URL`);
+      }
+
+      logger.info(
+        `[Orchestrator] Resolved job reference ${refJobId} to URL: ${url}`,
+      );
+      return url;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) =>
+        this.resolveJobReferences(item, allJobs, baseExecutionJobs),
+      );
+    }
+
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.resolveJobReferences(item, allJobs, baseExecutionJobs),
+        ]),
+      );
+    }
+
+    return value;
+  }
+
   async emitReadyJobs(
     executionId: string,
     baseExecutionId?: string,
@@ -149,6 +338,7 @@ export class ExecutionOrchestrator {
   private async emitJob(
     executionId: string,
     jobRecordId: string,
+    retryDelayMs?: number,
   ): Promise<void> {
     // Fetch job and execution data in parallel
     const [job, execution] = await Promise.all([
@@ -180,14 +370,25 @@ export class ExecutionOrchestrator {
         : Promise.resolve([]),
     ]);
 
-    await this.emitJobWithData(executionId, job, allJobs, baseExecutionJobs);
+    await this.emitJobWithData(
+      executionId,
+      job,
+      allJobs,
+      baseExecutionJobs,
+      retryDelayMs,
+    );
   }
 
+  /**
+   * @param retryDelayMs - Set when re-running a failed job; the attempt starts
+   * after this delay (0 for a provider fallback) and never reuses a cached output
+   */
   private async emitJobWithData(
     executionId: string,
     job: any,
     allJobs: any[],
     baseExecutionJobs: any[],
+    retryDelayMs?: number,
   ): Promise<void> {
     const dependencies = (job.dependencies || []) as string[];
     const dependencyResults: Record<string, any> = {};
@@ -204,8 +405,13 @@ export class ExecutionOrchestrator {
       }
     }
 
-    // Resolve image job dependencies in params
-    let params = (job.metadata as any)?.params || {};
+    let params = this.resolveJobReferences(
+      (job.metadata as any)?.params || {},
+      allJobs,
+      baseExecutionJobs,
+    ) as Record<string, any>;
+
+    // Resolve legacy image job dependency markers in params
     if (params.image && typeof params.image === "string") {
       const imageDepMarker = params.image as string;
       if (imageDepMarker.startsWith("_imageJobDependency:")) {
@@ -225,14 +431,14 @@ export class ExecutionOrchestrator {
             const imageUrl = result.outputs[0].url;
             if (imageUrl) {
               params = { ...params, image: imageUrl };
-              console.log(
+              logger.info(
                 `[Orchestrator] Resolved image dependency ${imageJobId} to URL: ${imageUrl}`,
               );
             } else {
               throw new Error(`Image job ${imageJobId} output has no URL`);
             }
           } else {
-            console.error(
+            logger.error(
               `[Orchestrator] Image job ${imageJobId} has invalid result format:`,
               imageJob.result,
             );
@@ -241,7 +447,7 @@ export class ExecutionOrchestrator {
             );
           }
         } else {
-          console.error(
+          logger.error(
             `[Orchestrator] Image job ${imageJobId} not found or has no result`,
           );
           throw new Error(`Image job dependency ${imageJobId} not found`);
@@ -269,14 +475,14 @@ export class ExecutionOrchestrator {
             const audioUrl = result.outputs[0].url;
             if (audioUrl) {
               params = { ...params, audio: audioUrl };
-              console.log(
+              logger.info(
                 `[Orchestrator] Resolved audio dependency ${audioJobId} to URL: ${audioUrl}`,
               );
             } else {
               throw new Error(`Audio job ${audioJobId} output has no URL`);
             }
           } else {
-            console.error(
+            logger.error(
               `[Orchestrator] Audio job ${audioJobId} has invalid result format:`,
               audioJob.result,
             );
@@ -285,7 +491,7 @@ export class ExecutionOrchestrator {
             );
           }
         } else {
-          console.error(
+          logger.error(
             `[Orchestrator] Audio job ${audioJobId} not found or has no result`,
           );
           throw new Error(`Audio job dependency ${audioJobId} not found`);
@@ -313,14 +519,14 @@ export class ExecutionOrchestrator {
             const videoUrl = result.outputs[0].url;
             if (videoUrl) {
               params = { ...params, video: videoUrl };
-              console.log(
+              logger.info(
                 `[Orchestrator] Resolved video dependency ${videoJobId} to URL: ${videoUrl}`,
               );
             } else {
               throw new Error(`Video job ${videoJobId} output has no URL`);
             }
           } else {
-            console.error(
+            logger.error(
               `[Orchestrator] Video job ${videoJobId} has invalid result format:`,
               videoJob.result,
             );
@@ -329,7 +535,7 @@ export class ExecutionOrchestrator {
             );
           }
         } else {
-          console.error(
+          logger.error(
             `[Orchestrator] Video job ${videoJobId} not found or has no result`,
           );
           throw new Error(`Video job dependency ${videoJobId} not found`);
@@ -360,7 +566,7 @@ export class ExecutionOrchestrator {
             const videoUrl = result.outputs[0].url;
             if (videoUrl) {
               params = { ...params, videoUrl: videoUrl };
-              console.log(
+              logger.info(
                 `[Orchestrator] Resolved videoUrl dependency ${videoJobId} to URL: ${videoUrl}`,
               );
             } else {
@@ -369,11 +575,11 @@ export class ExecutionOrchestrator {
           } else if (result.url) {
             // Fallback for direct URL format
             params = { ...params, videoUrl: result.url };
-            console.log(
+            logger.info(
               `[Orchestrator] Resolved videoUrl dependency ${videoJobId} to URL: ${result.url}`,
             );
           } else {
-            console.error(
+            logger.error(
               `[Orchestrator] Video job ${videoJobId} has invalid result format:`,
               videoJob.result,
             );
@@ -382,7 +588,7 @@ export class ExecutionOrchestrator {
             );
           }
         } else {
-          console.error(
+          logger.error(
             `[Orchestrator] Video job ${videoJobId} not found or has no result`,
           );
           throw new Error(`Video job dependency ${videoJobId} not found`);
@@ -412,7 +618,7 @@ export class ExecutionOrchestrator {
             const transcriptUrl = result.outputs[0].url;
             if (transcriptUrl) {
               params = { ...params, transcript: transcriptUrl };
-              console.log(
+              logger.info(
                 `[Orchestrator] Resolved transcript dependency ${transcriptJobId} to URL: ${transcriptUrl}`,
               );
             } else {
@@ -422,11 +628,11 @@ export class ExecutionOrchestrator {
             }
           } else if (result.url) {
             params = { ...params, transcript: result.url };
-            console.log(
+            logger.info(
               `[Orchestrator] Resolved transcript dependency ${transcriptJobId} to URL: ${result.url}`,
             );
           } else {
-            console.error(
+            logger.error(
               `[Orchestrator] Transcript job ${transcriptJobId} has invalid result format:`,
               transcriptJob.result,
             );
@@ -435,7 +641,7 @@ export class ExecutionOrchestrator {
             );
           }
         } else {
-          console.error(
+          logger.error(
             `[Orchestrator] Transcript job ${transcriptJobId} not found or has no result`,
           );
           throw new Error(
@@ -467,14 +673,14 @@ export class ExecutionOrchestrator {
               const bgUrl = result.outputs[0].url;
               if (bgUrl) {
                 resolvedBackgrounds.push(bgUrl);
-                console.log(
+                logger.info(
                   `[Orchestrator] Resolved background dependency ${bgJobId} to URL: ${bgUrl}`,
                 );
               } else {
                 throw new Error(`Background job ${bgJobId} output has no URL`);
               }
             } else {
-              console.error(
+              logger.error(
                 `[Orchestrator] Background job ${bgJobId} has invalid result format:`,
                 bgJob.result,
               );
@@ -483,7 +689,7 @@ export class ExecutionOrchestrator {
               );
             }
           } else {
-            console.error(
+            logger.error(
               `[Orchestrator] Background job ${bgJobId} not found or has no result`,
             );
             throw new Error(`Background job dependency ${bgJobId} not found`);
@@ -503,6 +709,26 @@ export class ExecutionOrchestrator {
       };
     }
 
+    // After a fallback, run the same model on the provider now serving the job
+    if (job.provider) {
+      params = useProvider(params, job.provider);
+    }
+
+    const cacheEnabled = (job.metadata as any)?.cache !== false;
+    const fingerprint = computeJobFingerprint(
+      job.operation,
+      params,
+      dependencyResults,
+    );
+
+    if (
+      cacheEnabled &&
+      retryDelayMs === undefined &&
+      (await this.completeFromCache(executionId, job, fingerprint))
+    ) {
+      return;
+    }
+
     const jobData = {
       executionId,
       jobRecordId: job.id,
@@ -512,16 +738,491 @@ export class ExecutionOrchestrator {
       dependencies: dependencyResults,
     };
 
-    const pgBossJobId = await this.jobClient.emit(job.operation, jobData);
+    const provider =
+      typeof params.modelId === "string"
+        ? (getModelInfo(params.modelId)?.provider ?? null)
+        : null;
+
+    // New provider jobs need a free slot of their organization; retries
+    // keep the slot of the attempt they replace
+    const needsSlot = !!(
+      provider &&
+      job.organizationId &&
+      job.status === "pending"
+    );
+    if (needsSlot && (await this.claimSlot(job, provider!)) !== "claimed") {
+      return;
+    }
 
-    await db
+    let pgBossJobId: string;
+    try {
+      pgBossJobId = await this.jobClient.emit(
+        job.operation,
+        jobData,
+        retryDelayMs !== undefined
+          ? { startAfter: Math.ceil(retryDelayMs / 1000) }
+          : undefined,
+      );
+    } catch (error) {
+      // Give the slot back, the job never started
+      if (needsSlot) {
+        await db
+          .update(executionJobs)
+          .set({ status: "pending" })
+          .where(
+            and(
+              eq(executionJobs.id, job.id),
+              eq(executionJobs.status, "processing"),
+            ),
+          );
+      }
+      throw error;
+    }
+
+    // A cancel landing while the job was emitted couldn't remove the
+    // pg-boss job yet (its ID wasn't stored), so remove it here
+    const [queuedJob] = await db
       .update(executionJobs)
       .set({
         pgBossJobId,
         status: "processing",
-        startedAt: new Date(),
+        startedAt: new Date(Date.now() + (retryDelayMs ?? 0)),
+        provider,
+        fingerprint,
+      })
+      .where(
+        and(
+          eq(executionJobs.id, job.id),
+          inArray(executionJobs.status, ["pending", "processing"]),
+        ),
+      )
+      .returning({ id: executionJobs.id });
+
+    if (!queuedJob) {
+      logger.info(
+        `[ExecutionOrchestrator] Job ${job.jobId} was cancelled while being queued, removing pg-boss job ${pgBossJobId}`,
+      );
+      await this.jobClient.cancel([pgBossJobId]);
+      return;
+    }
+
+    await publishExecutionEvent({
+      type: "job.queued",
+      executionId,
+      jobId: job.jobId,
+      operation: job.operation,
+      attempt: job.attempt,
+      provider,
+    });
+  }
+
+  /**
+   * Take one of the organization's concurrency slots for a pending provider
+   * job by moving it to "processing", or hold it in the "throttled" status
+   * while the organization runs as many provider jobs as its plan allows.
+   * Claims of an organization are serialized with an advisory lock, so jobs
+   * emitted at the same moment never share a slot. Returns "taken" when
+   * the job is no longer pending.
+   */
+  private async claimSlot(
+    job: any,
+    provider: string,
+  ): Promise<"claimed" | "throttled" | "taken"> {
+    const limits = await getConcurrencyLimits(job.organizationId);
+
+    return db.transaction(async (tx) => {
+      await tx.execute(
+        sql`select pg_advisory_xact_lock(hashtext(${job.organizationId}))`,
+      );
+
+      const inFlight = await getInFlightJobs(job.organizationId, tx);
+      const slotFree = hasFreeSlot(limits, inFlight, provider);
+
+      const [updatedJob] = await tx
+        .update(executionJobs)
+        .set(
+          slotFree
+            ? { status: "processing", provider }
+            : {
+                status: "throttled",
+                provider,
+                // A job throttled again after its release keeps its place
+                throttledAt: job.throttledAt ?? new Date(),
+                progress: { stage: "waiting for a free slot", percentage: 0 },
+              },
+        )
+        .where(
+          and(
+            eq(executionJobs.id, job.id),
+            eq(executionJobs.status, "pending"),
+          ),
+        )
+        .returning({ id: executionJobs.id });
+
+      if (!updatedJob) {
+        return "taken";
+      }
+      if (!slotFree) {
+        logger.info(
+          `[ExecutionOrchestrator] Job ${job.jobId} throttled (${inFlight.total}/${limits.maxJobs} jobs running, ${inFlight.byProvider.get(provider) ?? 0}/${limits.maxJobsPerProvider} on ${provider})`,
+        );
+        return "throttled";
+      }
+      return "claimed";
+    });
+  }
+
+  /**
+   * Emit throttled provider jobs while their organizations have free slots,
+   * oldest first. Organizations take turns, one job each per round, so one
+   * with a long queue doesn't hold up the others. Without an organization,
+   * the queues of all organizations are served. The counts here only pick
+   * the jobs to try: each released job claims its slot under the
+   * organization's lock, and goes back to waiting if none is left. Returns
+   * the number of released jobs.
+   */
+  async releaseThrottledJobs(organizationId?: string | null): Promise<number> {
+    if (organizationId === null) {
+      return 0;
+    }
+
+    const throttledJobs = await db
+      .select()
+      .from(executionJobs)
+      .where(
+        and(
+          eq(executionJobs.status, "throttled"),
+          organizationId
+            ? eq(executionJobs.organizationId, organizationId)
+            : undefined,
+        ),
+      )
+      .orderBy(executionJobs.throttledAt, executionJobs.createdAt);
+
+    const queuedJobs = new Map<string, typeof throttledJobs>();
+    for (const job of throttledJobs) {
+      const queue = queuedJobs.get(job.organizationId!) ?? [];
+      queue.push(job);
+      queuedJobs.set(job.organizationId!, queue);
+    }
+
+    const queues = await Promise.all(
+      [...queuedJobs].map(async ([orgId, jobs]) => {
+        const [limits, inFlight] = await Promise.all([
+          getConcurrencyLimits(orgId),
+          getInFlightJobs(orgId),
+        ]);
+        return { jobs, limits, inFlight };
+      }),
+    );
+
+    let released = 0;
+    let releasedInRound = true;
+    while (releasedInRound) {
+      releasedInRound = false;
+
+      for (const queue of queues) {
+        const index = queue.jobs.findIndex((job) =>
+          hasFreeSlot(queue.limits, queue.inFlight, job.provider!),
+        );
+        if (index === -1) {
+          continue;
+        }
+
+        const [job] = queue.jobs.splice(index, 1);
+        const provider = job!.provider!;
+        queue.inFlight.total++;
+        queue.inFlight.byProvider.set(
+          provider,
+          (queue.inFlight.byProvider.get(provider) ?? 0) + 1,
+        );
+        releasedInRound = true;
+
+        if (await this.releaseJob(job!)) {
+          released++;
+        }
+      }
+    }
+
+    if (released > 0) {
+      logger.info(
+        `[ExecutionOrchestrator] Released ${released} throttled job(s)`,
+      );
+    }
+    return released;
+  }
+
+  /**
+   * Emit a throttled job, which claims a slot again on the way. Returns
+   * false if another release got it first.
+   */
+  private async releaseJob(
+    job: typeof executionJobs.$inferSelect,
+  ): Promise<boolean> {
+    const [claimedJob] = await db
+      .update(executionJobs)
+      .set({ status: "pending" })
+      .where(
+        and(
+          eq(executionJobs.id, job.id),
+          eq(executionJobs.status, "throttled"),
+        ),
+      )
+      .returning();
+
+    if (!claimedJob) {
+      return false;
+    }
+
+    try {
+      await this.emitJob(job.executionId, job.id);
+    } catch (error) {
+      logger.error(
+        `[ExecutionOrchestrator] Failed to emit throttled job ${job.jobId}:`,
+        error,
+      );
+      await this.failJob(job.id, error);
+    }
+    return true;
+  }
+
+  /**
+   * Complete a job with the output of a recent job with the same fingerprint
+   * in the same organization, instead of running it again.
+   * Returns false when there is nothing to reuse.
+   */
+  private async completeFromCache(
+    executionId: string,
+    job: any,
+    fingerprint: string,
+  ): Promise<boolean> {
+    if (!job.organizationId) {
+      return false;
+    }
+
+    // Test-mode outputs are placeholders, so they are only reused by other
+    // test-mode executions, and real outputs only by real ones
+    const execution = await db.query.executions.findFirst({
+      where: eq(executions.id, executionId),
+      columns: { testMode: true },
+    });
+    const sameMode = execution?.testMode
+      ? sql`${executions.testMode} is not null`
+      : sql`${executions.testMode} is null`;
+
+    const cutoff = new Date(Date.now() - JOB_CACHE_TTL_MS);
+    const [cachedJob] = await db
+      .select()
+      .from(executionJobs)
+      .where(
+        and(
+          eq(executionJobs.fingerprint, fingerprint),
+          eq(executionJobs.organizationId, job.organizationId),
+          eq(executionJobs.status, "completed"),
+          sql`${executionJobs.completedAt} >= ${cutoff}`,
+          sql`${executionJobs.executionId} in (select ${executions.id} from ${executions} where ${sameMode})`,
+        ),
+      )
+      .orderBy(desc(executionJobs.completedAt))
+      .limit(1);
+
+    if (!cachedJob?.result) {
+      return false;
+    }
+
+    // Only claim the job if nothing else emitted it in the meantime.
+    // Cached jobs never reach completeJob, so no action is logged for them.
+    const now = new Date();
+    const [claimedJob] = await db
+      .update(executionJobs)
+      .set({
+        status: "completed",
+        result: cachedJob.result,
+        fingerprint,
+        cachedFromJobId: cachedJob.id,
+        provider: cachedJob.provider,
+        progress: { stage: "cached", percentage: 100 },
+        startedAt: now,
+        completedAt: now,
+      })
+      .where(
+        and(eq(executionJobs.id, job.id), eq(executionJobs.status, "pending")),
+      )
+      .returning();
+
+    if (!claimedJob) {
+      return true; // Already emitted or cancelled elsewhere
+    }
+
+    logger.info(
+      `[ExecutionOrchestrator] Job ${job.jobId} served from cache (job record ${cachedJob.id})`,
+    );
+
+    await publishExecutionEvent({
+      type: "job.completed",
+      executionId,
+      jobId: job.jobId,
+      operation: job.operation,
+      url: getJobOutputUrl(cachedJob.result),
+      cached: true,
+    });
+
+    await this.checkAndEmitDependentJobs(executionId, job.jobId);
+    return true;
+  }
+
+  /**
+   * Handle a failed attempt of a job. A job whose model is offered by one of
+   * its `fallbackProviders` moves on to the next provider first. Errors the
+   * job's retry policy covers (transient provider errors by default) then
+   * schedule another attempt with exponential backoff; otherwise the job
+   * fails along with its dependents. Every failed attempt is kept in the
+   * job's attempt history. `thrownError` is the caught error (classified by
+   * its HTTP status when the provider SDK attached one) or an error message.
+   */
+  async failJob(jobRecordId: string, thrownError: unknown): Promise<void> {
+    const error =
+      thrownError instanceof Error
+        ? thrownError.message
+        : typeof thrownError === "string"
+          ? thrownError
+          : "Unknown error";
+
+    const job = await db.query.executionJobs.findFirst({
+      where: eq(executionJobs.id, jobRecordId),
+    });
+
+    if (!job) {
+      throw new Error(`Job ${jobRecordId} not found`);
+    }
+
+    if (job.status === "cancelled") {
+      return;
+    }
+
+    const policy = resolveRetryPolicy((job.metadata as any)?.retry);
+    const errorClass = classifyProviderError(thrownError);
+    const failedAttempt = {
+      attempt: job.attempt,
+      error,
+      errorClass,
+      provider: job.provider,
+      providerJobId: job.providerJobId,
+      startedAt: job.startedAt?.toISOString() ?? null,
+      failedAt: new Date().toISOString(),
+    };
+
+    const fallbackProvider = getFallbackProvider(
+      (job.metadata as any)?.params || {},
+      job.provider,
+      errorClass,
+    );
+    if (fallbackProvider) {
+      logger.info(
+        `[ExecutionOrchestrator] Job ${job.jobId} failed on ${job.provider} with ${errorClass} error, falling back to ${fallbackProvider}`,
+      );
+      await this.scheduleNextAttempt(job, failedAttempt, {
+        provider: fallbackProvider,
+        stage: `falling back to ${fallbackProvider}`,
+      });
+      return;
+    }
+
+    if (
+      job.attempt < policy.maxAttempts &&
+      policy.retryOn.includes(errorClass)
+    ) {
+      const retryDelayMs = getRetryDelayMs(policy, job.attempt);
+      const nextAttempt = job.attempt + 1;
+
+      logger.info(
+        `[ExecutionOrchestrator] Job ${job.jobId} failed with ${errorClass} error, retrying in ${retryDelayMs}ms (attempt ${nextAttempt}/${policy.maxAttempts})`,
+      );
+      await this.scheduleNextAttempt(job, failedAttempt, {
+        retryDelayMs,
+        stage: `retrying (attempt ${nextAttempt}/${policy.maxAttempts})`,
+      });
+      return;
+    }
+
+    await db
+      .update(executionJobs)
+      .set({
+        status: "failed",
+        error,
+        attemptHistory: [...(job.attemptHistory ?? []), failedAttempt],
+        completedAt: new Date(),
       })
       .where(eq(executionJobs.id, job.id));
+
+    await publishExecutionEvent({
+      type: "job.failed",
+      executionId: job.executionId,
+      jobId: job.jobId,
+      operation: job.operation,
+      error,
+      retryAt: null,
+    });
+
+    await this.checkAndEmitDependentJobs(job.executionId, job.jobId);
+  }
+
+  /**
+   * Record a failed attempt and emit the job again, after a delay for
+   * retries or right away on a fallback provider
+   */
+  private async scheduleNextAttempt(
+    job: typeof executionJobs.$inferSelect,
+    failedAttempt: NonNullable<
+      typeof executionJobs.$inferSelect.attemptHistory
+    >[number],
+    next: { retryDelayMs?: number; provider?: string; stage: string },
+  ): Promise<void> {
+    const retryAt = new Date(Date.now() + (next.retryDelayMs ?? 0));
+
+    // Claim this attempt so a webhook and the poller reporting the same
+    // failure only schedule one more attempt
+    const [claimedJob] = await db
+      .update(executionJobs)
+      .set({
+        attempt: job.attempt + 1,
+        attemptHistory: [
+          ...(job.attemptHistory ?? []),
+          { ...failedAttempt, retryAt: retryAt.toISOString() },
+        ],
+        provider: next.provider ?? job.provider,
+        pgBossJobId: null,
+        providerJobId: null,
+        providerJobStatus: null,
+        webhookToken: null,
+        waitingStrategy: null,
+        nextPollAt: null,
+        pollAttempts: 0,
+        progress: { stage: next.stage, percentage: 0 },
+      })
+      .where(
+        and(
+          eq(executionJobs.id, job.id),
+          eq(executionJobs.attempt, job.attempt),
+          eq(executionJobs.status, job.status),
+        ),
+      )
+      .returning();
+
+    if (!claimedJob) {
+      return;
+    }
+
+    await publishExecutionEvent({
+      type: "job.failed",
+      executionId: job.executionId,
+      jobId: job.jobId,
+      operation: job.operation,
+      error: failedAttempt.error,
+      retryAt: retryAt.toISOString(),
+    });
+
+    await this.emitJob(job.executionId, job.id, next.retryDelayMs ?? 0);
   }
 
   async checkAndEmitDependentJobs(
@@ -542,6 +1243,14 @@ export class ExecutionOrchestrator {
       throw new Error(`Execution ${executionId} not found`);
     }
 
+    // Cancelled executions never emit new jobs or change their final status
+    if (execution.status === "cancelled") {
+      logger.info(
+        `[ExecutionOrchestrator] Execution ${executionId} was cancelled, skipping dependents of ${completedJobId}`,
+      );
+      return;
+    }
+
     const completedJob = allJobs.find((j) => j.jobId === completedJobId);
     if (!completedJob) {
       throw new Error(
@@ -613,6 +1322,19 @@ export class ExecutionOrchestrator {
         ),
       );
 
+      await Promise.all(
+        jobsToFail.map((job) =>
+          publishExecutionEvent({
+            type: "job.failed",
+            executionId,
+            jobId: job.jobId,
+            operation: job.operation,
+            error: "Dependency job failed",
+            retryAt: null,
+          }),
+        ),
+      );
+
       // Update the allJobs array to reflect the failed jobs
       jobsToFail.forEach((job) => {
         const index = allJobs.findIndex((j) => j.id === job.id);
@@ -680,6 +1402,10 @@ export class ExecutionOrchestrator {
               executionResult = {
                 url: firstOutput.url,
                 status: "completed",
+                // Keep additional outputs (e.g. subtitle files next to a captioned video)
+                ...(jobResult.outputs.length > 1 && {
+                  outputs: jobResult.outputs,
+                }),
               };
             } else {
               executionResult = jobResult;
@@ -713,17 +1439,173 @@ export class ExecutionOrchestrator {
           result: executionResult,
           error: executionError,
           completedAt: new Date(),
+          // Provider keys are only needed while jobs run
+          providerApiKeysEncrypted: null,
         })
         .where(eq(executions.id, executionId));
 
+      await publishExecutionEvent({
+        type: "execution.completed",
+        executionId,
+        status: hasFailures ? "failed" : "completed",
+        result: executionResult,
+        error: executionError,
+      });
+
       // Emit webhook delivery job if execution has a webhook URL
       if (execution.webhook) {
-        console.log(
+        logger.info(
           `[ExecutionOrchestrator] Emitting webhook delivery job for execution ${executionId}`,
         );
         await this.jobClient.emit("webhook-delivery", { executionId });
       }
     }
+
+    // A finished provider job frees a slot for the organization's
+    // throttled jobs
+    if (completedJob.provider) {
+      await this.releaseThrottledJobs(execution.organizationId);
+    }
+  }
+
+  /**
+   * Cancel an execution and every job that hasn't finished yet
+   * Queued pg-boss jobs are removed and in-flight provider predictions are
+   * cancelled where the provider supports it. Returns the number of cancelled jobs.
+   */
+  async cancelExecution(executionId: string): Promise<number> {
+    const [execution, allJobs] = await Promise.all([
+      db.query.executions.findFirst({
+        where: eq(executions.id, executionId),
+      }),
+      db.query.executionJobs.findMany({
+        where: eq(executionJobs.executionId, executionId),
+      }),
+    ]);
+
+    if (!execution) {
+      throw new Error(`Execution ${executionId} not found`);
+    }
+
+    // Keys to cancel in-flight provider predictions with, before they're purged
+    const providerApiKeys =
+      await providerKeyService.getKeysForExecution(execution);
+
+    // Mark the execution first so in-flight jobs finishing meanwhile
+    // don't emit their dependents
+    await db
+      .update(executions)
+      .set({
+        status: "cancelled",
+        error: "Execution cancelled",
+        completedAt: new Date(),
+        updatedAt: new Date(),
+        providerApiKeysEncrypted: null,
+      })
+      .where(eq(executions.id, executionId));
+
+    const jobsToCancel = allJobs.filter(
+      (j) =>
+        j.status === "pending" ||
+        j.status === "throttled" ||
+        j.status === "processing",
+    );
+
+    // Remove queued/active pg-boss jobs
+    const pgBossJobIds = jobsToCancel
+      .map((j) => j.pgBossJobId)
+      .filter((id): id is string => !!id);
+    try {
+      await this.jobClient.cancel(pgBossJobIds);
+    } catch (error) {
+      logger.error(
+        `[ExecutionOrchestrator] Failed to cancel pg-boss jobs for ${executionId}:`,
+        error,
+      );
+    }
+
+    await Promise.all(
+      jobsToCancel.map(async (job) => {
+        // Fake provider jobs of test-mode executions have nothing to cancel
+        if (job.providerJobId && !execution.testMode) {
+          await this.cancelProviderJob(
+            job.providerJobId,
+            (job.metadata as any)?.modelId,
+            providerApiKeys,
+          );
+        }
+
+        // Jobs that finished since they were read keep their outcome
+        await db
+          .update(executionJobs)
+          .set({
+            status: "cancelled",
+            error: "Execution cancelled",
+            completedAt: new Date(),
+          })
+          .where(
+            and(
+              eq(executionJobs.id, job.id),
+              inArray(executionJobs.status, [
+                "pending",
+                "throttled",
+                "processing",
+              ]),
+            ),
+          );
+      }),
+    );
+
+    logger.info(
+      `[ExecutionOrchestrator] Cancelled execution ${executionId} (${jobsToCancel.length} jobs)`,
+    );
+
+    await publishExecutionEvent({
+      type: "execution.completed",
+      executionId,
+      status: "cancelled",
+      result: null,
+      error: "Execution cancelled",
+    });
+
+    if (execution.webhook) {
+      await this.jobClient.emit("webhook-delivery", { executionId });
+    }
+
+    // Cancelled jobs free their slots
+    await this.releaseThrottledJobs(execution.organizationId);
+
+    return jobsToCancel.length;
+  }
+
+  /**
+   * Best-effort cancellation of an in-flight provider prediction
+   */
+  private async cancelProviderJob(
+    providerJobId: string,
+    modelId: string | undefined,
+    providerApiKeys: CreateExecutionOptions["providerApiKeys"],
+  ): Promise<void> {
+    const modelInfo = modelId ? getModelInfo(modelId) : undefined;
+    if (!modelInfo) {
+      return;
+    }
+
+    try {
+      const provider = VideoProviderFactory.getProvider(
+        modelInfo.provider,
+        providerApiKeys?.[modelInfo.provider],
+      );
+      if (!provider.cancelJob) {
+        return;
+      }
+      await provider.cancelJob(providerJobId);
+    } catch (error) {
+      logger.error(
+        `[ExecutionOrchestrator] Failed to cancel provider job ${providerJobId}:`,
+        error,
+      );
+    }
   }
 }
 
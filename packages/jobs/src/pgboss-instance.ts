@@ -1,4 +1,5 @@
 import PgBoss from "pg-boss";
+import { logger } from "@repo/logger";
 
 let boss: PgBoss | null = null;
 
@@ -23,11 +24,11 @@ export async function getBoss(): Promise<PgBoss> {
     });
 
     boss.on("error", (error: Error) => {
-      console.error("[PgBoss] Error:", error);
+      logger.error("[PgBoss] Error:", error);
     });
 
     // boss.on("monitor-states", (states) => {
-    //   console.log("[PgBoss] Monitor states:", {
+    //   logger.info("[PgBoss] Monitor states:", {
     //     all: states.all,
     //     created: states.created,
     //     retry: states.retry,
@@ -46,13 +47,13 @@ export async function getBoss(): Promise<PgBoss> {
 export async function startBoss(): Promise<void> {
   const instance = await getBoss();
   await instance.start();
-  console.log("[PgBoss] Started successfully");
+  logger.info("[PgBoss] Started successfully");
 }
 
 export async function stopBoss(): Promise<void> {
   if (boss) {
     await boss.stop();
-    console.log("[PgBoss] Stopped successfully");
+    logger.info("[PgBoss] Stopped successfully");
     boss = null;
   }
 }
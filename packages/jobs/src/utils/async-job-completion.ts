@@ -1,9 +1,16 @@
-import { db, eq, executionJobs, executions } from "@repo/db";
+import {
+  db,
+  eq,
+  executionJobs,
+  executions,
+  publishExecutionEvent,
+} from "@repo/db";
 import type { MediaOutput } from "@repo/model-schemas";
 import { storage } from "@repo/storage";
 import { generateId } from "@repo/tools";
 import { getOrchestrator } from "../orchestrator/execution-orchestrator";
 import { JobClient } from "../client/job-client";
+import { logger } from "@repo/logger";
 
 /**
  * Complete an async job after receiving webhook or polling result
@@ -17,7 +24,7 @@ export async function completeAsyncJob(
   jobRecordId: string,
   outputs: MediaOutput[],
 ): Promise<void> {
-  console.log(
+  logger.info(
     `[AsyncJobCompletion] Completing job ${jobRecordId} with ${outputs.length} outputs`,
   );
 
@@ -34,7 +41,14 @@ export async function completeAsyncJob(
     }
 
     if (job.status === "completed") {
-      console.log(`[AsyncJobCompletion] Job ${jobRecordId} already completed`);
+      logger.info(`[AsyncJobCompletion] Job ${jobRecordId} already completed`);
+      return;
+    }
+
+    if (job.status === "cancelled") {
+      logger.info(
+        `[AsyncJobCompletion] Job ${jobRecordId} was cancelled, ignoring result`,
+      );
       return;
     }
 
@@ -53,11 +67,11 @@ export async function completeAsyncJob(
     for (let i = 0; i < outputs.length; i++) {
       const output = outputs[i];
       if (!output) {
-        console.error(`[AsyncJobCompletion] Output ${i} is undefined`);
+        logger.error(`[AsyncJobCompletion] Output ${i} is undefined`);
         continue;
       }
 
-      console.log(
+      logger.info(
         `[AsyncJobCompletion] Processing output ${i + 1}/${outputs.length}: ${output.url}`,
       );
 
@@ -81,12 +95,12 @@ export async function completeAsyncJob(
           throw uploadResult.error;
         }
 
-        console.log(
+        logger.info(
           `[AsyncJobCompletion] Uploaded to CDN: ${uploadResult.url}`,
         );
         cdnUrls.push(uploadResult.url);
       } catch (error) {
-        console.error(
+        logger.error(
           `[AsyncJobCompletion] Error processing output ${i}:`,
           error,
         );
@@ -115,7 +129,16 @@ export async function completeAsyncJob(
       })
       .where(eq(executionJobs.id, jobRecordId));
 
-    console.log(`[AsyncJobCompletion] Job ${jobRecordId} marked as completed`);
+    logger.info(`[AsyncJobCompletion] Job ${jobRecordId} marked as completed`);
+
+    await publishExecutionEvent({
+      type: "job.completed",
+      executionId: job.executionId,
+      jobId: job.jobId,
+      operation: job.operation,
+      url: cdnUrls[0] ?? null,
+      cached: false,
+    });
 
     // 5. Trigger dependent jobs via orchestrator
     const orchestrator = await getOrchestrator();
@@ -139,23 +162,23 @@ export async function completeAsyncJob(
           webhookSecret: execution.webhookSecret,
         });
         await jobClient.stop();
-        console.log(
+        logger.info(
           `[AsyncJobCompletion] Emitted job webhook delivery for ${job.jobId}`,
         );
       } catch (webhookError) {
         // Don't fail the job if webhook emission fails
-        console.error(
+        logger.error(
           `[AsyncJobCompletion] Failed to emit job webhook for ${job.jobId}:`,
           webhookError,
         );
       }
     }
 
-    console.log(
+    logger.info(
       `[AsyncJobCompletion] Successfully completed job ${jobRecordId}`,
     );
   } catch (error) {
-    console.error(
+    logger.error(
       `[AsyncJobCompletion] Error completing job ${jobRecordId}:`,
       error,
     );
@@ -171,46 +194,20 @@ export async function completeAsyncJob(
 }
 
 /**
- * Mark an async job as failed
+ * Mark an async job attempt as failed
  */
 export async function failAsyncJob(
   jobRecordId: string,
   error: string,
 ): Promise<void> {
-  console.error(`[AsyncJobCompletion] Failing job ${jobRecordId}: ${error}`);
+  logger.error(`[AsyncJobCompletion] Failing job ${jobRecordId}: ${error}`);
 
   try {
-    // 1. Get job record
-    const [job] = await db
-      .select()
-      .from(executionJobs)
-      .where(eq(executionJobs.id, jobRecordId))
-      .limit(1);
-
-    if (!job) {
-      console.error(
-        `[AsyncJobCompletion] Job ${jobRecordId} not found for failure update`,
-      );
-      return;
-    }
-
-    // 2. Update job record as failed
-    await db
-      .update(executionJobs)
-      .set({
-        status: "failed",
-        error,
-        completedAt: new Date(),
-      })
-      .where(eq(executionJobs.id, jobRecordId));
-
-    console.log(`[AsyncJobCompletion] Job ${jobRecordId} marked as failed`);
-
-    // 3. Still check for dependent jobs (they may need to be failed too)
+    // Retries the job instead when its retry policy covers the error
     const orchestrator = await getOrchestrator();
-    await orchestrator.checkAndEmitDependentJobs(job.executionId, job.jobId);
+    await orchestrator.failJob(jobRecordId, error);
   } catch (failError) {
-    console.error(
+    logger.error(
       `[AsyncJobCompletion] Error marking job as failed:`,
       failError,
     );
@@ -0,0 +1,113 @@
+import { and, db, eq, executionJobs, sql, usageLimits } from "@repo/db";
+import { PLANS } from "@repo/stripe";
+
+/**
+ * How many provider jobs an organization may run at once. Jobs over either
+ * limit wait in the "throttled" status until one of its jobs finishes.
+ */
+export interface ConcurrencyLimits {
+  maxJobs: number; // Across all providers
+  maxJobsPerProvider: number;
+}
+
+/**
+ * Provider jobs an organization is running, in total and per provider
+ */
+export interface InFlightJobs {
+  total: number;
+  byProvider: Map<string, number>;
+}
+
+/**
+ * Concurrency limits of an organization's plan. Custom plans get the Pro
+ * limits, organizations without usage limits the Free ones.
+ */
+export async function getConcurrencyLimits(
+  organizationId: string,
+): Promise<ConcurrencyLimits> {
+  const record = await db.query.usageLimits.findFirst({
+    where: eq(usageLimits.organizationId, organizationId),
+    columns: { planType: true },
+  });
+
+  const plan = !record || record.planType === "free" ? PLANS.free : PLANS.pro;
+  return {
+    maxJobs: plan.maxConcurrentJobs,
+    maxJobsPerProvider: plan.maxConcurrentJobsPerProvider,
+  };
+}
+
+/**
+ * Count the provider jobs an organization is running. Jobs waiting for a
+ * retry keep their slot.
+ *
+ * @param executor - Transaction to count in (default: the shared pool)
+ */
+export async function getInFlightJobs(
+  organizationId: string,
+  executor: Pick<typeof db, "select"> = db,
+): Promise<InFlightJobs> {
+  const rows = await executor
+    .select({
+      provider: executionJobs.provider,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(executionJobs)
+    .where(
+      and(
+        eq(executionJobs.organizationId, organizationId),
+        eq(executionJobs.status, "processing"),
+        sql`${executionJobs.provider} is not null`,
+      ),
+    )
+    .groupBy(executionJobs.provider);
+
+  const byProvider = new Map<string, number>();
+  for (const row of rows) {
+    byProvider.set(row.provider!, row.count);
+  }
+  return {
+    total: rows.reduce((sum, row) => sum + row.count, 0),
+    byProvider,
+  };
+}
+
+export function hasFreeSlot(
+  limits: ConcurrencyLimits,
+  inFlight: InFlightJobs,
+  provider: string,
+): boolean {
+  return (
+    inFlight.total < limits.maxJobs &&
+    (inFlight.byProvider.get(provider) ?? 0) < limits.maxJobsPerProvider
+  );
+}
+
+/**
+ * Place of each throttled job in its organization's queue (1 = next), for
+ * the given job records. Jobs of a provider at its limit may be passed by
+ * jobs of other providers, so positions are an estimate.
+ */
+export async function getQueuePositions(
+  organizationId: string,
+  jobs: Array<{ id: string; status: string }>,
+): Promise<Map<string, number>> {
+  const positions = new Map<string, number>();
+  if (!jobs.some((job) => job.status === "throttled")) {
+    return positions;
+  }
+
+  const queue = await db
+    .select({ id: executionJobs.id })
+    .from(executionJobs)
+    .where(
+      and(
+        eq(executionJobs.organizationId, organizationId),
+        eq(executionJobs.status, "throttled"),
+      ),
+    )
+    .orderBy(executionJobs.throttledAt, executionJobs.createdAt);
+
+  queue.forEach((job, index) => positions.set(job.id, index + 1));
+  return positions;
+}
@@ -0,0 +1,118 @@
+import { FontService, MAX_FONT_BYTES } from "@repo/api-keys";
+import { storage } from "@repo/storage";
+import { readFontInfo, type FontFormat } from "@repo/tools";
+
+const fontService = new FontService(storage);
+
+/** Font reference on a caption style or text overlay */
+export interface FontReference {
+  fontId?: string; // Font uploaded on the dashboard
+  fontUrl?: string; // .ttf or .otf file
+  fontFamily?: string;
+}
+
+/** Font file the FFmpeg service downloads */
+export interface FontFile {
+  format: FontFormat;
+  url: string;
+}
+
+interface ResolvedFont extends FontFile {
+  family: string;
+}
+
+/**
+ * Load the fonts referenced by caption styles or text overlays, and point
+ * each item's fontFamily at its font. Unknown font ids and URLs that aren't
+ * fonts throw rather than falling back to a default font.
+ */
+export async function resolveFonts<T extends FontReference>(
+  items: T[],
+  organizationId: string | undefined,
+): Promise<{ items: T[]; fonts: FontFile[] }> {
+  const loaded = new Map<string, ResolvedFont>();
+
+  const resolved = await Promise.all(
+    items.map(async (item) => {
+      const { fontId, fontUrl, ...rest } = item;
+      if (!fontId && !fontUrl) {
+        return item;
+      }
+
+      const key = fontId ? `id:${fontId}` : `url:${fontUrl}`;
+      let font = loaded.get(key);
+      if (!font) {
+        font = fontId
+          ? await loadOrganizationFont(fontId, organizationId)
+          : await downloadFont(fontUrl!);
+        loaded.set(key, font);
+      }
+
+      return { ...rest, fontFamily: font.family } as T;
+    }),
+  );
+
+  return {
+    items: resolved,
+    fonts: [...loaded.values()].map(({ format, url }) => ({ format, url })),
+  };
+}
+
+async function loadOrganizationFont(
+  fontId: string,
+  organizationId: string | undefined,
+): Promise<ResolvedFont> {
+  const font = organizationId
+    ? await fontService.getFont(organizationId, fontId)
+    : null;
+
+  if (!font) {
+    throw new Error(
+      `Unknown font "${fontId}". Upload fonts on the Integrations page of the dashboard.`,
+    );
+  }
+
+  return { family: font.family, format: font.format, url: font.url };
+}
+
+/**
+ * Download a font to read its family name. The FFmpeg service downloads it
+ * again from the same URL.
+ */
+async function downloadFont(fontUrl: string): Promise<ResolvedFont> {
+  const response = await fetch(fontUrl);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to download font from ${fontUrl}: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  const tooLarge = `Font at ${fontUrl} is larger than ${MAX_FONT_BYTES / (1024 * 1024)} MB`;
+  if (Number(response.headers.get("content-length")) > MAX_FONT_BYTES) {
+    throw new Error(tooLarge);
+  }
+
+  // Stop reading once the limit is passed, whatever the headers said
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body!.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_FONT_BYTES) {
+      await reader.cancel();
+      throw new Error(tooLarge);
+    }
+    chunks.push(value);
+  }
+
+  const info = readFontInfo(Buffer.concat(chunks));
+  if (!info) {
+    throw new Error(
+      `Font at ${fontUrl} is not a TrueType (.ttf) or OpenType (.otf) font`,
+    );
+  }
+
+  return { ...info, url: fontUrl };
+}
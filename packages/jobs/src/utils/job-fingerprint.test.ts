@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { computeJobFingerprint } from "./job-fingerprint";
+
+const params = {
+  modelId: "bytedance/seedance-1-pro",
+  prompt: "A cat surfing",
+  options: { duration: 5, resolution: "720p" },
+};
+
+describe("computeJobFingerprint", () => {
+  test("is a sha256 hex digest", () => {
+    expect(computeJobFingerprint("generate", params, {})).toMatch(
+      /^[0-9a-f]{64}$/,
+    );
+  });
+
+  test("ignores key order and undefined values", () => {
+    const reordered = {
+      options: { resolution: "720p", duration: 5, seed: undefined },
+      prompt: "A cat surfing",
+      modelId: "bytedance/seedance-1-pro",
+    };
+
+    expect(computeJobFingerprint("generate", reordered, {})).toBe(
+      computeJobFingerprint("generate", params, {}),
+    );
+  });
+
+  test("ignores params that don't change the output", () => {
+    expect(
+      computeJobFingerprint(
+        "generate",
+        { ...params, apiKey: "r8_secret", sendJobWebhook: true },
+        {},
+      ),
+    ).toBe(computeJobFingerprint("generate", params, {}));
+  });
+
+  test("changes with the operation, params and seed", () => {
+    const fingerprint = computeJobFingerprint("generate", params, {});
+
+    expect(computeJobFingerprint("generateImage", params, {})).not.toBe(
+      fingerprint,
+    );
+    expect(
+      computeJobFingerprint("generate", { ...params, prompt: "A dog" }, {}),
+    ).not.toBe(fingerprint);
+    expect(
+      computeJobFingerprint("generate", { ...params, seed: 42 }, {}),
+    ).not.toBe(fingerprint);
+  });
+
+  test("uses dependency output URLs, not job ids", () => {
+    const first = computeJobFingerprint(
+      "merge",
+      {},
+      {
+        "job-a": { outputs: [{ url: "https://cdn.example.com/a.mp4" }] },
+        "job-b": { url: "https://cdn.example.com/b.mp4" },
+      },
+    );
+    const second = computeJobFingerprint(
+      "merge",
+      {},
+      {
+        "other-b": { url: "https://cdn.example.com/b.mp4" },
+        "other-a": { outputs: [{ url: "https://cdn.example.com/a.mp4" }] },
+      },
+    );
+    const changed = computeJobFingerprint(
+      "merge",
+      {},
+      {
+        "job-a": { outputs: [{ url: "https://cdn.example.com/c.mp4" }] },
+        "job-b": { url: "https://cdn.example.com/b.mp4" },
+      },
+    );
+
+    expect(second).toBe(first);
+    expect(changed).not.toBe(first);
+  });
+});
@@ -0,0 +1,64 @@
+import { createHash } from "node:crypto";
+
+/**
+ * How long a completed job's output can be reused by later executions
+ */
+export const JOB_CACHE_TTL_MS =
+  Number(process.env.JOB_CACHE_TTL_HOURS || 24 * 7) * 60 * 60 * 1000;
+
+/**
+ * Params that don't change a job's output
+ */
+const IGNORED_PARAMS = new Set(["apiKey", "sendJobWebhook"]);
+
+/**
+ * Compute a deterministic content hash for a job about to run.
+ * Params must already have their job references resolved to URLs so that
+ * identical inputs from different executions hash the same.
+ */
+export function computeJobFingerprint(
+  operation: string,
+  params: Record<string, unknown>,
+  dependencyResults: Record<string, any>,
+): string {
+  // Upstream outputs some jobs read directly (e.g. the previous video);
+  // job ids differ between executions, so only the URLs count
+  const inputUrls = Object.values(dependencyResults)
+    .map((result) => result?.outputs?.[0]?.url || result?.url)
+    .filter((url): url is string => typeof url === "string")
+    .sort();
+
+  const payload = {
+    operation,
+    modelId: params.modelId ?? null,
+    seed: params.seed ?? null,
+    params: normalize(
+      Object.fromEntries(
+        Object.entries(params).filter(([key]) => !IGNORED_PARAMS.has(key)),
+      ),
+    ),
+    inputUrls,
+  };
+
+  return createHash("sha256").update(JSON.stringify(payload)).digest("hex");
+}
+
+/**
+ * Sort object keys recursively and drop undefined values
+ */
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, item]) => [key, normalize(item)]),
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,7 @@
+/**
+ * URL of a job's output - results are { outputs: [{ url, ... }] }, or { url }
+ * for ffmpeg jobs
+ */
+export function getJobOutputUrl(result: any): string | null {
+  return result?.outputs?.[0]?.url || result?.url || null;
+}
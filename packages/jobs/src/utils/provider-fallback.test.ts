@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import { ProviderErrorClass } from "@repo/providers";
+import {
+  getFallbackProvider,
+  getJobProviders,
+  useProvider,
+} from "./provider-fallback";
+
+const params = {
+  modelId: "google/nano-banana",
+  prompt: "A cat surfing",
+  aspect_ratio: "16:9",
+  output_format: "jpg",
+  fallbackProviders: ["fal"],
+};
+
+describe("getJobProviders", () => {
+  test("lists the model's provider, then fallbacks that offer the model", () => {
+    expect(
+      getJobProviders({ ...params, fallbackProviders: ["hume", "fal"] }),
+    ).toEqual(["replicate", "fal"]);
+  });
+
+  test("is empty for unknown models", () => {
+    expect(getJobProviders({ modelId: "unknown/model" })).toEqual([]);
+  });
+});
+
+describe("getFallbackProvider", () => {
+  test("moves on to the next provider", () => {
+    expect(
+      getFallbackProvider(params, "replicate", ProviderErrorClass.ServerError),
+    ).toBe("fal");
+    expect(
+      getFallbackProvider(params, null, ProviderErrorClass.RateLimited),
+    ).toBe("fal");
+  });
+
+  test("stops after the last provider", () => {
+    expect(
+      getFallbackProvider(params, "fal", ProviderErrorClass.ServerError),
+    ).toBeUndefined();
+  });
+
+  test("doesn't fall back on errors every provider would repeat", () => {
+    expect(
+      getFallbackProvider(params, "replicate", ProviderErrorClass.InvalidInput),
+    ).toBeUndefined();
+    expect(
+      getFallbackProvider(
+        params,
+        "replicate",
+        ProviderErrorClass.ContentRejected,
+      ),
+    ).toBeUndefined();
+  });
+
+  test("has nothing to fall back to without fallbackProviders", () => {
+    expect(
+      getFallbackProvider(
+        { ...params, fallbackProviders: undefined },
+        "replicate",
+        ProviderErrorClass.ServerError,
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("useProvider", () => {
+  test("converts provider options to unified ones for the new model", () => {
+    expect(
+      useProvider(
+        { ...params, apiKey: "r8_secret", sendJobWebhook: true },
+        "fal",
+      ),
+    ).toEqual({
+      modelId: "fal-ai/nano-banana",
+      provider: "fal",
+      prompt: "A cat surfing",
+      aspectRatio: "16:9",
+      outputFormat: "jpg",
+      fallbackProviders: ["fal"],
+      sendJobWebhook: true,
+    });
+  });
+
+  test("keeps params on the same provider or without the model", () => {
+    expect(useProvider(params, "replicate")).toBe(params);
+    expect(useProvider(params, "hume")).toBe(params);
+  });
+});
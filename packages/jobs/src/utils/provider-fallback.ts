@@ -0,0 +1,139 @@
+import {
+  falMappings,
+  getModelInfo,
+  getModelOnProvider,
+  getModelOptionKeys,
+  replicateMappings,
+  unifiedImageOptionsBaseSchema,
+  type VideoProvider,
+} from "@repo/model-schemas";
+import { ProviderErrorClass } from "@repo/providers";
+
+/**
+ * Failures that would fail the same way on any provider
+ */
+const NO_FALLBACK_ERROR_CLASSES: string[] = [
+  ProviderErrorClass.InvalidInput,
+  ProviderErrorClass.ContentRejected,
+];
+
+const UNIFIED_KEYS = Object.keys(unifiedImageOptionsBaseSchema.shape);
+
+interface ProviderOptionsMapping {
+  fromProviderOptions(options: Record<string, unknown>): object;
+}
+
+const MAPPINGS: Record<string, object> = {
+  ...replicateMappings,
+  ...falMappings,
+};
+
+/**
+ * Whether a model's entry in the provider mappings converts options back to
+ * unified ones (some entries are parsers, not parameter mappings)
+ */
+function isProviderOptionsMapping(
+  mapping: object | undefined,
+): mapping is ProviderOptionsMapping {
+  return !!mapping && "fromProviderOptions" in mapping;
+}
+
+/**
+ * Providers a job's model can run on, in order: the provider of its modelId,
+ * then its `fallbackProviders` that offer the same model
+ */
+export function getJobProviders(
+  params: Record<string, unknown>,
+): VideoProvider[] {
+  const modelId = params.modelId;
+  const primary =
+    typeof modelId === "string" ? getModelInfo(modelId)?.provider : undefined;
+  if (!primary) {
+    return [];
+  }
+
+  const fallbacks = Array.isArray(params.fallbackProviders)
+    ? (params.fallbackProviders as VideoProvider[])
+    : [];
+
+  return [
+    ...new Set([
+      primary,
+      ...fallbacks.filter((provider) =>
+        getModelOnProvider(modelId as string, provider),
+      ),
+    ]),
+  ];
+}
+
+/**
+ * Next provider to try after the current one failed, if the error is one a
+ * different provider might not have
+ */
+export function getFallbackProvider(
+  params: Record<string, unknown>,
+  currentProvider: string | null,
+  errorClass: string,
+): VideoProvider | undefined {
+  if (NO_FALLBACK_ERROR_CLASSES.includes(errorClass)) {
+    return undefined;
+  }
+
+  const providers = getJobProviders(params);
+  const index = currentProvider
+    ? providers.indexOf(currentProvider as VideoProvider)
+    : 0;
+  return index === -1 ? undefined : providers[index + 1];
+}
+
+/**
+ * Point a job's params at the same model on another provider.
+ *
+ * Provider-specific options are converted back to unified options with the
+ * original model's mapping; the job then converts them to the new provider's
+ * format with that model's mapping, as for any unified params. Only image
+ * jobs apply that mapping, so the plan validator allows fallback providers
+ * for image models only.
+ */
+export function useProvider(
+  params: Record<string, unknown>,
+  provider: string,
+): Record<string, unknown> {
+  const modelId = params.modelId as string;
+  const targetModelId = getModelOnProvider(modelId, provider as VideoProvider);
+  if (!targetModelId || targetModelId === modelId) {
+    return params;
+  }
+
+  // A model-level API key belongs to the original provider
+  const rest = { ...params };
+  delete rest.apiKey;
+
+  const mapping = MAPPINGS[modelId];
+  if (!isProviderOptionsMapping(mapping)) {
+    return { ...rest, provider, modelId: targetModelId };
+  }
+
+  // Everything that isn't a model option (sendJobWebhook, unified, ...) is kept
+  const providerKeys = getModelOptionKeys(modelId);
+  const passthrough = Object.fromEntries(
+    Object.entries(rest).filter(
+      ([key]) => !UNIFIED_KEYS.includes(key) && !providerKeys.includes(key),
+    ),
+  );
+  const unified = {
+    ...mapping.fromProviderOptions(rest),
+    ...Object.fromEntries(
+      Object.entries(rest).filter(([key]) => UNIFIED_KEYS.includes(key)),
+    ),
+  };
+
+  return {
+    ...passthrough,
+    ...Object.fromEntries(
+      Object.entries(unified).filter(([, value]) => value !== undefined),
+    ),
+    provider,
+    modelId: targetModelId,
+  };
+}
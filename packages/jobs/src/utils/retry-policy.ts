@@ -0,0 +1,63 @@
+import {
+  TRANSIENT_ERROR_CLASSES,
+  type ProviderErrorClass,
+} from "@repo/providers";
+
+/**
+ * How a failed job is retried, as set on a plan job (`retry`) or as the
+ * execution-wide default
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one (1 disables retries) */
+  maxAttempts: number;
+  /** Delay before the first retry, doubled (by default) for every further one */
+  backoffMs?: number;
+  backoffMultiplier?: number;
+  maxBackoffMs?: number;
+  /** Error classes worth retrying - transient provider errors by default */
+  retryOn?: ProviderErrorClass[];
+}
+
+export const MAX_RETRY_ATTEMPTS = 10;
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 1,
+  backoffMs: 5000,
+  backoffMultiplier: 2,
+  maxBackoffMs: 5 * 60 * 1000,
+  retryOn: [...TRANSIENT_ERROR_CLASSES],
+};
+
+/**
+ * Fill in defaults for a stored retry policy. Jobs without one are not retried.
+ */
+export function resolveRetryPolicy(
+  policy?: Partial<RetryPolicy> | null,
+): Required<RetryPolicy> {
+  return {
+    maxAttempts: Math.min(
+      policy?.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+      MAX_RETRY_ATTEMPTS,
+    ),
+    backoffMs: policy?.backoffMs ?? DEFAULT_RETRY_POLICY.backoffMs,
+    backoffMultiplier:
+      policy?.backoffMultiplier ?? DEFAULT_RETRY_POLICY.backoffMultiplier,
+    maxBackoffMs: policy?.maxBackoffMs ?? DEFAULT_RETRY_POLICY.maxBackoffMs,
+    retryOn: policy?.retryOn ?? DEFAULT_RETRY_POLICY.retryOn,
+  };
+}
+
+/**
+ * Exponential backoff before the retry that follows a failed attempt
+ *
+ * @param failedAttempt - Number of the attempt that just failed, starting at 1
+ */
+export function getRetryDelayMs(
+  policy: Required<RetryPolicy>,
+  failedAttempt: number,
+): number {
+  return Math.min(
+    policy.backoffMs * policy.backoffMultiplier ** (failedAttempt - 1),
+    policy.maxBackoffMs,
+  );
+}
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getFakeProviderOptions,
+  MAX_TEST_DELAY_MS,
+  normalizeTestMode,
+} from "./test-mode";
+
+describe("normalizeTestMode", () => {
+  test("is empty when no settings are sent", () => {
+    expect(normalizeTestMode(undefined)).toEqual({});
+    expect(normalizeTestMode(null)).toEqual({});
+  });
+
+  test("keeps only the known settings", () => {
+    expect(
+      normalizeTestMode({
+        delayMs: 500,
+        failJobs: ["video"],
+        failAttempts: 2,
+        failureError: "Rate limit exceeded",
+        provider: "replicate",
+      }),
+    ).toEqual({
+      delayMs: 500,
+      failJobs: ["video"],
+      failAttempts: 2,
+      failureError: "Rate limit exceeded",
+    });
+  });
+
+  test("rejects settings that aren't an object", () => {
+    expect(() => normalizeTestMode("fast")).toThrow(
+      "testMode must be an object",
+    );
+    expect(() => normalizeTestMode([])).toThrow("testMode must be an object");
+  });
+
+  test("rejects invalid values", () => {
+    expect(() => normalizeTestMode({ delayMs: -1 })).toThrow("delayMs");
+    expect(() => normalizeTestMode({ delayMs: 1.5 })).toThrow("delayMs");
+    expect(() => normalizeTestMode({ delayMs: MAX_TEST_DELAY_MS + 1 })).toThrow(
+      "delayMs",
+    );
+    expect(() => normalizeTestMode({ failJobs: "video" })).toThrow("failJobs");
+    expect(() => normalizeTestMode({ failJobs: [1] })).toThrow("failJobs");
+    expect(() => normalizeTestMode({ failAttempts: 0 })).toThrow(
+      "failAttempts",
+    );
+    expect(() => normalizeTestMode({ failureError: " " })).toThrow(
+      "failureError",
+    );
+  });
+});
+
+describe("getFakeProviderOptions", () => {
+  test("fails the listed jobs on every attempt by default", () => {
+    const testMode = { delayMs: 100, failJobs: ["video"] };
+
+    expect(getFakeProviderOptions(testMode, "video", 5)).toEqual({
+      delayMs: 100,
+      error: "Fake provider failure (503 Service Unavailable)",
+    });
+    expect(getFakeProviderOptions(testMode, "image", 1)).toEqual({
+      delayMs: 100,
+      error: undefined,
+    });
+  });
+
+  test("succeeds once failAttempts attempts have failed", () => {
+    const testMode = {
+      failJobs: ["video"],
+      failAttempts: 2,
+      failureError: "Rate limit exceeded",
+    };
+
+    expect(getFakeProviderOptions(testMode, "video", 2).error).toBe(
+      "Rate limit exceeded",
+    );
+    expect(getFakeProviderOptions(testMode, "video", 3).error).toBeUndefined();
+  });
+});
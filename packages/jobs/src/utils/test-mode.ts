@@ -0,0 +1,103 @@
+import type { FakeProviderOptions } from "@repo/providers";
+
+/**
+ * Settings of a test-mode execution, sent as `options.testMode` with a test
+ * API key. Provider jobs of test-mode executions run on the fake provider.
+ */
+export interface TestModeOptions {
+  /** How long each provider job runs in ms (default: FAKE_PROVIDER_DELAY_MS, or 3000) */
+  delayMs?: number;
+  /** Plan job ids whose provider jobs fail */
+  failJobs?: string[];
+  /** How many attempts of those jobs fail before one succeeds (default: all) */
+  failAttempts?: number;
+  /** Error the failing attempts report (default: a 503, which retry policies cover) */
+  failureError?: string;
+}
+
+export const MAX_TEST_DELAY_MS = 10 * 60 * 1000;
+
+const DEFAULT_FAILURE_ERROR = "Fake provider failure (503 Service Unavailable)";
+
+/**
+ * Check test-mode settings sent with an execution, keeping only the known
+ * ones. Throws on invalid values.
+ */
+export function normalizeTestMode(options: unknown): TestModeOptions {
+  if (options === undefined || options === null) {
+    return {};
+  }
+  if (typeof options !== "object" || Array.isArray(options)) {
+    throw new Error("testMode must be an object");
+  }
+
+  const { delayMs, failJobs, failAttempts, failureError } = options as Record<
+    string,
+    unknown
+  >;
+  const testMode: TestModeOptions = {};
+
+  if (delayMs !== undefined) {
+    if (
+      typeof delayMs !== "number" ||
+      !Number.isInteger(delayMs) ||
+      delayMs < 0 ||
+      delayMs > MAX_TEST_DELAY_MS
+    ) {
+      throw new Error(
+        `testMode.delayMs must be a whole number from 0 to ${MAX_TEST_DELAY_MS}`,
+      );
+    }
+    testMode.delayMs = delayMs;
+  }
+
+  if (failJobs !== undefined) {
+    if (
+      !Array.isArray(failJobs) ||
+      !failJobs.every((jobId) => typeof jobId === "string")
+    ) {
+      throw new Error("testMode.failJobs must be an array of job ids");
+    }
+    testMode.failJobs = failJobs;
+  }
+
+  if (failAttempts !== undefined) {
+    if (
+      typeof failAttempts !== "number" ||
+      !Number.isInteger(failAttempts) ||
+      failAttempts < 1
+    ) {
+      throw new Error("testMode.failAttempts must be a positive whole number");
+    }
+    testMode.failAttempts = failAttempts;
+  }
+
+  if (failureError !== undefined) {
+    if (typeof failureError !== "string" || !failureError.trim()) {
+      throw new Error("testMode.failureError must be a non-empty string");
+    }
+    testMode.failureError = failureError;
+  }
+
+  return testMode;
+}
+
+/**
+ * Fake provider settings for one attempt of a job in a test-mode execution
+ *
+ * @param attempt - Attempt number of the job, starting at 1
+ */
+export function getFakeProviderOptions(
+  testMode: TestModeOptions,
+  jobId: string,
+  attempt: number,
+): FakeProviderOptions {
+  const fails =
+    testMode.failJobs?.includes(jobId) &&
+    attempt <= (testMode.failAttempts ?? Infinity);
+
+  return {
+    delayMs: testMode.delayMs,
+    error: fails ? (testMode.failureError ?? DEFAULT_FAILURE_ERROR) : undefined,
+  };
+}
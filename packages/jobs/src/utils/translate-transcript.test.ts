@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import type { TranslationService } from "@repo/providers";
+import {
+  segmentTranscript,
+  translateTranscript,
+  type TranscriptWord,
+} from "./translate-transcript";
+
+/**
+ * Translator that looks segments up in a dictionary and records its calls
+ */
+function dictionaryTranslator(dictionary: Record<string, string>) {
+  const calls: Array<{ texts: string[]; targetLanguage: string }> = [];
+  const translator: TranslationService = {
+    async translate(texts, targetLanguage) {
+      calls.push({ texts, targetLanguage });
+      return texts.map((text) => dictionary[text] ?? text);
+    },
+  };
+  return { translator, calls };
+}
+
+const words: TranscriptWord[] = [
+  { word: "Hello", start: 0, end: 0.4, speaker: "A" },
+  { word: "world.", start: 0.5, end: 1, speaker: "A" },
+  { word: "Good", start: 1.2, end: 1.5, speaker: "B" },
+  { word: "morning", start: 1.6, end: 2, speaker: "B" },
+];
+
+describe("segmentTranscript", () => {
+  test("splits at sentence ends, pauses and speaker changes", () => {
+    expect(
+      segmentTranscript([
+        { word: "One.", start: 0, end: 0.5 },
+        { word: "Two", start: 0.6, end: 1 },
+        { word: "three", start: 2, end: 2.5 },
+        { word: "four", start: 2.6, end: 3, speaker: "B" },
+      ]).map((segment) => segment.map((word) => word.word)),
+    ).toEqual([["One."], ["Two"], ["three"], ["four"]]);
+  });
+
+  test("caps segments at 20 words", () => {
+    const long = Array.from({ length: 25 }, (_, i) => ({
+      word: `w${i}`,
+      start: i,
+      end: i + 0.5,
+    }));
+
+    expect(segmentTranscript(long).map((segment) => segment.length)).toEqual([
+      20, 5,
+    ]);
+  });
+});
+
+describe("translateTranscript", () => {
+  test("translates each segment and keeps its time span and speaker", async () => {
+    const { translator, calls } = dictionaryTranslator({
+      "Hello world.": "Hola mundo.",
+      "Good morning": "Buenos días",
+    });
+
+    const translated = await translateTranscript(words, "es", translator);
+
+    expect(calls).toEqual([
+      { texts: ["Hello world.", "Good morning"], targetLanguage: "es" },
+    ]);
+    expect(translated.map((word) => word.word)).toEqual([
+      "Hola",
+      "mundo.",
+      "Buenos",
+      "días",
+    ]);
+    expect(translated.map((word) => word.speaker)).toEqual([
+      "A",
+      "A",
+      "B",
+      "B",
+    ]);
+    expect(translated[0]!.start).toBe(0);
+    expect(translated[1]!.end).toBe(1);
+    expect(translated[2]!.start).toBe(1.2);
+    expect(translated[3]!.end).toBe(2);
+  });
+
+  test("spreads words over the segment in proportion to their length", async () => {
+    const { translator } = dictionaryTranslator({ Hi: "ab abcdef" });
+
+    const translated = await translateTranscript(
+      [{ word: "Hi", start: 1, end: 3 }],
+      "xx",
+      translator,
+    );
+
+    expect(translated).toEqual([
+      { word: "ab", start: 1, end: 1.5 },
+      { word: "abcdef", start: 1.5, end: 3 },
+    ]);
+  });
+
+  test("splits scripts without spaces into words", async () => {
+    const { translator } = dictionaryTranslator({
+      "Hello world.": "你好世界。",
+    });
+
+    const translated = await translateTranscript(
+      words.slice(0, 2),
+      "zh",
+      translator,
+    );
+
+    expect(translated.length).toBeGreaterThan(1);
+    expect(translated.map((word) => word.word).join("")).toBe("你好世界。");
+    expect(translated[translated.length - 1]!.word.endsWith("。")).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+import type { TranslationService } from "@repo/providers";
+
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+  speaker?: string;
+}
+
+// A segment ends at sentence punctuation, a pause, a change of speaker,
+// or this many words
+const MAX_SEGMENT_WORDS = 20;
+const SEGMENT_PAUSE_SECONDS = 0.7;
+const SENTENCE_END = /[.!?。！？]["')\]]*$/;
+
+/**
+ * Split a transcript into sentence-like segments that translate well on
+ * their own
+ */
+export function segmentTranscript(words: TranscriptWord[]): TranscriptWord[][] {
+  const segments: TranscriptWord[][] = [];
+  let current: TranscriptWord[] = [];
+
+  words.forEach((word, i) => {
+    current.push(word);
+
+    const next = words[i + 1];
+    if (
+      !next ||
+      SENTENCE_END.test(word.word.trim()) ||
+      next.start - word.end > SEGMENT_PAUSE_SECONDS ||
+      next.speaker !== word.speaker ||
+      current.length >= MAX_SEGMENT_WORDS
+    ) {
+      segments.push(current);
+      current = [];
+    }
+  });
+
+  return segments;
+}
+
+/**
+ * Split translated text into words. Scripts without spaces (Chinese,
+ * Japanese, Thai) are split with the language's word segmenter, and
+ * punctuation stays attached to the preceding word.
+ */
+function splitWords(text: string, language: string): string[] {
+  const words: string[] = [];
+  const segmenter = new Intl.Segmenter(language, { granularity: "word" });
+
+  for (const { segment, isWordLike } of segmenter.segment(text)) {
+    if (!segment.trim()) continue;
+
+    if (isWordLike || words.length === 0) {
+      words.push(segment);
+    } else {
+      words[words.length - 1] += segment;
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Translate a transcript and re-time it onto the original word timings.
+ * Each translated segment spans the same time as the original one, with
+ * its words spread over it in proportion to their length, and keeps the
+ * segment's speaker.
+ */
+export async function translateTranscript(
+  words: TranscriptWord[],
+  language: string,
+  translator: TranslationService,
+  sourceLanguage?: string,
+): Promise<TranscriptWord[]> {
+  const segments = segmentTranscript(words);
+  const translations = await translator.translate(
+    segments.map((segment) =>
+      segment.map((word) => word.word.trim()).join(" "),
+    ),
+    language,
+    sourceLanguage,
+  );
+
+  return segments.flatMap((segment, i) => {
+    const start = segment[0]!.start;
+    const end = segment[segment.length - 1]!.end;
+    const speaker = segment[0]!.speaker;
+    const translatedWords = splitWords(translations[i]!, language);
+    const totalChars = translatedWords.reduce(
+      (sum, word) => sum + word.length,
+      0,
+    );
+
+    let elapsedChars = 0;
+    return translatedWords.map((word) => {
+      const wordStart = start + ((end - start) * elapsedChars) / totalChars;
+      elapsedChars += word.length;
+      return {
+        word,
+        start: wordStart,
+        end: start + ((end - start) * elapsedChars) / totalChars,
+        ...(speaker !== undefined && { speaker }),
+      };
+    });
+  });
+}
@@ -0,0 +1,13 @@
+export {
+  configureLogger,
+  createLogger,
+  getLogContext,
+  logger,
+  Logger,
+  runWithLogContext,
+  type LogContext,
+  type LogFormat,
+  type LoggerOptions,
+  type LogLevel,
+} from "./logger";
+export { isSecretKey, redact, redactString, REDACTED } from "./redact";
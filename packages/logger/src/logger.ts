@@ -0,0 +1,156 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { inspect } from "node:util";
+import { redact, redactString } from "./redact";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFormat = "json" | "pretty";
+
+/** Correlation ids added to every log line, e.g. executionId and jobId */
+export type LogContext = Record<string, string | number | undefined>;
+
+export interface LoggerOptions {
+  service?: string; // Name of the app writing the logs, e.g. "be"
+  level?: LogLevel; // Defaults to LOG_LEVEL, or "info"
+  format?: LogFormat; // Defaults to LOG_FORMAT, or "json"
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const options: LoggerOptions = {};
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Set the service name, level and format of every logger in the process.
+ * Called once from each app's entrypoint.
+ */
+export function configureLogger(config: LoggerOptions): void {
+  Object.assign(options, config);
+}
+
+/**
+ * Run a function with correlation ids that every log line written inside
+ * it (including across awaits) carries. Nested contexts add to outer ones.
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+export function getLogContext(): LogContext {
+  return contextStorage.getStore() ?? {};
+}
+
+function isLogLevel(value: string | undefined): value is LogLevel {
+  return !!value && value in LEVELS;
+}
+
+function currentLevel(): LogLevel {
+  const level = options.level ?? process.env.LOG_LEVEL?.toLowerCase();
+  return isLogLevel(level) ? level : "info";
+}
+
+function currentFormat(): LogFormat {
+  return (options.format ?? process.env.LOG_FORMAT) === "pretty"
+    ? "pretty"
+    : "json";
+}
+
+/**
+ * Leveled logger writing one JSON object per line, with secrets redacted
+ * from the message and data before anything is written.
+ *
+ * Arguments after the message are logged as `data`, so existing
+ * console.log(message, value) calls map onto logger.info(message, value).
+ */
+export class Logger {
+  constructor(private readonly bindings: LogContext = {}) {}
+
+  /**
+   * Logger that adds the given fields to every line, e.g. a component name
+   */
+  child(bindings: LogContext): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(message: unknown, ...data: unknown[]): void {
+    this.write("debug", message, data);
+  }
+
+  info(message: unknown, ...data: unknown[]): void {
+    this.write("info", message, data);
+  }
+
+  warn(message: unknown, ...data: unknown[]): void {
+    this.write("warn", message, data);
+  }
+
+  error(message: unknown, ...data: unknown[]): void {
+    this.write("error", message, data);
+  }
+
+  private write(level: LogLevel, message: unknown, data: unknown[]): void {
+    if (LEVELS[level] < LEVELS[currentLevel()]) {
+      return;
+    }
+
+    // A non-string first argument (e.g. an error) is logged as data
+    const args = typeof message === "string" ? data : [message, ...data];
+    const entry: Record<string, unknown> = {
+      level,
+      time: new Date().toISOString(),
+      service: options.service,
+      msg: typeof message === "string" ? redactString(message) : "",
+      ...definedFields({ ...getLogContext(), ...this.bindings }),
+    };
+    if (args.length > 0) {
+      entry.data = redact(args.length === 1 ? args[0] : args);
+    }
+
+    const line =
+      currentFormat() === "pretty" ? formatPretty(entry) : safeStringify(entry);
+    const stream =
+      LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout;
+    stream.write(`${line}\n`);
+  }
+}
+
+function definedFields(context: LogContext): LogContext {
+  return Object.fromEntries(
+    Object.entries(context).filter(([, value]) => value !== undefined),
+  );
+}
+
+function safeStringify(entry: Record<string, unknown>): string {
+  try {
+    return JSON.stringify(entry);
+  } catch {
+    return JSON.stringify({ ...entry, data: "[Unserializable]" });
+  }
+}
+
+function formatPretty(entry: Record<string, unknown>): string {
+  const { level, time, service, msg, data, ...context } = entry;
+  const fields = Object.entries(context)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(" ");
+  return [
+    time,
+    String(level).toUpperCase().padEnd(5),
+    service && `[${service}]`,
+    msg,
+    fields,
+    data !== undefined && inspect(data, { depth: null, colors: false }),
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+export function createLogger(bindings: LogContext = {}): Logger {
+  return new Logger(bindings);
+}
+
+export const logger = new Logger();
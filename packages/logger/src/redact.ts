@@ -0,0 +1,144 @@
+export const REDACTED = "[REDACTED]";
+
+// Provider and Synthome key formats. The prefix is kept, so a log still
+// shows which kind of key was there.
+const KEY_PATTERNS: RegExp[] = [
+  /\b(r8_)[A-Za-z0-9]{8,}/g, // Replicate
+  /\b(sk-(?:proj-)?)[A-Za-z0-9_-]{16,}/g, // OpenAI
+  /\b(sk_)[A-Za-z0-9]{16,}/g, // ElevenLabs
+  /\b(sy_(?:live|test)_)[A-Za-z0-9]{8,}/g, // Synthome API keys
+  /\b(AIza)[A-Za-z0-9_-]{20,}/g, // Google
+  /\b(hf_)[A-Za-z0-9]{16,}/g, // Hugging Face
+  /\b(whsec_)[A-Za-z0-9+/=]{16,}/g, // Replicate webhook signing secrets
+  /\b([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}:)[0-9a-f]{32}\b/g, // fal (key id:secret)
+];
+
+// Credentials after an authorization scheme, e.g. "Bearer <token>"
+const AUTH_SCHEME =
+  /\b(Bearer|Basic|Token|DeepL-Auth-Key)\s+[A-Za-z0-9._~+/:=-]{8,}/g;
+
+// Query parameters that authorize a URL: webhook tokens and signed storage URLs
+const SIGNED_URL_PARAM =
+  /([?&](?:token|access_token|api_key|key|sig|signature|X-Amz-Signature|X-Amz-Credential|X-Amz-Security-Token|X-Goog-Signature|X-Goog-Credential)=)[^&\s"'#]+/gi;
+
+// Object keys whose values are secrets, whatever they look like
+const SECRET_KEY =
+  /^(authorization|proxy-authorization|cookie|set-cookie|password|x-api-key|xi-api-key)$|api[-_]?keys?$|secret|token$|keyencrypted|providerapikeys/i;
+
+const MAX_DEPTH = 8;
+
+/**
+ * Mask API keys, authorization credentials and signed URL parameters in text
+ */
+export function redactString(value: string): string {
+  let result = value;
+  for (const pattern of KEY_PATTERNS) {
+    result = result.replace(pattern, `$1${REDACTED}`);
+  }
+  return result
+    .replace(AUTH_SCHEME, `$1 ${REDACTED}`)
+    .replace(SIGNED_URL_PARAM, `$1${REDACTED}`);
+}
+
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEY.test(key);
+}
+
+/**
+ * Copy of a value that is safe to log: secrets are masked in strings and
+ * under secret keys (headers, API keys, webhook secrets), errors become
+ * plain objects, and circular or deeply nested values are cut short.
+ */
+export function redact(value: unknown): unknown {
+  return redactValue(value, 0, new WeakSet());
+}
+
+function redactValue(
+  value: unknown,
+  depth: number,
+  seen: WeakSet<object>,
+): unknown {
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (typeof value === "function" || typeof value === "symbol") {
+    return `[${typeof value}]`;
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof URL) {
+    return redactString(value.toString());
+  }
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+    return `[Binary ${value.byteLength} bytes]`;
+  }
+  if (seen.has(value)) {
+    return "[Circular]";
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? "[Array]" : "[Object]";
+  }
+  // Only ancestors count as circular: the same object twice is logged twice
+  seen.add(value);
+  const result = redactObject(value, depth, seen);
+  seen.delete(value);
+  return result;
+}
+
+function redactObject(
+  value: object,
+  depth: number,
+  seen: WeakSet<object>,
+): unknown {
+  if (value instanceof Error) {
+    const error: Record<string, unknown> = {
+      name: value.name,
+      message: redactString(value.message),
+      stack: value.stack && redactString(value.stack),
+    };
+    if (value.cause !== undefined) {
+      error.cause = redactValue(value.cause, depth + 1, seen);
+    }
+    return error;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1, seen));
+  }
+  if (value instanceof Map) {
+    return redactEntries([...value.entries()], depth, seen);
+  }
+  if (typeof Headers !== "undefined" && value instanceof Headers) {
+    const headers: Array<[string, string]> = [];
+    value.forEach((item, key) => headers.push([key, item]));
+    return redactEntries(headers, depth, seen);
+  }
+
+  return redactEntries(Object.entries(value), depth, seen);
+}
+
+function redactEntries(
+  entries: Array<[unknown, unknown]>,
+  depth: number,
+  seen: WeakSet<object>,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of entries) {
+    const name = String(key);
+    result[name] =
+      isSecretKey(name) &&
+      item !== null &&
+      item !== undefined &&
+      (typeof item === "string" || typeof item === "object")
+        ? REDACTED
+        : redactValue(item, depth + 1, seen);
+  }
+  return result;
+}
@@ -8,6 +8,7 @@ export type {
   ReplicateVideoModelId,
   ReplicateImageModelId,
   ReplicateAudioModelId,
+  ReplicateLipSyncModelId,
   ReplicateModels,
   Seedance1ProOptions,
   RobustVideoMattingRawOptions,
@@ -54,27 +55,37 @@ export type {
 } from "./elevenlabs.js";
 
 export {
+  getDefaultLipSyncModel,
   getModelCapabilities,
   getModelInfo,
   getModelMediaType,
+  getModelOnProvider,
+  getModelOptionKeys,
+  isLipSyncModel,
+  lipSyncModelIds,
   modelRegistry,
   parseModelOptions,
   parseModelPolling,
   parseModelWebhook,
+  unifiedModelProviders,
   validateModelOptions,
 } from "./registry.js";
 export type { ModelRegistryEntry, VideoProvider } from "./registry.js";
 
 export {
+  unifiedImageOptionsBaseSchema,
   unifiedVideoOptionsSchema,
   unifiedBackgroundRemovalOptionsSchema,
+  unifiedLipSyncOptionsSchema,
 } from "./unified.js";
 export type {
   ParameterMapping,
   VideoGenerationMapping,
   BackgroundRemovalMapping,
+  LipSyncMapping,
   UnifiedVideoOptions,
   UnifiedBackgroundRemovalOptions,
+  UnifiedLipSyncOptions,
 } from "./unified.js";
 
 export type {
@@ -274,6 +274,7 @@ export const parseReplicateTranscript: PollingParser = (response: unknown) => {
 export * from "./elevenlabs/index.js";
 export * from "./image-background-remover/index.js";
 export * from "./incredibly-fast-whisper/index.js";
+export * from "./lipsync/index.js";
 export * from "./minimax/index.js";
 export * from "./nanobanana/index.js";
 export * from "./nanobanana-pro/index.js";
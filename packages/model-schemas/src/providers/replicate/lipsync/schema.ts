@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+// Define inline to avoid circular dependency
+const providerConfigSchema = z.object({
+  apiKey: z.string().optional(),
+});
+
+export const lipsync2RawOptionsSchema = z.object({
+  video: z.string().url(),
+  audio: z.string().url(),
+  sync_mode: z
+    .enum(["loop", "bounce", "cut_off", "silence", "remap"])
+    .optional()
+    .default("cut_off"),
+  temperature: z.number().min(0).max(1).optional(),
+  active_speaker: z.boolean().optional(),
+});
+
+export type Lipsync2RawOptions = z.infer<typeof lipsync2RawOptionsSchema>;
+
+const lipsync2OptionsSchema =
+  lipsync2RawOptionsSchema.merge(providerConfigSchema);
+
+export const lipSyncModels = {
+  "sync/lipsync-2": lipsync2OptionsSchema,
+} as const;
+
+export type LipSyncModelId = keyof typeof lipSyncModels;
@@ -18,6 +18,8 @@ import {
   replicateSchemas,
   type ReplicateModelId,
 } from "./replicate.js";
+import { lipSyncModels } from "./providers/replicate/index.js";
+import { unifiedModelRegistry } from "./unified-models.js";
 import {
   humeModelCapabilities,
   humeSchemas,
@@ -218,8 +220,23 @@ export const modelRegistry: Record<AllModelIds, ModelRegistryEntry> = {
           "vaibhavs10/incredibly-fast-whisper:3ab86df6c8f54c11309d4d1f930ac292bad43ace52d10c80d87eb258b3c9f79c"
         ],
     },
+  "sync/lipsync-2": {
+    provider: "replicate",
+    mediaType: "video",
+    schema: replicateSchemas["sync/lipsync-2"],
+    webhookParser: parseReplicateWebhook,
+    pollingParser: parseReplicatePolling,
+    capabilities: replicateModelCapabilities["sync/lipsync-2"],
+  },
 };
 
+/**
+ * Models that can serve lipSync jobs, in order of preference
+ */
+export const lipSyncModelIds = Object.keys(lipSyncModels).filter(
+  (modelId) => modelId in modelRegistry,
+);
+
 export function getModelInfo(modelId: string): ModelRegistryEntry | undefined {
   return modelRegistry[modelId as AllModelIds];
 }
@@ -289,3 +306,84 @@ export function getModelMediaType(modelId: string): MediaType | undefined {
   const modelInfo = getModelInfo(modelId);
   return modelInfo?.mediaType;
 }
+
+/**
+ * Check whether a model can serve lipSync jobs
+ */
+export function isLipSyncModel(modelId: string): boolean {
+  return lipSyncModelIds.includes(modelId);
+}
+
+/**
+ * Get the model used for lipSync jobs that don't specify one
+ */
+export function getDefaultLipSyncModel(): string | undefined {
+  return lipSyncModelIds[0];
+}
+
+/**
+ * Models offered by more than one provider, keyed by unified model name.
+ * Derived from the unified model registry, keeping the models each provider
+ * serves under a model ID registered for that provider.
+ */
+export const unifiedModelProviders: Record<
+  string,
+  Partial<Record<VideoProvider, AllModelIds>>
+> = Object.fromEntries(
+  Object.entries(unifiedModelRegistry).flatMap(
+    ([name, { providers }]): Array<
+      [string, Partial<Record<VideoProvider, AllModelIds>>]
+    > => {
+      const modelIds = getRegisteredModelIds(providers);
+      return modelIds && Object.keys(modelIds).length > 1
+        ? [[name, modelIds]]
+        : [];
+    },
+  ),
+);
+
+function isModelId(modelId: string): modelId is AllModelIds {
+  return modelId in modelRegistry;
+}
+
+/**
+ * Model IDs of a unified model by provider, or undefined if a provider's ID
+ * isn't registered for that provider
+ */
+function getRegisteredModelIds(
+  providers: Record<string, string>,
+): Partial<Record<VideoProvider, AllModelIds>> | undefined {
+  const modelIds: Partial<Record<VideoProvider, AllModelIds>> = {};
+  for (const [provider, modelId] of Object.entries(providers)) {
+    if (!isModelId(modelId) || modelRegistry[modelId].provider !== provider) {
+      return undefined;
+    }
+    modelIds[modelRegistry[modelId].provider] = modelId;
+  }
+  return modelIds;
+}
+
+/**
+ * Get the ID of the same model on another provider, if that provider offers it
+ */
+export function getModelOnProvider(
+  modelId: string,
+  provider: VideoProvider,
+): string | undefined {
+  if (getModelInfo(modelId)?.provider === provider) {
+    return modelId;
+  }
+
+  const providers = Object.values(unifiedModelProviders).find((ids) =>
+    Object.values(ids).includes(modelId as AllModelIds),
+  );
+  return providers?.[provider];
+}
+
+/**
+ * Option names of a model's own (provider-specific) schema
+ */
+export function getModelOptionKeys(modelId: string): string[] {
+  const schema = getModelInfo(modelId)?.schema;
+  return schema instanceof z.ZodObject ? Object.keys(schema.shape) : [];
+}
@@ -27,6 +27,8 @@ import {
   whisperMapping,
   incrediblyFastWhisperModels,
   incrediblyFastWhisperMapping,
+  lipSyncModels,
+  lipsync2Mapping,
   type SeedanceModelId,
   type SeedreamImageModelId,
   type NanobananaImageModelId,
@@ -37,12 +39,14 @@ import {
   type ImageBackgroundRemoverModelId,
   type WhisperModelId,
   type IncrediblyFastWhisperModelId,
+  type LipSyncModelId,
   type RobustVideoMattingRawOptions,
   type NaterawVideoBackgroundRemoverRawOptions,
   type NanobananaRawOptions,
   type NanobananaProRawOptions,
   type WhisperRawOptions,
   type IncrediblyFastWhisperRawOptions,
+  type Lipsync2RawOptions,
 } from "./providers/replicate/index.js";
 import {
   minimaxMapping,
@@ -66,6 +70,7 @@ export const replicateSchemas = {
   ...imageBackgroundRemoverModels,
   ...whisperModels,
   ...incrediblyFastWhisperModels,
+  ...lipSyncModels,
 } as const;
 
 export type Seedance1ProOptions = z.infer<typeof seedance1ProOptionsSchema>;
@@ -80,6 +85,7 @@ export type {
   NanobananaProRawOptions,
   WhisperRawOptions,
   IncrediblyFastWhisperRawOptions,
+  Lipsync2RawOptions,
 };
 
 export type ReplicateModelId =
@@ -93,7 +99,8 @@ export type ReplicateModelId =
   | VideoBackgroundRemoverModelId
   | ImageBackgroundRemoverModelId
   | WhisperModelId
-  | IncrediblyFastWhisperModelId;
+  | IncrediblyFastWhisperModelId
+  | LipSyncModelId;
 
 // Categorize models by media type for type-safe model creation
 export type ReplicateVideoModelId = SeedanceModelId | MinimaxModelId;
@@ -103,6 +110,7 @@ export type ReplicateImageModelId =
   | NanobananaProImageModelId
   | ImageBackgroundRemoverModelId;
 export type ReplicateAudioModelId = ElevenLabsAudioModelId | WhisperModelId;
+export type ReplicateLipSyncModelId = LipSyncModelId;
 export type ReplicateTranscriptModelId =
   | WhisperModelId
   | IncrediblyFastWhisperModelId;
@@ -133,6 +141,7 @@ export interface ReplicateModels {
   "vaibhavs10/incredibly-fast-whisper:3ab86df6c8f54c11309d4d1f930ac292bad43ace52d10c80d87eb258b3c9f79c": z.infer<
     (typeof incrediblyFastWhisperModels)["vaibhavs10/incredibly-fast-whisper:3ab86df6c8f54c11309d4d1f930ac292bad43ace52d10c80d87eb258b3c9f79c"]
   >;
+  "sync/lipsync-2": z.infer<(typeof lipSyncModels)["sync/lipsync-2"]>;
 }
 
 export const replicateMappings = {
@@ -147,6 +156,7 @@ export const replicateMappings = {
     whisperMapping,
   "vaibhavs10/incredibly-fast-whisper:3ab86df6c8f54c11309d4d1f930ac292bad43ace52d10c80d87eb258b3c9f79c":
     incrediblyFastWhisperMapping,
+  "sync/lipsync-2": lipsync2Mapping,
 } as const;
 
 // Model-specific capabilities
@@ -211,6 +221,11 @@ export const replicateModelCapabilities: Record<
       supportsPolling: true,
       defaultStrategy: "polling",
     },
+  "sync/lipsync-2": {
+    supportsWebhooks: true,
+    supportsPolling: true,
+    defaultStrategy: "webhook",
+  },
 };
 
 export {
@@ -0,0 +1,8 @@
+export { PLAN_OPERATIONS, validateExecutionPlan } from "./validate-plan.js";
+export type {
+  ModelAccess,
+  PlanDiagnostic,
+  PlanDiagnosticCode,
+  PlanJobInput,
+  ValidatePlanOptions,
+} from "./types.js";
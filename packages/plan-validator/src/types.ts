@@ -0,0 +1,68 @@
+export type PlanDiagnosticCode =
+  | "invalid_plan"
+  | "invalid_job"
+  | "duplicate_job_id"
+  | "unknown_operation"
+  | "unknown_dependency"
+  | "unknown_reference"
+  | "dependency_cycle"
+  | "missing_model"
+  | "unknown_model"
+  | "unsupported_model"
+  | "model_not_allowed"
+  | "unknown_font"
+  | "invalid_params";
+
+/**
+ * A single problem found in an execution plan
+ */
+export interface PlanDiagnostic {
+  /** ID of the offending job, when the problem belongs to one */
+  jobId?: string;
+  /** JSON path of the offending value, e.g. `jobs[2].params.prompt` */
+  path: string;
+  code: PlanDiagnosticCode;
+  message: string;
+}
+
+export interface PlanJobInput {
+  id: string;
+  type?: string;
+  operation?: string;
+  params: Record<string, unknown>;
+  dependsOn?: string[];
+  dependencies?: string[];
+  output?: string;
+  cache?: boolean;
+  retry?: unknown;
+}
+
+export interface ValidatePlanOptions {
+  /**
+   * IDs of jobs in the base execution, which the plan may depend on
+   * or reference in addition to its own jobs
+   */
+  externalJobIds?: Iterable<string>;
+  /**
+   * IDs of the fonts the organization has uploaded. When given, caption
+   * styles and texts may only use these fonts by `fontId`
+   */
+  fontIds?: Iterable<string>;
+  /**
+   * Models the API key running the plan may use. When given, jobs may only
+   * run models allowed by it
+   */
+  modelAccess?: ModelAccess;
+  /**
+   * Whether captions can be translated. When false, subtitle jobs may not
+   * ask for translations
+   */
+  translationAvailable?: boolean;
+}
+
+export interface ModelAccess {
+  /** Media types of the allowed models, e.g. "video". Omit to allow any */
+  mediaTypes?: Iterable<string>;
+  /** IDs of the allowed models. Omit to allow any */
+  modelIds?: Iterable<string>;
+}
@@ -0,0 +1,1247 @@
+import {
+  falMappings,
+  getDefaultLipSyncModel,
+  getModelInfo,
+  getModelMediaType,
+  getModelOnProvider,
+  isLipSyncModel,
+  type VideoProvider,
+  replicateMappings,
+} from "@repo/model-schemas";
+import { ProviderErrorClass } from "@repo/providers";
+import type {
+  PlanDiagnostic,
+  PlanJobInput,
+  ValidatePlanOptions,
+} from "./types.js";
+
+/**
+ * Operations the pipeline workers can run
+ */
+export const PLAN_OPERATIONS = [
+  "generate",
+  "generateImage",
+  "generateAudio",
+  "transcribe",
+  "merge",
+  "reframe",
+  "lipSync",
+  "addSubtitles",
+  "removeBackground",
+  "removeImageBackground",
+  "layer",
+  "thumbnail",
+  "toGif",
+  "extractAudio",
+  "transcode",
+  "trim",
+  "speed",
+  "loop",
+  "reverse",
+  "overlayText",
+] as const;
+
+/**
+ * Media type a model must produce to back each model-driven operation
+ */
+const OPERATION_MEDIA_TYPES: Record<string, string> = {
+  generate: "video",
+  generateImage: "image",
+  generateAudio: "audio",
+  transcribe: "transcript",
+  removeBackground: "video",
+  removeImageBackground: "image",
+  lipSync: "video",
+};
+
+/**
+ * Operations whose jobs fail without an explicit modelId
+ */
+const MODEL_REQUIRED_OPERATIONS = new Set([
+  "generate",
+  "generateImage",
+  "generateAudio",
+  "transcribe",
+  "removeBackground",
+  "removeImageBackground",
+]);
+
+/**
+ * Operations whose params reach the model schema unchanged (apart from
+ * resolved references), so the schema can be checked before the job runs.
+ * The remaining jobs build their provider params themselves.
+ */
+const SCHEMA_CHECKED_OPERATIONS = new Set([
+  "generate",
+  "generateImage",
+  "generateAudio",
+]);
+
+const JOB_REFERENCE_PREFIX = "$ref:";
+const LEGACY_REFERENCE_PATTERN =
+  /^_(?:jobDependency|videoJobDependency|imageJobDependency|audioJobDependency|transcriptJobDependency):(.+)$/;
+
+/**
+ * Check an execution plan before it is stored and run.
+ *
+ * Returns every problem found rather than stopping at the first one; an
+ * empty array means the plan is valid.
+ */
+export function validateExecutionPlan(
+  plan: unknown,
+  options: ValidatePlanOptions = {},
+): PlanDiagnostic[] {
+  if (!isRecord(plan) || !Array.isArray(plan.jobs)) {
+    return [
+      {
+        path: "jobs",
+        code: "invalid_plan",
+        message: "Execution plan must contain a 'jobs' array",
+      },
+    ];
+  }
+
+  if (plan.jobs.length === 0) {
+    return [
+      {
+        path: "jobs",
+        code: "invalid_plan",
+        message: "Execution plan must contain at least one job",
+      },
+    ];
+  }
+
+  const diagnostics: PlanDiagnostic[] = [];
+  const jobs: Array<{ job: PlanJobInput; path: string }> = [];
+
+  plan.jobs.forEach((job: unknown, index: number) => {
+    const path = `jobs[${index}]`;
+    const shapeDiagnostics = checkJobShape(job, path);
+
+    if (shapeDiagnostics.length > 0) {
+      diagnostics.push(...shapeDiagnostics);
+    } else {
+      jobs.push({ job: job as PlanJobInput, path });
+    }
+  });
+
+  const jobIds = new Set<string>();
+  const uniqueJobs: typeof jobs = [];
+  for (const entry of jobs) {
+    if (jobIds.has(entry.job.id)) {
+      diagnostics.push({
+        jobId: entry.job.id,
+        path: `${entry.path}.id`,
+        code: "duplicate_job_id",
+        message: `Job id '${entry.job.id}' is used by more than one job`,
+      });
+    } else {
+      jobIds.add(entry.job.id);
+      uniqueJobs.push(entry);
+    }
+  }
+
+  const knownJobIds = new Set([...jobIds, ...(options.externalJobIds ?? [])]);
+  const fontIds = options.fontIds ? new Set(options.fontIds) : undefined;
+  const modelAccess = options.modelAccess && {
+    mediaTypes:
+      options.modelAccess.mediaTypes && new Set(options.modelAccess.mediaTypes),
+    modelIds:
+      options.modelAccess.modelIds && new Set(options.modelAccess.modelIds),
+  };
+  const edges = new Map<string, string[]>();
+
+  for (const { job, path } of uniqueJobs) {
+    const operation = (job.operation || job.type) as string;
+    const operationField = job.operation ? "operation" : "type";
+
+    if (!(PLAN_OPERATIONS as readonly string[]).includes(operation)) {
+      diagnostics.push({
+        jobId: job.id,
+        path: `${path}.${operationField}`,
+        code: "unknown_operation",
+        message: `Unknown operation '${operation}'`,
+      });
+    }
+
+    const dependencyField = job.dependencies ? "dependencies" : "dependsOn";
+    const dependencies = job.dependencies || job.dependsOn || [];
+    dependencies.forEach((dependencyId, index) => {
+      if (!knownJobIds.has(dependencyId)) {
+        diagnostics.push({
+          jobId: job.id,
+          path: `${path}.${dependencyField}[${index}]`,
+          code: "unknown_dependency",
+          message: `Job '${job.id}' depends on unknown job '${dependencyId}'`,
+        });
+      }
+    });
+
+    const references = collectReferences(job.params, `${path}.params`);
+    for (const reference of references) {
+      if (!knownJobIds.has(reference.jobId)) {
+        diagnostics.push({
+          jobId: job.id,
+          path: reference.path,
+          code: "unknown_reference",
+          message: `Job '${job.id}' references unknown job '${reference.jobId}'`,
+        });
+      }
+    }
+
+    edges.set(job.id, [
+      ...new Set([
+        ...dependencies,
+        ...references.map((reference) => reference.jobId),
+      ]),
+    ]);
+
+    diagnostics.push(...checkModel(job, operation, path));
+    diagnostics.push(...checkModelAccess(job, operation, path, modelAccess));
+    diagnostics.push(...checkFallbackProviders(job, path));
+    diagnostics.push(...checkMergeTransitions(job, operation, path));
+    diagnostics.push(...checkRetimeParams(job, operation, path));
+    diagnostics.push(...checkAudioMix(job, operation, path));
+    diagnostics.push(...checkLayerKeyframes(job, operation, path));
+    diagnostics.push(...checkTextOverlays(job, operation, path));
+    diagnostics.push(
+      ...checkSubtitleExports(
+        job,
+        operation,
+        path,
+        options.translationAvailable,
+      ),
+    );
+    diagnostics.push(...checkCaptionSpeakers(job, operation, path));
+    diagnostics.push(...checkFonts(job, operation, path, fontIds));
+  }
+
+  const jobPaths = new Map(uniqueJobs.map(({ job, path }) => [job.id, path]));
+  for (const cycle of findCycles(edges)) {
+    const [jobId] = cycle as [string];
+    diagnostics.push({
+      jobId,
+      path: `${jobPaths.get(jobId)}.dependsOn`,
+      code: "dependency_cycle",
+      message: `Dependency cycle: ${cycle.join(" -> ")}`,
+    });
+  }
+
+  return diagnostics;
+}
+
+function checkJobShape(job: unknown, path: string): PlanDiagnostic[] {
+  if (!isRecord(job)) {
+    return [
+      { path, code: "invalid_job", message: "Each job must be an object" },
+    ];
+  }
+
+  const diagnostics: PlanDiagnostic[] = [];
+  const jobId = typeof job.id === "string" && job.id ? job.id : undefined;
+
+  if (!jobId) {
+    diagnostics.push({
+      path: `${path}.id`,
+      code: "invalid_job",
+      message: "Each job must have a non-empty string 'id'",
+    });
+  }
+
+  if (typeof (job.operation || job.type) !== "string") {
+    diagnostics.push({
+      jobId,
+      path: `${path}.type`,
+      code: "invalid_job",
+      message: "Each job must have a 'type'",
+    });
+  }
+
+  if (!isRecord(job.params)) {
+    diagnostics.push({
+      jobId,
+      path: `${path}.params`,
+      code: "invalid_job",
+      message: "Each job must have a 'params' object",
+    });
+  }
+
+  for (const field of ["dependsOn", "dependencies"] as const) {
+    const value = job[field];
+    if (
+      value !== undefined &&
+      (!Array.isArray(value) || value.some((id) => typeof id !== "string"))
+    ) {
+      diagnostics.push({
+        jobId,
+        path: `${path}.${field}`,
+        code: "invalid_job",
+        message: `'${field}' must be an array of job ids`,
+      });
+    }
+  }
+
+  if (job.cache !== undefined && typeof job.cache !== "boolean") {
+    diagnostics.push({
+      jobId,
+      path: `${path}.cache`,
+      code: "invalid_job",
+      message: "'cache' must be a boolean",
+    });
+  }
+
+  if (job.retry !== undefined) {
+    diagnostics.push(...checkRetryPolicy(job.retry, jobId, `${path}.retry`));
+  }
+
+  return diagnostics;
+}
+
+const MAX_RETRY_ATTEMPTS = 10;
+const ERROR_CLASSES: string[] = Object.values(ProviderErrorClass);
+
+function checkRetryPolicy(
+  retry: unknown,
+  jobId: string | undefined,
+  path: string,
+): PlanDiagnostic[] {
+  if (!isRecord(retry)) {
+    return [
+      {
+        jobId,
+        path,
+        code: "invalid_job",
+        message: "'retry' must be an object",
+      },
+    ];
+  }
+
+  const diagnostics: PlanDiagnostic[] = [];
+  const { maxAttempts, retryOn } = retry;
+
+  if (
+    !Number.isInteger(maxAttempts) ||
+    (maxAttempts as number) < 1 ||
+    (maxAttempts as number) > MAX_RETRY_ATTEMPTS
+  ) {
+    diagnostics.push({
+      jobId,
+      path: `${path}.maxAttempts`,
+      code: "invalid_job",
+      message: `'retry.maxAttempts' must be an integer from 1 to ${MAX_RETRY_ATTEMPTS}`,
+    });
+  }
+
+  for (const field of ["backoffMs", "backoffMultiplier", "maxBackoffMs"]) {
+    const value = retry[field];
+    if (value !== undefined && (typeof value !== "number" || value < 0)) {
+      diagnostics.push({
+        jobId,
+        path: `${path}.${field}`,
+        code: "invalid_job",
+        message: `'retry.${field}' must be a non-negative number`,
+      });
+    }
+  }
+
+  if (retryOn !== undefined) {
+    if (!Array.isArray(retryOn)) {
+      diagnostics.push({
+        jobId,
+        path: `${path}.retryOn`,
+        code: "invalid_job",
+        message: "'retry.retryOn' must be an array of error classes",
+      });
+    } else {
+      retryOn.forEach((errorClass, index) => {
+        if (!ERROR_CLASSES.includes(errorClass)) {
+          diagnostics.push({
+            jobId,
+            path: `${path}.retryOn[${index}]`,
+            code: "invalid_job",
+            message: `Unknown error class '${String(errorClass)}', expected one of: ${ERROR_CLASSES.join(", ")}`,
+          });
+        }
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+function checkModel(
+  job: PlanJobInput,
+  operation: string,
+  path: string,
+): PlanDiagnostic[] {
+  const modelPath = `${path}.params.modelId`;
+  const modelId = job.params.modelId;
+
+  if (modelId === undefined) {
+    if (operation === "lipSync" && !getDefaultLipSyncModel()) {
+      return [
+        {
+          jobId: job.id,
+          path: modelPath,
+          code: "missing_model",
+          message: "No lip-sync model is configured for lipSync",
+        },
+      ];
+    }
+
+    if (MODEL_REQUIRED_OPERATIONS.has(operation)) {
+      return [
+        {
+          jobId: job.id,
+          path: modelPath,
+          code: "missing_model",
+          message: `${operation} requires a modelId`,
+        },
+      ];
+    }
+
+    return [];
+  }
+
+  const modelInfo =
+    typeof modelId === "string" ? getModelInfo(modelId) : undefined;
+  if (!modelInfo) {
+    return [
+      {
+        jobId: job.id,
+        path: modelPath,
+        code: "unknown_model",
+        message: `Unknown model: ${String(modelId)}`,
+      },
+    ];
+  }
+
+  const expectedMediaType = OPERATION_MEDIA_TYPES[operation];
+  const supportsOperation =
+    operation === "lipSync"
+      ? isLipSyncModel(modelId as string)
+      : !expectedMediaType || modelInfo.mediaType === expectedMediaType;
+
+  if (!supportsOperation) {
+    return [
+      {
+        jobId: job.id,
+        path: modelPath,
+        code: "unsupported_model",
+        message: `Model ${modelId} does not support ${operation}`,
+      },
+    ];
+  }
+
+  if (!SCHEMA_CHECKED_OPERATIONS.has(operation)) {
+    return [];
+  }
+
+  let params: Record<string, unknown> = { ...job.params };
+  delete params.modelId;
+
+  // Mirrors GenerateImageJob, which converts unified image params first
+  const imageMapping =
+    replicateMappings[modelId as keyof typeof replicateMappings] ||
+    falMappings[modelId as keyof typeof falMappings];
+  if (
+    operation === "generateImage" &&
+    imageMapping &&
+    (params.image || params.aspectRatio || params.outputFormat || params.seed)
+  ) {
+    params = (imageMapping as any).toProviderOptions(params);
+  }
+
+  const result = modelInfo.schema.safeParse(params);
+  if (result.success) {
+    return [];
+  }
+
+  return (
+    result.error.issues
+      // References are replaced with URLs before the job runs
+      .filter((issue) => !isReference(getAtPath(params, issue.path)))
+      .map((issue) => ({
+        jobId: job.id,
+        path: `${path}.params${formatPath(issue.path)}`,
+        code: "invalid_params" as const,
+        message: `Invalid params for model ${modelId}: ${issue.message}`,
+      }))
+  );
+}
+
+function checkFallbackProviders(
+  job: PlanJobInput,
+  path: string,
+): PlanDiagnostic[] {
+  const { modelId, fallbackProviders } = job.params;
+  const fallbackPath = `${path}.params.fallbackProviders`;
+
+  if (fallbackProviders === undefined) {
+    return [];
+  }
+
+  if (
+    !Array.isArray(fallbackProviders) ||
+    fallbackProviders.some((provider) => typeof provider !== "string")
+  ) {
+    return [
+      {
+        jobId: job.id,
+        path: fallbackPath,
+        code: "invalid_params",
+        message: "'fallbackProviders' must be an array of provider names",
+      },
+    ];
+  }
+
+  // Unknown models are reported by checkModel
+  if (typeof modelId !== "string" || !getModelInfo(modelId)) {
+    return [];
+  }
+
+  // Only image jobs map unified options to another provider's model
+  if (getModelMediaType(modelId) !== "image") {
+    return [
+      {
+        jobId: job.id,
+        path: fallbackPath,
+        code: "invalid_params",
+        message: `'fallbackProviders' is only supported for image models, not ${modelId}`,
+      },
+    ];
+  }
+
+  return fallbackProviders.flatMap((provider: string, index) =>
+    getModelOnProvider(modelId, provider as VideoProvider)
+      ? []
+      : [
+          {
+            jobId: job.id,
+            path: `${fallbackPath}[${index}]`,
+            code: "unsupported_model" as const,
+            message: `Model ${modelId} is not available on provider '${provider}'`,
+          },
+        ],
+  );
+}
+
+const MERGE_TRANSITION_TYPES = [
+  "crossfade",
+  "wipe-left",
+  "wipe-right",
+  "wipe-up",
+  "wipe-down",
+  "slide-left",
+  "slide-right",
+  "slide-up",
+  "slide-down",
+  "dip-to-black",
+];
+const TRANSITION_EASINGS = ["linear", "ease-in", "ease-out", "ease-in-out"];
+
+function checkMergeTransitions(
+  job: PlanJobInput,
+  operation: string,
+  path: string,
+): PlanDiagnostic[] {
+  const { items } = job.params;
+  if (operation !== "merge" || !Array.isArray(items)) {
+    return [];
+  }
+
+  return items.flatMap((item, index): PlanDiagnostic[] => {
+    if (!isRecord(item) || item.transition === undefined) {
+      return [];
+    }
+
+    const transitionPath = `${path}.params.items[${index}].transition`;
+    const invalid = (field: string, message: string): PlanDiagnostic => ({
+      jobId: job.id,
+      path: `${transitionPath}${field}`,
+      code: "invalid_params",
+      message,
+    });
+
+    const { transition } = item;
+    if (!isRecord(transition)) {
+      return [invalid("", "'transition' must be an object")];
+    }
+    if (item.type === "audio") {
+      return [invalid("", "Audio items can't have a transition")];
+    }
+
+    const diagnostics: PlanDiagnostic[] = [];
+    if (!MERGE_TRANSITION_TYPES.includes(transition.type as string)) {
+      diagnostics.push(
+        invalid(
+          ".type",
+          `Unknown transition '${String(transition.type)}', expected one of: ${MERGE_TRANSITION_TYPES.join(", ")}`,
+        ),
+      );
+    }
+    if (
+      transition.duration !== undefined &&
+      (typeof transition.duration !== "number" || transition.duration <= 0)
+    ) {
+      diagnostics.push(
+        invalid(".duration", "'transition.duration' must be a positive number"),
+      );
+    }
+    if (
+      transition.easing !== undefined &&
+      !TRANSITION_EASINGS.includes(transition.easing as string)
+    ) {
+      diagnostics.push(
+        invalid(
+          ".easing",
+          `Unknown easing '${String(transition.easing)}', expected one of: ${TRANSITION_EASINGS.join(", ")}`,
+        ),
+      );
+    }
+    return diagnostics;
+  });
+}
+
+const MIN_SPEED_FACTOR = 0.25;
+const MAX_SPEED_FACTOR = 4;
+
+function checkRetimeParams(
+  job: PlanJobInput,
+  operation: string,
+  path: string,
+): PlanDiagnostic[] {
+  const { start, end, factor, count, duration } = job.params;
+  const invalid = (field: string, message: string): PlanDiagnostic => ({
+    jobId: job.id,
+    path: `${path}.params.${field}`,
+    code: "invalid_params",
+    message,
+  });
+  const isPositive = (value: unknown) => typeof value === "number" && value > 0;
+
+  switch (operation) {
+    case "trim":
+      if (start !== undefined && !(typeof start === "number" && start >= 0)) {
+        return [invalid("start", "'start' must be a non-negative number")];
+      }
+      if (end !== undefined && !isPositive(end)) {
+        return [invalid("end", "'end' must be a positive number")];
+      }
+      if (typeof end === "number" && end <= ((start as number) ?? 0)) {
+        return [invalid("end", "'end' must be after 'start'")];
+      }
+      return [];
+    case "speed":
+      if (
+        typeof factor !== "number" ||
+        factor < MIN_SPEED_FACTOR ||
+        factor > MAX_SPEED_FACTOR
+      ) {
+        return [
+          invalid(
+            "factor",
+            `'factor' must be a number from ${MIN_SPEED_FACTOR} to ${MAX_SPEED_FACTOR}`,
+          ),
+        ];
+      }
+      return [];
+    case "loop":
+      if ((count === undefined) === (duration === undefined)) {
+        return [
+          invalid("count", "Provide exactly one of 'count' or 'duration'"),
+        ];
+      }
+      if (
+        count !== undefined &&
+        !(Number.isInteger(count) && (count as number) >= 1)
+      ) {
+        return [invalid("count", "'count' must be a positive integer")];
+      }
+      if (duration !== undefined && !isPositive(duration)) {
+        return [invalid("duration", "'duration' must be a positive number")];
+      }
+      return [];
+    default:
+      return [];
+  }
+}
+
+// Ranges accepted by FFmpeg's sidechaincompress and loudnorm filters
+const DUCKING_RANGES: Record<string, [number, number]> = {
+  threshold: [0.001, 1],
+  ratio: [1, 20],
+  attack: [0.01, 2000],
+  release: [0.01, 9000],
+};
+const LOUDNESS_RANGES: Record<string, [number, number]> = {
+  target: [-70, -5],
+  truePeak: [-9, 0],
+};
+
+function checkAudioMix(
+  job: PlanJobInput,
+  operation: string,
+  path: string,
+): PlanDiagnostic[] {
+  const invalid = (field: string, message: string): PlanDiagnostic => ({
+    jobId: job.id,
+    path: `${path}.params.${field}`,
+    code: "invalid_params",
+    message,
+  });
+
+  const checkRanges = (
+    value: Record<string, unknown>,
+    ranges: Record<string, [number, number]>,
+    field: string,
+  ): PlanDiagnostic[] =>
+    Object.entries(ranges).flatMap(([key, [min, max]]) => {
+      const option = value[key];
+      return option === undefined ||
+        (typeof option === "number" && option >= min && option <= max)
+        ? []
+        : [
+            invalid(
+              `${field}.${key}`,
+              `'${key}' must be a number from ${min} to ${max}`,
+            ),
+          ];
+    });
+
+  const checkTrack = (
+    track: Record<string, unknown>,
+    field: string,
+  ): PlanDiagnostic[] => {
+    const diagnostics: PlanDiagnostic[] = [];
+    for (const fade of ["fadeIn", "fadeOut"]) {
+      const value = track[fade];
+      if (value !== undefined && !(typeof value === "number" && value >= 0)) {
+        diagnostics.push(
+          invalid(
+            `${field}.${fade}`,
+            `'${fade}' must be a non-negative number`,
+          ),
+        );
+      }
+    }
+    if (isRecord(track.duck)) {
+      diagnostics.push(
+        ...checkRanges(track.duck, DUCKING_RANGES, `${field}.duck`),
+      );
+    } else if (track.duck !== undefined && typeof track.duck !== "boolean") {
+      diagnostics.push(
+        invalid(`${field}.duck`, "'duck' must be a boolean or an object"),
+      );
+    }
+    return diagnostics;
+  };
+
+  const { items, audio, loudness } = job.params;
+  const diagnostics: PlanDiagnostic[] = [];
+
+  if (operation === "merge" && Array.isArray(items)) {
+    items.forEach((item, index) => {
+      if (!isRecord(item)) {
+        return;
+      }
+      const field = `items[${index}]`;
+      if (item.type !== "audio") {
+        if (
+          item.fadeIn !== undefined ||
+          item.fadeOut !== undefined ||
+          item.duck !== undefined
+        ) {
+          diagnostics.push(
+            invalid(field, "Only audio items can have fades or ducking"),
+          );
+        }
+        return;
+      }
+      diagnostics.push(...checkTrack(item, field));
+    });
+  } else if (operation === "layer" && Array.isArray(audio)) {
+    audio.forEach((track, index) => {
+      if (isRecord(track)) {
+        diagnostics.push(...checkTrack(track, `audio[${index}]`));
+      }
+    });
+  } else {
+    return [];
+  }
+
+  if (isRecord(loudness)) {
+    diagnostics.push(...checkRanges(loudness, LOUDNESS_RANGES, "loudness"));
+  } else if (loudness !== undefined) {
+    diagnostics.push(invalid("loudness", "'loudness' must be an object"));
+  }
+
+  return diagnostics;
+}
+
+function checkLayerKeyframes(
+  job: PlanJobInput,
+  operation: string,
+  path: string,
+): PlanDiagnostic[] {
+  const { layers } = job.params;
+  if (operation !== "layer" || !Array.isArray(layers)) {
+    return [];
+  }
+
+  return layers.flatMap((layer, layerIndex): PlanDiagnostic[] => {
+    if (!isRecord(layer) || layer.keyframes === undefined) {
+      return [];
+    }
+
+    const keyframesPath = `${path}.params.layers[${layerIndex}].keyframes`;
+    const invalid = (field: string, message: string): PlanDiagnostic => ({
+      jobId: job.id,
+      path: `${keyframesPath}${field}`,
+      code: "invalid_params",
+      message,
+    });
+
+    const { keyframes } = layer;
+    if (!Array.isArray(keyframes)) {
+      return [invalid("", "'keyframes' must be an array")];
+    }
+    if (layerIndex === 0) {
+      return [invalid("", "The first (background) layer can't have keyframes")];
+    }
+
+    const times = new Set<number>();
+    return keyframes.flatMap((keyframe, index): PlanDiagnostic[] => {
+      const field = `[${index}]`;
+      if (!isRecord(keyframe)) {
+        return [invalid(field, "Keyframe must be an object")];
+      }
+
+      const diagnostics: PlanDiagnostic[] = [];
+      const { time, opacity, rotation, easing } = keyframe;
+      if (typeof time !== "number" || time < 0) {
+        diagnostics.push(
+          invalid(`${field}.time`, "'time' must be a non-negative number"),
+        );
+      } else if (times.has(time)) {
+        diagnostics.push(
+          invalid(`${field}.time`, `Duplicate keyframe at ${time}s`),
+        );
+      } else {
+        times.add(time);
+      }
+      if (
+        opacity !== undefined &&
+        !(typeof opacity === "number" && opacity >= 0 && opacity <= 1)
+      ) {
+        diagnostics.push(
+          invalid(`${field}.opacity`, "'opacity' must be a number from 0 to 1"),
+        );
+      }
+      if (rotation !== undefined && typeof rotation !== "number") {
+        diagnostics.push(
+          invalid(`${field}.rotation`, "'rotation' must be a number"),
+        );
+      }
+      if (
+        easing !== undefined &&
+        !TRANSITION_EASINGS.includes(easing as string)
+      ) {
+        diagnostics.push(
+          invalid(
+            `${field}.easing`,
+            `Unknown easing '${String(easing)}', expected one of: ${TRANSITION_EASINGS.join(", ")}`,
+          ),
+        );
+      }
+      return diagnostics;
+    });
+  });
+}
+
+const SUBTITLE_FORMATS = ["srt", "vtt", "json"];
+
+function checkSubtitleExports(
+  job: PlanJobInput,
+  operation: string,
+  path: string,
+  translationAvailable: boolean | undefined,
+): PlanDiagnostic[] {
+  const { formats, burn, translate } = job.params;
+  if (operation !== "addSubtitles") {
+    return [];
+  }
+
+  const invalid = (field: string, message: string): PlanDiagnostic => ({
+    jobId: job.id,
+    path: `${path}.params.${field}`,
+    code: "invalid_params",
+    message,
+  });
+
+  if (formats !== undefined) {
+    if (!Array.isArray(formats)) {
+      return [invalid("formats", "'formats' must be an array")];
+    }
+    const unknown = formats.find(
+      (format) => !SUBTITLE_FORMATS.includes(format as string),
+    );
+    if (unknown !== undefined) {
+      return [
+        invalid(
+          "formats",
+          `Unknown subtitle format '${String(unknown)}', expected one of: ${SUBTITLE_FORMATS.join(", ")}`,
+        ),
+      ];
+    }
+  }
+  if (
+    translate !== undefined &&
+    !(
+      Array.isArray(translate) &&
+      translate.every((language) => typeof language === "string" && language)
+    )
+  ) {
+    return [
+      invalid("translate", "'translate' must be an array of language codes"),
+    ];
+  }
+  if (
+    translationAvailable === false &&
+    Array.isArray(translate) &&
+    translate.length > 0
+  ) {
+    return [
+      invalid(
+        "translate",
+        "Caption translation is not configured on this server",
+      ),
+    ];
+  }
+  if (burn === false && !(Array.isArray(formats) && formats.length > 0)) {
+    return [invalid("burn", "'formats' is required when 'burn' is false")];
+  }
+  return [];
+}
+
+function checkCaptionSpeakers(
+  job: PlanJobInput,
+  operation: string,
+  path: string,
+): PlanDiagnostic[] {
+  const { style } = job.params;
+  if (
+    operation !== "addSubtitles" ||
+    !isRecord(style) ||
+    style.speakers === undefined
+  ) {
+    return [];
+  }
+
+  const { speakers } = style;
+  if (!isRecord(speakers) || !Object.values(speakers).every(isRecord)) {
+    return [
+      {
+        jobId: job.id,
+        path: `${path}.params.style.speakers`,
+        code: "invalid_params",
+        message:
+          '\'speakers\' must map speaker labels to styles, e.g. { "SPEAKER_00": { "color": "#FFD700" } }',
+      },
+    ];
+  }
+  return [];
+}
+
+const TEXT_ALIGNMENTS = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+];
+
+function checkTextOverlays(
+  job: PlanJobInput,
+  operation: string,
+  path: string,
+): PlanDiagnostic[] {
+  const { texts } = job.params;
+  if (operation !== "overlayText" && operation !== "layer") {
+    return [];
+  }
+  if (texts === undefined && operation === "layer") {
+    return [];
+  }
+
+  const invalid = (field: string, message: string): PlanDiagnostic => ({
+    jobId: job.id,
+    path: `${path}.params.texts${field}`,
+    code: "invalid_params",
+    message,
+  });
+
+  if (!Array.isArray(texts) || texts.length === 0) {
+    return [invalid("", "'texts' must be a non-empty array")];
+  }
+
+  return texts.flatMap((text, index): PlanDiagnostic[] => {
+    const field = `[${index}]`;
+    if (!isRecord(text)) {
+      return [invalid(field, "Text must be an object")];
+    }
+
+    const diagnostics: PlanDiagnostic[] = [];
+    if (typeof text.text !== "string" || !text.text) {
+      diagnostics.push(
+        invalid(`${field}.text`, "'text' must be a non-empty string"),
+      );
+    }
+    if (
+      text.alignment !== undefined &&
+      !TEXT_ALIGNMENTS.includes(text.alignment as string)
+    ) {
+      diagnostics.push(
+        invalid(
+          `${field}.alignment`,
+          `Unknown alignment '${String(text.alignment)}', expected one of: ${TEXT_ALIGNMENTS.join(", ")}`,
+        ),
+      );
+    }
+    if (
+      typeof text.start === "number" &&
+      typeof text.end === "number" &&
+      text.end <= text.start
+    ) {
+      diagnostics.push(invalid(`${field}.end`, "'end' must be after 'start'"));
+    }
+    return diagnostics;
+  });
+}
+
+/**
+ * Check that the model a job runs (lipSync's default model when it names
+ * none) is allowed for the API key. Unknown models are reported by
+ * checkModel.
+ */
+function checkModelAccess(
+  job: PlanJobInput,
+  operation: string,
+  path: string,
+  modelAccess: { mediaTypes?: Set<string>; modelIds?: Set<string> } | undefined,
+): PlanDiagnostic[] {
+  const modelId =
+    job.params.modelId ??
+    (operation === "lipSync" ? getDefaultLipSyncModel() : undefined);
+  const modelInfo =
+    typeof modelId === "string" ? getModelInfo(modelId) : undefined;
+  if (!modelAccess || !modelInfo) {
+    return [];
+  }
+
+  if (modelAccess.modelIds && !modelAccess.modelIds.has(modelId as string)) {
+    return [
+      {
+        jobId: job.id,
+        path: `${path}.params.modelId`,
+        code: "model_not_allowed",
+        message: `This API key is not allowed to use model ${modelId}`,
+      },
+    ];
+  }
+  if (
+    modelAccess.mediaTypes &&
+    !modelAccess.mediaTypes.has(modelInfo.mediaType)
+  ) {
+    return [
+      {
+        jobId: job.id,
+        path: `${path}.params.modelId`,
+        code: "model_not_allowed",
+        message: `This API key is not allowed to use ${modelInfo.mediaType} models like ${modelId}`,
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Check the fontId / fontUrl of caption styles and texts. Font ids are only
+ * checked against the organization's fonts when they are known.
+ */
+function checkFonts(
+  job: PlanJobInput,
+  operation: string,
+  path: string,
+  fontIds: Set<string> | undefined,
+): PlanDiagnostic[] {
+  const { style, texts } = job.params;
+  const fonts: Array<{ field: string; value: Record<string, unknown> }> = [];
+
+  if (operation === "addSubtitles" && isRecord(style)) {
+    fonts.push({ field: "style", value: style });
+  }
+  if (
+    (operation === "overlayText" || operation === "layer") &&
+    Array.isArray(texts)
+  ) {
+    texts.forEach((text, index) => {
+      if (isRecord(text)) {
+        fonts.push({ field: `texts[${index}]`, value: text });
+      }
+    });
+  }
+
+  return fonts.flatMap(({ field, value }): PlanDiagnostic[] => {
+    const { fontId, fontUrl } = value;
+    const fieldPath = `${path}.params.${field}`;
+
+    if (fontId !== undefined) {
+      if (typeof fontId !== "string" || !fontId) {
+        return [
+          {
+            jobId: job.id,
+            path: `${fieldPath}.fontId`,
+            code: "invalid_params",
+            message: "'fontId' must be a non-empty string",
+          },
+        ];
+      }
+      if (fontIds && !fontIds.has(fontId)) {
+        return [
+          {
+            jobId: job.id,
+            path: `${fieldPath}.fontId`,
+            code: "unknown_font",
+            message: `Unknown font '${fontId}'. Upload fonts on the Integrations page of the dashboard`,
+          },
+        ];
+      }
+    }
+    if (
+      fontUrl !== undefined &&
+      !(typeof fontUrl === "string" && /^https?:\/\//.test(fontUrl))
+    ) {
+      return [
+        {
+          jobId: job.id,
+          path: `${fieldPath}.fontUrl`,
+          code: "invalid_params",
+          message: "'fontUrl' must be an http(s) URL of a .ttf or .otf file",
+        },
+      ];
+    }
+    if (fontId !== undefined && fontUrl !== undefined) {
+      return [
+        {
+          jobId: job.id,
+          path: `${fieldPath}.fontUrl`,
+          code: "invalid_params",
+          message: "Use either 'fontId' or 'fontUrl', not both",
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+/**
+ * Collect job references (`$ref:<jobId>` and the legacy
+ * `_*JobDependency:<jobId>` markers) anywhere in a job's params
+ */
+function collectReferences(
+  value: unknown,
+  path: string,
+  references: Array<{ jobId: string; path: string }> = [],
+): Array<{ jobId: string; path: string }> {
+  if (typeof value === "string") {
+    const jobId = getReferencedJobId(value);
+    if (jobId) {
+      references.push({ jobId, path });
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      collectReferences(item, `${path}[${index}]`, references),
+    );
+  } else if (isRecord(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      collectReferences(item, `${path}.${key}`, references);
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Find dependency cycles, each returned as the job ids along the cycle
+ * ending with its first job again
+ */
+function findCycles(edges: Map<string, string[]>): string[][] {
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (jobId: string) => {
+    state.set(jobId, "visiting");
+    stack.push(jobId);
+
+    for (const dependencyId of edges.get(jobId) ?? []) {
+      const dependencyState = state.get(dependencyId);
+      if (dependencyState === "visiting") {
+        cycles.push([
+          ...stack.slice(stack.indexOf(dependencyId)),
+          dependencyId,
+        ]);
+      } else if (!dependencyState && edges.has(dependencyId)) {
+        visit(dependencyId);
+      }
+    }
+
+    stack.pop();
+    state.set(jobId, "done");
+  };
+
+  for (const jobId of edges.keys()) {
+    if (!state.has(jobId)) {
+      visit(jobId);
+    }
+  }
+
+  return cycles;
+}
+
+function getReferencedJobId(value: string): string | undefined {
+  if (value.startsWith(JOB_REFERENCE_PREFIX)) {
+    return value.slice(JOB_REFERENCE_PREFIX.length);
+  }
+  return value.match(LEGACY_REFERENCE_PATTERN)?.[1];
+}
+
+function isReference(value: unknown): boolean {
+  return typeof value === "string" && getReferencedJobId(value) !== undefined;
+}
+
+function getAtPath(value: unknown, path: (string | number)[]): unknown {
+  return path.reduce<unknown>(
+    (current, key) =>
+      isRecord(current) || Array.isArray(current)
+        ? (current as Record<string | number, unknown>)[key]
+        : undefined,
+    value,
+  );
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path
+    .map((key) => (typeof key === "number" ? `[${key}]` : `.${key}`))
+    .join("");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -30,9 +30,12 @@ export const VideoModel = {
 export type VideoModel = (typeof VideoModel)[keyof typeof VideoModel];
 
 export * from "./services/base-provider.js";
+export * from "./services/error-classifier.js";
 export * from "./services/replicate-service.js";
 export * from "./services/fal-service.js";
 export * from "./services/google-cloud-service.js";
 export * from "./services/hume-service.js";
 export * from "./services/elevenlabs-service.js";
+export * from "./services/fake-provider-service.js";
 export * from "./services/video-provider-factory.js";
+export * from "./services/translation-service.js";
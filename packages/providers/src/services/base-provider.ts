@@ -28,6 +28,14 @@ export interface AsyncJobStatus {
   progress?: number; // 0-100
 }
 
+/**
+ * Outcome of checking a provider webhook delivery's signature
+ */
+export interface WebhookVerification {
+  valid: boolean;
+  reason?: string; // Why the delivery was rejected
+}
+
 export interface VideoProviderService {
   /**
    * Legacy synchronous method - waits for video to complete
@@ -59,6 +67,24 @@ export interface VideoProviderService {
    */
   getRawJobResponse?(providerJobId: string): Promise<unknown>;
 
+  /**
+   * Cancel an in-flight async job
+   * Optional - providers without a cancel API simply let the job finish
+   */
+  cancelJob?(providerJobId: string): Promise<void>;
+
+  /**
+   * Check that a webhook delivery was signed by the provider and is about
+   * the given provider job (when known). Header names are lowercase.
+   * Optional - webhooks of providers without signatures are only checked
+   * against the job's webhook token
+   */
+  verifyWebhook?(
+    headers: Record<string, string>,
+    body: string,
+    providerJobId?: string | null,
+  ): Promise<WebhookVerification>;
+
   /**
    * Get provider capabilities (webhook/polling support)
    */
@@ -8,25 +8,16 @@ import type {
   VideoGenerationResult,
   VideoProviderService,
 } from "./base-provider.js";
+import { logger } from "@repo/logger";
 
 export class ElevenLabsService implements VideoProviderService {
   private client: ElevenLabsClient;
   private completedJobs: Map<string, VideoGenerationResult> = new Map();
 
   constructor(apiKey?: string) {
-    console.log(
+    logger.info(
       `[ElevenLabsService] Constructor called with apiKey: ${apiKey ? "***PROVIDED***" : "undefined"}`,
     );
-    console.log(`[ElevenLabsService] API key length: ${apiKey?.length || 0}`);
-    console.log(
-      `[ElevenLabsService] API key starts with: ${apiKey?.substring(0, 10) || "N/A"}`,
-    );
-    console.log(
-      `[ElevenLabsService] API key ends with: ${apiKey?.substring(apiKey.length - 10) || "N/A"}`,
-    );
-    console.log(
-      `[ElevenLabsService] Expected key for comparison: sk_d0907bdb (first 10 chars)`,
-    );
 
     if (!apiKey) {
       throw new Error(
@@ -47,10 +38,10 @@ export class ElevenLabsService implements VideoProviderService {
     modelId: string,
     params: Record<string, unknown>,
   ): Promise<VideoGenerationResult> {
-    console.log(
+    logger.info(
       `[ElevenLabsService] Generating audio with modelId: ${modelId}`,
     );
-    console.log(`[ElevenLabsService] Params:`, JSON.stringify(params, null, 2));
+    logger.info(`[ElevenLabsService] Params:`, JSON.stringify(params, null, 2));
 
     try {
       // Extract and validate required parameters
@@ -105,7 +96,7 @@ export class ElevenLabsService implements VideoProviderService {
         ttsOptions.next_text = params.nextText;
       }
 
-      console.log(
+      logger.info(
         `[ElevenLabsService] TTS request:`,
         JSON.stringify(ttsOptions, null, 2),
       );
@@ -116,7 +107,7 @@ export class ElevenLabsService implements VideoProviderService {
         ttsOptions,
       );
 
-      console.log(
+      logger.info(
         `[ElevenLabsService] Audio stream received, converting to base64`,
       );
 
@@ -138,13 +129,13 @@ export class ElevenLabsService implements VideoProviderService {
       // Convert to base64 and return as-is (job layer will upload to CDN)
       const base64Audio = Buffer.from(audioBuffer).toString("base64");
 
-      console.log(
+      logger.info(
         `[ElevenLabsService] Audio generated successfully, size: ${base64Audio.length} bytes`,
       );
 
       return { url: base64Audio };
     } catch (error) {
-      console.error(`[ElevenLabsService] Failed to generate audio:`, error);
+      logger.error(`[ElevenLabsService] Failed to generate audio:`, error);
 
       // Check if it's an authentication/API key error
       if (error && typeof error === "object") {
@@ -176,7 +167,7 @@ export class ElevenLabsService implements VideoProviderService {
     params: Record<string, unknown>,
     _webhook?: string,
   ): Promise<AsyncGenerationStart> {
-    console.log(
+    logger.info(
       `[ElevenLabsService] startGeneration called with modelId: ${modelId}`,
     );
 
@@ -186,7 +177,7 @@ export class ElevenLabsService implements VideoProviderService {
     // Use generateId from @repo/tools (NOT crypto.randomUUID!)
     const jobId = generateId();
 
-    console.log(
+    logger.info(
       `[ElevenLabsService] Audio generated successfully with jobId: ${jobId}`,
     );
 
@@ -203,19 +194,19 @@ export class ElevenLabsService implements VideoProviderService {
    * Get job status (always completed for ElevenLabs since it's synchronous)
    */
   async getJobStatus(providerJobId: string): Promise<AsyncJobStatus> {
-    console.log(`[ElevenLabsService] Getting job status for: ${providerJobId}`);
+    logger.info(`[ElevenLabsService] Getting job status for: ${providerJobId}`);
 
     const jobResult = this.completedJobs.get(providerJobId);
 
     if (!jobResult) {
-      console.error(`[ElevenLabsService] Job not found: ${providerJobId}`);
+      logger.error(`[ElevenLabsService] Job not found: ${providerJobId}`);
       return {
         status: "failed",
         error: "Job not found",
       };
     }
 
-    console.log(`[ElevenLabsService] Job completed:`);
+    logger.info(`[ElevenLabsService] Job completed:`);
 
     return {
       status: "completed",
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import {
+  classifyProviderError,
+  isTransientProviderError,
+  ProviderErrorClass,
+} from "./error-classifier";
+
+function httpError(message: string, status: number) {
+  return Object.assign(new Error(message), { status });
+}
+
+describe("classifyProviderError", () => {
+  test("classifies by the HTTP status the SDK attaches", () => {
+    expect(classifyProviderError(httpError("Request failed", 429))).toBe(
+      ProviderErrorClass.RateLimited,
+    );
+    expect(classifyProviderError(httpError("Request failed", 504))).toBe(
+      ProviderErrorClass.Timeout,
+    );
+    expect(classifyProviderError(httpError("Request failed", 502))).toBe(
+      ProviderErrorClass.ServerError,
+    );
+    expect(classifyProviderError(httpError("Request failed", 422))).toBe(
+      ProviderErrorClass.InvalidInput,
+    );
+    expect(
+      classifyProviderError({
+        message: "Request failed",
+        response: { status: 503 },
+      }),
+    ).toBe(ProviderErrorClass.ServerError);
+  });
+
+  test("prefers rejections and full queues in the message over the status", () => {
+    expect(
+      classifyProviderError(
+        httpError("NSFW content detected by the safety checker", 400),
+      ),
+    ).toBe(ProviderErrorClass.ContentRejected);
+    expect(
+      classifyProviderError(httpError("Queue is full, try again later", 429)),
+    ).toBe(ProviderErrorClass.QueueFull);
+  });
+
+  test("classifies plain messages", () => {
+    expect(classifyProviderError("Request failed with status code 429")).toBe(
+      ProviderErrorClass.RateLimited,
+    );
+    expect(classifyProviderError("HTTP 503 Service Unavailable")).toBe(
+      ProviderErrorClass.ServerError,
+    );
+    expect(classifyProviderError(new Error("fetch failed"))).toBe(
+      ProviderErrorClass.Timeout,
+    );
+    expect(classifyProviderError("prompt is required")).toBe(
+      ProviderErrorClass.InvalidInput,
+    );
+  });
+
+  test("doesn't mistake numbers in validation messages for statuses", () => {
+    expect(classifyProviderError("prompt must be at most 500 characters")).toBe(
+      ProviderErrorClass.InvalidInput,
+    );
+  });
+
+  test("is unknown for anything else", () => {
+    expect(classifyProviderError("Something odd happened")).toBe(
+      ProviderErrorClass.Unknown,
+    );
+    expect(classifyProviderError(undefined)).toBe(ProviderErrorClass.Unknown);
+  });
+});
+
+describe("isTransientProviderError", () => {
+  test("retries rate limits, server errors, timeouts and full queues", () => {
+    expect(isTransientProviderError(httpError("Request failed", 500))).toBe(
+      true,
+    );
+    expect(isTransientProviderError("ETIMEDOUT")).toBe(true);
+  });
+
+  test("doesn't retry invalid input or rejected content", () => {
+    expect(isTransientProviderError(httpError("Request failed", 400))).toBe(
+      false,
+    );
+    expect(isTransientProviderError("Flagged as sensitive")).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Kinds of provider failures, used to decide whether a job is worth retrying
+ */
+export const ProviderErrorClass = {
+  RateLimited: "rate_limited",
+  ServerError: "server_error",
+  Timeout: "timeout",
+  QueueFull: "queue_full",
+  InvalidInput: "invalid_input",
+  ContentRejected: "content_rejected",
+  Unknown: "unknown",
+} as const;
+
+export type ProviderErrorClass =
+  (typeof ProviderErrorClass)[keyof typeof ProviderErrorClass];
+
+/**
+ * Failures that may succeed if the same request is sent again later
+ */
+export const TRANSIENT_ERROR_CLASSES: readonly ProviderErrorClass[] = [
+  ProviderErrorClass.RateLimited,
+  ProviderErrorClass.ServerError,
+  ProviderErrorClass.Timeout,
+  ProviderErrorClass.QueueFull,
+];
+
+// Checked in order - rejections first, since e.g. an NSFW message can also
+// mention a 400 status. Status codes only count when phrased as one
+// ("status code 503", "HTTP 500"), since validation messages mention
+// numbers too ("prompt must be at most 500 characters")
+const MESSAGE_PATTERNS: Array<[RegExp, ProviderErrorClass]> = [
+  [
+    /nsfw|safety (?:checker|filter|system)|content (?:policy|moderation)|flagged as sensitive|inappropriate content/i,
+    ProviderErrorClass.ContentRejected,
+  ],
+  [
+    /queue (?:is )?full|too many (?:queued|pending)/i,
+    ProviderErrorClass.QueueFull,
+  ],
+  [
+    /(?:status(?: code)?|HTTP(?:\/[\d.]+)?):? 429\b|rate.?limit|too many requests|throttl/i,
+    ProviderErrorClass.RateLimited,
+  ],
+  [
+    /timed? ?out|timeout|ETIMEDOUT|ECONNRESET|ECONNREFUSED|socket hang up|fetch failed/i,
+    ProviderErrorClass.Timeout,
+  ],
+  [
+    /(?:status(?: code)?|HTTP(?:\/[\d.]+)?):? 5\d\d\b|internal server error|bad gateway|service unavailable|gateway timeout|overloaded/i,
+    ProviderErrorClass.ServerError,
+  ],
+  [
+    /(?:status(?: code)?|HTTP(?:\/[\d.]+)?):? 4(?:00|22)\b|invalid (?:input|param|argument|value)|validation (?:failed|error)|unprocessable|parameter validation|is required|must be/i,
+    ProviderErrorClass.InvalidInput,
+  ],
+];
+
+/**
+ * Classify an error thrown by a provider SDK or reported by a provider
+ * webhook/poll. Accepts Error objects (using their HTTP status when the SDK
+ * attaches one) as well as plain error messages.
+ */
+export function classifyProviderError(error: unknown): ProviderErrorClass {
+  const status = getHttpStatus(error);
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === "string"
+        ? error
+        : "";
+
+  // The message is more specific than the status for rejections and full
+  // queues (Replicate reports both with generic statuses)
+  const byMessage = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message));
+  if (
+    byMessage &&
+    (byMessage[1] === ProviderErrorClass.ContentRejected ||
+      byMessage[1] === ProviderErrorClass.QueueFull)
+  ) {
+    return byMessage[1];
+  }
+
+  if (status !== undefined) {
+    if (status === 429) return ProviderErrorClass.RateLimited;
+    if (status === 408 || status === 504) return ProviderErrorClass.Timeout;
+    if (status >= 500) return ProviderErrorClass.ServerError;
+    if (status >= 400) return ProviderErrorClass.InvalidInput;
+  }
+
+  return byMessage?.[1] ?? ProviderErrorClass.Unknown;
+}
+
+export function isTransientProviderError(error: unknown): boolean {
+  return TRANSIENT_ERROR_CLASSES.includes(classifyProviderError(error));
+}
+
+/**
+ * Read the HTTP status the provider SDKs attach to their errors
+ * (`status` on fal, `response.status` on Replicate)
+ */
+function getHttpStatus(error: unknown): number | undefined {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+
+  const candidate = error as {
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+  };
+  const status =
+    candidate.status ?? candidate.statusCode ?? candidate.response?.status;
+
+  return typeof status === "number" ? status : undefined;
+}
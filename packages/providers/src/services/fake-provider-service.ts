@@ -0,0 +1,408 @@
+import { createHash } from "crypto";
+import type {
+  MediaType,
+  ProviderCapabilities,
+  VideoProvider,
+} from "@repo/model-schemas";
+import {
+  elevenLabsCapabilities,
+  falCapabilities,
+  getModelCapabilities,
+  getModelInfo,
+  googleCloudCapabilities,
+  humeCapabilities,
+  replicateCapabilities,
+} from "@repo/model-schemas";
+import type {
+  AsyncGenerationStart,
+  AsyncJobStatus,
+  VideoGenerationResult,
+  VideoProviderService,
+} from "./base-provider.js";
+import { logger } from "@repo/logger";
+
+/**
+ * Settings of the fake provider for one provider job
+ */
+export interface FakeProviderOptions {
+  delayMs?: number; // How long the job runs (default: FAKE_PROVIDER_DELAY_MS, or 3000)
+  error?: string; // Fail the job with this error instead of returning media
+}
+
+const DEFAULT_DELAY_MS = 3000;
+const MAX_DELAY_MS = 10 * 60 * 1000;
+const JOB_ID_PREFIX = "fake_";
+
+const PROVIDER_CAPABILITIES: Record<VideoProvider, ProviderCapabilities> = {
+  replicate: replicateCapabilities,
+  fal: falCapabilities,
+  "google-cloud": googleCloudCapabilities,
+  hume: humeCapabilities,
+  elevenlabs: elevenLabsCapabilities,
+};
+
+const PLACEHOLDER_TRANSCRIPT =
+  "This is a placeholder transcript from a Synthome test execution.";
+
+/**
+ * Everything needed to answer for a fake job. It is encoded into the
+ * provider job id, so any process (polling worker, webhook handler) can
+ * report the job's status without shared state.
+ */
+interface FakeJob {
+  modelId: string;
+  startedAt: number;
+  delayMs: number;
+  error?: string;
+  url?: string; // Placeholder media URL (unset for transcripts)
+  duration: number;
+}
+
+type FakeJobState = "processing" | "completed" | "failed";
+
+/**
+ * Stand-in for a real provider, used by executions of test API keys
+ * (sy_test_). Jobs take a fixed time, then return placeholder media
+ * rendered by the FFmpeg service (a color and a tone derived from the
+ * model and params, so the same request always gives the same output) or
+ * fail with an injected error.
+ *
+ * Responses have the shape of the provider the model belongs to, so the
+ * model's webhook and polling parsers handle them like real ones.
+ */
+export class FakeProviderService implements VideoProviderService {
+  private delayMs: number;
+
+  constructor(
+    private provider: VideoProvider,
+    private options: FakeProviderOptions = {},
+  ) {
+    const delayMs =
+      options.delayMs ??
+      Number(process.env.FAKE_PROVIDER_DELAY_MS || DEFAULT_DELAY_MS);
+    this.delayMs = Math.min(Math.max(delayMs, 0), MAX_DELAY_MS);
+  }
+
+  async generateVideo(
+    modelId: string,
+    params: Record<string, unknown>,
+  ): Promise<VideoGenerationResult> {
+    const { providerJobId } = await this.startGeneration(modelId, params);
+    await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+
+    const status = await this.getJobStatus(providerJobId);
+    if (status.status === "failed") {
+      throw new Error(status.error);
+    }
+    return this.toResult(decodeJobId(providerJobId));
+  }
+
+  async startGeneration(
+    modelId: string,
+    params: Record<string, unknown>,
+    webhook?: string,
+  ): Promise<AsyncGenerationStart> {
+    const modelInfo = getModelInfo(modelId);
+    if (!modelInfo) {
+      throw new Error(`Unknown model: ${modelId}`);
+    }
+
+    const duration = getPlaceholderDuration(modelInfo.mediaType, params);
+    const job: FakeJob = {
+      modelId,
+      startedAt: Date.now(),
+      delayMs: this.delayMs,
+      error: this.options.error,
+      url:
+        modelInfo.mediaType === "transcript"
+          ? undefined
+          : getPlaceholderUrl(modelInfo.mediaType, modelId, params, duration),
+      duration,
+    };
+    const providerJobId = encodeJobId(job);
+    const waitingStrategy = getModelCapabilities(modelId).defaultStrategy;
+
+    logger.info(
+      `[FakeProviderService] Started ${this.provider} job for ${modelId} (${job.delayMs}ms${job.error ? ", will fail" : ""})`,
+    );
+
+    // Like the real provider, report the outcome to the webhook when done
+    if (webhook && waitingStrategy === "webhook") {
+      setTimeout(() => {
+        this.deliverWebhook(webhook, providerJobId, job).catch((error) => {
+          logger.error(
+            `[FakeProviderService] Webhook delivery for ${modelId} failed:`,
+            error,
+          );
+        });
+      }, job.delayMs);
+    }
+
+    return {
+      providerJobId,
+      waitingStrategy,
+      estimatedCompletionTime: Math.ceil(job.delayMs / 1000),
+    };
+  }
+
+  async getJobStatus(providerJobId: string): Promise<AsyncJobStatus> {
+    const job = decodeJobId(providerJobId);
+    const state = getJobState(job);
+
+    // fal's service hands back the queue response itself, which its
+    // parsers read
+    const result =
+      this.provider === "fal"
+        ? (this.toRawResponse(
+            providerJobId,
+            job,
+            state,
+          ) as VideoGenerationResult)
+        : undefined;
+
+    if (state === "processing") {
+      return {
+        status: "processing",
+        result,
+        progress: Math.floor(
+          ((Date.now() - job.startedAt) / job.delayMs) * 100,
+        ),
+      };
+    }
+    if (state === "failed") {
+      return { status: "failed", error: job.error, result };
+    }
+    return { status: "completed", result: result ?? this.toResult(job) };
+  }
+
+  async getRawJobResponse(providerJobId: string): Promise<unknown> {
+    const job = decodeJobId(providerJobId);
+    return this.toRawResponse(providerJobId, job, getJobState(job));
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return PROVIDER_CAPABILITIES[this.provider];
+  }
+
+  private async deliverWebhook(
+    webhook: string,
+    providerJobId: string,
+    job: FakeJob,
+  ): Promise<void> {
+    const payload = this.toRawResponse(
+      providerJobId,
+      job,
+      job.error ? "failed" : "completed",
+    );
+
+    const response = await fetch(webhook, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+
+  private toResult(job: FakeJob): VideoGenerationResult {
+    return job.url ? { url: job.url } : { data: getPlaceholderTranscript(job) };
+  }
+
+  /**
+   * The job as the real provider would describe it
+   */
+  private toRawResponse(
+    providerJobId: string,
+    job: FakeJob,
+    state: FakeJobState,
+  ): unknown {
+    const mediaType = getModelInfo(job.modelId)?.mediaType;
+    const output = job.url ?? getPlaceholderTranscript(job);
+
+    switch (this.provider) {
+      case "replicate":
+        return {
+          id: providerJobId,
+          model: job.modelId,
+          status:
+            state === "completed"
+              ? "succeeded"
+              : state === "failed"
+                ? "failed"
+                : "processing",
+          output:
+            state !== "completed"
+              ? null
+              : mediaType === "image"
+                ? [output]
+                : output,
+          error: state === "failed" ? job.error : null,
+          created_at: new Date(job.startedAt).toISOString(),
+        };
+
+      case "fal":
+        if (state !== "completed") {
+          return {
+            request_id: providerJobId,
+            status: state === "failed" ? "FAILED" : "IN_PROGRESS",
+            ...(state === "failed" && { error: job.error }),
+          };
+        }
+        if (mediaType === "image") {
+          return { images: [{ url: output, content_type: "image/png" }] };
+        }
+        if (mediaType === "transcript") {
+          return output;
+        }
+        return {
+          [mediaType === "audio" ? "audio" : "video"]: {
+            url: output,
+            content_type: mediaType === "audio" ? "audio/mpeg" : "video/mp4",
+          },
+        };
+
+      case "google-cloud":
+        return {
+          name: providerJobId,
+          done: state !== "processing",
+          ...(state === "failed" && { error: { message: job.error } }),
+          ...(state === "completed" && {
+            response: { video: { gcsUri: output } },
+          }),
+        };
+
+      case "hume":
+      case "elevenlabs":
+        if (state === "failed") {
+          return { error: job.error };
+        }
+        return state === "completed" ? { url: output } : {};
+    }
+  }
+}
+
+function encodeJobId(job: FakeJob): string {
+  return `${JOB_ID_PREFIX}${Buffer.from(JSON.stringify(job)).toString("base64url")}`;
+}
+
+function decodeJobId(providerJobId: string): FakeJob {
+  if (!providerJobId.startsWith(JOB_ID_PREFIX)) {
+    throw new Error(`Not a fake provider job: ${providerJobId}`);
+  }
+  return JSON.parse(
+    Buffer.from(
+      providerJobId.slice(JOB_ID_PREFIX.length),
+      "base64url",
+    ).toString(),
+  );
+}
+
+function getJobState(job: FakeJob): FakeJobState {
+  if (Date.now() - job.startedAt < job.delayMs) {
+    return "processing";
+  }
+  return job.error ? "failed" : "completed";
+}
+
+/**
+ * Seconds of placeholder media: the requested duration, about 0.4s per word
+ * of speech, or 5 seconds
+ */
+function getPlaceholderDuration(
+  mediaType: MediaType,
+  params: Record<string, unknown>,
+): number {
+  let duration = 5;
+  if (typeof params.duration === "number") {
+    duration = params.duration;
+  } else if (mediaType === "audio" && typeof params.text === "string") {
+    duration = params.text.split(/\s+/).filter(Boolean).length * 0.4;
+  }
+  return Math.min(Math.max(Math.round(duration * 10) / 10, 1), 60);
+}
+
+/**
+ * FFmpeg service URL of the placeholder for a request. The color and tone
+ * come from a hash of the model and params, so different jobs are easy to
+ * tell apart and the same job always looks and sounds the same.
+ */
+function getPlaceholderUrl(
+  mediaType: Exclude<MediaType, "transcript">,
+  modelId: string,
+  params: Record<string, unknown>,
+  duration: number,
+): string {
+  const hash = createHash("sha256")
+    .update(JSON.stringify({ modelId, params }))
+    .digest("hex");
+
+  const query = new URLSearchParams({
+    color: hash.slice(0, 6),
+    frequency: String(220 + (parseInt(hash.slice(6, 10), 16) % 660)),
+  });
+  if (mediaType !== "audio") {
+    const [width, height] =
+      mediaType === "image"
+        ? getPlaceholderSize(params.aspect_ratio ?? params.aspectRatio, 1024, 1)
+        : getPlaceholderSize(
+            params.aspect_ratio ?? params.aspectRatio,
+            1280,
+            16 / 9,
+          );
+    query.set("width", String(width));
+    query.set("height", String(height));
+  }
+  if (mediaType !== "image") {
+    query.set("duration", String(duration));
+  }
+
+  const ffmpegApiUrl = process.env.FFMPEG_API_URL || "http://localhost:3200";
+  return `${ffmpegApiUrl}/placeholder/${mediaType}?${query}`;
+}
+
+/**
+ * Frame size for an aspect ratio like "9:16", with the long side given
+ */
+function getPlaceholderSize(
+  aspectRatio: unknown,
+  longSide: number,
+  defaultRatio: number,
+): [number, number] {
+  const match =
+    typeof aspectRatio === "string" &&
+    aspectRatio.match(/^([1-9]\d*):([1-9]\d*)$/);
+  const ratio = match ? Number(match[1]) / Number(match[2]) : defaultRatio;
+
+  const even = (size: number) => Math.max(Math.round(size / 2) * 2, 2);
+  return ratio >= 1
+    ? [longSide, even(longSide / ratio)]
+    : [even(longSide * ratio), longSide];
+}
+
+/**
+ * Whisper-style transcript with the placeholder sentence spread evenly
+ * over the job's duration
+ */
+function getPlaceholderTranscript(job: FakeJob) {
+  const words = PLACEHOLDER_TRANSCRIPT.split(" ");
+  const wordDuration = job.duration / words.length;
+
+  return {
+    text: PLACEHOLDER_TRANSCRIPT,
+    segments: [
+      {
+        id: 0,
+        start: 0,
+        end: job.duration,
+        text: PLACEHOLDER_TRANSCRIPT,
+        words: words.map((word, i) => ({
+          word,
+          start: Math.round(i * wordDuration * 100) / 100,
+          end: Math.round((i + 1) * wordDuration * 100) / 100,
+        })),
+      },
+    ],
+  };
+}
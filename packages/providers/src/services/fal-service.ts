@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import * as fal from "@fal-ai/serverless-client";
 import { falCapabilities } from "@repo/model-schemas";
 import type {
@@ -5,12 +6,52 @@ import type {
   VideoGenerationResult,
   AsyncGenerationStart,
   AsyncJobStatus,
+  WebhookVerification,
 } from "./base-provider.js";
 import type { ProviderCapabilities } from "@repo/model-schemas";
+import { logger } from "@repo/logger";
+
+// Public keys fal signs webhooks with
+const FAL_JWKS_URL = "https://rest.alpha.fal.ai/.well-known/jwks.json";
+const FAL_JWKS_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Deliveries signed longer ago than this are rejected as replays
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+let falPublicKeys: {
+  keys: Promise<crypto.KeyObject[]>;
+  fetchedAt: number;
+} | null = null;
+
+/**
+ * fal's ED25519 webhook signing keys, cached for a day
+ */
+function getFalPublicKeys(): Promise<crypto.KeyObject[]> {
+  if (falPublicKeys && Date.now() - falPublicKeys.fetchedAt < FAL_JWKS_TTL_MS) {
+    return falPublicKeys.keys;
+  }
+
+  const keys = fetch(FAL_JWKS_URL)
+    .then((response) => {
+      if (!response.ok) {
+        throw new Error(`Failed to fetch fal JWKS: ${response.statusText}`);
+      }
+      return response.json() as Promise<{ keys: crypto.JsonWebKey[] }>;
+    })
+    .then(({ keys }) =>
+      keys.map((key) => crypto.createPublicKey({ key, format: "jwk" })),
+    );
+  keys.catch(() => {
+    falPublicKeys = null;
+  });
+  falPublicKeys = { keys, fetchedAt: Date.now() };
+
+  return keys;
+}
 
 export class FalService implements VideoProviderService {
   constructor(apiKey?: string) {
-    console.log(
+    logger.info(
       `[FalService] Constructor called with apiKey: ${apiKey ? "***PROVIDED***" : "undefined"}`,
     );
 
@@ -68,7 +109,7 @@ export class FalService implements VideoProviderService {
 
       return { url, metadata: result };
     } catch (error) {
-      console.error(`[FalService] Failed to generate video:`, error);
+      logger.error(`[FalService] Failed to generate video:`, error);
 
       // Check if it's an authentication/API key error
       if (error && typeof error === "object") {
@@ -111,7 +152,7 @@ export class FalService implements VideoProviderService {
         waitingStrategy: "polling", // Changed from "webhook" to "polling"
       };
     } catch (error) {
-      console.error(`[FalService] Failed to start generation:`, error);
+      logger.error(`[FalService] Failed to start generation:`, error);
 
       // Check if it's an authentication/API key error
       if (error && typeof error === "object") {
@@ -136,7 +177,7 @@ export class FalService implements VideoProviderService {
   }
 
   async getJobStatus(providerJobId: string): Promise<AsyncJobStatus> {
-    console.log(`[FalService] getJobStatus called for: ${providerJobId}`);
+    logger.info(`[FalService] getJobStatus called for: ${providerJobId}`);
 
     // Extract modelId from the composite providerJobId
     const [modelId, requestId] = providerJobId.split("::");
@@ -154,8 +195,8 @@ export class FalService implements VideoProviderService {
         logs: false,
       });
 
-      console.log(`[FalService] Status for ${requestId}:`, status.status);
-      console.log(
+      logger.info(`[FalService] Status for ${requestId}:`, status.status);
+      logger.info(
         `[FalService] Full status object:`,
         JSON.stringify(status, null, 2),
       );
@@ -163,39 +204,39 @@ export class FalService implements VideoProviderService {
       // If completed, we need to fetch the actual result
       // FAL's queue.status() doesn't include the output, only metadata
       if (status.status === "COMPLETED") {
-        console.log(`[FalService] Job completed, fetching result...`);
+        logger.info(`[FalService] Job completed, fetching result...`);
 
         try {
           const result = await fal.queue.result(modelId, {
             requestId: requestId,
           });
 
-          console.log(
+          logger.info(
             `[FalService] Result received:`,
             JSON.stringify(result, null, 2),
           );
 
           // Return the result with "completed" status so the job handler knows it's done
-          console.log(`[FalService] Returning completed status to job handler`);
+          logger.info(`[FalService] Returning completed status to job handler`);
           return {
             status: "completed",
             result: result as any,
           };
         } catch (resultError: any) {
-          console.error(`[FalService] Error fetching result:`, resultError);
-          console.error(`[FalService] Error details:`, resultError?.body);
+          logger.error(`[FalService] Error fetching result:`, resultError);
+          logger.error(`[FalService] Error details:`, resultError?.body);
 
           // If we can't fetch the result, maybe the status object has the response_url
           // Try using that instead
           if (status.response_url) {
-            console.log(
+            logger.info(
               `[FalService] Attempting to fetch from response_url:`,
               status.response_url,
             );
             try {
               const response = await fetch(status.response_url);
               const result = await response.json();
-              console.log(
+              logger.info(
                 `[FalService] Result from response_url:`,
                 JSON.stringify(result, null, 2),
               );
@@ -205,7 +246,7 @@ export class FalService implements VideoProviderService {
                 result: result as any,
               };
             } catch (fetchError) {
-              console.error(
+              logger.error(
                 `[FalService] Error fetching from response_url:`,
                 fetchError,
               );
@@ -226,7 +267,7 @@ export class FalService implements VideoProviderService {
         result: status as any,
       };
     } catch (error) {
-      console.error(`[FalService] Error getting job status:`, error);
+      logger.error(`[FalService] Error getting job status:`, error);
       return {
         status: "processing", // Default to processing on error
       };
@@ -252,7 +293,7 @@ export class FalService implements VideoProviderService {
       requestId: requestId,
     });
 
-    console.log(
+    logger.info(
       `[FalService] getRawJobResponse - Result:`,
       JSON.stringify(result, null, 2),
     );
@@ -260,6 +301,74 @@ export class FalService implements VideoProviderService {
     return result;
   }
 
+  async cancelJob(providerJobId: string): Promise<void> {
+    // Extract modelId from the composite providerJobId
+    const [modelId, requestId] = providerJobId.split("::");
+
+    if (!modelId || !requestId) {
+      throw new Error(
+        "Invalid providerJobId format. Expected modelId::requestId",
+      );
+    }
+
+    logger.info(`[FalService] Cancelling request ${requestId} on ${modelId}`);
+    await fal.queue.cancel(modelId, { requestId });
+  }
+
+  /**
+   * Verify the X-Fal-Webhook-* signature headers against fal's public keys
+   */
+  async verifyWebhook(
+    headers: Record<string, string>,
+    body: string,
+    providerJobId?: string | null,
+  ): Promise<WebhookVerification> {
+    const requestId = headers["x-fal-webhook-request-id"];
+    const userId = headers["x-fal-webhook-user-id"];
+    const timestamp = headers["x-fal-webhook-timestamp"];
+    const signature = headers["x-fal-webhook-signature"];
+
+    if (!requestId || !userId || !timestamp || !signature) {
+      return { valid: false, reason: "Missing fal signature headers" };
+    }
+
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!Number.isFinite(age) || age > WEBHOOK_TOLERANCE_SECONDS) {
+      return {
+        valid: false,
+        reason: `Signature timestamp ${timestamp} is outside the tolerance`,
+      };
+    }
+
+    const message = Buffer.from(
+      [
+        requestId,
+        userId,
+        timestamp,
+        crypto.createHash("sha256").update(body).digest("hex"),
+      ].join("\n"),
+    );
+    const signatureBytes = Buffer.from(signature, "hex");
+    const keys = await getFalPublicKeys();
+    const valid = keys.some((key) =>
+      crypto.verify(null, message, key, signatureBytes),
+    );
+    if (!valid) {
+      return { valid: false, reason: "Invalid fal signature" };
+    }
+
+    // providerJobId is "modelId::requestId"
+    const expectedRequestId = providerJobId?.split("::")[1];
+    if (expectedRequestId && requestId !== expectedRequestId) {
+      return {
+        valid: false,
+        reason: `Delivery is for request ${requestId}, expected ${expectedRequestId}`,
+      };
+    }
+
+    return { valid: true };
+  }
+
   getCapabilities(): ProviderCapabilities {
     return falCapabilities;
   }
@@ -7,12 +7,13 @@ import type {
   VideoGenerationResult,
   VideoProviderService,
 } from "./base-provider.js";
+import { logger } from "@repo/logger";
 
 export class GoogleCloudService implements VideoProviderService {
   private vertex: VertexAI;
 
   constructor(projectId?: string) {
-    console.log(
+    logger.info(
       `[GoogleCloudService] Constructor called with projectId: ${projectId ? "***PROVIDED***" : "undefined"}`,
     );
 
@@ -50,7 +51,7 @@ export class GoogleCloudService implements VideoProviderService {
 
       return { url: fileUri };
     } catch (error) {
-      console.error(`[GoogleCloudService] Failed to generate video:`, error);
+      logger.error(`[GoogleCloudService] Failed to generate video:`, error);
 
       // Check if it's an authentication/API key error
       if (error && typeof error === "object") {
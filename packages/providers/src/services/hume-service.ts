@@ -8,13 +8,14 @@ import type {
   VideoGenerationResult,
   VideoProviderService,
 } from "./base-provider.js";
+import { logger } from "@repo/logger";
 
 export class HumeService implements VideoProviderService {
   private client: HumeClient;
   private completedJobs: Map<string, VideoGenerationResult> = new Map();
 
   constructor(apiKey?: string) {
-    console.log(
+    logger.info(
       `[HumeService] Constructor called with apiKey: ${apiKey ? "***PROVIDED***" : "undefined"}`,
     );
 
@@ -37,8 +38,8 @@ export class HumeService implements VideoProviderService {
     modelId: string,
     params: Record<string, unknown>,
   ): Promise<VideoGenerationResult> {
-    console.log(`[HumeService] Generating audio with modelId: ${modelId}`);
-    console.log(`[HumeService] Params:`, JSON.stringify(params, null, 2));
+    logger.info(`[HumeService] Generating audio with modelId: ${modelId}`);
+    logger.info(`[HumeService] Params:`, JSON.stringify(params, null, 2));
 
     try {
       // Prepare the TTS request
@@ -89,7 +90,7 @@ export class HumeService implements VideoProviderService {
         }
       } else {
         // If we get unexpected format, log and throw error
-        console.error(
+        logger.error(
           `[HumeService] Unexpected result format:`,
           JSON.stringify(ttsResult, null, 2),
         );
@@ -98,7 +99,7 @@ export class HumeService implements VideoProviderService {
 
       return { url: audioUrl };
     } catch (error) {
-      console.error(`[HumeService] Failed to generate audio:`, error);
+      logger.error(`[HumeService] Failed to generate audio:`, error);
 
       // Extract clean error message from Hume SDK error
       if (error && typeof error === "object" && "body" in error) {
@@ -135,7 +136,7 @@ export class HumeService implements VideoProviderService {
     params: Record<string, unknown>,
     _webhook?: string,
   ): Promise<AsyncGenerationStart> {
-    console.log(
+    logger.info(
       `[HumeService] startGeneration called with modelId: ${modelId}`,
     );
 
@@ -144,7 +145,7 @@ export class HumeService implements VideoProviderService {
 
     const jobId = generateId();
 
-    console.log(
+    logger.info(
       `[HumeService] Audio generated successfully with jobId: ${jobId}`,
     );
 
@@ -161,19 +162,19 @@ export class HumeService implements VideoProviderService {
    * Get job status (always completed for Hume since it's synchronous)
    */
   async getJobStatus(providerJobId: string): Promise<AsyncJobStatus> {
-    console.log(`[HumeService] Getting job status for: ${providerJobId}`);
+    logger.info(`[HumeService] Getting job status for: ${providerJobId}`);
 
     const jobResult = this.completedJobs.get(providerJobId);
 
     if (!jobResult) {
-      console.error(`[HumeService] Job not found: ${providerJobId}`);
+      logger.error(`[HumeService] Job not found: ${providerJobId}`);
       return {
         status: "failed",
         error: "Job not found",
       };
     }
 
-    console.log(
+    logger.info(
       `[HumeService] Job completed:`,
       JSON.stringify(jobResult, null, 2),
     );
@@ -1,18 +1,27 @@
 import type { ProviderCapabilities } from "@repo/model-schemas";
 import { replicateCapabilities, getModelInfo } from "@repo/model-schemas";
-import Replicate from "replicate";
+import Replicate, { validateWebhook } from "replicate";
 import type {
   AsyncGenerationStart,
   AsyncJobStatus,
   VideoGenerationResult,
   VideoProviderService,
+  WebhookVerification,
 } from "./base-provider.js";
+import { logger } from "@repo/logger";
+
+// Deliveries signed longer ago than this are rejected as replays
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+// Webhook signing secrets by API key - each Replicate account has its own
+const webhookSecrets = new Map<string, Promise<string>>();
 
 export class ReplicateService implements VideoProviderService {
   private client: Replicate;
+  private apiKey: string;
 
   constructor(apiKey?: string) {
-    console.log(
+    logger.info(
       `[ReplicateService] Constructor called with apiKey: ${apiKey ? "***PROVIDED***" : "undefined"}`,
     );
 
@@ -22,6 +31,7 @@ export class ReplicateService implements VideoProviderService {
       );
     }
 
+    this.apiKey = apiKey;
     this.client = new Replicate({
       auth: apiKey,
     });
@@ -55,10 +65,10 @@ export class ReplicateService implements VideoProviderService {
     // Transform parameters for specific models
     const transformedParams = this.transformParams(modelId, params);
 
-    console.log(
+    logger.info(
       `[ReplicateService] startGeneration called with modelId: ${modelId}`,
     );
-    console.log(
+    logger.info(
       `[ReplicateService] Transformed params:`,
       JSON.stringify(transformedParams, null, 2),
     );
@@ -73,18 +83,18 @@ export class ReplicateService implements VideoProviderService {
 
     // Use version hash if provided, otherwise use model identifier
     if (providerModelId) {
-      console.log(`[ReplicateService] Using version hash: ${providerModelId}`);
+      logger.info(`[ReplicateService] Using version hash: ${providerModelId}`);
       createOptions.version = providerModelId;
     } else {
       // Check if modelId contains a version (format: "owner/name:version")
       const [modelPath, version] = modelId.split(":");
       if (version) {
-        console.log(
+        logger.info(
           `[ReplicateService] Splitting model ${modelPath} and version ${version}`,
         );
         createOptions.version = version;
       } else {
-        console.log(`[ReplicateService] Using model identifier: ${modelId}`);
+        logger.info(`[ReplicateService] Using model identifier: ${modelId}`);
         createOptions.model = modelId;
       }
     }
@@ -95,7 +105,7 @@ export class ReplicateService implements VideoProviderService {
       createOptions.webhook_events_filter = ["completed"];
     }
 
-    console.log(
+    logger.info(
       `[ReplicateService] Creating prediction with options:`,
       JSON.stringify(createOptions, null, 2),
     );
@@ -103,7 +113,7 @@ export class ReplicateService implements VideoProviderService {
     try {
       const prediction = await this.client.predictions.create(createOptions);
 
-      console.log(
+      logger.info(
         `[ReplicateService] Prediction created successfully:`,
         JSON.stringify(prediction, null, 2),
       );
@@ -113,7 +123,7 @@ export class ReplicateService implements VideoProviderService {
         waitingStrategy: webhook ? "webhook" : "polling",
       };
     } catch (error) {
-      console.error(`[ReplicateService] Failed to create prediction:`, error);
+      logger.error(`[ReplicateService] Failed to create prediction:`, error);
 
       // Check if it's an authentication/API key error
       if (error && typeof error === "object") {
@@ -156,21 +166,21 @@ export class ReplicateService implements VideoProviderService {
   }
 
   async getJobStatus(providerJobId: string): Promise<AsyncJobStatus> {
-    console.log(`[ReplicateService] Getting job status for: ${providerJobId}`);
+    logger.info(`[ReplicateService] Getting job status for: ${providerJobId}`);
 
     const prediction = await this.client.predictions.get(providerJobId);
 
-    console.log(
+    logger.info(
       `[ReplicateService] Prediction status:`,
       JSON.stringify(prediction, null, 2),
     );
 
     if (prediction.status === "failed" || prediction.status === "canceled") {
-      console.error(
+      logger.error(
         `[ReplicateService] Prediction failed/canceled. Error:`,
         prediction.error,
       );
-      console.error(
+      logger.error(
         `[ReplicateService] Full prediction object:`,
         JSON.stringify(prediction, null, 2),
       );
@@ -216,6 +226,78 @@ export class ReplicateService implements VideoProviderService {
     return await this.client.predictions.get(providerJobId);
   }
 
+  async cancelJob(providerJobId: string): Promise<void> {
+    logger.info(`[ReplicateService] Cancelling prediction: ${providerJobId}`);
+    await this.client.predictions.cancel(providerJobId);
+  }
+
+  /**
+   * Verify the webhook-id/webhook-timestamp/webhook-signature headers with
+   * the signing secret of the account that created the prediction
+   */
+  async verifyWebhook(
+    headers: Record<string, string>,
+    body: string,
+    providerJobId?: string | null,
+  ): Promise<WebhookVerification> {
+    const id = headers["webhook-id"];
+    const timestamp = headers["webhook-timestamp"];
+    const signature = headers["webhook-signature"];
+
+    if (!id || !timestamp || !signature) {
+      return { valid: false, reason: "Missing Replicate signature headers" };
+    }
+
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!Number.isFinite(age) || age > WEBHOOK_TOLERANCE_SECONDS) {
+      return {
+        valid: false,
+        reason: `Signature timestamp ${timestamp} is outside the tolerance`,
+      };
+    }
+
+    const secret = await this.getWebhookSecret();
+    const valid = await validateWebhook(
+      { id, timestamp, signature, body },
+      secret,
+    );
+    if (!valid) {
+      return { valid: false, reason: "Invalid Replicate signature" };
+    }
+
+    if (providerJobId) {
+      let predictionId: unknown;
+      try {
+        predictionId = JSON.parse(body)?.id;
+      } catch {
+        return { valid: false, reason: "Body is not valid JSON" };
+      }
+
+      if (predictionId !== providerJobId) {
+        return {
+          valid: false,
+          reason: `Delivery is for prediction ${predictionId}, expected ${providerJobId}`,
+        };
+      }
+    }
+
+    return { valid: true };
+  }
+
+  private getWebhookSecret(): Promise<string> {
+    let secret = webhookSecrets.get(this.apiKey);
+
+    if (!secret) {
+      secret = this.client.webhooks.default.secret
+        .get()
+        .then((webhookSecret) => webhookSecret.key);
+      secret.catch(() => webhookSecrets.delete(this.apiKey));
+      webhookSecrets.set(this.apiKey, secret);
+    }
+
+    return secret;
+  }
+
   getCapabilities(): ProviderCapabilities {
     return replicateCapabilities;
   }
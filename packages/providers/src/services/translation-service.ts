@@ -0,0 +1,216 @@
+import { logger } from "@repo/logger";
+export type TranslationProvider = "openai" | "deepl" | "stub";
+
+/**
+ * Translates caption text. Implementations must return one translation per
+ * input text, in the same order, so segments can be re-timed onto the
+ * original transcript.
+ */
+export interface TranslationService {
+  translate(
+    texts: string[],
+    targetLanguage: string,
+    sourceLanguage?: string,
+  ): Promise<string[]>;
+}
+
+/**
+ * Translation with an OpenAI chat model
+ */
+export class OpenAITranslationService implements TranslationService {
+  private apiKey: string;
+  private model: string;
+
+  constructor(apiKey?: string) {
+    if (!apiKey) {
+      throw new Error(
+        "Please export OPENAI_API_KEY in your environment to translate captions with OpenAI",
+      );
+    }
+
+    this.apiKey = apiKey;
+    this.model = process.env.TRANSLATION_MODEL || "gpt-4o-mini";
+  }
+
+  async translate(
+    texts: string[],
+    targetLanguage: string,
+    sourceLanguage?: string,
+  ): Promise<string[]> {
+    logger.info(
+      `[OpenAITranslationService] Translating ${texts.length} segments to ${targetLanguage} with ${this.model}`,
+    );
+
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        response_format: { type: "json_object" },
+        messages: [
+          {
+            role: "system",
+            content: `You translate video captions${sourceLanguage ? ` from ${sourceLanguage}` : ""} to the language with code "${targetLanguage}". Reply with a JSON object {"translations": string[]} holding exactly one translation per input segment, in order. Keep each translation natural and about as long as its segment; don't merge or split segments.`,
+          },
+          { role: "user", content: JSON.stringify({ segments: texts }) },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `OpenAI translation failed: ${response.status} ${response.statusText} - ${errorText}`,
+      );
+    }
+
+    const data = (await response.json()) as {
+      choices?: Array<{ message?: { content?: string } }>;
+    };
+    const content = data.choices?.[0]?.message?.content;
+    const translations = content
+      ? (JSON.parse(content) as { translations?: unknown }).translations
+      : undefined;
+
+    return checkTranslations(texts, translations, "OpenAI");
+  }
+}
+
+/**
+ * Translation with the DeepL API (free keys end with ":fx")
+ */
+export class DeepLTranslationService implements TranslationService {
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(apiKey?: string) {
+    if (!apiKey) {
+      throw new Error(
+        "Please export DEEPL_API_KEY in your environment to translate captions with DeepL",
+      );
+    }
+
+    this.apiKey = apiKey;
+    this.baseUrl = apiKey.endsWith(":fx")
+      ? "https://api-free.deepl.com"
+      : "https://api.deepl.com";
+  }
+
+  async translate(
+    texts: string[],
+    targetLanguage: string,
+    sourceLanguage?: string,
+  ): Promise<string[]> {
+    logger.info(
+      `[DeepLTranslationService] Translating ${texts.length} segments to ${targetLanguage}`,
+    );
+
+    const response = await fetch(`${this.baseUrl}/v2/translate`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `DeepL-Auth-Key ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        text: texts,
+        target_lang: targetLanguage.toUpperCase(),
+        source_lang: sourceLanguage?.toUpperCase(),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `DeepL translation failed: ${response.status} ${response.statusText} - ${errorText}`,
+      );
+    }
+
+    const data = (await response.json()) as {
+      translations?: Array<{ text: string }>;
+    };
+
+    return checkTranslations(
+      texts,
+      data.translations?.map((translation) => translation.text),
+      "DeepL",
+    );
+  }
+}
+
+/**
+ * Local stand-in that tags each segment with the target language, for
+ * development and tests without a translation API
+ */
+export class StubTranslationService implements TranslationService {
+  async translate(texts: string[], targetLanguage: string): Promise<string[]> {
+    return texts.map((text) => `[${targetLanguage}] ${text}`);
+  }
+}
+
+function checkTranslations(
+  texts: string[],
+  translations: unknown,
+  provider: string,
+): string[] {
+  if (
+    !Array.isArray(translations) ||
+    translations.length !== texts.length ||
+    translations.some((translation) => typeof translation !== "string")
+  ) {
+    throw new Error(
+      `${provider} returned ${Array.isArray(translations) ? translations.length : "no"} translations for ${texts.length} segments`,
+    );
+  }
+  return translations as string[];
+}
+
+export class TranslationServiceFactory {
+  /**
+   * Whether the translation provider has the API key it needs, so plans
+   * asking for translations can be rejected before they run
+   */
+  static isConfigured(
+    provider: TranslationProvider = (process.env.TRANSLATION_PROVIDER ||
+      "openai") as TranslationProvider,
+  ): boolean {
+    switch (provider) {
+      case "openai":
+        return !!process.env.OPENAI_API_KEY;
+
+      case "deepl":
+        return !!process.env.DEEPL_API_KEY;
+
+      case "stub":
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Translation service configured by TRANSLATION_PROVIDER (default: openai)
+   */
+  static getService(
+    provider: TranslationProvider = (process.env.TRANSLATION_PROVIDER ||
+      "openai") as TranslationProvider,
+  ): TranslationService {
+    switch (provider) {
+      case "openai":
+        return new OpenAITranslationService(process.env.OPENAI_API_KEY);
+
+      case "deepl":
+        return new DeepLTranslationService(process.env.DEEPL_API_KEY);
+
+      case "stub":
+        return new StubTranslationService();
+
+      default:
+        throw new Error(`Unknown translation provider: ${provider}`);
+    }
+  }
+}
@@ -5,12 +5,25 @@ import { FalService } from "./fal-service.js";
 import { GoogleCloudService } from "./google-cloud-service.js";
 import { HumeService } from "./hume-service.js";
 import { ElevenLabsService } from "./elevenlabs-service.js";
+import {
+  FakeProviderService,
+  type FakeProviderOptions,
+} from "./fake-provider-service.js";
 
 export class VideoProviderFactory {
+  /**
+   * @param fake - Set for executions of test API keys: the fake provider
+   * stands in for the real one, and no provider API is called
+   */
   static getProvider(
     provider: VideoProvider,
     apiKey?: string,
+    fake?: FakeProviderOptions,
   ): VideoProviderService {
+    if (fake) {
+      return new FakeProviderService(provider, fake);
+    }
+
     switch (provider) {
       case "replicate":
         return new ReplicateService(apiKey);
@@ -22,6 +22,8 @@ export const PLANS = {
     priceInCents: 0,
     overageAllowed: false,
     overagePricePerThousand: 0,
+    maxConcurrentJobs: 3, // Provider jobs running at once, across all providers
+    maxConcurrentJobsPerProvider: 2,
   },
   pro: {
     name: "Pro",
@@ -29,6 +31,8 @@ export const PLANS = {
     priceInCents: 5000, // $50
     overageAllowed: true,
     overagePricePerThousand: 500, // $5 per 1000 actions
+    maxConcurrentJobs: 20,
+    maxConcurrentJobsPerProvider: 10,
   },
 } as const;
 
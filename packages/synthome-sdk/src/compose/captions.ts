@@ -10,6 +10,17 @@ export interface CaptionWord {
   word: string;
   start: number;
   end: number;
+  speaker?: string; // Speaker label, e.g. "SPEAKER_00" from diarization
+}
+
+// Style of one speaker's captions, over the caption style
+export interface SpeakerStyle {
+  color?: string; // Text color (hex or ASS)
+  activeWordColor?: string; // Highlighted word color, with highlightActiveWord
+  alignment?: string; // ASS numpad style, e.g. "8" to put this speaker at the top
+  marginV?: number;
+  marginL?: number;
+  marginR?: number;
 }
 
 export interface CaptionStyle {
@@ -18,6 +29,8 @@ export interface CaptionStyle {
 
   // Font properties
   fontFamily?: string;
+  fontId?: string; // Font uploaded on the dashboard (Integrations > Fonts), overrides fontFamily
+  fontUrl?: string; // URL of a .ttf or .otf file, overrides fontFamily
   fontSize?: number;
   fontWeight?: string | number;
 
@@ -50,13 +63,23 @@ export interface CaptionStyle {
   inactiveWordColor?: string; // Color for inactive words (supports hex: #RRGGBB or ASS: &HAABBGGRR)
   activeWordScale?: number; // Scale multiplier for active word
   animationStyle?: "none" | "color" | "scale" | "glow"; // Animation type
+
+  // Speakers
+  speakers?: Record<string, SpeakerStyle>; // Style per speaker label; captions never mix speakers
 }
 
+// Sidecar subtitle files: SubRip, WebVTT, or word-level JSON
+export type SubtitleFormat = "srt" | "vtt" | "json";
+
 export interface CaptionsOptions {
   video: string | VideoNode; // Can be a URL string or a VideoOperation/Node
   captions?: CaptionWord[];
   model?: AudioModel<any>; // AudioModel for transcription
   style?: CaptionStyle;
+  formats?: SubtitleFormat[]; // Subtitle files returned as extra outputs alongside the video
+  burn?: boolean; // false to only produce the subtitle files (default: true)
+  translate?: string[]; // Language codes (e.g. "es", "ja") to also caption the video in, one output each
+  diarize?: boolean; // Label words with their speaker when the model supports it (default: true when style.speakers is set)
 }
 
 /**
@@ -66,7 +89,8 @@ export interface CaptionsOptions {
  * @returns A VideoOperation for the captioning task
  */
 export function captions(options: CaptionsOptions): VideoOperation {
-  const { video, captions, model, style } = options;
+  const { video, captions, model, style, formats, burn, translate } = options;
+  const diarize = options.diarize ?? !!style?.speakers;
 
   if (!captions && !model) {
     throw new Error(
@@ -74,11 +98,20 @@ export function captions(options: CaptionsOptions): VideoOperation {
     );
   }
 
+  if (burn === false && !formats?.length) {
+    throw new Error(
+      "Set 'formats' to export subtitle files when 'burn' is false.",
+    );
+  }
+
   // If captions are provided manually, skip transcription
   if (captions) {
     const params: Record<string, unknown> = {
       transcript: captions,
       style: style,
+      formats,
+      burn,
+      translate,
     };
 
     if (typeof video === "string") {
@@ -99,6 +132,7 @@ export function captions(options: CaptionsOptions): VideoOperation {
       provider: model!.provider,
       modelId: model!.modelId,
       apiKey: model!.options.apiKey,
+      ...(diarize && { diarize }),
     },
   };
 
@@ -106,6 +140,9 @@ export function captions(options: CaptionsOptions): VideoOperation {
   const params: Record<string, unknown> = {
     transcript: transcribeOp, // NESTED OPERATION (will be resolved by pipeline)
     style: style,
+    formats,
+    burn,
+    translate,
   };
 
   if (typeof video === "string") {
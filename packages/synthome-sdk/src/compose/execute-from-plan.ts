@@ -3,7 +3,12 @@ import type {
   ExecuteOptions,
   PipelineExecution,
 } from "../core/video.js";
+import type { ExecutionEvent, PlanDiagnostic } from "../types/api-types.js";
 import { getSynthomeApiKey, getSynthomeApiUrl } from "../utils/api-key.js";
+import {
+  followExecutionEvents,
+  streamExecutionEvents,
+} from "./execution-events.js";
 
 /**
  * MediaExecution class - handles execution lifecycle
@@ -11,7 +16,7 @@ import { getSynthomeApiKey, getSynthomeApiUrl } from "../utils/api-key.js";
  */
 class MediaExecution implements PipelineExecution {
   id: string;
-  status: "pending" | "processing" | "completed" | "failed" = "pending";
+  status: PipelineExecution["status"] = "pending";
   result?: any;
   error?: string;
   completedAt?: Date;
@@ -75,9 +80,65 @@ class MediaExecution implements PipelineExecution {
     return data;
   }
 
+  async cancel(): Promise<void> {
+    const cancelUrl = `${this.apiUrl}/${this.id}/cancel`;
+
+    const response = await fetch(cancelUrl, {
+      method: "POST",
+      headers: {
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+    });
+
+    if (!response.ok) {
+      let errorMessage = `Failed to cancel execution: ${response.statusText}`;
+      try {
+        const errorBody = await response.json();
+        errorMessage = errorBody.error || errorMessage;
+      } catch {
+        // Ignore JSON parse errors
+      }
+      throw new Error(errorMessage);
+    }
+
+    this.status = "cancelled";
+  }
+
+  events(): AsyncIterableIterator<ExecutionEvent> {
+    return streamExecutionEvents(this.apiUrl, this.id, this.apiKey);
+  }
+
   async waitForCompletion(
     progressCallback?: (progress: any) => void,
   ): Promise<void> {
+    // Follow the event stream, and poll when the API or runtime can't stream
+    const completed = await followExecutionEvents(
+      this.events(),
+      progressCallback,
+    );
+    if (completed) {
+      this.status = completed.status;
+      this.result = completed.result;
+      this.error = completed.error ?? undefined;
+
+      if (this.status === "completed") {
+        if (this.completeCallback && this.result) {
+          this.completeCallback(this.result);
+        }
+        return;
+      }
+
+      const error = new Error(
+        this.status === "cancelled"
+          ? "Execution was cancelled"
+          : this.error || "Execution failed",
+      );
+      if (this.errorCallback) {
+        this.errorCallback(error);
+      }
+      throw error;
+    }
+
     const pollInterval = 2000;
     const maxAttempts = 300;
     let attempts = 0;
@@ -105,10 +166,18 @@ class MediaExecution implements PipelineExecution {
           throw error;
         }
 
+        if (this.status === "cancelled") {
+          const error = new Error("Execution was cancelled");
+          if (this.errorCallback) {
+            this.errorCallback(error);
+          }
+          throw error;
+        }
+
         await new Promise((resolve) => setTimeout(resolve, pollInterval));
         attempts++;
       } catch (error) {
-        if (this.status === "failed") {
+        if (this.status === "failed" || this.status === "cancelled") {
           throw error;
         }
         console.error("Error polling execution status:", error);
@@ -171,6 +240,9 @@ export async function executeFromPlan(
         webhookSecret: options?.webhookSecret,
         baseExecutionId: options?.baseExecutionId || plan.baseExecutionId,
         providerApiKeys,
+        cache: options?.cache,
+        retry: options?.retry,
+        testMode: options?.testMode,
       },
     }),
   });
@@ -180,6 +252,13 @@ export async function executeFromPlan(
     try {
       const errorBody = await response.json();
       errorMessage = errorBody.error || errorMessage;
+      if (Array.isArray(errorBody.diagnostics)) {
+        errorMessage += errorBody.diagnostics
+          .map(
+            (d: PlanDiagnostic) => `\n  - ${d.path} (${d.code}): ${d.message}`,
+          )
+          .join("");
+      }
     } catch {
       // Ignore JSON parse errors
     }
@@ -224,6 +303,9 @@ function validateExecutionPlan(plan: ExecutionPlan): void {
     if (!job.params) {
       throw new Error(`Job '${job.id}' must have a 'params' object`);
     }
+    if (job.type === "lipSync" && !job.params.audio && !job.params.audioUrl) {
+      throw new Error(`Job '${job.id}' (lipSync) must have an 'audio' param`);
+    }
   }
 }
 
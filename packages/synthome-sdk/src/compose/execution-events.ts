@@ -0,0 +1,128 @@
+import type { PipelineProgress } from "../core/video.js";
+import type {
+  ExecutionCompletedEvent,
+  ExecutionEvent,
+} from "../types/api-types.js";
+
+/**
+ * Read the Server-Sent Events stream of an execution
+ * (GET /api/execute/:id/events), ending after execution.completed.
+ * Throws if the stream can't be opened.
+ */
+export async function* streamExecutionEvents(
+  apiUrl: string,
+  executionId: string,
+  apiKey?: string,
+): AsyncGenerator<ExecutionEvent> {
+  const response = await fetch(`${apiUrl}/${executionId}/events`, {
+    headers: {
+      Accept: "text/event-stream",
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    },
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to open event stream: ${response.statusText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+      // Messages are separated by a blank line; heartbeats are comments
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const message = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+
+        const data = message
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trimStart())
+          .join("\n");
+        if (!data) {
+          continue;
+        }
+
+        const event = JSON.parse(data) as ExecutionEvent;
+        yield event;
+
+        if (event.type === "execution.completed") {
+          return;
+        }
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Follow an execution's event stream until it finishes, reporting progress
+ * along the way. Returns null when the stream is unavailable or ends early,
+ * so the caller can fall back to polling.
+ */
+export async function followExecutionEvents(
+  events: AsyncIterable<ExecutionEvent>,
+  progressCallback?: (progress: PipelineProgress) => void,
+): Promise<ExecutionCompletedEvent | null> {
+  // Percentage of every job, by job ID
+  const jobProgress = new Map<string, number>();
+  let currentJob = "";
+
+  try {
+    for await (const event of events) {
+      switch (event.type) {
+        case "execution.snapshot":
+          for (const job of event.jobs) {
+            jobProgress.set(job.id, job.status === "completed" ? 100 : 0);
+          }
+          break;
+        case "job.started":
+          currentJob = event.jobId;
+          break;
+        case "job.progress":
+          jobProgress.set(event.jobId, event.percentage);
+          break;
+        case "job.completed":
+          jobProgress.set(event.jobId, 100);
+          break;
+        case "job.failed":
+          jobProgress.set(event.jobId, 0);
+          break;
+        case "execution.completed":
+          return event;
+        default:
+          continue;
+      }
+
+      if (progressCallback && jobProgress.size > 0) {
+        const percentages = [...jobProgress.values()];
+        progressCallback({
+          currentJob,
+          progress: Math.round(
+            percentages.reduce((sum, percentage) => sum + percentage, 0) /
+              percentages.length,
+          ),
+          totalJobs: percentages.length,
+          completedJobs: percentages.filter((percentage) => percentage === 100)
+            .length,
+        });
+      }
+    }
+  } catch {
+    // Stream not supported by the API or runtime, or the connection dropped
+  }
+
+  return null;
+}
@@ -34,6 +34,7 @@ export function generateImage<TModelOptions extends ProviderConfig>(
     provider: model.provider,
     modelId: model.modelId,
     apiKey: model.options.apiKey,
+    fallbackProviders: model.fallbackProviders,
     ...restOptions,
   };
 
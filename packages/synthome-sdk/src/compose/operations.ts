@@ -1,6 +1,8 @@
+import type { VideoModel } from "../core/types.js";
 import type {
   AudioOperation,
   ImageOperation,
+  OperationType,
   VideoOperation,
 } from "../core/video.js";
 
@@ -14,6 +16,55 @@ export type MergeMediaType = "video" | "image" | "audio";
 /** Any supported operation type */
 export type MergeOperation = VideoOperation | ImageOperation | AudioOperation;
 
+/** Transition styles between visual merge items */
+export type MergeTransitionType =
+  | "crossfade"
+  | "wipe-left"
+  | "wipe-right"
+  | "wipe-up"
+  | "wipe-down"
+  | "slide-left"
+  | "slide-right"
+  | "slide-up"
+  | "slide-down"
+  | "dip-to-black";
+
+/** Easing curve of a transition */
+export type TransitionEasing =
+  | "linear"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out";
+
+/** Transition from a visual merge item into the next one */
+export interface MergeTransition {
+  type: MergeTransitionType;
+  /** Length in seconds (default: 0.5). Both items overlap by this much, shortening the merged video */
+  duration?: number;
+  /** Default: "linear". Also shapes the audio crossfade */
+  easing?: TransitionEasing;
+}
+
+/** Sidechain ducking of an audio track while other audio plays */
+export interface DuckingOptions {
+  /** Level of the other audio (0 to 1) above which the track dips (default: 0.05) */
+  threshold?: number;
+  /** How hard the track dips, from 1 to 20 (default: 8) */
+  ratio?: number;
+  /** Milliseconds to dip once the other audio starts (default: 20) */
+  attack?: number;
+  /** Milliseconds to recover once it stops (default: 400) */
+  release?: number;
+}
+
+/** EBU R128 loudness normalization of the final mix */
+export interface LoudnessOptions {
+  /** Integrated loudness in LUFS (default: -14) */
+  target?: number;
+  /** Maximum true peak in dBTP (default: -1.5) */
+  truePeak?: number;
+}
+
 /** Merge item with options */
 export interface MergeItemWithOptions {
   /** URL string or operation */
@@ -26,6 +77,20 @@ export interface MergeItemWithOptions {
   offset?: number;
   /** Volume level from 0 to 1 (default: 1). Works for audio items and video items (affects their audio track) */
   volume?: number;
+  /** For video and image only: transition into the next video or image (default: hard cut) */
+  transition?: MergeTransition;
+  /** For audio only: fade in over this many seconds */
+  fadeIn?: number;
+  /** For audio only: fade out over this many seconds */
+  fadeOut?: number;
+  /** For audio only: dip while narration or the videos' own audio plays */
+  duck?: boolean | DuckingOptions;
+}
+
+/** Options for the merged output */
+export interface MergeOptions {
+  /** Normalize the loudness of the final mix */
+  loudness?: LoudnessOptions;
 }
 
 /**
@@ -40,6 +105,7 @@ export type MergeItem = string | MergeOperation | MergeItemWithOptions;
  * Merge multiple media items (videos, images, audio) into a single video.
  *
  * @param items - Array of media items to merge
+ * @param options - Options for the merged output
  * @returns VideoOperation for the merge
  *
  * @example
@@ -66,6 +132,25 @@ export type MergeItem = string | MergeOperation | MergeItemWithOptions;
  * ])
  *
  * @example
+ * // Transitions between clips
+ * merge([
+ *   { url: "https://example.com/intro.mp4", transition: { type: "crossfade", duration: 1 } },
+ *   { url: "https://example.com/title.png", duration: 2, transition: { type: "slide-left", easing: "ease-in-out" } },
+ *   "https://example.com/main.mp4",
+ * ])
+ *
+ * @example
+ * // Voiceover with music that dips under it, normalized for streaming
+ * merge(
+ *   [
+ *     "https://example.com/main.mp4",
+ *     { url: "https://example.com/voiceover.mp3" },
+ *     { url: "https://example.com/music.mp3", volume: 0.5, fadeIn: 1, fadeOut: 2, duck: true },
+ *   ],
+ *   { loudness: { target: -14 } },
+ * )
+ *
+ * @example
  * // With generated content
  * merge([
  *   generateVideo({ model: videoModel("minimax", "replicate"), prompt: "Scene 1" }),
@@ -80,7 +165,10 @@ export type MergeItem = string | MergeOperation | MergeItemWithOptions;
  *   { url: generateAudio({ ... }), offset: 2 },
  * ])
  */
-export function merge(items: MergeItem[]): VideoOperation {
+export function merge(
+  items: MergeItem[],
+  options?: MergeOptions,
+): VideoOperation {
   // Process items to normalize them for the execution plan
   const processedItems = items.map((item) => processeMergeItem(item));
 
@@ -88,6 +176,7 @@ export function merge(items: MergeItem[]): VideoOperation {
     type: "merge",
     params: {
       items: processedItems,
+      loudness: options?.loudness,
     },
   };
 }
@@ -141,10 +230,15 @@ function detectOperationType(op: MergeOperation): MergeMediaType {
   if (op.type === "generate" || op.type === "removeBackground") {
     return "video";
   }
-  if (op.type === "generateImage" || op.type === "removeImageBackground") {
+  if (
+    op.type === "generateImage" ||
+    op.type === "removeImageBackground" ||
+    op.type === "thumbnail" ||
+    op.type === "toGif"
+  ) {
     return "image";
   }
-  if (op.type === "generateAudio") {
+  if (op.type === "generateAudio" || op.type === "extractAudio") {
     return "audio";
   }
   // Default to video for unknown operation types
@@ -158,6 +252,10 @@ export interface ProcessedMergeItem {
   duration?: number;
   offset?: number;
   volume?: number;
+  transition?: MergeTransition;
+  fadeIn?: number;
+  fadeOut?: number;
+  duck?: boolean | DuckingOptions;
   // For job dependencies, store the operation
   operation?: MergeOperation;
 }
@@ -188,7 +286,8 @@ function processeMergeItem(item: MergeItem): ProcessedMergeItem {
 
   // MergeItemWithOptions (has url property)
   if (isMergeItemWithOptions(item)) {
-    const { url, duration, offset, volume } = item;
+    const { url, duration, offset, volume, transition, fadeIn, fadeOut, duck } =
+      item;
 
     // url is a string
     if (typeof url === "string") {
@@ -199,6 +298,10 @@ function processeMergeItem(item: MergeItem): ProcessedMergeItem {
         duration: duration ?? (type === "image" ? 1 : undefined),
         offset: offset ?? (type === "audio" ? 0 : undefined),
         volume,
+        transition,
+        fadeIn,
+        fadeOut,
+        duck,
       };
     }
 
@@ -211,6 +314,10 @@ function processeMergeItem(item: MergeItem): ProcessedMergeItem {
         duration: duration ?? (type === "image" ? 1 : undefined),
         offset: offset ?? (type === "audio" ? 0 : undefined),
         volume,
+        transition,
+        fadeIn,
+        fadeOut,
+        duck,
       };
     }
   }
@@ -219,29 +326,428 @@ function processeMergeItem(item: MergeItem): ProcessedMergeItem {
   throw new Error(`Invalid merge item: ${JSON.stringify(item)}`);
 }
 
+/**
+ * How the source frame is fitted into the target aspect ratio
+ * - "crop": Center crop, no borders (default)
+ * - "blur": Full frame over a blurred, zoomed copy of itself
+ * - "pad": Full frame over a solid color
+ * - "smart": Crop window that follows on-screen motion
+ */
+export type ReframeStrategy = "crop" | "blur" | "pad" | "smart";
+
 export interface ReframeOptions {
-  aspectRatio: "16:9" | "9:16" | "4:3" | "3:4" | "1:1" | "21:9" | "9:21";
+  aspectRatio:
+    | "16:9"
+    | "9:16"
+    | "4:3"
+    | "3:4"
+    | "1:1"
+    | "4:5"
+    | "21:9"
+    | "9:21";
+  /** Video URL or operation to reframe. Omit to reframe the previous operation's output */
+  video?: string | VideoOperation;
+  /** Fitting strategy (default: "crop") */
+  strategy?: ReframeStrategy;
+  /** Pad color for the "pad" strategy, e.g. "black", "white", "0x1E1E1E" */
+  backgroundColor?: string;
 }
 
+/**
+ * Convert a video to a different aspect ratio.
+ *
+ * @example
+ * // Vertical version of a generated clip with a blurred background
+ * compose(
+ *   generateVideo({ model, prompt: "A cat walking gracefully" }),
+ *   reframe({ aspectRatio: "9:16", strategy: "blur" }),
+ * )
+ *
+ * @example
+ * // Square crop that follows the action
+ * reframe({
+ *   video: "https://example.com/video.mp4",
+ *   aspectRatio: "1:1",
+ *   strategy: "smart",
+ * })
+ */
 export function reframe(options: ReframeOptions): VideoOperation {
+  const { video, aspectRatio, strategy, backgroundColor } = options;
+
+  const params: Record<string, unknown> = {
+    aspectRatio,
+    strategy: strategy || "crop",
+  };
+
+  if (backgroundColor) {
+    params.backgroundColor = backgroundColor;
+  }
+
+  if (typeof video === "string") {
+    params.videoUrl = video;
+  }
+
   return {
     type: "reframe",
-    params: {
-      aspectRatio: options.aspectRatio,
-    },
+    params,
+    inputs: video && typeof video !== "string" ? [video] : undefined,
+  };
+}
+
+export interface ThumbnailOptions {
+  /** Video URL or operation. Omit to use the previous operation's output */
+  video?: string | VideoOperation;
+  /** Position of the frame in seconds, or "HH:MM:SS" (default: 1 second) */
+  time?: number | string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Grab a single frame of a video as a JPEG, e.g. for a poster image.
+ *
+ * @example
+ * // Poster frame of a generated clip
+ * compose(
+ *   generateVideo({ model, prompt: "A cat walking gracefully" }),
+ *   thumbnail({ time: 2, width: 1280 }),
+ * )
+ */
+export function thumbnail(options: ThumbnailOptions = {}): VideoOperation {
+  const { video, ...params } = options;
+  return utilityOperation("thumbnail", video, params);
+}
+
+export interface ToGifOptions {
+  /** Video URL or operation. Omit to use the previous operation's output */
+  video?: string | VideoOperation;
+  /** Frames per second (default: 10) */
+  fps?: number;
+  /** Width in pixels - the height follows the aspect ratio (default: source width) */
+  width?: number;
+  /** Start of the clip in seconds (default: 0) */
+  startTime?: number;
+  /** Length of the clip in seconds (default: whole video) */
+  duration?: number;
+}
+
+/**
+ * Convert a video (or part of it) to an animated GIF, e.g. for previews.
+ *
+ * @example
+ * toGif({
+ *   video: "https://example.com/video.mp4",
+ *   width: 480,
+ *   startTime: 2,
+ *   duration: 3,
+ * })
+ */
+export function toGif(options: ToGifOptions = {}): VideoOperation {
+  const { video, ...params } = options;
+  return utilityOperation("toGif", video, params);
+}
+
+export interface ExtractAudioOptions {
+  /** Video URL or operation. Omit to use the previous operation's output */
+  video?: string | VideoOperation;
+  /** Audio format (default: "mp3") */
+  format?: "mp3" | "aac" | "wav";
+}
+
+/**
+ * Extract a video's audio track.
+ *
+ * @example
+ * compose(
+ *   merge(["https://example.com/a.mp4", "https://example.com/b.mp4"]),
+ *   extractAudio({ format: "wav" }),
+ * )
+ */
+export function extractAudio(
+  options: ExtractAudioOptions = {},
+): VideoOperation {
+  const { video, format } = options;
+  return utilityOperation("extractAudio", video, { format: format || "mp3" });
+}
+
+export interface TranscodeOptions {
+  /** Video URL or operation. Omit to use the previous operation's output */
+  video?: string | VideoOperation;
+  /** Container format (default: "mp4" with H.264; "webm" uses VP9) */
+  format?: "mp4" | "webm" | "mov";
+  /** Bitrate preset (default: "medium") */
+  quality?: "low" | "medium" | "high";
+  width?: number;
+  height?: number;
+  fps?: number;
+}
+
+/**
+ * Re-encode a video to another format, size or bitrate, e.g. to compress it.
+ *
+ * @example
+ * transcode({
+ *   video: "https://example.com/video.mov",
+ *   format: "webm",
+ *   quality: "low",
+ *   width: 720,
+ * })
+ */
+export function transcode(options: TranscodeOptions = {}): VideoOperation {
+  const { video, format, quality, ...params } = options;
+  return utilityOperation("transcode", video, {
+    ...params,
+    format: format || "mp4",
+    quality: quality || "medium",
+  });
+}
+
+export interface TrimOptions {
+  /** Video or audio URL or operation. Omit to use the previous operation's output */
+  media?: string | VideoOperation | AudioOperation;
+  /** Start in seconds (default: 0) */
+  start?: number;
+  /** End in seconds (default: end of the media) */
+  end?: number;
+}
+
+/**
+ * Cut video or audio to a time range.
+ *
+ * @example
+ * // Keep seconds 2-6 of a generated clip
+ * compose(
+ *   generateVideo({ model, prompt: "A cat walking gracefully" }),
+ *   trim({ start: 2, end: 6 }),
+ * )
+ */
+export function trim(options: TrimOptions): VideoOperation {
+  const { media, ...params } = options;
+  return utilityOperation("trim", media, params);
+}
+
+export interface SpeedOptions {
+  /** Video or audio URL or operation. Omit to use the previous operation's output */
+  media?: string | VideoOperation | AudioOperation;
+  /** Playback speed from 0.25 to 4, e.g. 2 for twice as fast or 0.5 for slow motion */
+  factor: number;
+  /** Keep the audio pitch (default: true). When false, faster audio also sounds higher */
+  preservePitch?: boolean;
+}
+
+/**
+ * Change the playback speed of video or audio.
+ *
+ * @example
+ * speed({ media: "https://example.com/video.mp4", factor: 0.5 })
+ */
+export function speed(options: SpeedOptions): VideoOperation {
+  const { media, factor, preservePitch } = options;
+  return utilityOperation("speed", media, {
+    factor,
+    preservePitch: preservePitch ?? true,
+  });
+}
+
+export type LoopOptions = {
+  /** Video or audio URL or operation. Omit to use the previous operation's output */
+  media?: string | VideoOperation | AudioOperation;
+} & (
+  | {
+      /** Loop until the output lasts this many seconds */
+      duration: number;
+      count?: never;
+    }
+  | {
+      /** Number of times to play the media */
+      count: number;
+      duration?: never;
+    }
+);
+
+/**
+ * Repeat video or audio a number of times, or until it reaches a length.
+ *
+ * @example
+ * // Stretch a 5s background loop to 30s
+ * loop({ media: "https://example.com/background.mp4", duration: 30 })
+ */
+export function loop(options: LoopOptions): VideoOperation {
+  const { media, count, duration } = options;
+  return utilityOperation("loop", media, { count, duration });
+}
+
+export interface ReverseOptions {
+  /** Video or audio URL or operation (up to 60 seconds). Omit to use the previous operation's output */
+  media?: string | VideoOperation | AudioOperation;
+}
+
+/**
+ * Play video or audio backwards.
+ *
+ * @example
+ * compose(
+ *   generateVideo({ model, prompt: "A glass falling off a table" }),
+ *   reverse(),
+ * )
+ */
+export function reverse(options: ReverseOptions = {}): VideoOperation {
+  return utilityOperation("reverse", options.media, {});
+}
+
+export type TextAlignment =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+
+// Text drawn over a video; colors are hex (#RRGGBB) or ASS (&HAABBGGRR, for transparency)
+export interface TextLayer {
+  text: string; // Line breaks start a new line
+  fontFamily?: string; // Default: "Arial"
+  fontId?: string; // Font uploaded on the dashboard (Integrations > Fonts), overrides fontFamily
+  fontUrl?: string; // URL of a .ttf or .otf file, overrides fontFamily
+  fontWeight?: "normal" | "bold" | number; // Default: "bold"
+  fontSize?: number; // Pixels at the output resolution (default: 6% of the height)
+  italic?: boolean;
+  color?: string; // Default: white
+  strokeColor?: string; // Outline around the letters (default: black)
+  strokeWidth?: number; // Default: 0 (not drawn with a background box)
+  backgroundColor?: string; // Box behind the text
+  padding?: number; // Space between the text and its box (default: 20)
+  alignment?: TextAlignment; // Where on the frame (default: "center")
+  margin?: number; // Distance from the frame edges (default: 5% of the height)
+  x?: number; // With y: exact position of the alignment point, in pixels
+  y?: number;
+  start?: number; // Seconds (default: 0)
+  end?: number; // Seconds (default: end of the video)
+  fadeIn?: number; // Seconds
+  fadeOut?: number; // Seconds
+}
+
+export interface OverlayTextOptions {
+  /** Video URL or operation. Omit to use the previous operation's output */
+  video?: string | VideoOperation;
+  /** Text drawn over the video, later entries on top */
+  texts: TextLayer[];
+}
+
+/**
+ * Draw titles, lower thirds or other text over a video.
+ *
+ * @example
+ * compose(
+ *   generateVideo({ model, prompt: "Waves on a beach at sunset" }),
+ *   overlayText({
+ *     texts: [
+ *       { text: "Summer Sale", alignment: "top", fontSize: 96, end: 3, fadeOut: 0.5 },
+ *       { text: "Up to 50% off", alignment: "bottom", backgroundColor: "#000000", start: 1 },
+ *     ],
+ *   }),
+ * )
+ */
+export function overlayText(options: OverlayTextOptions): VideoOperation {
+  if (options.texts.length === 0) {
+    throw new Error("overlayText requires at least one text");
+  }
+  return utilityOperation("overlayText", options.video, {
+    texts: options.texts,
+  });
+}
+
+/**
+ * Operation that runs on a media URL, an operation, or the previous
+ * operation's output
+ */
+function utilityOperation(
+  type: OperationType,
+  video: string | VideoOperation | AudioOperation | undefined,
+  options: Record<string, unknown>,
+): VideoOperation {
+  const params: Record<string, unknown> = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined),
+  );
+
+  if (typeof video === "string") {
+    params.videoUrl = video;
+  }
+
+  return {
+    type,
+    params,
+    inputs: video && typeof video !== "string" ? [video] : undefined,
   };
 }
 
 export interface LipSyncOptions {
-  audioUrl: string;
+  /** Video URL or operation to sync. Omit to sync the previous operation's output */
+  video?: string | VideoOperation;
+  /** Speech track as a URL or a generateAudio operation */
+  audio?: string | AudioOperation;
+  /** @deprecated Use `audio` instead */
+  audioUrl?: string;
+  /** Lip-sync model (default: "sync/lipsync-2" on Replicate) */
+  model?: VideoModel<any>;
 }
 
+/**
+ * Re-time a video's mouth movements to match a speech track.
+ *
+ * @example
+ * // Dub a generated clip with generated speech
+ * lipSync({
+ *   video: generateVideo({ model, prompt: "A man talking to the camera" }),
+ *   audio: generateAudio({ model: ttsModel, text: "Hello there!" }),
+ * })
+ *
+ * @example
+ * // Sync the previous operation's output to an existing voiceover
+ * compose(
+ *   generateVideo({ model, prompt: "A news anchor at a desk" }),
+ *   lipSync({ audio: "https://example.com/voiceover.mp3" }),
+ * )
+ */
 export function lipSync(options: LipSyncOptions): VideoOperation {
+  const { video, audio = options.audioUrl, model } = options;
+
+  if (!audio) {
+    throw new Error("lipSync requires an 'audio' URL or operation");
+  }
+
+  const params: Record<string, unknown> = {
+    modelId: model?.modelId || "sync/lipsync-2",
+  };
+
+  if (model) {
+    params.provider = model.provider;
+    params.apiKey = model.options.apiKey;
+  }
+
+  // Nested operations in params.audio/params.video become their own jobs
+  if (typeof audio === "string") {
+    params.audioUrl = audio;
+  } else {
+    params.audio = audio;
+  }
+
+  if (typeof video === "string") {
+    params.videoUrl = video;
+  } else if (video?.type === "generate") {
+    params.video = video;
+  }
+
   return {
     type: "lipSync",
-    params: {
-      audioUrl: options.audioUrl,
-    },
+    params,
+    inputs:
+      video && typeof video !== "string" && video.type !== "generate"
+        ? [video]
+        : undefined,
   };
 }
 
@@ -311,6 +817,21 @@ export interface CustomPlacement {
   aspectRatio?: string; // e.g., "16:9", "9:16"
 }
 
+export type KeyframeEasing = "linear" | "ease-in" | "ease-out" | "ease-in-out";
+
+// State of a layer at a point in time; unset values carry over from the previous keyframe
+export interface LayerKeyframe {
+  time: number; // Seconds from the start of the output
+  placement?: PlacementPreset; // Preset or Tailwind-style placement at this keyframe
+  x?: string | number; // X position (pixels or expressions like "(W-w)/2")
+  y?: string | number; // Y position
+  width?: string | number; // Width (pixels or expressions like "iw/2"); set alone to keep aspect ratio
+  height?: string | number; // Height; set alone to keep aspect ratio
+  opacity?: number; // 0 (transparent) to 1 (default: 1)
+  rotation?: number; // Degrees clockwise (default: 0)
+  easing?: KeyframeEasing; // Easing from the previous keyframe (default: "linear")
+}
+
 export interface LayerItem {
   media?:
     | string
@@ -325,6 +846,7 @@ export interface LayerItem {
   blend?: number;
   duration?: number; // Optional: Duration for this specific item (used in timeline arrays)
   main?: boolean; // Optional: Marks this layer as the main duration reference
+  keyframes?: LayerKeyframe[]; // Optional: Animate the layer, starting from its placement (not for the first layer or timeline arrays)
 }
 
 // Timeline item for sequential playback (duration now optional for auto-fill)
@@ -332,19 +854,45 @@ export interface TimelineItem extends LayerItem {
   duration?: number; // Optional: If not provided, will auto-fill remaining time
 }
 
+// Audio track mixed over the layered video
+export interface LayerAudioTrack {
+  url: string | AudioOperation | VideoOperation;
+  offset?: number; // Start position in seconds (default: 0)
+  duration?: number; // Trim duration in seconds
+  volume?: number; // Volume level from 0 to 1 (default: 1)
+  fadeIn?: number; // Fade in over this many seconds
+  fadeOut?: number; // Fade out over this many seconds
+  duck?: boolean | DuckingOptions; // Dip while the main layer's audio or other tracks play
+}
+
 export interface LayersOptions {
   duration?: number; // Explicit output duration (overrides main layer)
   width?: number;
   height?: number;
   mainLayer?: number; // Alternative way to specify main layer by index
+  audio?: LayerAudioTrack[]; // Audio tracks mixed over the main layer's audio
+  loudness?: LoudnessOptions; // Normalize the loudness of the final mix
 }
 
 export function layers(
-  items: Array<LayerItem | TimelineItem[]>,
+  items: Array<LayerItem | TimelineItem[] | TextLayer>,
   options?: LayersOptions,
 ): VideoOperation {
+  // Text layers are drawn above all media layers, so they're passed separately
+  const texts = items.filter(isTextLayer);
+  const mediaItems = items.filter(
+    (item): item is LayerItem | TimelineItem[] => !isTextLayer(item),
+  );
+
+  // mainLayer indexes into items, so skip text layers that come before it
+  const mainLayer =
+    options?.mainLayer !== undefined
+      ? options.mainLayer -
+        items.slice(0, options.mainLayer).filter(isTextLayer).length
+      : undefined;
+
   // Process items to detect timeline arrays and calculate durations
-  const processedLayers = items.map((item) => {
+  const processedLayers = mediaItems.map((item) => {
     // Check if this is a timeline array
     if (Array.isArray(item)) {
       // Check if any timeline items lack duration (need auto-fill)
@@ -392,7 +940,7 @@ export function layers(
   }
 
   // Check if any layer has main flag
-  const hasMainLayer = items.some(
+  const hasMainLayer = mediaItems.some(
     (item) =>
       !Array.isArray(item) && typeof item === "object" && item.main === true,
   );
@@ -418,7 +966,16 @@ export function layers(
       outputDuration: options?.duration || calculatedOutputDuration,
       outputWidth: options?.width,
       outputHeight: options?.height,
-      mainLayer: options?.mainLayer, // Pass through mainLayer option
+      mainLayer, // Pass through mainLayer option
+      audio: options?.audio,
+      loudness: options?.loudness,
+      texts: texts.length > 0 ? texts : undefined,
     },
   };
 }
+
+function isTextLayer(
+  item: LayerItem | TimelineItem[] | TextLayer,
+): item is TextLayer {
+  return !Array.isArray(item) && typeof (item as TextLayer).text === "string";
+}
@@ -1,9 +1,6 @@
 import type {
-  AudioOperation,
   ExecuteOptions,
   ExecutionPlan,
-  ImageOperation,
-  JobNode,
   MediaResult,
   Pipeline,
   PipelineExecution,
@@ -13,7 +10,16 @@ import type {
 } from "../core/video.js";
 import { getSynthomeApiKey, getSynthomeApiUrl } from "../utils/api-key.js";
 import { getModelInfo, type VideoProvider } from "../schemas/registry.js";
-import type { ExecutionStatusResponse } from "../types/api-types.js";
+import type {
+  ExecutionEvent,
+  ExecutionStatusResponse,
+  PlanDiagnostic,
+} from "../types/api-types.js";
+import {
+  followExecutionEvents,
+  streamExecutionEvents,
+} from "./execution-events.js";
+import { PlanCompiler } from "./plan-compiler.js";
 
 export type { ExecuteOptions, Pipeline, PipelineExecution, PipelineProgress };
 
@@ -52,9 +58,18 @@ function getProviderApiKeysFromEnv():
   return Object.keys(keys).length > 0 ? keys : undefined;
 }
 
+/**
+ * Render plan validation diagnostics from an API error as extra error lines
+ */
+function formatDiagnostics(diagnostics: PlanDiagnostic[]): string {
+  return diagnostics
+    .map((d) => `\n  - ${d.path} (${d.code}): ${d.message}`)
+    .join("");
+}
+
 class MediaExecution implements PipelineExecution {
   id: string;
-  status: "pending" | "processing" | "completed" | "failed" = "pending";
+  status: PipelineExecution["status"] = "pending";
   result?: MediaResult;
   private completeCallback?: (result: MediaResult) => void;
   private errorCallback?: (error: Error) => void;
@@ -110,8 +125,60 @@ class MediaExecution implements PipelineExecution {
     return await response.json();
   }
 
+  async cancel(): Promise<void> {
+    const cancelUrl = `${this.apiUrl}/${this.id}/cancel`;
+
+    const response = await fetch(cancelUrl, {
+      method: "POST",
+      headers: {
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+    });
+
+    if (!response.ok) {
+      let errorMessage = `Failed to cancel execution: ${response.statusText}`;
+      try {
+        const errorBody = await response.json();
+        if (errorBody.error || errorBody.message) {
+          errorMessage = `Failed to cancel execution: ${errorBody.error || errorBody.message}`;
+        }
+      } catch {
+        // If JSON parsing fails, use the status text
+      }
+      throw new Error(errorMessage);
+    }
+
+    this.status = "cancelled";
+  }
+
+  /**
+   * Job and execution events as they happen, ending with execution.completed
+   */
+  events(): AsyncIterableIterator<ExecutionEvent> {
+    return streamExecutionEvents(this.apiUrl, this.id, this.apiKey);
+  }
+
   async waitForCompletion(
     progressCallback?: (progress: PipelineProgress) => void,
+  ): Promise<MediaResult> {
+    // Follow the event stream, and poll when the API or runtime can't stream
+    const completed = await followExecutionEvents(
+      this.events(),
+      progressCallback,
+    );
+    if (completed) {
+      return this.settle(
+        completed.status,
+        (completed.result as MediaResult | null) ?? undefined,
+        completed.error,
+      );
+    }
+
+    return this.pollForCompletion(progressCallback);
+  }
+
+  private async pollForCompletion(
+    progressCallback?: (progress: PipelineProgress) => void,
   ): Promise<MediaResult> {
     const statusUrl = `${this.apiUrl}/${this.id}/status`;
     const interval = 1000; // Poll every 1 second (faster for audio/quick operations)
@@ -146,7 +213,7 @@ class MediaExecution implements PipelineExecution {
         }
 
         const status = (await response.json()) as {
-          status: MediaResult["status"];
+          status: PipelineExecution["status"];
           progress: number;
           totalJobs: number;
           completedJobs: number;
@@ -166,23 +233,12 @@ class MediaExecution implements PipelineExecution {
           });
         }
 
-        if (status.status === "completed") {
-          this.result = status.result;
-          if (this.completeCallback && status.result) {
-            this.completeCallback(status.result);
-          }
-          return status.result!;
-        }
-
-        if (status.status === "failed") {
-          console.log("[SDK] Execution failed, status response:", status);
-          const errorMessage = status.error || "Pipeline execution failed";
-          console.log("[SDK] Error message:", errorMessage);
-          const error = new Error(errorMessage);
-          if (this.errorCallback) {
-            this.errorCallback(error);
-          }
-          throw error;
+        if (
+          status.status === "completed" ||
+          status.status === "failed" ||
+          status.status === "cancelled"
+        ) {
+          return this.settle(status.status, status.result, status.error);
         }
 
         await new Promise((resolve) => setTimeout(resolve, interval));
@@ -194,6 +250,35 @@ class MediaExecution implements PipelineExecution {
       throw error;
     }
   }
+
+  /**
+   * Record the final status, returning the result or throwing the error
+   */
+  private settle(
+    status: "completed" | "failed" | "cancelled",
+    result?: MediaResult,
+    error?: string | null,
+  ): MediaResult {
+    this.status = status;
+
+    if (status === "completed") {
+      this.result = result;
+      if (this.completeCallback && result) {
+        this.completeCallback(result);
+      }
+      return result!;
+    }
+
+    const executionError = new Error(
+      status === "cancelled"
+        ? "Execution was cancelled"
+        : error || "Pipeline execution failed",
+    );
+    if (this.errorCallback) {
+      this.errorCallback(executionError);
+    }
+    throw executionError;
+  }
 }
 
 class VideoPipeline implements Pipeline {
@@ -259,6 +344,14 @@ class VideoPipeline implements Pipeline {
           }
         }
       }
+
+      // Fallback providers need their keys in case the job moves to them
+      const fallbackProviders = job.params?.fallbackProviders;
+      if (Array.isArray(fallbackProviders)) {
+        for (const provider of fallbackProviders) {
+          usedProviders.add(provider as VideoProvider);
+        }
+      }
     }
 
     // Filter API keys to only include keys for used providers
@@ -286,696 +379,7 @@ class VideoPipeline implements Pipeline {
   }
 
   toJSON(): ExecutionPlan {
-    const jobs: JobNode[] = [];
-    let counter = 1;
-    let mergeInputs: string[] = [];
-    let lastJobId: string | undefined;
-
-    for (let i = 0; i < this.operations.length; i++) {
-      const op = this.operations[i];
-      if (!op) continue;
-
-      const id = `job${counter++}`;
-
-      // Check if this operation has a nested ImageOperation in params.image
-      let imageJobId: string | undefined;
-      if (op.params.image && typeof op.params.image === "object") {
-        const imageOp = op.params.image as ImageOperation;
-        if (
-          imageOp.type === "generateImage" ||
-          imageOp.type === "removeImageBackground"
-        ) {
-          // Check if the imageOp itself has a nested image operation
-          let nestedImageJobId: string | undefined;
-          if (
-            imageOp.params.image &&
-            typeof imageOp.params.image === "object"
-          ) {
-            const nestedImageOp = imageOp.params.image as ImageOperation;
-            if (
-              nestedImageOp.type === "generateImage" ||
-              nestedImageOp.type === "removeImageBackground"
-            ) {
-              // Create the nested image job first
-              const nestedImageId = `job${counter++}`;
-              jobs.push({
-                id: nestedImageId,
-                type: nestedImageOp.type,
-                params: nestedImageOp.params,
-                output: `$${nestedImageId}`,
-              });
-              nestedImageJobId = nestedImageId;
-            }
-          }
-
-          // Create an image generation/processing job
-          const imageId = `job${counter++}`;
-          const imageParams = { ...imageOp.params };
-          if (nestedImageJobId) {
-            imageParams.image = `_imageJobDependency:${nestedImageJobId}`;
-          }
-
-          jobs.push({
-            id: imageId,
-            type: imageOp.type,
-            params: imageParams,
-            dependsOn: nestedImageJobId ? [nestedImageJobId] : undefined,
-            output: `$${imageId}`,
-          });
-          imageJobId = imageId;
-        }
-      }
-
-      // Check if this operation has a nested AudioOperation in params.audio
-      let audioJobId: string | undefined;
-      if (op.params.audio && typeof op.params.audio === "object") {
-        const audioOp = op.params.audio as AudioOperation;
-        if (audioOp.type === "generateAudio") {
-          // Create an audio generation job
-          const audioId = `job${counter++}`;
-          jobs.push({
-            id: audioId,
-            type: "generateAudio",
-            params: audioOp.params,
-            output: `$${audioId}`,
-          });
-          audioJobId = audioId;
-        }
-      }
-
-      // Check if this operation has a nested VideoOperation in params.video
-      let videoJobId: string | undefined;
-      if (op.params.video && typeof op.params.video === "object") {
-        const videoOp = op.params.video as VideoOperation;
-        if (videoOp.type === "generate") {
-          // Check if the nested video operation has its own nested image/audio operations
-          let nestedVideoImageJobId: string | undefined;
-          let nestedVideoAudioJobId: string | undefined;
-
-          // Handle nested image in the video operation
-          if (
-            videoOp.params.image &&
-            typeof videoOp.params.image === "object"
-          ) {
-            const nestedImageOp = videoOp.params.image as ImageOperation;
-            if (
-              nestedImageOp.type === "generateImage" ||
-              nestedImageOp.type === "removeImageBackground"
-            ) {
-              const nestedImageId = `job${counter++}`;
-              jobs.push({
-                id: nestedImageId,
-                type: nestedImageOp.type,
-                params: nestedImageOp.params,
-                output: `$${nestedImageId}`,
-              });
-              nestedVideoImageJobId = nestedImageId;
-            }
-          }
-
-          // Handle nested audio in the video operation
-          if (
-            videoOp.params.audio &&
-            typeof videoOp.params.audio === "object"
-          ) {
-            const nestedAudioOp = videoOp.params.audio as AudioOperation;
-            if (nestedAudioOp.type === "generateAudio") {
-              const nestedAudioId = `job${counter++}`;
-              jobs.push({
-                id: nestedAudioId,
-                type: "generateAudio",
-                params: nestedAudioOp.params,
-                output: `$${nestedAudioId}`,
-              });
-              nestedVideoAudioJobId = nestedAudioId;
-            }
-          }
-
-          // Create a video generation job with dependency markers
-          const videoId = `job${counter++}`;
-          const videoParams = { ...videoOp.params };
-
-          // Replace nested operations with dependency markers
-          if (nestedVideoImageJobId) {
-            videoParams.image = `_imageJobDependency:${nestedVideoImageJobId}`;
-          }
-          if (nestedVideoAudioJobId) {
-            videoParams.audio = `_audioJobDependency:${nestedVideoAudioJobId}`;
-          }
-
-          const videoDeps = [
-            nestedVideoImageJobId,
-            nestedVideoAudioJobId,
-          ].filter((id): id is string => id !== undefined);
-
-          jobs.push({
-            id: videoId,
-            type: "generate",
-            params: videoParams,
-            dependsOn: videoDeps.length > 0 ? videoDeps : undefined,
-            output: `$${videoId}`,
-          });
-          videoJobId = videoId;
-        }
-      }
-
-      // Check if this operation has a nested TranscribeOperation in params.transcript
-      let transcriptJobId: string | undefined;
-      // Track video input job ID for operations that need it (transcribe, addSubtitles)
-      let videoInputJobId: string | undefined;
-
-      // First, process video inputs if they exist (needed for both transcribe and the main operation)
-      if (!op.params.videoUrl && op.inputs && op.inputs.length > 0) {
-        const videoInput = op.inputs[0];
-        if (
-          videoInput &&
-          typeof videoInput === "object" &&
-          "type" in videoInput
-        ) {
-          const videoInputOp = videoInput as VideoOperation;
-
-          // Check if this operation has nested operations that need jobs
-          // For merge operations, we need to handle nested items
-          if (videoInputOp.type === "merge") {
-            const mergeParams = videoInputOp.params as {
-              items?: Array<{
-                url?: string;
-                type: "video" | "image" | "audio";
-                duration?: number;
-                offset?: number;
-                volume?: number;
-                operation?: VideoOperation | ImageOperation | AudioOperation;
-              }>;
-            };
-
-            const mergeDependencies: string[] = [];
-            const processedItems: Array<{
-              url?: string;
-              type: "video" | "image" | "audio";
-              duration?: number;
-              offset?: number;
-              volume?: number;
-            }> = [];
-
-            if (mergeParams.items && Array.isArray(mergeParams.items)) {
-              for (const item of mergeParams.items) {
-                if (item.operation) {
-                  // Create a job for this nested operation
-                  const opJobId = `job${counter++}`;
-                  jobs.push({
-                    id: opJobId,
-                    type: item.operation.type,
-                    params: item.operation.params,
-                    output: `$${opJobId}`,
-                  });
-                  mergeDependencies.push(opJobId);
-
-                  // Determine dependency marker type
-                  let dependencyMarker: string;
-                  if (
-                    item.operation.type === "generate" ||
-                    item.operation.type === "removeBackground"
-                  ) {
-                    dependencyMarker = `_videoJobDependency:${opJobId}`;
-                  } else if (
-                    item.operation.type === "generateImage" ||
-                    item.operation.type === "removeImageBackground"
-                  ) {
-                    dependencyMarker = `_imageJobDependency:${opJobId}`;
-                  } else if (item.operation.type === "generateAudio") {
-                    dependencyMarker = `_audioJobDependency:${opJobId}`;
-                  } else {
-                    dependencyMarker = `_videoJobDependency:${opJobId}`;
-                  }
-
-                  processedItems.push({
-                    url: dependencyMarker,
-                    type: item.type,
-                    duration: item.duration,
-                    offset: item.offset,
-                    volume: item.volume,
-                  });
-                } else {
-                  processedItems.push({
-                    url: item.url,
-                    type: item.type,
-                    duration: item.duration,
-                    offset: item.offset,
-                    volume: item.volume,
-                  });
-                }
-              }
-            }
-
-            // Create the merge job
-            const mergeJobId = `job${counter++}`;
-            jobs.push({
-              id: mergeJobId,
-              type: "merge",
-              params: { items: processedItems },
-              dependsOn:
-                mergeDependencies.length > 0 ? mergeDependencies : undefined,
-              output: `$${mergeJobId}`,
-            });
-
-            videoInputJobId = mergeJobId;
-          } else {
-            // For other video operations (generate, removeBackground, etc.)
-            const videoOpJobId = `job${counter++}`;
-            jobs.push({
-              id: videoOpJobId,
-              type: videoInputOp.type,
-              params: videoInputOp.params,
-              output: `$${videoOpJobId}`,
-            });
-
-            videoInputJobId = videoOpJobId;
-          }
-        }
-      }
-
-      // Now handle transcribe operation if present
-      if (op.params.transcript && typeof op.params.transcript === "object") {
-        const transcriptOp = op.params.transcript as any;
-        if (transcriptOp.type === "transcribe") {
-          // Create a transcription job
-          const transcriptId = `job${counter++}`;
-
-          // Pass videoUrl to transcribe job
-          const transcribeParams = { ...transcriptOp.params };
-          const transcribeDependencies: string[] = [];
-
-          if (op.params.videoUrl) {
-            // videoUrl is a direct URL string
-            transcribeParams.videoUrl = op.params.videoUrl;
-          } else if (videoInputJobId) {
-            // Use the video input job we created above
-            transcribeParams.videoUrl = `_videoJobDependency:${videoInputJobId}`;
-            transcribeDependencies.push(videoInputJobId);
-          }
-
-          jobs.push({
-            id: transcriptId,
-            type: "transcribe",
-            params: transcribeParams,
-            dependsOn:
-              transcribeDependencies.length > 0
-                ? transcribeDependencies
-                : undefined,
-            output: `$${transcriptId}`,
-          });
-          transcriptJobId = transcriptId;
-        }
-      }
-
-      // Collect all dependency job IDs
-      const depJobIds = [
-        imageJobId,
-        audioJobId,
-        videoJobId,
-        transcriptJobId,
-      ].filter((id): id is string => id !== undefined);
-
-      if (op.type === "merge") {
-        // New merge operation - process items with potential nested operations
-        const mergeParams = op.params as {
-          items?: Array<{
-            url?: string;
-            type: "video" | "image" | "audio";
-            duration?: number;
-            offset?: number;
-            volume?: number;
-            operation?: VideoOperation | ImageOperation | AudioOperation;
-          }>;
-        };
-
-        const mergeDependencies: string[] = [];
-        const processedItems: Array<{
-          url?: string;
-          type: "video" | "image" | "audio";
-          duration?: number;
-          offset?: number;
-          volume?: number;
-        }> = [];
-
-        if (mergeParams.items && Array.isArray(mergeParams.items)) {
-          for (const item of mergeParams.items) {
-            if (item.operation) {
-              // Create a job for this nested operation
-              const opJobId = `job${counter++}`;
-              jobs.push({
-                id: opJobId,
-                type: item.operation.type,
-                params: item.operation.params,
-                output: `$${opJobId}`,
-              });
-              mergeDependencies.push(opJobId);
-
-              // Determine dependency marker type
-              let dependencyMarker: string;
-              if (
-                item.operation.type === "generate" ||
-                item.operation.type === "removeBackground"
-              ) {
-                dependencyMarker = `_videoJobDependency:${opJobId}`;
-              } else if (
-                item.operation.type === "generateImage" ||
-                item.operation.type === "removeImageBackground"
-              ) {
-                dependencyMarker = `_imageJobDependency:${opJobId}`;
-              } else if (item.operation.type === "generateAudio") {
-                dependencyMarker = `_audioJobDependency:${opJobId}`;
-              } else {
-                dependencyMarker = `_videoJobDependency:${opJobId}`;
-              }
-
-              processedItems.push({
-                url: dependencyMarker,
-                type: item.type,
-                duration: item.duration,
-                offset: item.offset,
-                volume: item.volume,
-              });
-            } else {
-              // URL-based item, pass through as-is
-              processedItems.push({
-                url: item.url,
-                type: item.type,
-                duration: item.duration,
-                offset: item.offset,
-                volume: item.volume,
-              });
-            }
-          }
-        }
-
-        // Combine all dependencies
-        const allMergeDeps = [...mergeDependencies];
-        if (lastJobId) allMergeDeps.unshift(lastJobId);
-
-        jobs.push({
-          id,
-          type: op.type,
-          params: {
-            items: processedItems,
-          },
-          dependsOn: allMergeDeps.length > 0 ? allMergeDeps : undefined,
-          output: `$${id}`,
-        });
-        mergeInputs = [];
-        lastJobId = id;
-      } else if (
-        op.type === "generate" &&
-        this.operations[i + 1]?.type === "generate"
-      ) {
-        // Multi-scene generation - create job with dependencies
-        const jobParams = { ...op.params };
-        if (imageJobId) {
-          jobParams.image = `_imageJobDependency:${imageJobId}`;
-        }
-        if (audioJobId) {
-          jobParams.audio = `_audioJobDependency:${audioJobId}`;
-        }
-        if (videoJobId) {
-          jobParams.video = `_videoJobDependency:${videoJobId}`;
-        }
-        if (transcriptJobId) {
-          jobParams.transcript = `_transcriptJobDependency:${transcriptJobId}`;
-        }
-
-        jobs.push({
-          id,
-          type: op.type,
-          params: jobParams,
-          dependsOn: depJobIds.length > 0 ? depJobIds : undefined,
-          output: `$${id}`,
-        });
-        mergeInputs.push(id);
-      } else if (op.type === "generate" && mergeInputs.length > 0) {
-        // Part of multi-scene - create job with dependencies
-        const jobParams = { ...op.params };
-        if (imageJobId) {
-          jobParams.image = `_imageJobDependency:${imageJobId}`;
-        }
-        if (audioJobId) {
-          jobParams.audio = `_audioJobDependency:${audioJobId}`;
-        }
-        if (videoJobId) {
-          jobParams.video = `_videoJobDependency:${videoJobId}`;
-        }
-        if (transcriptJobId) {
-          jobParams.transcript = `_transcriptJobDependency:${transcriptJobId}`;
-        }
-
-        jobs.push({
-          id,
-          type: op.type,
-          params: jobParams,
-          dependsOn: depJobIds.length > 0 ? depJobIds : undefined,
-          output: `$${id}`,
-        });
-        mergeInputs.push(id);
-      } else if (op.type === "layer") {
-        // Layer operation - create job with dependencies
-        const jobParams = { ...op.params };
-        const layerDependencies: string[] = [];
-
-        // Handle nested operations in layer media arrays
-        const layerParams = op.params as any;
-        if (layerParams.layers && Array.isArray(layerParams.layers)) {
-          const processedLayers = [];
-
-          for (const layer of layerParams.layers) {
-            const processedLayer = { ...layer };
-
-            // Handle timeline layers with nested operations
-            if ("isTimeline" in layer && layer.isTimeline && layer.timeline) {
-              const processedTimeline = [];
-
-              for (const timelineItem of layer.timeline) {
-                const processedItem = { ...timelineItem };
-
-                // Check if timeline item has nested operation in media
-                if (
-                  timelineItem.media &&
-                  typeof timelineItem.media === "object" &&
-                  !Array.isArray(timelineItem.media)
-                ) {
-                  const mediaOp = timelineItem.media as
-                    | VideoOperation
-                    | ImageOperation
-                    | AudioOperation;
-
-                  if (
-                    mediaOp.type === "generate" ||
-                    mediaOp.type === "generateImage" ||
-                    mediaOp.type === "generateAudio" ||
-                    mediaOp.type === "removeBackground" ||
-                    mediaOp.type === "removeImageBackground"
-                  ) {
-                    // Create a job for this nested operation
-                    const mediaJobId = `job${counter++}`;
-                    jobs.push({
-                      id: mediaJobId,
-                      type: mediaOp.type,
-                      params: mediaOp.params,
-                      output: `$${mediaJobId}`,
-                    });
-
-                    // Track dependency
-                    layerDependencies.push(mediaJobId);
-
-                    // Replace media with dependency marker based on operation type
-                    if (
-                      mediaOp.type === "generate" ||
-                      mediaOp.type === "removeBackground"
-                    ) {
-                      processedItem.media = `_videoJobDependency:${mediaJobId}`;
-                    } else if (
-                      mediaOp.type === "generateImage" ||
-                      mediaOp.type === "removeImageBackground"
-                    ) {
-                      processedItem.media = `_imageJobDependency:${mediaJobId}`;
-                    } else if (mediaOp.type === "generateAudio") {
-                      processedItem.media = `_audioJobDependency:${mediaJobId}`;
-                    } else {
-                      processedItem.media = `_videoJobDependency:${mediaJobId}`; // fallback
-                    }
-                  }
-                }
-
-                processedTimeline.push(processedItem);
-              }
-
-              processedLayer.timeline = processedTimeline;
-            }
-
-            // Handle nested operations in media
-            if (layer.media) {
-              // Check if media is an array of operations
-              if (Array.isArray(layer.media)) {
-                const mediaIsOperations = layer.media.every(
-                  (item: any) =>
-                    typeof item === "object" &&
-                    "type" in item &&
-                    "params" in item,
-                );
-
-                if (mediaIsOperations) {
-                  // Array of operations - create jobs for each
-                  const layerMediaJobIds: string[] = [];
-                  for (const mediaOp of layer.media as Array<
-                    VideoOperation | ImageOperation
-                  >) {
-                    if (
-                      mediaOp.type === "generate" ||
-                      mediaOp.type === "generateImage" ||
-                      mediaOp.type === "generateAudio" ||
-                      mediaOp.type === "removeBackground" ||
-                      mediaOp.type === "removeImageBackground"
-                    ) {
-                      const mediaJobId = `job${counter++}`;
-                      jobs.push({
-                        id: mediaJobId,
-                        type: mediaOp.type,
-                        params: mediaOp.params,
-                        output: `$${mediaJobId}`,
-                      });
-                      layerDependencies.push(mediaJobId);
-                      layerMediaJobIds.push(mediaJobId);
-                    }
-                  }
-                  // Replace media with dependency markers
-                  if (layerMediaJobIds.length > 0) {
-                    processedLayer.media = layerMediaJobIds.map((id, index) => {
-                      const mediaOp = layer.media[index] as
-                        | VideoOperation
-                        | ImageOperation
-                        | AudioOperation;
-                      // Determine dependency type based on operation type
-                      if (
-                        mediaOp.type === "generate" ||
-                        mediaOp.type === "removeBackground"
-                      ) {
-                        return `_videoJobDependency:${id}`;
-                      } else if (
-                        mediaOp.type === "generateImage" ||
-                        mediaOp.type === "removeImageBackground"
-                      ) {
-                        return `_imageJobDependency:${id}`;
-                      } else if (mediaOp.type === "generateAudio") {
-                        return `_audioJobDependency:${id}`;
-                      }
-                      return `_videoJobDependency:${id}`; // fallback
-                    });
-                  }
-                }
-                // else: array of strings (URLs), keep as-is
-              } else if (
-                typeof layer.media === "object" &&
-                !Array.isArray(layer.media)
-              ) {
-                // Single operation (VideoOperation, ImageOperation, etc.)
-                const mediaOp = layer.media as VideoOperation | ImageOperation;
-
-                if (
-                  mediaOp.type === "generate" ||
-                  mediaOp.type === "generateImage" ||
-                  mediaOp.type === "generateAudio" ||
-                  mediaOp.type === "removeBackground" ||
-                  mediaOp.type === "removeImageBackground"
-                ) {
-                  // Create a job for this nested operation
-                  const mediaJobId = `job${counter++}`;
-                  jobs.push({
-                    id: mediaJobId,
-                    type: mediaOp.type,
-                    params: mediaOp.params,
-                    output: `$${mediaJobId}`,
-                  });
-
-                  // Track dependency
-                  layerDependencies.push(mediaJobId);
-
-                  // Replace media with dependency marker based on operation type
-                  if (
-                    mediaOp.type === "generate" ||
-                    mediaOp.type === "removeBackground"
-                  ) {
-                    processedLayer.media = `_videoJobDependency:${mediaJobId}`;
-                  } else if (
-                    mediaOp.type === "generateImage" ||
-                    mediaOp.type === "removeImageBackground"
-                  ) {
-                    processedLayer.media = `_imageJobDependency:${mediaJobId}`;
-                  } else if (mediaOp.type === "generateAudio") {
-                    processedLayer.media = `_audioJobDependency:${mediaJobId}`;
-                  } else {
-                    processedLayer.media = `_videoJobDependency:${mediaJobId}`; // fallback
-                  }
-                }
-              } else if (typeof layer.media === "string") {
-                // String URL - convert to array for backend compatibility
-                processedLayer.media = [layer.media];
-              }
-              // else: already an array of strings (URLs), keep as-is
-            }
-
-            processedLayers.push(processedLayer);
-          }
-          jobParams.layers = processedLayers;
-        }
-
-        const allDeps = [...depJobIds, ...layerDependencies];
-        if (lastJobId) allDeps.unshift(lastJobId);
-
-        jobs.push({
-          id,
-          type: op.type,
-          params: jobParams,
-          dependsOn: allDeps.length > 0 ? allDeps : undefined,
-          output: `$${id}`,
-        });
-        lastJobId = id;
-      } else {
-        // Single operation or non-generate - create job with dependencies
-        const jobParams = { ...op.params };
-        if (imageJobId) {
-          jobParams.image = `_imageJobDependency:${imageJobId}`;
-        }
-        if (audioJobId) {
-          jobParams.audio = `_audioJobDependency:${audioJobId}`;
-        }
-        if (videoJobId) {
-          jobParams.video = `_videoJobDependency:${videoJobId}`;
-        }
-        if (transcriptJobId) {
-          jobParams.transcript = `_transcriptJobDependency:${transcriptJobId}`;
-        }
-        // For operations that need videoUrl from input (like addSubtitles)
-        if (videoInputJobId && !jobParams.videoUrl) {
-          jobParams.videoUrl = `_videoJobDependency:${videoInputJobId}`;
-        }
-
-        const allDeps = [...depJobIds];
-        // Add videoInputJobId to dependencies if it exists and not already included
-        if (videoInputJobId && !allDeps.includes(videoInputJobId)) {
-          allDeps.push(videoInputJobId);
-        }
-        if (lastJobId) allDeps.unshift(lastJobId);
-
-        jobs.push({
-          id,
-          type: op.type,
-          params: jobParams,
-          dependsOn: allDeps.length > 0 ? allDeps : undefined,
-          output: `$${id}`,
-        });
-        lastJobId = id;
-      }
-    }
-
-    return { jobs };
+    return new PlanCompiler().compile(this.operations);
   }
 
   async execute(config?: ExecuteOptions): Promise<PipelineExecution> {
@@ -1008,6 +412,18 @@ class VideoPipeline implements Pipeline {
       };
     }
 
+    if (config?.cache === false) {
+      options.cache = false;
+    }
+
+    if (config?.retry) {
+      options.retry = config.retry;
+    }
+
+    if (config?.testMode) {
+      options.testMode = config.testMode;
+    }
+
     // Only include providerApiKeys if at least one key is present
     if (providerApiKeys && Object.keys(providerApiKeys).length > 0) {
       options.providerApiKeys = providerApiKeys;
@@ -1052,6 +468,9 @@ class VideoPipeline implements Pipeline {
             errorMessage += ` (${errorBody.code})`;
           }
         }
+        if (Array.isArray(errorBody.diagnostics)) {
+          errorMessage += formatDiagnostics(errorBody.diagnostics);
+        }
       } catch {
         // If JSON parsing fails, include more context
         errorDetails = ` [Request to ${apiUrl} returned ${response.status}]`;
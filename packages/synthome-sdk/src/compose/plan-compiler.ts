@@ -0,0 +1,218 @@
+import type {
+  ExecutionPlan,
+  JobNode,
+  OperationType,
+  VideoNode,
+  VideoOperation,
+} from "../core/video.js";
+
+/**
+ * Prefix for params that point at another job's output.
+ * The orchestrator replaces `$ref:<jobId>` with the URL that job produced.
+ */
+export const JOB_REFERENCE_PREFIX = "$ref:";
+
+export type JobReference = `$ref:${string}`;
+
+/**
+ * Reference another job's output from hand-written execution plans
+ *
+ * @example
+ * ```typescript
+ * executeFromPlan({
+ *   jobs: [
+ *     { id: "img", type: "generateImage", params: { ... }, output: "$img" },
+ *     {
+ *       id: "vid",
+ *       type: "generate",
+ *       params: { image: jobRef("img"), ... },
+ *       dependsOn: ["img"],
+ *       output: "$vid",
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+export function jobRef(jobId: string): JobReference {
+  return `${JOB_REFERENCE_PREFIX}${jobId}`;
+}
+
+interface Operation {
+  type: string;
+  params: Record<string, unknown>;
+  inputs?: VideoNode[];
+}
+
+function isOperation(value: unknown): value is Operation {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Operation).type === "string" &&
+    typeof (value as Operation).params === "object" &&
+    (value as Operation).params !== null
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Compiles composed operations into an ExecutionPlan.
+ *
+ * Every operation becomes exactly one job, no matter how deeply it is nested
+ * or how many operations consume it: an operation object passed to several
+ * downstream operations is compiled once and referenced via `$ref:<jobId>`.
+ * Jobs are emitted in dependency order and every reference in a job's params
+ * is mirrored in its `dependsOn`.
+ */
+export class PlanCompiler {
+  private jobs: JobNode[] = [];
+  private jobIds = new Map<Operation, string>();
+  private inProgress = new Set<Operation>();
+  private counter = 1;
+
+  compile(operations: VideoOperation[]): ExecutionPlan {
+    let lastJobId: string | undefined;
+    let sceneJobIds: string[] = [];
+
+    for (let i = 0; i < operations.length; i++) {
+      const op = operations[i];
+      if (!op) continue;
+
+      // Consecutive generate ops are independent scenes rather than a chain
+      const isScene =
+        op.type === "generate" &&
+        (operations[i + 1]?.type === "generate" || sceneJobIds.length > 0);
+
+      const id = this.addOperation(
+        op,
+        !isScene && lastJobId ? [lastJobId] : [],
+      );
+
+      if (isScene) {
+        sceneJobIds.push(id);
+      } else {
+        if (op.type === "merge") {
+          sceneJobIds = [];
+        }
+        lastJobId = id;
+      }
+    }
+
+    return { jobs: this.jobs };
+  }
+
+  /**
+   * Add a job for an operation (once) and return its job ID
+   *
+   * @param chainedFrom - Jobs this one runs after without consuming them in params
+   * @param inherited - Params taken from the consuming operation unless set on this one
+   */
+  private addOperation(
+    op: Operation,
+    chainedFrom: string[] = [],
+    inherited: Record<string, unknown> = {},
+  ): string {
+    const existingId = this.jobIds.get(op);
+    if (existingId) return existingId;
+
+    if (this.inProgress.has(op)) {
+      throw new Error(`Operation "${op.type}" depends on its own output`);
+    }
+    this.inProgress.add(op);
+
+    const params: Record<string, unknown> = { ...inherited, ...op.params };
+
+    // Operations with a video input (addSubtitles, reframe, ...) read it from videoUrl
+    const videoInput = op.inputs?.[0];
+    if (!params.videoUrl && isOperation(videoInput)) {
+      params.videoUrl = this.reference(videoInput);
+    }
+
+    // Nested transcriptions transcribe the same video as the consuming operation
+    if (isOperation(params.transcript) && params.videoUrl) {
+      params.transcript = this.reference(params.transcript, {
+        videoUrl: params.videoUrl,
+      });
+    }
+
+    if (op.type === "merge" && Array.isArray(params.items)) {
+      params.items = params.items.map((item) => {
+        const { operation, ...rest } = item as Record<string, unknown>;
+        return isOperation(operation)
+          ? { ...rest, url: this.reference(operation) }
+          : rest;
+      });
+    }
+
+    if (op.type === "layer" && Array.isArray(params.layers)) {
+      // A single media URL is sent as an array for backend compatibility
+      params.layers = params.layers.map((layer) =>
+        isPlainObject(layer) && typeof layer.media === "string"
+          ? { ...layer, media: [layer.media] }
+          : layer,
+      );
+    }
+
+    const dependsOn = new Set(chainedFrom);
+    const resolvedParams = this.resolveParams(params, dependsOn) as Record<
+      string,
+      unknown
+    >;
+
+    const id = `job${this.counter++}`;
+    this.jobs.push({
+      id,
+      type: op.type as OperationType,
+      params: resolvedParams,
+      dependsOn: dependsOn.size > 0 ? [...dependsOn] : undefined,
+      output: `$${id}`,
+    });
+
+    this.inProgress.delete(op);
+    this.jobIds.set(op, id);
+    return id;
+  }
+
+  private reference(
+    op: Operation,
+    inherited?: Record<string, unknown>,
+  ): JobReference {
+    return jobRef(this.addOperation(op, [], inherited));
+  }
+
+  /**
+   * Replace nested operations with job references at any depth and collect
+   * every referenced job into dependsOn
+   */
+  private resolveParams(value: unknown, dependsOn: Set<string>): unknown {
+    if (typeof value === "string") {
+      if (value.startsWith(JOB_REFERENCE_PREFIX)) {
+        dependsOn.add(value.slice(JOB_REFERENCE_PREFIX.length));
+      }
+      return value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolveParams(item, dependsOn));
+    }
+
+    if (isOperation(value)) {
+      return this.resolveParams(this.reference(value), dependsOn);
+    }
+
+    if (isPlainObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.resolveParams(item, dependsOn),
+        ]),
+      );
+    }
+
+    return value;
+  }
+}
@@ -45,6 +45,8 @@ export interface ImageModel<TOptions extends ProviderConfig = ProviderConfig> {
   provider: MediaProvider;
   modelId: string;
   options: TOptions;
+  /** Providers that serve the same model if this provider fails */
+  fallbackProviders?: MediaProvider[];
 }
 
 export interface AudioModel<TOptions extends ProviderConfig = ProviderConfig> {
@@ -1,3 +1,5 @@
+import type { ExecutionEvent } from "../types/api-types.js";
+
 /**
  * Base interface for all media results (video, audio, image)
  * Contains the essential fields that all media types share
@@ -38,7 +40,16 @@ export type OperationType =
   | "addSubtitles"
   | "removeBackground"
   | "removeImageBackground"
-  | "layer";
+  | "layer"
+  | "thumbnail"
+  | "toGif"
+  | "extractAudio"
+  | "transcode"
+  | "trim"
+  | "speed"
+  | "loop"
+  | "reverse"
+  | "overlayText";
 
 export interface VideoOperation {
   type: OperationType;
@@ -124,6 +135,51 @@ export interface JobNode {
   params: Record<string, unknown>;
   dependsOn?: string[];
   output: string;
+  /** Set to false to always run this job instead of reusing a cached output */
+  cache?: boolean;
+  /** Retry failed attempts of this job (not retried by default) */
+  retry?: RetryPolicy;
+}
+
+/**
+ * Kinds of provider failures. Rate limits, server errors, timeouts and full
+ * provider queues are transient; invalid input and content rejections are not.
+ */
+export type ProviderErrorClass =
+  | "rate_limited"
+  | "server_error"
+  | "timeout"
+  | "queue_full"
+  | "invalid_input"
+  | "content_rejected"
+  | "unknown";
+
+export interface RetryPolicy {
+  /** Total attempts including the first one, up to 10 */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds (default: 5000) */
+  backoffMs?: number;
+  /** Factor the delay grows by for every further retry (default: 2) */
+  backoffMultiplier?: number;
+  /** Upper bound for the delay in milliseconds (default: 300000) */
+  maxBackoffMs?: number;
+  /** Error classes to retry (default: the transient ones) */
+  retryOn?: ProviderErrorClass[];
+}
+
+/**
+ * Settings of a test-mode execution. Only used with test API keys (sy_test_),
+ * whose provider jobs return placeholder media instead of calling providers.
+ */
+export interface TestModeOptions {
+  /** How long each provider job runs in milliseconds, up to 600000 (default: 3000) */
+  delayMs?: number;
+  /** Ids of plan jobs whose provider jobs fail */
+  failJobs?: string[];
+  /** How many attempts of those jobs fail before one succeeds (default: all) */
+  failAttempts?: number;
+  /** Error the failing attempts report (default: a 503, which retry policies cover) */
+  failureError?: string;
 }
 
 export interface PipelineProgress {
@@ -135,10 +191,29 @@ export interface PipelineProgress {
 
 export interface PipelineExecution {
   id: string;
-  status: "pending" | "processing" | "completed" | "failed";
+  status: "pending" | "processing" | "completed" | "failed" | "cancelled";
   result?: MediaResult;
   onComplete(callback: (result: MediaResult) => void): void;
   onError(callback: (error: Error) => void): void;
+  /**
+   * Stop the execution. Pending jobs are dropped and in-flight provider
+   * predictions are cancelled where the provider supports it.
+   */
+  cancel(): Promise<void>;
+  /**
+   * Job and execution events as they happen (queued, started, progress,
+   * completed, failed), ending with execution.completed.
+   *
+   * @example
+   * ```typescript
+   * for await (const event of execution.events()) {
+   *   if (event.type === "job.progress") {
+   *     console.log(event.jobId, event.stage, event.percentage);
+   *   }
+   * }
+   * ```
+   */
+  events(): AsyncIterableIterator<ExecutionEvent>;
 }
 
 export interface ExecuteOptions {
@@ -173,6 +248,21 @@ export interface ExecuteOptions {
     fal?: string;
     "google-cloud"?: string;
   };
+  /**
+   * Set to false to run every job even if an identical job completed recently.
+   * By default, jobs reuse the output of a matching earlier job in your organization.
+   */
+  cache?: boolean;
+  /**
+   * Retry policy for every job that doesn't set its own `retry`.
+   * By default, failed jobs are not retried.
+   */
+  retry?: RetryPolicy;
+  /**
+   * Delay and failure injection for executions of test API keys (sy_test_).
+   * Ignored for live keys.
+   */
+  testMode?: TestModeOptions;
 }
 
 export interface Pipeline {
@@ -5,6 +5,8 @@ export {
   videoModel,
   type AudioModelName,
   type ImageModelName,
+  type ImageModelProviderOptions,
+  type ModelProviderOptions,
   type VideoModelName,
 } from "./models.js";
 
@@ -41,12 +43,26 @@ export type {
 } from "./compose/pipeline.js";
 
 export { executeFromPlan } from "./compose/execute-from-plan.js";
+export { jobRef } from "./compose/plan-compiler.js";
+export type { JobReference } from "./compose/plan-compiler.js";
 
 export type {
+  CancelExecutionResponse,
   ErrorResponse,
   ExecuteResponse,
+  ExecutionCompletedEvent,
+  ExecutionEvent,
+  ExecutionSnapshotEvent,
   ExecutionStatusResponse,
+  JobCompletedEvent,
+  JobFailedEvent,
+  JobProgressEvent,
+  JobQueuedEvent,
+  JobStartedEvent,
+  MediaOutput,
   MediaResult,
+  PlanDiagnostic,
+  ValidatePlanResponse,
 } from "./types/api-types.js";
 
 export { generateVideo } from "./compose/generate-video.js";
@@ -78,23 +94,53 @@ export type {
 
 export {
   addSubtitles,
+  extractAudio,
   layers,
   lipSync,
+  loop,
   merge,
+  overlayText,
   reframe,
   removeBackground,
+  reverse,
+  speed,
+  thumbnail,
+  toGif,
+  transcode,
+  trim,
 } from "./compose/operations.js";
 export type {
+  DuckingOptions,
+  ExtractAudioOptions,
   LipSyncOptions,
+  LoopOptions,
+  LoudnessOptions,
   MergeItem,
   MergeItemWithOptions,
   MergeMediaType,
   MergeOperation,
+  MergeOptions,
+  MergeTransition,
+  MergeTransitionType,
+  OverlayTextOptions,
   ProcessedMergeItem,
   ReframeOptions,
+  ReframeStrategy,
   RemoveBackgroundOptions,
+  ReverseOptions,
+  SpeedOptions,
   SubtitlesOptions,
+  TextAlignment,
+  TextLayer,
+  ThumbnailOptions,
+  ToGifOptions,
+  TranscodeOptions,
+  TransitionEasing,
+  TrimOptions,
+  KeyframeEasing,
+  LayerAudioTrack,
   LayerItem,
+  LayerKeyframe,
   TimelineItem,
   LayersOptions,
   PlacementPreset,
@@ -106,6 +152,8 @@ export type {
   CaptionsOptions,
   CaptionStyle,
   CaptionWord,
+  SpeakerStyle,
+  SubtitleFormat,
 } from "./compose/captions.js";
 
 export { video } from "./compose/video.js";
@@ -121,6 +169,9 @@ export type {
   LayerOperation,
   MediaResult as CoreMediaResult,
   OperationType,
+  ProviderErrorClass,
+  RetryPolicy,
+  TestModeOptions,
   Video,
   VideoNode,
   VideoOperation,
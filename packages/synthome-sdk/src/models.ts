@@ -46,6 +46,7 @@ export type VideoModelName =
   | "minimax/video-01"
   | "veed/fabric-1.0"
   | "veed/fabric-1.0/fast"
+  | "sync/lipsync-2"
   | "arielreplicate/robust_video_matting"
   | "nateraw/video-background-remover";
 
@@ -79,6 +80,35 @@ export interface ModelOptions {
   apiKey?: string;
 }
 
+/**
+ * Options object accepted by imageModel/videoModel/audioModel
+ */
+export interface ModelProviderOptions<T extends string> {
+  /**
+   * The provider to use for this model
+   */
+  provider: ProvidersForModel<T>;
+
+  /**
+   * Optional API key for the provider
+   */
+  apiKey?: string;
+}
+
+/**
+ * Options object accepted by imageModel
+ */
+export interface ImageModelProviderOptions<
+  T extends string,
+> extends ModelProviderOptions<T> {
+  /**
+   * Providers to try, in order, when the provider fails (e.g. it is down or
+   * your organization has no key for it). Options are converted to each
+   * provider's format automatically.
+   */
+  fallbackProviders?: ProvidersForModel<T>[];
+}
+
 // ============================================================================
 // Internal helper to create model instance
 // ============================================================================
@@ -87,27 +117,43 @@ function createModelInstance(
   unifiedModelName: string,
   provider: VideoProvider,
   apiKey?: string,
+  fallbackProviders?: VideoProvider[],
 ): VideoModel<any> | ImageModel<any> | AudioModel<any> {
   // Get the provider-specific model ID
   const { modelId } = getProviderModelId(unifiedModelName, provider);
 
+  // Throws if a fallback provider doesn't offer this model
+  fallbackProviders?.forEach((fallbackProvider) =>
+    getProviderModelId(unifiedModelName, fallbackProvider),
+  );
+
   // Create the model instance using the appropriate provider function
   const providerConfig: ProviderConfig = { apiKey };
 
+  let instance: VideoModel<any> | ImageModel<any> | AudioModel<any>;
   switch (provider) {
     case "replicate":
-      return replicate(modelId, providerConfig);
+      instance = replicate(modelId, providerConfig);
+      break;
     case "fal":
-      return fal(modelId, providerConfig);
+      instance = fal(modelId, providerConfig);
+      break;
     case "google-cloud":
-      return googleCloud(modelId, providerConfig);
+      instance = googleCloud(modelId, providerConfig);
+      break;
     case "hume":
-      return hume(modelId, providerConfig);
+      instance = hume(modelId, providerConfig);
+      break;
     case "elevenlabs":
-      return elevenlabs(modelId, providerConfig);
+      instance = elevenlabs(modelId, providerConfig);
+      break;
     default:
       throw new Error(`Unsupported provider: ${provider}`);
   }
+
+  return fallbackProviders?.length
+    ? { ...instance, fallbackProviders }
+    : instance;
 }
 
 // ============================================================================
@@ -143,7 +189,7 @@ export function imageModel<T extends ImageModelName>(
  */
 export function imageModel<T extends ImageModelName>(
   modelName: T,
-  options: { provider: ProvidersForModel<T>; apiKey?: string },
+  options: ImageModelProviderOptions<T>,
 ): ImageModel<any>;
 
 /**
@@ -151,20 +197,23 @@ export function imageModel<T extends ImageModelName>(
  */
 export function imageModel<T extends ImageModelName>(
   modelName: T,
-  providerOrOptions:
-    | ProvidersForModel<T>
-    | { provider: ProvidersForModel<T>; apiKey?: string },
+  providerOrOptions: ProvidersForModel<T> | ImageModelProviderOptions<T>,
 ): ImageModel<any> {
   const provider =
     typeof providerOrOptions === "string"
       ? providerOrOptions
       : providerOrOptions.provider;
-  const apiKey =
+  const { apiKey, fallbackProviders } =
     typeof providerOrOptions === "object"
-      ? providerOrOptions.apiKey
-      : undefined;
+      ? providerOrOptions
+      : ({} as Partial<ImageModelProviderOptions<T>>);
 
-  return createModelInstance(modelName, provider, apiKey) as ImageModel<any>;
+  return createModelInstance(
+    modelName,
+    provider,
+    apiKey,
+    fallbackProviders,
+  ) as ImageModel<any>;
 }
 
 // ============================================================================
@@ -200,7 +249,7 @@ export function videoModel<T extends VideoModelName>(
  */
 export function videoModel<T extends VideoModelName>(
   modelName: T,
-  options: { provider: ProvidersForModel<T>; apiKey?: string },
+  options: ModelProviderOptions<T>,
 ): VideoModel<any>;
 
 /**
@@ -208,9 +257,7 @@ export function videoModel<T extends VideoModelName>(
  */
 export function videoModel<T extends VideoModelName>(
   modelName: T,
-  providerOrOptions:
-    | ProvidersForModel<T>
-    | { provider: ProvidersForModel<T>; apiKey?: string },
+  providerOrOptions: ProvidersForModel<T> | ModelProviderOptions<T>,
 ): VideoModel<any> {
   const provider =
     typeof providerOrOptions === "string"
@@ -257,7 +304,7 @@ export function audioModel<T extends AudioModelName>(
  */
 export function audioModel<T extends AudioModelName>(
   modelName: T,
-  options: { provider: ProvidersForModel<T>; apiKey?: string },
+  options: ModelProviderOptions<T>,
 ): AudioModel<any>;
 
 /**
@@ -265,9 +312,7 @@ export function audioModel<T extends AudioModelName>(
  */
 export function audioModel<T extends AudioModelName>(
   modelName: T,
-  providerOrOptions:
-    | ProvidersForModel<T>
-    | { provider: ProvidersForModel<T>; apiKey?: string },
+  providerOrOptions: ProvidersForModel<T> | ModelProviderOptions<T>,
 ): AudioModel<any> {
   const provider =
     typeof providerOrOptions === "string"
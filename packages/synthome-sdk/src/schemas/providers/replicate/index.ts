@@ -222,6 +222,7 @@ export const parseReplicateAudio: PollingParser = (response: unknown) => {
 
 export * from "./elevenlabs/index.js";
 export * from "./image-background-remover/index.js";
+export * from "./lipsync/index.js";
 export * from "./minimax/index.js";
 export * from "./nanobanana/index.js";
 export * from "./seedance/index.js";
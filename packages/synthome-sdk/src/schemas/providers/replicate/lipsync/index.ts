@@ -0,0 +1,8 @@
+export {
+  lipSyncModels,
+  lipsync2RawOptionsSchema,
+  type LipSyncModelId,
+  type Lipsync2RawOptions,
+} from "./schema.js";
+
+export { lipsync2Mapping } from "./mapping.js";
@@ -0,0 +1,24 @@
+import type {
+  LipSyncMapping,
+  UnifiedLipSyncOptions,
+} from "../../../unified.js";
+import type { Lipsync2RawOptions } from "./schema.js";
+
+/**
+ * Parameter mapping for sync/lipsync-2
+ * Unified names match the provider names; sync_mode keeps its default
+ */
+export const lipsync2Mapping: LipSyncMapping<Partial<Lipsync2RawOptions>> = {
+  toProviderOptions: (unified: UnifiedLipSyncOptions) => {
+    return {
+      video: unified.video,
+      audio: unified.audio,
+    };
+  },
+  fromProviderOptions: (provider: Partial<Lipsync2RawOptions>) => {
+    return {
+      video: provider.video,
+      audio: provider.audio,
+    };
+  },
+};
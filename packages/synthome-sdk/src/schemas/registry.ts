@@ -163,6 +163,14 @@ export const modelRegistry: Record<AllModelIds, ModelRegistryEntry> = {
     pollingParser: parseHumeAudio,
     capabilities: humeCapabilities,
   },
+  "sync/lipsync-2": {
+    provider: "replicate",
+    mediaType: "video",
+    schema: replicateSchemas["sync/lipsync-2"],
+    webhookParser: parseReplicateWebhook,
+    pollingParser: parseReplicatePolling,
+    capabilities: replicateModelCapabilities["sync/lipsync-2"],
+  },
 };
 
 export function getModelInfo(modelId: string): ModelRegistryEntry | undefined {
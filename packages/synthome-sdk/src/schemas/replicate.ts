@@ -19,12 +19,15 @@ import {
   naterawVideoBackgroundRemoverMapping,
   imageBackgroundRemoverModels,
   nanobananaMapping,
+  lipSyncModels,
+  lipsync2Mapping,
   type SeedanceModelId,
   type SeedreamImageModelId,
   type ElevenLabsAudioModelId,
   type VideoMattingModelId,
   type VideoBackgroundRemoverModelId,
   type ImageBackgroundRemoverModelId,
+  type LipSyncModelId,
   type RobustVideoMattingRawOptions,
   type NaterawVideoBackgroundRemoverRawOptions,
 } from "./providers/replicate/index.js";
@@ -53,6 +56,7 @@ export const replicateSchemas = {
   ...videoMattingModels,
   ...videoBackgroundRemoverModels,
   ...imageBackgroundRemoverModels,
+  ...lipSyncModels,
 } as const;
 
 export type Seedance1ProOptions = z.infer<typeof seedance1ProOptionsSchema>;
@@ -76,7 +80,8 @@ export type ReplicateModelId =
   | ElevenLabsAudioModelId
   | VideoMattingModelId
   | VideoBackgroundRemoverModelId
-  | ImageBackgroundRemoverModelId;
+  | ImageBackgroundRemoverModelId
+  | LipSyncModelId;
 
 // Categorize models by media type for type-safe model creation
 export type ReplicateVideoModelId = SeedanceModelId | MinimaxModelId;
@@ -85,6 +90,7 @@ export type ReplicateImageModelId =
   | NanobananaImageModelId
   | ImageBackgroundRemoverModelId;
 export type ReplicateAudioModelId = ElevenLabsAudioModelId;
+export type ReplicateLipSyncModelId = LipSyncModelId;
 
 export interface ReplicateModels {
   "bytedance/seedance-1-pro": Seedance1ProOptions;
@@ -101,6 +107,7 @@ export interface ReplicateModels {
   "codeplugtech/background_remover": z.infer<
     (typeof imageBackgroundRemoverModels)["codeplugtech/background_remover"]
   >;
+  "sync/lipsync-2": z.infer<(typeof lipSyncModels)["sync/lipsync-2"]>;
 }
 
 export const replicateMappings = {
@@ -110,6 +117,7 @@ export const replicateMappings = {
   "google/nano-banana": nanobananaMapping,
   "arielreplicate/robust_video_matting": videoMattingMapping,
   "nateraw/video-background-remover": naterawVideoBackgroundRemoverMapping,
+  "sync/lipsync-2": lipsync2Mapping,
 } as const;
 
 // Model-specific capabilities
@@ -157,6 +165,11 @@ export const replicateModelCapabilities: Record<
     supportsPolling: true,
     defaultStrategy: "polling",
   },
+  "sync/lipsync-2": {
+    supportsWebhooks: true,
+    supportsPolling: true,
+    defaultStrategy: "webhook",
+  },
 };
 
 export {
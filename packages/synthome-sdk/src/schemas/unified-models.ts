@@ -187,6 +187,21 @@ export const unifiedModelRegistry = {
     },
   },
 
+  // Sync Labs Lipsync (video-to-video lip sync)
+  "sync/lipsync-2": {
+    unifiedName: "sync/lipsync-2",
+    displayName: "Lipsync 2",
+    creator: "sync",
+    mediaType: "video" as const,
+    providers: {
+      replicate: "sync/lipsync-2",
+    },
+    metadata: {
+      description: "Video-to-video lip sync",
+      tags: ["lip-sync", "video-to-video", "dubbing"],
+    },
+  },
+
   // ElevenLabs TTS
   "elevenlabs/turbo-v2.5": {
     unifiedName: "elevenlabs/turbo-v2.5",
@@ -30,6 +30,14 @@ export type UnifiedBackgroundRemovalOptions = z.infer<
   typeof unifiedBackgroundRemovalOptionsSchema
 >;
 
+// Lip Sync unified schema
+export const unifiedLipSyncOptionsSchema = z.object({
+  video: z.string().url(),
+  audio: z.string().url(),
+});
+
+export type UnifiedLipSyncOptions = z.infer<typeof unifiedLipSyncOptionsSchema>;
+
 // Image Generation unified schema (base schema without refinement for merging)
 export const unifiedImageOptionsBaseSchema = z.object({
   prompt: z.string().optional(),
@@ -56,13 +64,22 @@ export interface ParameterMapping<TUnified, TProviderOptions> {
 }
 
 // Backward compatibility - existing video generation mappings
-export interface VideoGenerationMapping<TProviderOptions>
-  extends ParameterMapping<UnifiedVideoOptions, TProviderOptions> {}
+export interface VideoGenerationMapping<
+  TProviderOptions,
+> extends ParameterMapping<UnifiedVideoOptions, TProviderOptions> {}
 
 // Background removal mappings
-export interface BackgroundRemovalMapping<TProviderOptions>
-  extends ParameterMapping<UnifiedBackgroundRemovalOptions, TProviderOptions> {}
+export interface BackgroundRemovalMapping<
+  TProviderOptions,
+> extends ParameterMapping<UnifiedBackgroundRemovalOptions, TProviderOptions> {}
+
+// Lip sync mappings
+export interface LipSyncMapping<TProviderOptions> extends ParameterMapping<
+  UnifiedLipSyncOptions,
+  TProviderOptions
+> {}
 
 // Image generation mappings
-export interface ImageGenerationMapping<TProviderOptions>
-  extends ParameterMapping<UnifiedImageOptions, TProviderOptions> {}
+export interface ImageGenerationMapping<
+  TProviderOptions,
+> extends ParameterMapping<UnifiedImageOptions, TProviderOptions> {}
@@ -16,15 +16,27 @@ export interface MediaResult {
   duration?: number;
   format?: string;
   size?: number;
+  outputs?: MediaOutput[]; // All outputs, when the last operation produced more than one
   [key: string]: any; // Allow additional metadata
 }
 
+/**
+ * One output of an operation, e.g. a captioned video and its subtitle files
+ */
+export interface MediaOutput {
+  type: "video" | "audio" | "image" | "subtitles";
+  url: string;
+  format?: string; // For subtitles: "srt", "vtt" or "json"
+  language?: string; // For captions: language of the text (translations)
+  mimeType?: string;
+}
+
 /**
  * Response from GET /api/execute/:id/status
  */
 export interface ExecutionStatusResponse {
   id: string;
-  status: "pending" | "processing" | "completed" | "failed";
+  status: "pending" | "processing" | "completed" | "failed" | "cancelled";
   jobs: JobStatus[];
   result: MediaResult | null;
   error: string | null;
@@ -32,6 +44,33 @@ export interface ExecutionStatusResponse {
   completedAt: Date | null;
 }
 
+/**
+ * Response from POST /api/execute/:id/cancel
+ */
+export interface CancelExecutionResponse {
+  executionId: string;
+  status: "cancelled";
+  cancelledJobs: number;
+}
+
+/**
+ * A problem found while validating an execution plan
+ */
+export interface PlanDiagnostic {
+  jobId?: string;
+  path: string; // JSON path, e.g. "jobs[2].params.prompt"
+  code: string;
+  message: string;
+}
+
+/**
+ * Response from POST /api/execute/validate
+ */
+export interface ValidatePlanResponse {
+  valid: boolean;
+  diagnostics: PlanDiagnostic[];
+}
+
 /**
  * Job status information
  */
@@ -41,6 +80,9 @@ export interface JobStatus {
   status: string;
   result: any;
   error: string | null;
+  cached: boolean; // Output reused from an earlier identical job (not billed)
+  provider: string | null; // Provider that served the job, after any fallback
+  queuePosition: number | null; // Place in the organization's queue while "throttled" (1 = next)
 }
 
 /**
@@ -49,4 +91,86 @@ export interface JobStatus {
 export interface ErrorResponse {
   error: string;
   details?: string;
+  diagnostics?: PlanDiagnostic[]; // Present when the execution plan is invalid
+}
+
+/**
+ * Current state of an execution, sent first on GET /api/execute/:id/events
+ */
+export interface ExecutionSnapshotEvent {
+  type: "execution.snapshot";
+  executionId: string;
+  status: ExecutionStatusResponse["status"];
+  jobs: JobStatus[];
+}
+
+/**
+ * A job attempt was sent to the queue (again after a retry or fallback)
+ */
+export interface JobQueuedEvent {
+  type: "job.queued";
+  executionId: string;
+  jobId: string;
+  operation: string;
+  attempt: number;
+  provider: string | null;
+}
+
+/**
+ * A worker picked up a job attempt
+ */
+export interface JobStartedEvent {
+  type: "job.started";
+  executionId: string;
+  jobId: string;
+  operation: string;
 }
+
+export interface JobProgressEvent {
+  type: "job.progress";
+  executionId: string;
+  jobId: string;
+  stage: string;
+  percentage: number;
+}
+
+export interface JobCompletedEvent {
+  type: "job.completed";
+  executionId: string;
+  jobId: string;
+  operation: string;
+  url: string | null;
+  cached: boolean;
+}
+
+export interface JobFailedEvent {
+  type: "job.failed";
+  executionId: string;
+  jobId: string;
+  operation: string;
+  error: string;
+  retryAt: string | null; // Set when another attempt is scheduled
+}
+
+/**
+ * The execution reached its final status - always the last event of a stream
+ */
+export interface ExecutionCompletedEvent {
+  type: "execution.completed";
+  executionId: string;
+  status: "completed" | "failed" | "cancelled";
+  result: MediaResult | null;
+  error: string | null;
+}
+
+/**
+ * Event streamed by GET /api/execute/:id/events
+ */
+export type ExecutionEvent =
+  | ExecutionSnapshotEvent
+  | JobQueuedEvent
+  | JobStartedEvent
+  | JobProgressEvent
+  | JobCompletedEvent
+  | JobFailedEvent
+  | ExecutionCompletedEvent;
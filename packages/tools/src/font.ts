@@ -0,0 +1,92 @@
+export type FontFormat = "ttf" | "otf";
+
+export interface FontInfo {
+  /** Family name renderers match fonts by, e.g. "Inter" */
+  family: string;
+  format: FontFormat;
+}
+
+// sfnt versions of TrueType ("\0\1\0\0", "true") and OpenType CFF ("OTTO") fonts
+const TRUETYPE_VERSIONS = [0x00010000, 0x74727565];
+const OPENTYPE_VERSION = 0x4f54544f;
+
+// name IDs: typographic family (16) is preferred over the legacy family (1)
+const FAMILY_NAME_IDS = [16, 1];
+
+/**
+ * Read the family name of a TrueType or OpenType font file.
+ * Returns null when the data isn't a font, or has no family name.
+ */
+export function readFontInfo(data: Uint8Array): FontInfo | null {
+  if (data.length < 12) {
+    return null;
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = view.getUint32(0);
+  const format: FontFormat | null = TRUETYPE_VERSIONS.includes(version)
+    ? "ttf"
+    : version === OPENTYPE_VERSION
+      ? "otf"
+      : null;
+  if (!format) {
+    return null;
+  }
+
+  // Table directory: tag, checksum, offset, length (16 bytes each)
+  const numTables = view.getUint16(4);
+  let nameOffset: number | undefined;
+  for (let i = 0; i < numTables; i++) {
+    const entry = 12 + i * 16;
+    if (entry + 16 > data.length) {
+      return null;
+    }
+    if (view.getUint32(entry) === 0x6e616d65 /* "name" */) {
+      nameOffset = view.getUint32(entry + 8);
+      break;
+    }
+  }
+  if (nameOffset === undefined || nameOffset + 6 > data.length) {
+    return null;
+  }
+
+  const count = view.getUint16(nameOffset + 2);
+  const stringsOffset = nameOffset + view.getUint16(nameOffset + 4);
+  const names = new Map<number, string>();
+
+  for (let i = 0; i < count; i++) {
+    const record = nameOffset + 6 + i * 12;
+    if (record + 12 > data.length) {
+      break;
+    }
+
+    const platformId = view.getUint16(record);
+    const nameId = view.getUint16(record + 6);
+    const length = view.getUint16(record + 8);
+    const offset = stringsOffset + view.getUint16(record + 10);
+    if (
+      !FAMILY_NAME_IDS.includes(nameId) ||
+      names.has(nameId) ||
+      offset + length > data.length
+    ) {
+      continue;
+    }
+
+    const bytes = data.subarray(offset, offset + length);
+    // Windows (3) and Unicode (0) names are UTF-16BE, Mac (1) names are Roman
+    if (platformId === 3 || platformId === 0) {
+      let name = "";
+      for (let j = 0; j + 1 < bytes.length; j += 2) {
+        name += String.fromCharCode((bytes[j]! << 8) | bytes[j + 1]!);
+      }
+      names.set(nameId, name);
+    } else if (platformId === 1) {
+      names.set(nameId, String.fromCharCode(...bytes));
+    }
+  }
+
+  const family = FAMILY_NAME_IDS.map((id) => names.get(id)?.trim()).find(
+    Boolean,
+  );
+  return family ? { family, format } : null;
+}
@@ -1 +1,2 @@
 export { generateId, generateIdWithLength } from "./id";
+export { readFontInfo, type FontFormat, type FontInfo } from "./font";